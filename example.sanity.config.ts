@@ -5,7 +5,7 @@
  */
 
 import { LocalSanityClientImpl } from './localSanityClient';
-import { LocalSanityClientConfig, LocalSanityClient } from './localSanityTypes';
+import { LocalSanityClientConfig, LocalSanityClient, LocalSchemaConfig } from './localSanityTypes';
 
 /**
  * Creates a factory function for producing configured LocalSanityClient instances.
@@ -29,6 +29,20 @@ export function createLocalClientFactory(baseConfig: LocalSanityClientConfig) {
   };
 }
 
+/**
+ * Schema definitions for the project, in the same shape as in `sanity.config.ts`.
+ */
+const schema: LocalSchemaConfig = {
+  types: [
+    // Example:
+    // defineType({
+    //   name: 'post',
+    //   type: 'document',
+    //   fields: [defineField({ name: 'title', type: 'string', validation: (Rule) => Rule.required() })],
+    // }),
+  ],
+};
+
 /**
  * Example "workspace" or project configuration for the LocalSanityClient.
  * This structure is inspired by Sanity's `defineConfig`.
@@ -56,18 +70,19 @@ export const localProjectConfig = {
    * This instance is pre-configured with a default dataset and log level.
    */
   clientFactory: createLocalClientFactory({
+    projectId: 'local-project-example', // Clients of the same project and dataset share documents and listeners
     dataset: 'production', // Default dataset for clients from this factory
     logLevel: 'info',      // Default log level
-    // localDataPath: './data/production', // Example: if persistence was desired
+    schema,                // Schema documents are validated against
+    // validation: 'strict', // Example: reject documents that break the schema's validation rules
+    // localDataPath: './data', // Example: persists to ./data/production
   }),
 
   /**
-   * Placeholder for schema definitions, similar to Sanity's structure.
-   * Not actively used by the LocalSanityClient itself but good for structural parity.
+   * Schema definitions, similar to Sanity's structure.
+   * Clients from the factory validate documents against them when `validation` is enabled.
    */
-  schema: {
-    types: [], // Example: define schema types here
-  },
+  schema,
 
   /**
    * Placeholder for plugins, similar to Sanity's structure.
@@ -86,15 +101,15 @@ export const localProjectConfig = {
 /*
 // Get a client instance using the default factory configuration
 const defaultClient = localProjectConfig.clientFactory();
-console.log('Default client config:', defaultClient.config);
+console.log('Default client config:', defaultClient.config());
 
 // Get a client instance overriding the dataset for staging
 const stagingClient = localProjectConfig.clientFactory({
   dataset: 'staging',
-  // localDataPath: './data/staging', // Example for staging data
+  // localDataPath: './data', // Example: persists to ./data/staging
   logLevel: 'debug',
 });
-console.log('Staging client config:', stagingClient.config);
+console.log('Staging client config:', stagingClient.config());
 
 async function runClientExamples() {
   try {
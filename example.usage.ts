@@ -32,7 +32,7 @@ async function main() {
     dataset: 'example-usage',
     logLevel: 'info', // Set to 'debug' for more verbose client output
   });
-  console.log('Client initialized with config:', client.config);
+  console.log('Client initialized with config:', client.config());
 
   let authorId: string;
   let postId: string;
@@ -81,7 +81,7 @@ async function main() {
   // --- 4. Patching Documents ---
   console.log('\n--- 4. Patching Documents ---');
   try {
-    const patchResult = await client.patch(postId, { title: 'My Updated First Post', views: 100 }).commit();
+    const patchResult = await client.patch(postId, { set: { title: 'My Updated First Post', views: 100 } }).commit();
     console.log('Patch Commit Result:', patchResult);
     // patchResult.results will contain an object like { id: postId, operation: 'patch', document: updatedDoc }
 
@@ -98,14 +98,14 @@ async function main() {
 
   const subscription = listener.subscribe((event) => {
     console.log(`Real-time Event Received (Count: ${++eventCount}):`, event);
-    // Example: event might be { type: 'create' | 'update' | 'delete', documentId: '...', document?: SanityDocument }
+    // Example: event is { type: 'mutation', transition: 'appear' | 'update' | 'disappear', documentId: '...', result?: SanityDocument, ... }
   });
   console.log('Subscribed to real-time updates for posts and authors.');
 
   try {
     // Trigger some events
     console.log('Performing operations to trigger listener...');
-    await client.patch(postId, { lastUpdatedBy: 'listener_test' }).commit();
+    await client.patch(postId).set({ lastUpdatedBy: 'listener_test' }).commit();
     const anotherPost = await client.create({ _id: 'post-listener-test', _type: 'post', title: 'Listener Test Post' } as SanityDocument);
     await client.delete(anotherPost._id);
 
@@ -0,0 +1,65 @@
+import { AssetStorage } from './localSanityTypes';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Stores asset files in a directory on disk, one file per asset contents.
+ * Files are written to a temporary name and renamed into place, so an interrupted write never leaves a partial asset.
+ */
+export class FileAssetStorage implements AssetStorage {
+  /**
+   * Creates an instance of FileAssetStorage.
+   * @param directory - The directory to store the files in. Created on the first write.
+   */
+  constructor(public readonly directory: string) {}
+
+  /**
+   * Writes a file, unless it already exists.
+   * @param file - The file name.
+   * @param contents - The file contents.
+   * @returns A promise that resolves with true if the file was written, or false if it already existed.
+   */
+  async write(file: string, contents: Uint8Array): Promise<boolean> {
+    const filePath = path.join(this.directory, file);
+    if (fs.existsSync(filePath)) {
+      return false;
+    }
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(`${filePath}.tmp`, contents);
+    await fs.promises.rename(`${filePath}.tmp`, filePath);
+    return true;
+  }
+
+  /**
+   * Reads a file.
+   * @param file - The file name.
+   * @returns A promise that resolves with the file contents, or null if the file does not exist.
+   */
+  async read(file: string): Promise<Uint8Array | null> {
+    try {
+      return await fs.promises.readFile(path.join(this.directory, file));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a file, if it exists.
+   * @param file - The file name.
+   * @returns A promise that resolves once the file is removed.
+   */
+  async remove(file: string): Promise<void> {
+    await fs.promises.rm(path.join(this.directory, file), { recursive: true, force: true });
+  }
+
+  /**
+   * Lists the files in the directory.
+   * @returns A promise that resolves with the file names, or none if the directory does not exist yet.
+   */
+  async list(): Promise<string[]> {
+    return fs.existsSync(this.directory) ? fs.promises.readdir(this.directory) : [];
+  }
+}
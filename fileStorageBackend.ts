@@ -0,0 +1,169 @@
+import { JournalEntry, StorageBackend, StoreSnapshot } from './localSanityTypes';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const SNAPSHOT_FILENAME = 'snapshot.json';
+const JOURNAL_FILENAME = 'journal.ndjson';
+
+/**
+ * Options for the file storage backend.
+ */
+export interface FileStorageBackendOptions {
+  /**
+   * Whether to fsync after every journal append and snapshot write.
+   * Disabling this trades durability on power loss for write throughput.
+   * Defaults to true.
+   */
+  fsync?: boolean;
+}
+
+/**
+ * A storage backend that persists a store to a directory on disk.
+ *
+ * The directory holds two files:
+ * - `snapshot.json`: the full set of documents as of a given journal sequence number.
+ * - `journal.ndjson`: one JSON-encoded journal entry per line, appended on every write.
+ *
+ * Compaction writes the new snapshot to a temporary file and renames it into place
+ * before truncating the journal, so a crash at any point leaves either the old or
+ * the new snapshot intact. Journal entries already covered by the snapshot are
+ * skipped on replay, and a torn trailing line from an interrupted append is discarded.
+ */
+export class FileStorageBackend implements StorageBackend {
+  private snapshotPath: string;
+  private journalPath: string;
+  private fsync: boolean;
+
+  /**
+   * Creates an instance of FileStorageBackend.
+   * @param directory - The directory to persist the store to. Created if it does not exist.
+   * @param options - Optional backend options.
+   */
+  constructor(private directory: string, options: FileStorageBackendOptions = {}) {
+    this.snapshotPath = path.join(directory, SNAPSHOT_FILENAME);
+    this.journalPath = path.join(directory, JOURNAL_FILENAME);
+    this.fsync = options.fsync ?? true;
+  }
+
+  /**
+   * Loads the snapshot and the journal from disk.
+   * A partially written last journal line is truncated away so later appends start on a clean line.
+   * @returns A promise that resolves with the snapshot (or null if none exists) and the journal entries.
+   * @throws Error if the snapshot or a complete journal line cannot be parsed.
+   */
+  async load(): Promise<{ snapshot: StoreSnapshot | null; journal: JournalEntry[] }> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Left behind if the process died in the middle of a compaction
+    await fs.promises.rm(`${this.snapshotPath}.tmp`, { force: true });
+
+    let snapshot: StoreSnapshot | null = null;
+    const snapshotContent = await readFileIfExists(this.snapshotPath);
+    if (snapshotContent !== null) {
+      try {
+        snapshot = JSON.parse(snapshotContent) as StoreSnapshot;
+      } catch (error) {
+        throw new Error(`Failed to parse snapshot ${this.snapshotPath}: ${(error as Error).message}`);
+      }
+    }
+
+    const journal: JournalEntry[] = [];
+    const journalContent = await readFileIfExists(this.journalPath);
+    if (journalContent) {
+      const lines = journalContent.split('\n');
+      // Everything after the last newline is either empty or a torn write
+      const tornLine = lines.pop() as string;
+      lines.forEach((line, index) => {
+        if (!line) {
+          return;
+        }
+        try {
+          journal.push(JSON.parse(line) as JournalEntry);
+        } catch (error) {
+          throw new Error(
+            `Failed to parse journal ${this.journalPath} at line ${index + 1}: ${(error as Error).message}`
+          );
+        }
+      });
+      if (tornLine) {
+        console.warn(`Discarding incomplete trailing entry in journal ${this.journalPath}`);
+        await fs.promises.truncate(this.journalPath, Buffer.byteLength(journalContent) - Buffer.byteLength(tornLine));
+      }
+    }
+
+    return { snapshot, journal };
+  }
+
+  /**
+   * Appends an entry to the journal file.
+   * @param entry - The journal entry to append.
+   * @returns A promise that resolves once the entry is written (and synced, unless disabled).
+   */
+  async append(entry: JournalEntry): Promise<void> {
+    const handle = await fs.promises.open(this.journalPath, 'a');
+    try {
+      await handle.write(`${JSON.stringify(entry)}\n`);
+      if (this.fsync) {
+        await handle.datasync();
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Atomically replaces the snapshot file and truncates the journal.
+   * @param snapshot - The snapshot to write.
+   * @returns A promise that resolves once the snapshot is in place and the journal is empty.
+   */
+  async compact(snapshot: StoreSnapshot): Promise<void> {
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    const handle = await fs.promises.open(tmpPath, 'w');
+    try {
+      await handle.write(JSON.stringify(snapshot));
+      if (this.fsync) {
+        await handle.sync();
+      }
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tmpPath, this.snapshotPath);
+    if (this.fsync) {
+      await syncDirectory(this.directory);
+    }
+    // If we crash before this, the snapshot's `seq` makes replay skip the stale entries
+    await fs.promises.writeFile(this.journalPath, '');
+  }
+}
+
+/**
+ * Reads a UTF-8 file, returning null if it does not exist.
+ * @param filePath - The path of the file to read.
+ * @returns A promise that resolves with the file contents, or null if the file does not exist.
+ */
+async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Flushes directory metadata (such as a rename) to disk.
+ * Not supported on every platform, so failures are ignored.
+ * @param directory - The directory to sync.
+ */
+async function syncDirectory(directory: string): Promise<void> {
+  let handle: fs.promises.FileHandle | undefined;
+  try {
+    handle = await fs.promises.open(directory, 'r');
+    await handle.sync();
+  } catch {
+    // Directory fsync is best-effort (e.g. not permitted on Windows)
+  } finally {
+    await handle?.close();
+  }
+}
@@ -1,7 +1,223 @@
-import { SanityDocument } from './localSanityTypes';
+import {
+  DocumentChange,
+  IndexLookup,
+  LocalClock,
+  LocalIdGenerator,
+  LocalIdKind,
+  QueryIndexName,
+  QueryStats,
+  SanityDocument,
+  StorageBackend,
+  StoreSnapshot,
+  TransactionInfo,
+  TransactionRecord,
+} from './localSanityTypes';
+import { getReferencedIds } from './localReferences';
+import { DocumentIndexes } from './localIndexes';
+
+/**
+ * Options for the in-memory store.
+ */
+export interface InMemoryStoreOptions {
+  /**
+   * Optional durable storage backend.
+   * When provided, the store is restored from it on startup and every write is journaled to it.
+   */
+  storage?: StorageBackend;
+
+  /**
+   * Number of journal entries after which the journal is compacted into a new snapshot.
+   * Defaults to 1000.
+   */
+  compactionThreshold?: number;
+
+  /**
+   * Optional clock for `_createdAt`, `_updatedAt` and transaction timestamps. Defaults to the system clock.
+   */
+  clock?: LocalClock;
+
+  /**
+   * Optional generator of transaction IDs. Defaults to random IDs.
+   */
+  generateId?: LocalIdGenerator;
+}
+
+/**
+ * Details recorded in the transaction log for a transaction.
+ */
+export interface TransactionDetails {
+  /**
+   * ISO 8601 timestamp of the transaction. Defaults to the time it is committed.
+   */
+  timestamp?: string;
+
+  /**
+   * The identity of the user making the transaction. Defaults to `local`.
+   */
+  author?: string;
+
+  /**
+   * The mutations of the transaction, in the Content Lake mutation format. Defaults to none.
+   */
+  mutations?: Record<string, any>[];
+}
+
+/**
+ * Generates a random transaction ID, used as the resulting revision (`_rev`) of the documents it touches.
+ * @returns A new transaction ID.
+ */
+export function generateTransactionId(): string {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(11));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generates a random ID: a UUID for documents, like `@sanity/client` assigns, and a transaction-style ID otherwise.
+ * @param kind - What the ID is for.
+ * @returns A new ID.
+ */
+export function generateRandomId(kind: LocalIdKind): string {
+  return kind === 'document' ? globalThis.crypto.randomUUID() : generateTransactionId();
+}
+
+/**
+ * Reads the current time from the system clock.
+ * @returns The current time.
+ */
+export function systemClock(): Date {
+  return new Date();
+}
+
+/**
+ * Reverse-reference index: the documents referencing each document, keyed by referenced ID.
+ * Each referencing document ID maps to whether any of its references is strong.
+ */
+export type ReferenceIndex = ReadonlyMap<string, ReadonlyMap<string, boolean>>;
+
+/**
+ * A copy-on-write view of the store's documents, used to stage the writes of a transaction.
+ * Reads fall through to the store until a document is written in the view;
+ * nothing is visible outside the view until the store commits it.
+ * Every document written through the view gets the transaction's revision as its `_rev`.
+ */
+export class CopyOnWriteView {
+  /**
+   * Staged documents, keyed by their _id. `null` marks a staged deletion.
+   */
+  private staged = new Map<string, SanityDocument | null>();
+
+  /**
+   * Creates an instance of CopyOnWriteView.
+   * @param base - The committed documents the view reads through to.
+   * @param revision - The revision assigned to documents written through the view.
+   * @param references - The reverse-reference index of the committed documents.
+   */
+  constructor(
+    private base: ReadonlyMap<string, SanityDocument>,
+    public readonly revision: string,
+    private references: ReferenceIndex = new Map()
+  ) {}
+
+  /**
+   * Retrieves a document by its ID, including staged writes.
+   * @param id - The ID of the document to retrieve.
+   * @returns The document, or undefined if it does not exist (or is staged for deletion).
+   */
+  get(id: string): SanityDocument | undefined {
+    if (this.staged.has(id)) {
+      return this.staged.get(id) ?? undefined;
+    }
+    return this.base.get(id);
+  }
+
+  /**
+   * Retrieves a document by its ID as it was before any staged writes.
+   * @param id - The ID of the document to retrieve.
+   * @returns The committed document, or undefined if it does not exist.
+   */
+  getCommitted(id: string): SanityDocument | undefined {
+    return this.base.get(id);
+  }
+
+  /**
+   * Stages a write of a full document, assigning it the view's revision.
+   * @param doc - The document to write.
+   * @returns The staged document, including its new `_rev`.
+   */
+  set(doc: SanityDocument): SanityDocument {
+    const stagedDoc = { ...doc, _rev: this.revision };
+    this.staged.set(doc._id, stagedDoc);
+    return stagedDoc;
+  }
+
+  /**
+   * Stages the deletion of a document.
+   * @param id - The ID of the document to delete.
+   */
+  delete(id: string): void {
+    this.staged.set(id, null);
+  }
+
+  /**
+   * Lists the documents that strongly reference a document, including staged writes.
+   * @param id - The ID of the referenced document.
+   * @returns The IDs of the referencing documents, excluding the document itself.
+   */
+  getStrongReferrers(id: string): string[] {
+    const referrers = new Set<string>();
+    for (const [referrerId, strong] of this.references.get(id) ?? []) {
+      if (strong && !this.staged.has(referrerId)) {
+        referrers.add(referrerId);
+      }
+    }
+    for (const [stagedId, doc] of this.staged) {
+      if (doc && getReferencedIds(stagedId, doc).get(id) === true) {
+        referrers.add(stagedId);
+      }
+    }
+    return Array.from(referrers);
+  }
+
+  /**
+   * Lists all documents in the view, including staged writes.
+   * @returns The documents visible in the view.
+   */
+  values(): SanityDocument[] {
+    const results: SanityDocument[] = [];
+    for (const [id, doc] of this.base) {
+      if (!this.staged.has(id)) {
+        results.push(doc);
+      }
+    }
+    for (const doc of this.staged.values()) {
+      if (doc) {
+        results.push(doc);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Lists the staged writes that actually change a committed document.
+   * @returns The changes to commit, in the order the documents were first written.
+   */
+  changes(): DocumentChange[] {
+    const changes: DocumentChange[] = [];
+    for (const [id, doc] of this.staged) {
+      // Deleting a document that never existed is a no-op
+      if (doc === null && !this.base.has(id)) {
+        continue;
+      }
+      changes.push({ id, document: doc });
+    }
+    return changes;
+  }
+}
 
 /**
  * A simple in-memory store for Sanity documents.
+ * Every write assigns the written documents a new revision (`_rev`), and is recorded in a transaction log
+ * so earlier revisions of a document can be retrieved.
  */
 export class InMemoryStore {
   /**
@@ -9,11 +225,78 @@ export class InMemoryStore {
    */
   private documents: Map<string, SanityDocument>;
 
+  private storage?: StorageBackend;
+  private compactionThreshold: number;
+
+  /**
+   * Resolves once the store has been restored from its storage backend.
+   */
+  private ready: Promise<void>;
+
+  /**
+   * Sequence number of the last journaled write.
+   */
+  private seq = 0;
+
+  /**
+   * Number of entries in the journal since the last compaction.
+   */
+  private journalLength = 0;
+
+  /**
+   * Secondary indexes of the committed documents, including the reverse-reference index, kept up to date on every write.
+   */
+  private indexes = new DocumentIndexes();
+
+  /**
+   * Number of queries served by each index, and the last query.
+   */
+  private queryStats: Pick<QueryStats, 'queries' | 'lastQuery'> = { queries: createQueryCounters() };
+
+  /**
+   * Committed transactions, oldest first.
+   */
+  private transactions: TransactionRecord[] = [];
+
+  /**
+   * Index into `transactions` of each transaction, keyed by transaction ID.
+   */
+  private transactionIndexes = new Map<string, number>();
+
+  /**
+   * Indexes into `transactions` of the transactions that changed each document, keyed by document ID.
+   */
+  private documentTransactions = new Map<string, number[]>();
+
+  /**
+   * Serializes writes, so transactions never interleave and journal entries land in sequence order.
+   */
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Returns the current time.
+   */
+  private clock: LocalClock;
+
+  /**
+   * Generates transaction IDs.
+   */
+  private generateId: LocalIdGenerator;
+
   /**
    * Initializes a new instance of the InMemoryStore.
+   * @param options - Optional store options, such as a storage backend for persistence.
    */
-  constructor() {
+  constructor(options: InMemoryStoreOptions = {}) {
     this.documents = new Map<string, SanityDocument>();
+    this.storage = options.storage;
+    this.compactionThreshold = options.compactionThreshold ?? 1000;
+    this.clock = options.clock ?? systemClock;
+    this.generateId = options.generateId ?? generateRandomId;
+    this.ready = this.storage ? this.restore(this.storage) : Promise.resolve();
+    // A failed restore is rethrown by every method awaiting `ready`. Handling it here as well keeps it from
+    // surfacing as an unhandled rejection when it fails before any method is called.
+    this.ready.catch(() => undefined);
   }
 
   /**
@@ -22,6 +305,7 @@ export class InMemoryStore {
    * @returns A promise that resolves with the document, or undefined if not found.
    */
   async get(id: string): Promise<SanityDocument | undefined> {
+    await this.ready;
     return this.documents.get(id);
   }
 
@@ -32,18 +316,19 @@ export class InMemoryStore {
    * @throws Error if a document with the same _id already exists.
    */
   async create(doc: SanityDocument): Promise<SanityDocument> {
-    if (this.documents.has(doc._id)) {
-      throw new Error(`Document with _id "${doc._id}" already exists.`);
-    }
-    // Ensure _createdAt and _updatedAt are set
-    const now = new Date().toISOString();
-    const newDoc = {
-      ...doc,
-      _createdAt: doc._createdAt || now,
-      _updatedAt: doc._updatedAt || now,
-    };
-    this.documents.set(newDoc._id, newDoc);
-    return newDoc;
+    return this.transact((view) => {
+      if (view.get(doc._id)) {
+        throw new Error(`Document with _id "${doc._id}" already exists.`);
+      }
+      // Ensure _createdAt and _updatedAt are set
+      const now = this.clock().toISOString();
+      const newDoc = {
+        ...doc,
+        _createdAt: doc._createdAt || now,
+        _updatedAt: doc._updatedAt || now,
+      };
+      return view.set(newDoc);
+    });
   }
 
   /**
@@ -54,17 +339,42 @@ export class InMemoryStore {
    * @throws Error if the document with the given id is not found.
    */
   async update(id: string, fields: Partial<SanityDocument>): Promise<SanityDocument> {
-    const existingDoc = this.documents.get(id);
-    if (!existingDoc) {
-      throw new Error(`Document with _id "${id}" not found.`);
-    }
-    const updatedDoc = {
-      ...existingDoc,
-      ...fields,
-      _updatedAt: new Date().toISOString(),
-    };
-    this.documents.set(id, updatedDoc);
-    return updatedDoc;
+    return this.transact((view) => {
+      const existingDoc = view.get(id);
+      if (!existingDoc) {
+        throw new Error(`Document with _id "${id}" not found.`);
+      }
+      const updatedDoc = {
+        ...existingDoc,
+        ...fields,
+        _updatedAt: this.clock().toISOString(),
+      };
+      return view.set(updatedDoc);
+    });
+  }
+
+  /**
+   * Replaces the contents of an existing document.
+   * Unlike `update`, fields missing from the new contents are removed.
+   * @param id - The ID of the document to replace.
+   * @param doc - The new contents of the document.
+   * @returns A promise that resolves with the replaced document.
+   * @throws Error if the document with the given id is not found.
+   */
+  async replace(id: string, doc: SanityDocument): Promise<SanityDocument> {
+    return this.transact((view) => {
+      const existingDoc = view.get(id);
+      if (!existingDoc) {
+        throw new Error(`Document with _id "${id}" not found.`);
+      }
+      const replacedDoc = {
+        ...doc,
+        _id: id,
+        _createdAt: existingDoc._createdAt,
+        _updatedAt: this.clock().toISOString(),
+      };
+      return view.set(replacedDoc);
+    });
   }
 
   /**
@@ -73,34 +383,409 @@ export class InMemoryStore {
    * @returns A promise that resolves with the deleted document, or undefined if it didn't exist.
    */
   async delete(id: string): Promise<SanityDocument | undefined> {
-    const docToDelete = this.documents.get(id);
-    if (docToDelete) {
-      this.documents.delete(id);
-    }
-    return docToDelete;
+    return this.transact((view) => {
+      const docToDelete = view.get(id);
+      if (docToDelete) {
+        view.delete(id);
+      }
+      return docToDelete;
+    });
   }
 
   /**
    * Queries the documents based on a filter function.
+   * With a lookup, only the documents found through the most selective index it can use are visited;
+   * otherwise every document is. Either way, documents are returned in the order they were first written.
    * @param filterFn - A function that takes a document and returns true if it matches the query.
+   * @param lookup - Optional conditions every returned document satisfies, used to narrow the query through the indexes.
    * @returns A promise that resolves with an array of documents that match the filter.
    */
-  async query(filterFn: (doc: SanityDocument) => boolean): Promise<SanityDocument[]> {
+  async query(filterFn: (doc: SanityDocument) => boolean, lookup: IndexLookup = {}): Promise<SanityDocument[]> {
+    await this.ready;
     const results: SanityDocument[] = [];
-    for (const doc of this.documents.values()) {
-      if (filterFn(doc)) {
+    if (Object.values(lookup).every((values) => values === undefined)) {
+      for (const doc of this.documents.values()) {
+        if (filterFn(doc)) {
+          results.push(doc);
+        }
+      }
+      this.recordQuery('scan', this.documents.size, results.length);
+      return results;
+    }
+
+    const plan = this.indexes.plan(lookup);
+    let candidates = 0;
+    for (const id of plan.ids) {
+      const doc = this.documents.get(id);
+      if (!doc) {
+        continue;
+      }
+      candidates++;
+      if (plan.matches(doc) && filterFn(doc)) {
         results.push(doc);
       }
     }
-    return results;
+    this.recordQuery(plan.index, candidates, results.length);
+    return this.indexes.sortByOrder(results);
+  }
+
+  /**
+   * Returns statistics on how queries were served since the store was created.
+   * @returns A promise that resolves with the statistics.
+   */
+  async getQueryStats(): Promise<QueryStats> {
+    await this.ready;
+    return {
+      queries: { ...this.queryStats.queries },
+      lastQuery: this.queryStats.lastQuery && { ...this.queryStats.lastQuery },
+      indexSizes: this.indexes.getSizes(),
+    };
+  }
+
+  /**
+   * Lists the documents that reference a document.
+   * @param id - The ID of the referenced document.
+   * @param options - Set `strongOnly` to leave out documents that only hold weak references.
+   * @returns A promise that resolves with the IDs of the referencing documents.
+   */
+  async getReferencingIds(id: string, options: { strongOnly?: boolean } = {}): Promise<string[]> {
+    await this.ready;
+    const referrers = this.indexes.references.get(id) ?? new Map<string, boolean>();
+    return Array.from(referrers)
+      .filter(([, strong]) => strong || !options.strongOnly)
+      .map(([referrerId]) => referrerId);
+  }
+
+  /**
+   * Retrieves a document as it was at a given revision.
+   * @param id - The ID of the document.
+   * @param revision - The revision, i.e. the ID of a transaction in the log. It does not have to have changed the document.
+   * @returns A promise that resolves with the document, null if it did not exist at that revision,
+   *   or undefined if the revision is not in the transaction log.
+   */
+  async getDocumentAtRevision(id: string, revision: string): Promise<SanityDocument | null | undefined> {
+    await this.ready;
+    const index = this.transactionIndexes.get(revision);
+    if (index === undefined) {
+      return undefined;
+    }
+    return this.getDocumentAtIndex(id, (candidate) => candidate <= index);
+  }
+
+  /**
+   * Retrieves a document as it was at a given time.
+   * @param id - The ID of the document.
+   * @param timestamp - The ISO 8601 timestamp.
+   * @returns A promise that resolves with the document, or null if it did not exist at that time.
+   * @throws Error if the timestamp is not valid.
+   */
+  async getDocumentAtTime(id: string, timestamp: string): Promise<SanityDocument | null> {
+    await this.ready;
+    const time = Date.parse(timestamp);
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid timestamp "${timestamp}".`);
+    }
+    return this.getDocumentAtIndex(id, (index) => Date.parse(this.transactions[index].timestamp) <= time);
+  }
+
+  /**
+   * Lists the transaction log.
+   * @returns A promise that resolves with every committed transaction, oldest first.
+   */
+  async getTransactions(): Promise<TransactionRecord[]> {
+    await this.ready;
+    return this.transactions.slice();
+  }
+
+  /**
+   * Runs a transaction against a copy-on-write view of the store.
+   * Transactions run one at a time. If the callback resolves, every write staged in the view is
+   * applied and journaled as a single entry; if it throws, none of them are.
+   * The callback must stage writes through the view, not through the store's own write methods.
+   * @param fn - Stages the writes of the transaction. May be async.
+   * @param transactionId - Optional ID of the transaction, which becomes the `_rev` of every written document.
+   *   A random ID is generated if not provided.
+   * @param details - Optional details to record in the transaction log.
+   * @returns A promise that resolves with the callback's result once the writes are committed.
+   * @throws The callback's error, or the storage backend's error if the writes could not be persisted.
+   */
+  async transact<T>(
+    fn: (view: CopyOnWriteView) => T | Promise<T>,
+    transactionId: string = this.generateId('transaction'),
+    details: TransactionDetails = {}
+  ): Promise<T> {
+    await this.ready;
+    return this.enqueueWrite(async () => {
+      const view = new CopyOnWriteView(this.documents, transactionId, this.indexes.references);
+      const result = await fn(view);
+      await this.commit(view.changes(), {
+        id: transactionId,
+        timestamp: details.timestamp ?? this.clock().toISOString(),
+        author: details.author ?? 'local',
+        mutations: details.mutations ?? [],
+      });
+      return result;
+    });
+  }
+
+  /**
+   * Runs a transaction callback like `transact`, but discards the staged writes instead of committing them.
+   * The callback still sees the store as it would be after its own writes, and runs in turn with other writes.
+   * @param fn - Stages the writes of the transaction. May be async.
+   * @param transactionId - Optional ID the transaction would have had. A random ID is generated if not provided.
+   * @returns A promise that resolves with the callback's result.
+   * @throws The callback's error.
+   */
+  async dryRun<T>(
+    fn: (view: CopyOnWriteView) => T | Promise<T>,
+    transactionId: string = this.generateId('transaction')
+  ): Promise<T> {
+    await this.ready;
+    return this.enqueueWrite(async () => fn(new CopyOnWriteView(this.documents, transactionId, this.indexes.references)));
   }
 
   /**
-   * Clears all documents from the store.
+   * Clears all documents and the transaction log from the store.
    * Useful for testing purposes.
    * @returns A promise that resolves when the store is cleared.
    */
   async clear(): Promise<void> {
-    this.documents.clear();
+    await this.reset();
+  }
+
+  /**
+   * Takes a snapshot of the documents and the transaction log, after the writes issued so far.
+   * @returns A promise that resolves with the snapshot.
+   */
+  async snapshot(): Promise<StoreSnapshot> {
+    await this.ready;
+    return this.enqueueWrite(async () =>
+      structuredClone({
+        seq: this.seq,
+        documents: Array.from(this.documents.values()),
+        transactions: this.transactions.slice(),
+      })
+    );
+  }
+
+  /**
+   * Replaces the documents and the transaction log with those of a snapshot, or clears them.
+   * No listener events are emitted for the replaced documents.
+   * @param snapshot - Optional snapshot to reset to, as returned by `snapshot()`. Its `seq` is ignored.
+   * @returns A promise that resolves once the store is reset (and, if persisted, compacted).
+   */
+  async reset(snapshot?: StoreSnapshot): Promise<void> {
+    await this.ready;
+    await this.enqueueWrite(async () => {
+      this.documents.clear();
+      this.indexes.clear();
+      this.transactions = [];
+      this.transactionIndexes.clear();
+      this.documentTransactions.clear();
+      if (snapshot) {
+        const { documents, transactions = [] } = structuredClone(snapshot);
+        this.applyChanges(documents.map((doc) => ({ id: doc._id, document: doc })));
+        for (const record of transactions) {
+          this.recordTransaction(record);
+        }
+      }
+      if (this.storage) {
+        await this.compact(this.storage);
+      }
+    });
+  }
+
+  /**
+   * Waits for all pending writes to reach the storage backend.
+   * @returns A promise that resolves once every write issued so far has been persisted.
+   */
+  async flush(): Promise<void> {
+    await this.ready;
+    await this.writeQueue;
+  }
+
+  /**
+   * Restores the documents from the storage backend by replaying the journal on top of the last snapshot.
+   * @param storage - The storage backend to restore from.
+   * @returns A promise that resolves once the store is restored.
+   */
+  private async restore(storage: StorageBackend): Promise<void> {
+    const { snapshot, journal } = await storage.load();
+    if (snapshot) {
+      this.applyChanges(snapshot.documents.map((doc) => ({ id: doc._id, document: doc })));
+      for (const record of snapshot.transactions ?? []) {
+        this.recordTransaction(record);
+      }
+      this.seq = snapshot.seq;
+    }
+    for (const entry of journal) {
+      // Entries at or below the snapshot's sequence number survived an interrupted compaction
+      if (entry.seq <= this.seq) {
+        continue;
+      }
+      this.applyChanges(entry.changes);
+      if (entry.transaction) {
+        this.recordTransaction({ ...entry.transaction, changes: entry.changes });
+      }
+      this.seq = entry.seq;
+    }
+    this.journalLength = journal.length;
+  }
+
+  /**
+   * Applies document changes to the in-memory map and the indexes.
+   * @param changes - The changes to apply, in order.
+   */
+  private applyChanges(changes: DocumentChange[]): void {
+    for (const change of changes) {
+      this.indexes.update(change.id, this.documents.get(change.id), change.document);
+      if (change.document) {
+        this.documents.set(change.id, change.document);
+      } else {
+        this.documents.delete(change.id);
+      }
+    }
+  }
+
+  /**
+   * Adds a transaction to the end of the transaction log.
+   * @param record - The transaction to add.
+   */
+  private recordTransaction(record: TransactionRecord): void {
+    const index = this.transactions.push(record) - 1;
+    this.transactionIndexes.set(record.id, index);
+    for (const { id } of record.changes) {
+      const indexes = this.documentTransactions.get(id) ?? [];
+      indexes.push(index);
+      this.documentTransactions.set(id, indexes);
+    }
+  }
+
+  /**
+   * Removes the last transaction from the transaction log.
+   */
+  private forgetLastTransaction(): void {
+    const record = this.transactions.pop();
+    if (!record) {
+      return;
+    }
+    this.transactionIndexes.delete(record.id);
+    for (const { id } of record.changes) {
+      const indexes = this.documentTransactions.get(id);
+      indexes?.pop();
+      if (indexes?.length === 0) {
+        this.documentTransactions.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Returns the state of a document after the last of its transactions that matches a predicate.
+   * @param id - The ID of the document.
+   * @param matches - Tests an index into the transaction log. Must hold for a prefix of the log.
+   * @returns The document, or null if it did not exist after the matching transactions.
+   */
+  private getDocumentAtIndex(id: string, matches: (index: number) => boolean): SanityDocument | null {
+    const indexes = this.documentTransactions.get(id) ?? [];
+    for (let i = indexes.length - 1; i >= 0; i--) {
+      if (matches(indexes[i])) {
+        const change = this.transactions[indexes[i]].changes.find((candidate) => candidate.id === id);
+        return change?.document ?? null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Applies changes in memory, records them in the transaction log and journals them as a single entry.
+   * If the journal entry cannot be written, the in-memory changes are rolled back.
+   * @param changes - The changes to commit.
+   * @param transaction - The transaction that made the changes.
+   * @returns A promise that resolves once the changes are applied and persisted.
+   */
+  private async commit(changes: DocumentChange[], transaction: TransactionInfo): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+    const previous = changes.map(({ id }) => ({ id, document: this.documents.get(id) ?? null }));
+    this.applyChanges(changes);
+    this.recordTransaction({ ...transaction, changes });
+    try {
+      await this.persist(changes, transaction);
+    } catch (error) {
+      this.forgetLastTransaction();
+      this.applyChanges(previous.reverse());
+      throw error;
+    }
+  }
+
+  /**
+   * Journals changes that have already been applied in memory, compacting the journal when it grows too long.
+   * Must only be called from within the write queue.
+   * @param changes - The changes to journal.
+   * @param transaction - The transaction that made the changes.
+   * @returns A promise that resolves once the changes are persisted. A no-op without a storage backend.
+   * @throws Error if the journal entry could not be written. A failed compaction is only logged,
+   *   since the journal entry is already durable.
+   */
+  private async persist(changes: DocumentChange[], transaction: TransactionInfo): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+    await this.storage.append({ seq: ++this.seq, changes, transaction });
+    if (++this.journalLength >= this.compactionThreshold) {
+      try {
+        await this.compact(this.storage);
+      } catch (error) {
+        console.error('Journal compaction failed, will retry on the next write:', error);
+      }
+    }
+  }
+
+  /**
+   * Writes a snapshot of the current documents and transaction log, and resets the journal.
+   * @param storage - The storage backend to compact.
+   * @returns A promise that resolves once the snapshot is written.
+   */
+  private async compact(storage: StorageBackend): Promise<void> {
+    // Captured synchronously so the snapshot matches `seq` exactly
+    const snapshot = {
+      seq: this.seq,
+      documents: Array.from(this.documents.values()),
+      transactions: this.transactions.slice(),
+    };
+    await storage.compact(snapshot);
+    this.journalLength = 0;
+  }
+
+  /**
+   * Counts a query towards the statistics.
+   * @param index - The index that served the query.
+   * @param candidates - The number of documents visited.
+   * @param matches - The number of documents returned.
+   */
+  private recordQuery(index: QueryIndexName, candidates: number, matches: number): void {
+    this.queryStats.queries[index]++;
+    this.queryStats.lastQuery = { index, candidates, matches };
   }
+
+  /**
+   * Runs a write after all previously enqueued writes have finished.
+   * A failed write is reported to its caller without blocking the writes queued after it.
+   * @param write - The write to run.
+   * @returns A promise that resolves or rejects with the outcome of the write.
+   */
+  private enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(write);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Creates query counters for every index, starting at zero.
+ * @returns The counters.
+ */
+function createQueryCounters(): Record<QueryIndexName, number> {
+  return { _id: 0, _type: 0, idPrefix: 0, references: 0, scan: 0 };
 }
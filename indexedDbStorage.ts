@@ -0,0 +1,192 @@
+/**
+ * @remarks
+ * IndexedDB persistence for the local backend in the browser: a storage backend per dataset, plus asset storage.
+ * All datasets and assets of a Studio live in one database, with the same snapshot-plus-journal layout as
+ * the file storage backend.
+ */
+
+import { AssetStorage, JournalEntry, StorageBackend, StoreSnapshot } from './localSanityTypes';
+
+const DATABASE_VERSION = 1;
+
+/**
+ * Snapshots, keyed by `<projectId>/<dataset>`.
+ */
+const SNAPSHOTS_STORE = 'snapshots';
+
+/**
+ * Journal entries, keyed by `[<projectId>/<dataset>, seq]`.
+ */
+const JOURNAL_STORE = 'journal';
+
+/**
+ * Asset file contents, keyed by file name.
+ */
+const ASSETS_STORE = 'assets';
+
+/**
+ * Opens (and if needed, creates) the database of a local backend.
+ * @param name - The database name.
+ * @returns A promise that resolves with the database.
+ * @throws Error if IndexedDB is not available, or the database cannot be opened.
+ */
+export function openLocalDatabase(name: string): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment.'));
+  }
+  const request = indexedDB.open(name, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    const database = request.result;
+    database.createObjectStore(SNAPSHOTS_STORE);
+    database.createObjectStore(JOURNAL_STORE);
+    database.createObjectStore(ASSETS_STORE);
+  };
+  request.onblocked = () => {
+    console.warn(`Opening IndexedDB database "${name}" is blocked by another tab with an older version open.`);
+  };
+  return toPromise(request);
+}
+
+/**
+ * A storage backend that persists a dataset to IndexedDB.
+ * Journal appends and compactions each commit as one IndexedDB transaction, so a closed tab leaves
+ * either the old or the new state.
+ */
+export class IndexedDbStorageBackend implements StorageBackend {
+  /**
+   * Creates an instance of IndexedDbStorageBackend.
+   * @param database - The database, as returned by `openLocalDatabase`.
+   * @param key - Key of the dataset within the database, e.g. `<projectId>/<dataset>`.
+   */
+  constructor(
+    private database: Promise<IDBDatabase>,
+    private key: string
+  ) {}
+
+  /**
+   * Loads the snapshot and the journal of the dataset.
+   * @returns A promise that resolves with the snapshot (or null if none exists) and the journal entries, in order.
+   */
+  async load(): Promise<{ snapshot: StoreSnapshot | null; journal: JournalEntry[] }> {
+    const transaction = (await this.database).transaction([SNAPSHOTS_STORE, JOURNAL_STORE], 'readonly');
+    const [snapshot, journal] = await Promise.all([
+      toPromise<StoreSnapshot | undefined>(transaction.objectStore(SNAPSHOTS_STORE).get(this.key)),
+      toPromise<JournalEntry[]>(transaction.objectStore(JOURNAL_STORE).getAll(this.getJournalRange())),
+    ]);
+    return { snapshot: snapshot ?? null, journal };
+  }
+
+  /**
+   * Appends an entry to the journal.
+   * @param entry - The journal entry.
+   * @returns A promise that resolves once the entry is committed.
+   */
+  async append(entry: JournalEntry): Promise<void> {
+    const transaction = (await this.database).transaction(JOURNAL_STORE, 'readwrite');
+    transaction.objectStore(JOURNAL_STORE).put(entry, [this.key, entry.seq]);
+    await whenComplete(transaction);
+  }
+
+  /**
+   * Replaces the snapshot and clears the journal.
+   * @param snapshot - The snapshot to write.
+   * @returns A promise that resolves once the snapshot is committed.
+   */
+  async compact(snapshot: StoreSnapshot): Promise<void> {
+    const transaction = (await this.database).transaction([SNAPSHOTS_STORE, JOURNAL_STORE], 'readwrite');
+    transaction.objectStore(SNAPSHOTS_STORE).put(snapshot, this.key);
+    transaction.objectStore(JOURNAL_STORE).delete(this.getJournalRange());
+    await whenComplete(transaction);
+  }
+
+  /**
+   * Returns the key range of the dataset's journal entries.
+   * @returns The key range.
+   */
+  private getJournalRange(): IDBKeyRange {
+    return IDBKeyRange.bound([this.key, -Infinity], [this.key, Infinity]);
+  }
+}
+
+/**
+ * Stores asset files in IndexedDB.
+ */
+export class IndexedDbAssetStorage implements AssetStorage {
+  /**
+   * Creates an instance of IndexedDbAssetStorage.
+   * @param database - The database, as returned by `openLocalDatabase`.
+   */
+  constructor(private database: Promise<IDBDatabase>) {}
+
+  /**
+   * Writes a file, unless it already exists.
+   * @param file - The file name.
+   * @param contents - The file contents.
+   * @returns A promise that resolves with true if the file was written, or false if it already existed.
+   */
+  async write(file: string, contents: Uint8Array): Promise<boolean> {
+    const transaction = (await this.database).transaction(ASSETS_STORE, 'readwrite');
+    const store = transaction.objectStore(ASSETS_STORE);
+    const exists = (await toPromise(store.count(file))) > 0;
+    if (!exists) {
+      store.put(contents, file);
+    }
+    await whenComplete(transaction);
+    return !exists;
+  }
+
+  /**
+   * Reads a file.
+   * @param file - The file name.
+   * @returns A promise that resolves with the file contents, or null if the file does not exist.
+   */
+  async read(file: string): Promise<Uint8Array | null> {
+    const transaction = (await this.database).transaction(ASSETS_STORE, 'readonly');
+    return ((await toPromise(transaction.objectStore(ASSETS_STORE).get(file))) as Uint8Array | undefined) ?? null;
+  }
+
+  /**
+   * Removes a file, if it exists.
+   * @param file - The file name.
+   * @returns A promise that resolves once the file is removed.
+   */
+  async remove(file: string): Promise<void> {
+    const transaction = (await this.database).transaction(ASSETS_STORE, 'readwrite');
+    transaction.objectStore(ASSETS_STORE).delete(file);
+    await whenComplete(transaction);
+  }
+
+  /**
+   * Lists the stored files.
+   * @returns A promise that resolves with the file names.
+   */
+  async list(): Promise<string[]> {
+    const transaction = (await this.database).transaction(ASSETS_STORE, 'readonly');
+    return (await toPromise(transaction.objectStore(ASSETS_STORE).getAllKeys())) as string[];
+  }
+}
+
+/**
+ * Waits for an IndexedDB request to succeed.
+ * @param request - The request.
+ * @returns A promise that resolves with the request's result.
+ */
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Waits for an IndexedDB transaction to commit.
+ * @param transaction - The transaction.
+ * @returns A promise that resolves once the transaction is committed.
+ */
+function whenComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted.'));
+  });
+}
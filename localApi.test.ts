@@ -4,8 +4,18 @@
  */
 
 import { InMemoryStore } from './inMemoryStore';
+import { FileStorageBackend } from './fileStorageBackend';
 import { LocalSanityClientImpl } from './localSanityClient';
-import { SanityDocument, AssetMetadata, LocalSanityClientConfig } from './localSanityTypes';
+import { SanityDocument, AssetMetadata, LocalSanityClientConfig, MutateSummary, SanityClientLike } from './localSanityTypes';
+import { LocalClientError, LocalMutationError, LocalQueryParseError } from './localErrors';
+import { LocalHttpServer } from './localHttpServer';
+import { createLocalStudioBackend } from './localStudioBackend';
+import { signWebhookPayload } from './localWebhooks';
+import { createSequentialIdGenerator, createTestClock, resetDataset, seedDataset, snapshotDataset } from './localFixtures';
+import type { SanityClient } from '@sanity/client';
+import { firstValueFrom } from 'rxjs';
+import * as http from 'http';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -128,6 +138,115 @@ async function testStoreClear() {
   assert(allDocs.length === 0, 'Store Clear: Store should be empty after clear.');
 }
 
+const persistenceTestDir = path.join(process.cwd(), 'local_data_test_store');
+
+// Helper to clean up persistence directory
+function cleanupPersistenceTestDir() {
+  if (fs.existsSync(persistenceTestDir)) {
+    fs.rmSync(persistenceTestDir, { recursive: true, force: true });
+  }
+}
+
+async function testStorePersistence() {
+  cleanupPersistenceTestDir();
+  try {
+    const store = new InMemoryStore({ storage: new FileStorageBackend(persistenceTestDir) });
+    await store.create({ _id: 'p1', _type: 'test', title: 'One', _createdAt: '2024-01-01T00:00:00.000Z', _updatedAt: '2024-01-02T00:00:00.000Z' });
+    const p2 = await store.create({ _id: 'p2', _type: 'test', title: 'Two', _createdAt: '', _updatedAt: '' });
+    await store.create({
+      _id: 'file-p3',
+      _type: 'sanity.fileAsset',
+      originalFilename: 'p3.txt',
+      size: 3,
+      mimeType: 'text/plain',
+      url: 'local_assets/file-p3.txt',
+      _createdAt: '',
+      _updatedAt: '',
+    });
+    await store.update('p2', { title: 'Two (updated)' });
+    await store.delete('p1');
+    const expected = await store.query(() => true);
+
+    const reloaded = new InMemoryStore({ storage: new FileStorageBackend(persistenceTestDir) });
+    const restored = await reloaded.query(() => true);
+    assert(JSON.stringify(restored) === JSON.stringify(expected), 'Store Persistence: Restored documents should match exactly.');
+    assert((await reloaded.get('p1')) === undefined, 'Store Persistence: Deleted document should stay deleted.');
+    assert((await reloaded.getDocumentAtRevision('p2', p2._rev!))?.title === 'Two', 'Store Persistence: Transaction log should be restored.');
+
+    // Simulate a crash in the middle of a journal append
+    fs.appendFileSync(path.join(persistenceTestDir, 'journal.ndjson'), '{"seq":99,"chan');
+    const afterTornWrite = new InMemoryStore({ storage: new FileStorageBackend(persistenceTestDir) });
+    await afterTornWrite.create({ _id: 'p4', _type: 'test', _createdAt: '', _updatedAt: '' });
+    const afterRecovery = new InMemoryStore({ storage: new FileStorageBackend(persistenceTestDir) });
+    assert((await afterRecovery.query(() => true)).length === 3, 'Store Persistence: Torn journal line should be discarded.');
+
+    // A failed restore must not crash the process before the store is used, only fail its methods
+    fs.writeFileSync(path.join(persistenceTestDir, 'snapshot.json'), '{"seq":');
+    const corrupted = new InMemoryStore({ storage: new FileStorageBackend(persistenceTestDir) });
+    await delay(10);
+    const restoreError = await corrupted.get('p2').then(() => null, (error: Error) => error);
+    assert(restoreError?.message.includes('Failed to parse snapshot') === true, 'Store Persistence: A failed restore should be rethrown by store methods.');
+  } finally {
+    cleanupPersistenceTestDir();
+  }
+}
+
+async function testStoreCompaction() {
+  cleanupPersistenceTestDir();
+  try {
+    const store = new InMemoryStore({ storage: new FileStorageBackend(persistenceTestDir), compactionThreshold: 3 });
+    for (let i = 0; i < 7; i++) {
+      await store.create({ _id: `c${i}`, _type: 'test', _createdAt: '', _updatedAt: '' });
+    }
+    await store.flush();
+    assert(fs.existsSync(path.join(persistenceTestDir, 'snapshot.json')), 'Store Compaction: Snapshot should be written.');
+    const journalLines = fs.readFileSync(path.join(persistenceTestDir, 'journal.ndjson'), 'utf8').split('\n').filter(Boolean);
+    assert(journalLines.length === 1, `Store Compaction: Expected 1 journal entry after compaction, got ${journalLines.length}.`);
+
+    // Simulate a crash after the snapshot rename but before the journal was truncated
+    const staleEntry = JSON.stringify({ seq: 1, changes: [{ id: 'c0', document: null }] });
+    fs.writeFileSync(path.join(persistenceTestDir, 'journal.ndjson'), `${staleEntry}\n${journalLines[0]}\n`);
+    const reloaded = new InMemoryStore({ storage: new FileStorageBackend(persistenceTestDir) });
+    assert((await reloaded.query(() => true)).length === 7, 'Store Compaction: Stale journal entries should be skipped.');
+  } finally {
+    cleanupPersistenceTestDir();
+  }
+}
+
+async function testStoreIndexes() {
+  const store = new InMemoryStore();
+  await store.create({ _id: 'idx1', _type: 'post', _createdAt: '', _updatedAt: '' });
+  await store.create({ _id: 'drafts.idx1', _type: 'post', author: { _ref: 'idxAuthor' }, _createdAt: '', _updatedAt: '' });
+  await store.create({ _id: 'idxAuthor', _type: 'author', _createdAt: '', _updatedAt: '' });
+  await store.create({ _id: 'versions.r1.idx2', _type: 'post', _createdAt: '', _updatedAt: '' });
+
+  let results = await store.query(() => true, { types: ['post'] });
+  assert(results.map((doc) => doc._id).join() === 'idx1,drafts.idx1,versions.r1.idx2', 'Store Indexes: Type lookup incorrect or out of order.');
+  let stats = await store.getQueryStats();
+  assert(stats.lastQuery!.index === '_type' && stats.lastQuery!.candidates === 3, 'Store Indexes: Type lookup should use the type index.');
+
+  results = await store.query(() => true, { types: ['post'], idPrefixes: ['drafts.'] });
+  assert(results.length === 1 && results[0]._id === 'drafts.idx1', 'Store Indexes: Combined lookup incorrect.');
+  assert((await store.getQueryStats()).lastQuery!.index === 'idPrefix', 'Store Indexes: Most selective index should be used.');
+  results = await store.query(() => true, { idPrefixes: ['versions.'] });
+  assert(results.length === 1 && results[0]._id === 'versions.r1.idx2', 'Store Indexes: Version prefix lookup incorrect.');
+  results = await store.query(() => true, { references: ['idxAuthor'] });
+  assert(results.length === 1 && results[0]._id === 'drafts.idx1', 'Store Indexes: Reference lookup incorrect.');
+  results = await store.query(() => true, { publishedIds: ['idx1'] });
+  assert(results.map((doc) => doc._id).join() === 'idx1,drafts.idx1', 'Store Indexes: Published ID lookup incorrect.');
+
+  await store.replace('idx1', { _id: 'idx1', _type: 'page', _createdAt: '', _updatedAt: '' });
+  assert((await store.query(() => true, { types: ['page'] })).length === 1, 'Store Indexes: Type index should follow updates.');
+  assert((await store.query(() => true, { types: ['post'] })).length === 2, 'Store Indexes: Type index should drop the old type.');
+  await store.delete('drafts.idx1');
+  assert((await store.query(() => true, { references: ['idxAuthor'] })).length === 0, 'Store Indexes: Deletes should be unindexed.');
+
+  await store.query(() => true);
+  stats = await store.getQueryStats();
+  assert(stats.lastQuery!.index === 'scan' && stats.queries.scan === 1, 'Store Indexes: Query without lookup should be a scan.');
+  assert(stats.indexSizes.types === 3, 'Store Indexes: Index sizes incorrect.');
+}
+
 
 // --- Test Functions for LocalSanityClientImpl ---
 
@@ -178,8 +297,78 @@ async function testClientFetchQueries() {
   result = await client.fetch('*');
   assert(Array.isArray(result) && result.length === 3, 'Client Fetch: Query all (*) failed.');
   
-  result = await client.fetch('*[_type == ^"invalid"]'); // Unsupported query
-  assert(Array.isArray(result) && result.length === 0, 'Client Fetch: Unsupported query should return empty array.');
+  try {
+    await client.fetch('*[_type == ^"invalid"]');
+    assert(false, 'Client Fetch: Invalid GROQ should throw.');
+  } catch (e) {
+    assert(e instanceof LocalQueryParseError, 'Client Fetch: Invalid GROQ should throw a LocalQueryParseError.');
+    assert((e as LocalQueryParseError).statusCode === 400, 'Client Fetch: Parse error status code should be 400.');
+    assert((e as LocalQueryParseError).details.type === 'queryParseError', 'Client Fetch: Parse error type incorrect.');
+  }
+}
+
+async function testClientFetchGroq() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+
+  await client.create({ _id: 'author-a', _type: 'author', name: 'Ada', _createdAt: '', _updatedAt: '' });
+  await client.create({ _id: 'author-b', _type: 'author', name: 'Brian', _createdAt: '', _updatedAt: '' });
+  for (let i = 1; i <= 4; i++) {
+    await client.create({
+      _id: `post-${i}`,
+      _type: 'post',
+      title: `Post ${i}`,
+      rank: i,
+      author: { _type: 'reference', _ref: i % 2 ? 'author-a' : 'author-b' },
+      _createdAt: '',
+      _updatedAt: '',
+    });
+  }
+
+  const projected = await client.fetch('*[_type == "post"] | order(rank desc) [0...2] { title, "authorName": author->name }');
+  assert(projected.length === 2, 'Client Fetch GROQ: Slice should return 2 results.');
+  assert(projected[0].title === 'Post 4' && projected[0].authorName === 'Brian', 'Client Fetch GROQ: Ordering or join incorrect.');
+  assert(Object.keys(projected[0]).length === 2, 'Client Fetch GROQ: Projection should only include projected fields.');
+
+  const count = await client.fetch('count(*[_type == "post" && references($authorId)])', { authorId: 'author-a' });
+  assert(count === 2, 'Client Fetch GROQ: count() with references() and params incorrect.');
+
+  const single = await client.fetch('*[_id == $id][0].title', { id: 'post-3' });
+  assert(single === 'Post 3', 'Client Fetch GROQ: Single value result incorrect.');
+}
+
+async function testClientIndexedQueries() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+
+  await client.create({ _id: 'iq-author', _type: 'author', name: 'Ada' });
+  await client.create({ _id: 'iq-post', _type: 'post', title: 'Published', author: { _type: 'reference', _ref: 'iq-author' } });
+  await client.create({ _id: 'drafts.iq-post', _type: 'post', title: 'Draft', author: { _type: 'reference', _ref: 'iq-author' } });
+  await client.create({ _id: 'iq-other', _type: 'page', title: 'Page' });
+
+  const titles = await client.fetch('*[_type == "post"].title');
+  assert(titles.join() === 'Published,Draft', 'Indexed Queries: Type query results incorrect.');
+  let { lastQuery } = await client.getQueryStats();
+  assert(lastQuery!.index === '_type' && lastQuery!.candidates === 2, 'Indexed Queries: Type query should use the type index.');
+
+  const referencing = await client.fetch('*[references($id)]._id', { id: 'iq-author' });
+  assert(referencing.join() === 'iq-post,drafts.iq-post', 'Indexed Queries: references() results incorrect.');
+  assert((await client.getQueryStats()).lastQuery!.index === 'references', 'Indexed Queries: references() should use the reference index.');
+
+  const drafts = await client.fetch('*[_type == "post"]{title}', {}, { perspective: 'drafts' });
+  assert(drafts.length === 1 && drafts[0].title === 'Draft', 'Indexed Queries: Perspective results incorrect.');
+  const published = await client.fetch('*[_type in ["post", "page"]].title', {}, { perspective: 'published' });
+  assert(published.join() === 'Published,Page', 'Indexed Queries: Published perspective results incorrect.');
+
+  // Dereferences need the whole dataset, but the filter is still served by an index
+  const joined = await client.fetch('*[_type == "post"][0]{"author": author->name}');
+  assert(joined.author === 'Ada', 'Indexed Queries: Dereference in projection incorrect.');
+  ({ lastQuery } = await client.getQueryStats());
+  assert(lastQuery!.index === 'scan', 'Indexed Queries: Dereference should read the whole dataset.');
+  const { queries } = await client.getQueryStats();
+  assert(queries._type >= 3, 'Indexed Queries: Type index usage should be counted.');
 }
 
 async function testClientTransactions() {
@@ -191,16 +380,17 @@ async function testClientTransactions() {
   const docToPatchId = 'txDocPatch';
   const docToDeleteId = 'txDocDelete';
 
-  await client.create({ _id: docToPatchId, _type: 'txTest', title: 'Initial', _createdAt: '', _updatedAt: '' });
+  const docToPatch = await client.create({ _id: docToPatchId, _type: 'txTest', title: 'Initial', _createdAt: '', _updatedAt: '' });
   await client.create({ _id: docToDeleteId, _type: 'txTest', title: 'To Delete', _createdAt: '', _updatedAt: '' });
 
   const receivedEvents: any[] = [];
   const listener = client.listen('*');
   const subscription = listener.subscribe(event => receivedEvents.push(event));
 
+  await delay(10); // Ensure _updatedAt changes
   const tx = client.transaction();
   tx.create({ _id: docToCreateId, _type: 'txTest', title: 'Created in TX', _createdAt: '', _updatedAt: '' } as SanityDocument);
-  tx.patch(docToPatchId, { title: 'Patched in TX', version: 2 });
+  tx.patch(docToPatchId, { set: { title: 'Patched in TX', version: 2 } });
   tx.delete(docToDeleteId);
 
   const commitResult = await tx.commit();
@@ -212,7 +402,7 @@ async function testClientTransactions() {
 
   const patchedInTx = await store.get(docToPatchId);
   assert(patchedInTx !== undefined && patchedInTx.title === 'Patched in TX' && (patchedInTx as any).version === 2, 'Client Transaction: Patch operation failed.');
-  assert(patchedInTx!._updatedAt !== docs.find(d=>d._id === docToPatchId)?._updatedAt, 'Client Transaction: Patch _updatedAt should change.');
+  assert(patchedInTx!._updatedAt !== docToPatch._updatedAt, 'Client Transaction: Patch _updatedAt should change.');
 
 
   const deletedInTx = await store.get(docToDeleteId);
@@ -221,13 +411,371 @@ async function testClientTransactions() {
   // Verify event emission
   await delay(50); // Allow events to propagate
   assert(receivedEvents.length >= 3, `Client Transaction: Expected at least 3 events, got ${receivedEvents.length}.`);
-  assert(receivedEvents.some(e => e.type === 'create' && e.documentId === docToCreateId), 'Client Transaction: Create event missing.');
-  assert(receivedEvents.some(e => e.type === 'update' && e.documentId === docToPatchId), 'Client Transaction: Patch (update) event missing.');
-  assert(receivedEvents.some(e => e.type === 'delete' && e.documentId === docToDeleteId), 'Client Transaction: Delete event missing.');
+  assert(receivedEvents.every(e => e.type === 'mutation'), 'Client Transaction: All events should be mutation events.');
+  assert(receivedEvents.some(e => e.transition === 'appear' && e.documentId === docToCreateId), 'Client Transaction: Create event missing.');
+  assert(receivedEvents.some(e => e.transition === 'update' && e.documentId === docToPatchId), 'Client Transaction: Patch (update) event missing.');
+  assert(receivedEvents.some(e => e.transition === 'disappear' && e.documentId === docToDeleteId), 'Client Transaction: Delete event missing.');
 
   subscription.unsubscribe();
 }
 
+async function testClientTransactionAtomicity() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+
+  await client.create({ _id: 'atomicExisting', _type: 'txTest', count: 1, _createdAt: '', _updatedAt: '' });
+
+  const receivedEvents: any[] = [];
+  const subscription = client.listen('*').subscribe(event => receivedEvents.push(event));
+
+  const failing = client.transaction()
+    .create({ _id: 'atomicNew', _type: 'txTest', _createdAt: '', _updatedAt: '' })
+    .patch('atomicExisting', { inc: { count: 1 } })
+    .patch('atomicMissing', { set: { title: 'Nope' } });
+  try {
+    await failing.commit();
+    assert(false, 'Client Transaction Atomicity: Commit should fail for a missing document.');
+  } catch (e) {
+    assert((e as Error).message.includes('atomicMissing'), 'Client Transaction Atomicity: Unexpected error.');
+  }
+  await delay(50);
+  assert((await store.get('atomicNew')) === undefined, 'Client Transaction Atomicity: Create should be rolled back.');
+  assert((await store.get('atomicExisting'))!.count === 1, 'Client Transaction Atomicity: Patch should be rolled back.');
+  assert(receivedEvents.length === 0, 'Client Transaction Atomicity: No events should be emitted for a failed transaction.');
+
+  const { transactionId } = await client.transaction()
+    .create({ _id: 'atomicNew', _type: 'txTest', _createdAt: '', _updatedAt: '' })
+    .patch('atomicNew', { set: { title: 'Created and patched' } })
+    .patch('atomicExisting', { inc: { count: 1 } })
+    .commit();
+  await delay(50);
+  assert(receivedEvents.length === 2, `Client Transaction Atomicity: Expected one event per document, got ${receivedEvents.length}.`);
+  assert(receivedEvents.every(e => e.transactionId === transactionId), 'Client Transaction Atomicity: Events should carry the commit transaction ID.');
+  assert(receivedEvents[0].mutations.length === 2 && receivedEvents[0].result.title === 'Created and patched', 'Client Transaction Atomicity: Mutations of one document should be combined.');
+
+  subscription.unsubscribe();
+}
+
+async function testClientRevisions() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+
+  const created = await client.create({ _id: 'revDoc', _type: 'revTest', title: 'v1', _createdAt: '', _updatedAt: '' });
+  assert(typeof created._rev === 'string' && created._rev.length > 0, 'Client Revisions: Create should assign a _rev.');
+  assert((await store.get('revDoc'))!._rev === created._rev, 'Client Revisions: Stored _rev should match the returned one.');
+
+  const receivedEvents: any[] = [];
+  const subscription = client.listen('revDoc').subscribe(event => receivedEvents.push(event));
+
+  const { transactionId, results } = await client.patch('revDoc').ifRevisionId(created._rev!).set({ title: 'v2' }).commit();
+  assert(results[0].document._rev === transactionId, 'Client Revisions: New _rev should be the transaction ID.');
+  assert(transactionId !== created._rev, 'Client Revisions: Patch should assign a new _rev.');
+
+  try {
+    // A second editor still holding the original revision
+    await client.patch('revDoc', { set: { title: 'v2 (stale)' }, ifRevisionID: created._rev }).commit();
+    assert(false, 'Client Revisions: Stale ifRevisionID should be rejected.');
+  } catch (e) {
+    assert(e instanceof LocalMutationError, 'Client Revisions: Stale revision should throw a LocalMutationError.');
+    assert((e as LocalMutationError).statusCode === 409, 'Client Revisions: Stale revision should be a 409 conflict.');
+    assert((e as LocalMutationError).items[0].error.id === 'revDoc', 'Client Revisions: Conflict should name the document.');
+  }
+  assert((await store.get('revDoc'))!.title === 'v2', 'Client Revisions: Rejected patch should not be applied.');
+
+  await delay(50);
+  assert(receivedEvents.length === 1, 'Client Revisions: Only the successful patch should be emitted.');
+  assert(receivedEvents[0].previousRev === created._rev && receivedEvents[0].resultRev === transactionId, 'Client Revisions: Event revisions incorrect.');
+  subscription.unsubscribe();
+}
+
+async function testClientTransactionHistory() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+
+  const created = await client.create({ _id: 'historyDoc', _type: 'historyTest', title: 'v1', meta: { views: 1, tags: 'a' }, _createdAt: '', _updatedAt: '' });
+  const { transactionId: unrelatedRev } = await client.transaction().create({ _id: 'otherDoc', _type: 'historyTest', _createdAt: '', _updatedAt: '' }).commit();
+  await delay(5);
+  const betweenEdits = new Date().toISOString();
+  await delay(5);
+  const { transactionId: patchRev } = await client.patch('historyDoc').set({ title: 'v2', 'meta.views': 2 }).unset(['meta.tags']).commit();
+  const { transactionId: deleteRev } = await client.transaction().delete('historyDoc').commit();
+
+  assert((await client.getDocumentAtRevision('historyDoc', created._rev!))?.title === 'v1', 'Transaction History: Document at creation revision incorrect.');
+  assert((await client.getDocumentAtRevision('historyDoc', unrelatedRev))?.title === 'v1', 'Transaction History: Unrelated revision should show the latest earlier state.');
+  assert((await client.getDocumentAtRevision('historyDoc', patchRev))?.title === 'v2', 'Transaction History: Document at patch revision incorrect.');
+  assert((await client.getDocumentAtRevision('historyDoc', deleteRev)) === null, 'Transaction History: Deleted document should be null.');
+  assert((await client.getDocumentAtRevision('historyDoc', 'unknown-rev')) === null, 'Transaction History: Unknown revision should be null.');
+  assert((await client.getDocumentAtTime('historyDoc', betweenEdits))?.title === 'v1', 'Transaction History: Document at time incorrect.');
+  assert((await client.getDocumentAtTime('historyDoc', '2000-01-01T00:00:00Z')) === null, 'Transaction History: Document before creation should be null.');
+
+  const events = (await client.getTransactionLog('historyDoc', { effectFormat: 'mendoza', reverse: true }))
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+  assert(events.map((event) => event.id).join() === [deleteRev, patchRev, created._rev].join(), 'Transaction History: Log should list the document\'s transactions, newest first.');
+  assert(events[2].author === 'local' && events[2].documentIDs[0] === 'historyDoc', 'Transaction History: Event author or document IDs incorrect.');
+  assert(events[1].mutations[0].patch.id === 'historyDoc', 'Transaction History: Event mutations incorrect.');
+  assert(JSON.stringify(events[2].effects.historyDoc.apply) === JSON.stringify([0, created]), 'Transaction History: Create effect should set the whole document.');
+  assert(JSON.stringify(events[0].effects.historyDoc.apply) === JSON.stringify([0, null]), 'Transaction History: Delete effect should remove the document.');
+  const patchEffect = events[1].effects.historyDoc.apply;
+  assert(patchEffect.includes('v2') && patchEffect.includes(10), 'Transaction History: Patch effect should patch nested fields in place.');
+
+  const limited = await client.getTransactionLog('historyDoc', { fromTransaction: patchRev, excludeMutations: true, limit: 1 });
+  const [limitedEvent] = limited.trim().split('\n').map((line) => JSON.parse(line));
+  assert(limited.trim().split('\n').length === 1 && limitedEvent.id === patchRev, 'Transaction History: fromTransaction and limit not applied.');
+  assert(limitedEvent.mutations === undefined && limitedEvent.effects === undefined, 'Transaction History: Excluded fields should be left out.');
+}
+
+async function testClientReferentialIntegrity() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+
+  await client.create({ _id: 'refAuthor', _type: 'author', _createdAt: '', _updatedAt: '' });
+  await client.create({ _id: 'refPost', _type: 'post', author: { _type: 'reference', _ref: 'refAuthor' }, _createdAt: '', _updatedAt: '' });
+  await client.create({ _id: 'refWeakPost', _type: 'post', tags: [{ _key: 'a', _type: 'reference', _ref: 'refAuthor', _weak: true }], _createdAt: '', _updatedAt: '' });
+  assert((await store.getReferencingIds('refAuthor')).sort().join() === 'refPost,refWeakPost', 'Referential Integrity: Reverse-reference index incorrect.');
+  assert((await store.getReferencingIds('refAuthor', { strongOnly: true })).join() === 'refPost', 'Referential Integrity: Strong referrers incorrect.');
+
+  try {
+    await client.delete('refAuthor');
+    assert(false, 'Referential Integrity: Deleting a strongly referenced document should be rejected.');
+  } catch (e) {
+    assert(e instanceof LocalMutationError && e.statusCode === 409, 'Referential Integrity: Delete should throw a 409 LocalMutationError.');
+    const { error } = (e as LocalMutationError).items[0];
+    assert(error.type === 'documentHasExistingReferencesError' && error.referencingIDs.join() === 'refPost', 'Referential Integrity: Error should list the referencing documents.');
+    assert((e as LocalMutationError).responseBody.error.type === 'mutationError', 'Referential Integrity: Error should use the Content Lake error shape.');
+  }
+  assert((await store.get('refAuthor')) !== undefined, 'Referential Integrity: Rejected delete should not be applied.');
+
+  try {
+    await client.create({ _id: 'refDangling', _type: 'post', author: { _type: 'reference', _ref: 'missingAuthor' }, _createdAt: '', _updatedAt: '' });
+    assert(false, 'Referential Integrity: Strong reference to a missing document should be rejected.');
+  } catch (e) {
+    const { error } = (e as LocalMutationError).items[0];
+    assert(error.id === 'refDangling' && error.referencedID === 'missingAuthor', 'Referential Integrity: Missing reference error incorrect.');
+  }
+  await client.create({
+    _id: 'drafts.refPending',
+    _type: 'post',
+    author: { _type: 'reference', _ref: 'pendingAuthor', _weak: true, _strengthenOnPublish: { type: 'author' } },
+    _createdAt: '',
+    _updatedAt: '',
+  });
+
+  // Removing the reference and the referenced document together is allowed
+  await client.transaction().patch('refPost', { unset: ['author'] }).delete('refAuthor').commit();
+  assert((await store.get('refAuthor')) === undefined, 'Referential Integrity: Document without strong references should be deletable.');
+  assert((await store.getReferencingIds('refAuthor')).join() === 'refWeakPost', 'Referential Integrity: Index should drop removed references.');
+}
+
+async function testClientSchemaValidation() {
+  const schema = {
+    types: [
+      {
+        name: 'author',
+        type: 'document',
+        fields: [{ name: 'name', type: 'string', validation: (Rule: any) => Rule.required() }],
+      },
+    ],
+  };
+  const client = new LocalSanityClientImpl({ ...defaultClientConfig, schema, validation: 'strict' });
+  const store = await getClientStore(client);
+  await store.clear();
+
+  const { validation } = await client.transaction().create({ _id: 'validAuthor', _type: 'author', name: 'Ada', _createdAt: '', _updatedAt: '' }).commit();
+  assert(validation !== undefined && Object.keys(validation).length === 0, 'Schema Validation: Valid document should have no markers.');
+
+  try {
+    await client.create({ _id: 'unknownTypeDoc', _type: 'notInSchema', _createdAt: '', _updatedAt: '' });
+    assert(false, 'Schema Validation: Unknown _type should be rejected in strict mode.');
+  } catch (e) {
+    assert(e instanceof LocalMutationError && e.statusCode === 400, 'Schema Validation: Unknown _type should throw a 400 LocalMutationError.');
+    const { error } = (e as LocalMutationError).items[0];
+    assert(error.type === 'validationError' && error.markers[0].path[0] === '_type', 'Schema Validation: Unknown _type marker incorrect.');
+  }
+
+  try {
+    await client.transaction()
+      .create({ _id: 'otherAuthor', _type: 'author', name: 'Grace', _createdAt: '', _updatedAt: '' })
+      .patch('validAuthor', { unset: ['name'] })
+      .commit();
+    assert(false, 'Schema Validation: Invalid patch should be rejected in strict mode.');
+  } catch (e) {
+    const [item] = (e as LocalMutationError).items;
+    assert(item.index === 1 && item.error.id === 'validAuthor', 'Schema Validation: Error should point at the invalid mutation.');
+    assert(item.error.markers[0].path.join('.') === 'name' && item.error.markers[0].level === 'error', 'Schema Validation: Missing field marker incorrect.');
+  }
+  assert((await store.get('otherAuthor')) === undefined, 'Schema Validation: Rejected transaction should not be applied.');
+  assert((await store.get('validAuthor'))!.name === 'Ada', 'Schema Validation: Rejected patch should not be applied.');
+
+  const reporting = new LocalSanityClientImpl({ ...defaultClientConfig, schema, validation: 'report' });
+  const reported = await reporting.transaction().create({ _id: 'namelessAuthor', _type: 'author', _createdAt: '', _updatedAt: '' }).commit();
+  assert(reported.validation!.namelessAuthor[0].path[0] === 'name', 'Schema Validation: Report mode should return markers.');
+  assert((await store.get('namelessAuthor')) !== undefined, 'Schema Validation: Report mode should still write the document.');
+  assert((await client.validateDocument({ _id: 'x', _type: 'author', _createdAt: '', _updatedAt: '' })).length === 1, 'Schema Validation: validateDocument should return markers.');
+}
+
+async function testClientApiParity() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+
+  // Shared code typed against the common subset accepts both clients
+  const countDocuments = (shared: SanityClientLike) => shared.fetch('count(*)');
+  const acceptsBoth = (remote: SanityClient) => [countDocuments(remote), countDocuments(client)];
+  void acceptsBoth;
+
+  const created = await client.createOrReplace({ _id: 'parity1', _type: 'post', title: 'First' });
+  const replaced = await client.createOrReplace({ _id: 'parity1', _type: 'post', title: 'Second' });
+  assert(replaced.title === 'Second' && replaced._createdAt === created._createdAt, 'API Parity: createOrReplace should replace and keep _createdAt.');
+  const existing = await client.createIfNotExists({ _id: 'parity1', _type: 'post', title: 'Third' });
+  assert(existing.title === 'Second', 'API Parity: createIfNotExists should return the existing document.');
+  const generated = await client.create({ _type: 'post' });
+  assert(typeof generated._id === 'string' && generated._id.length > 0, 'API Parity: create should generate an _id.');
+
+  const documents = await client.getDocuments(['parity1', 'missing', generated._id]);
+  assert(documents[0]?._id === 'parity1' && documents[1] === null && documents[2]?._id === generated._id, 'API Parity: getDocuments should keep order and return null for missing documents.');
+
+  const summary = (await client.mutate([
+    { createIfNotExists: { _id: 'parity1', _type: 'post' } },
+    { patch: { id: 'parity1', set: { title: 'Patched' } } },
+  ])) as MutateSummary;
+  assert(summary.results.map((result) => result.operation).join() === 'none,update', 'API Parity: mutate operations incorrect.');
+  assert(summary.documentIds!.join() === 'parity1,parity1', 'API Parity: mutate documentIds incorrect.');
+  const written = (await client.mutate(client.patch('parity1').set({ views: 1 }), { returnDocuments: true, returnFirst: true })) as SanityDocument;
+  assert(written.views === 1 && written._rev !== undefined, 'API Parity: mutate should return the first document.');
+  await client.mutate({ delete: { id: 'parity1' } }, { dryRun: true });
+  assert((await store.get('parity1')) !== undefined, 'API Parity: Dry run should not apply mutations.');
+
+  const staging = client.withConfig({ dataset: 'test-client-parity' });
+  assert(staging.config().dataset === 'test-client-parity' && client.config().dataset === 'test-client', 'API Parity: withConfig should leave the original client untouched.');
+  assert((await client.clone().getDocument('parity1'))?._id === 'parity1', 'API Parity: Clone should share the dataset.');
+
+  const observed = await firstValueFrom(client.observable.getDocuments(['parity1']));
+  assert(observed[0]?._id === 'parity1', 'API Parity: Observable getDocuments incorrect.');
+  const count = await firstValueFrom(client.observable.fetch('count(*[_type == "post"])'));
+  assert(count === 2, 'API Parity: Observable fetch incorrect.');
+}
+
+async function testClientAccessControl() {
+  const admin = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(admin);
+  await store.clear();
+  await admin.mutate([
+    { create: { _id: 'acl-1', _type: 'post', title: 'Published', owner: 'ada' } },
+    { create: { _id: 'drafts.acl-1', _type: 'post', title: 'Draft', owner: 'ada' } },
+    { create: { _id: 'acl-2', _type: 'secret', title: 'Hidden', owner: 'bob' } },
+  ]);
+
+  const auth: LocalSanityClientConfig['auth'] = {
+    tokens: {
+      'viewer-token': { roles: ['viewer'] },
+      'contributor-token': { userId: 'ada', roles: ['contributor'] },
+      'owner-token': { userId: 'ada', roles: ['owner'] },
+    },
+    roles: { owner: [{ filter: 'owner == identity()', permissions: ['read', 'update'] }] },
+  };
+  const viewer = admin.withConfig({ auth, token: 'viewer-token' });
+  const contributor = admin.withConfig({ auth, token: 'contributor-token' });
+  const owner = admin.withConfig({ auth, token: 'owner-token' });
+
+  assert((await viewer.fetch('count(*)')) === 3, 'Access Control: Viewer should read every document.');
+  assert((await owner.fetch('*[]._id')).join() === 'acl-1,drafts.acl-1', 'Access Control: Grant filters should be evaluated with identity().');
+  assert((await owner.getDocument('acl-2')) === undefined, 'Access Control: getDocument should hide unreadable documents.');
+  assert((await new LocalSanityClientImpl({ ...defaultClientConfig, auth }).fetch('count(*)')) === 0, 'Access Control: Anonymous requests should see nothing by default.');
+
+  try {
+    await viewer.patch('acl-1').set({ title: 'Changed' }).commit();
+    assert(false, 'Access Control: Viewer mutations should be rejected.');
+  } catch (e) {
+    assert(e instanceof LocalMutationError && e.statusCode === 403, 'Access Control: Rejected mutations should be a 403.');
+    assert((e as LocalMutationError).items[0].error.type === 'insufficientPermissionsError', 'Access Control: Rejected mutation error type incorrect.');
+  }
+  await contributor.patch('drafts.acl-1').set({ title: 'Edited draft' }).commit();
+  try {
+    await contributor.patch('acl-1').set({ title: 'Published edit' }).commit();
+    assert(false, 'Access Control: Contributors should not update published documents.');
+  } catch (e) {
+    assert((e as LocalMutationError).items[0].error.id === 'acl-1', 'Access Control: Rejection should name the document.');
+  }
+  try {
+    await owner.patch('acl-1').set({ owner: 'bob' }).commit();
+    assert(false, 'Access Control: Updates that leave the grant filter should be rejected.');
+  } catch (e) {
+    assert((e as LocalMutationError).statusCode === 403, 'Access Control: Leaving the grant filter should be a 403.');
+  }
+  assert((await store.get('acl-1'))!.title === 'Published', 'Access Control: Rejected mutations should not be applied.');
+  assert((await owner.getTransactionLog('acl-1')) === '', 'Access Control: History should require the history permission.');
+
+  try {
+    admin.withConfig({ auth, token: 'unknown-token' });
+    assert(false, 'Access Control: Unknown tokens should be rejected.');
+  } catch (e) {
+    assert(e instanceof LocalClientError && e.statusCode === 401, 'Access Control: Unknown tokens should be a 401.');
+  }
+  const grants = await contributor.getGrants();
+  assert(grants.length === 2 && grants[1].filter === '_id in path("drafts.**")', 'Access Control: getGrants should return the role grants.');
+  assert((await admin.getGrants())[0].permissions.includes('update'), 'Access Control: Without auth, every permission should be granted.');
+}
+
+async function testClientPatchOperations() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+
+  await client.create({
+    _id: 'patchDoc',
+    _type: 'article',
+    title: 'Hello',
+    subtitle: 'Remove me',
+    views: 10,
+    likes: 5,
+    body: [{ _key: 'abc', text: 'First' }, { _key: 'def', text: 'Second' }],
+    _createdAt: '2024-01-01T00:00:00.000Z',
+    _updatedAt: '',
+  });
+
+  await client
+    .patch('patchDoc')
+    .set({ 'body[_key=="abc"].text': 'First (edited)', 'meta.slug': 'hello' })
+    .setIfMissing({ title: 'Ignored', tags: [] })
+    .unset(['subtitle'])
+    .inc({ views: 5 })
+    .dec({ likes: 2 })
+    .append('tags', ['news'])
+    .diffMatchPatch({ title: '@@ -1,5 +1,11 @@\n Hello\n+ World\n' })
+    .commit();
+
+  let doc = await client.getDocument('patchDoc');
+  assert(doc!.body[0].text === 'First (edited)', 'Client Patch: set on keyed array path failed.');
+  assert(doc!.meta.slug === 'hello', 'Client Patch: set should create intermediate objects.');
+  assert(doc!.title === 'Hello World', 'Client Patch: setIfMissing should not overwrite, diffMatchPatch should apply.');
+  assert(!('subtitle' in doc!), 'Client Patch: unset failed.');
+  assert(doc!.views === 15 && doc!.likes === 3, 'Client Patch: inc/dec failed.');
+  assert(JSON.stringify(doc!.tags) === '["news"]', 'Client Patch: setIfMissing + append failed.');
+  assert(doc!._createdAt === '2024-01-01T00:00:00.000Z', 'Client Patch: _createdAt should be preserved.');
+
+  const tx = client.transaction();
+  tx.patch('patchDoc', { insert: { before: 'body[_key=="def"]', items: [{ _key: 'ghi', text: 'Inserted' }] } });
+  tx.patch(client.patch('patchDoc').insert('replace', 'body[_key=="abc"]', [{ _key: 'jkl', text: 'Replaced' }]));
+  await tx.commit();
+
+  doc = await client.getDocument('patchDoc');
+  const keys = doc!.body.map((item: any) => item._key);
+  assert(JSON.stringify(keys) === '["jkl","ghi","def"]', `Client Patch: insert before/replace failed, got ${JSON.stringify(keys)}.`);
+
+  try {
+    await client.patch('patchDoc').set({ _id: 'other' }).unset(['_type']).commit();
+    assert(false, 'Client Patch: Removing _type should throw.');
+  } catch (e) {
+    assert((e as Error).message.includes('_type'), 'Client Patch: Unexpected error when removing _type.');
+  }
+}
+
 async function testClientListen() {
   const client = new LocalSanityClientImpl(defaultClientConfig);
   const store = await getClientStore(client);
@@ -247,20 +795,23 @@ async function testClientListen() {
   await client.create({ _id: listenDocId, _type: listenDocType, title: 'Hello' } as SanityDocument);
   await delay(50); // Allow event propagation
   assert(receivedEvents.length === 1, 'Client Listen: Expected 1 event after create.');
-  assert(receivedEvents[0].type === 'create' && receivedEvents[0].documentId === listenDocId, 'Client Listen: Create event data incorrect.');
+  assert(receivedEvents[0].transition === 'appear' && receivedEvents[0].documentId === listenDocId, 'Client Listen: Create event data incorrect.');
+  assert(receivedEvents[0].previousRev === undefined && receivedEvents[0].resultRev === receivedEvents[0].transactionId, 'Client Listen: Create event revisions incorrect.');
+  assert(receivedEvents[0].mutations[0].create._id === listenDocId, 'Client Listen: Create event mutations incorrect.');
 
   // Patch (via transaction for LocalSanityClientImpl)
-  await client.patch(listenDocId, { title: 'Updated' }).commit();
+  await client.patch(listenDocId, { set: { title: 'Updated' } }).commit();
   await delay(50);
   assert(receivedEvents.length === 2, 'Client Listen: Expected 2 events after patch.');
-  assert(receivedEvents[1].type === 'update' && receivedEvents[1].documentId === listenDocId, 'Client Listen: Patch event data incorrect.');
-  assert(receivedEvents[1].document.title === 'Updated', 'Client Listen: Patch event document data incorrect.');
+  assert(receivedEvents[1].transition === 'update' && receivedEvents[1].documentId === listenDocId, 'Client Listen: Patch event data incorrect.');
+  assert(receivedEvents[1].result.title === 'Updated', 'Client Listen: Patch event document data incorrect.');
 
   // Delete
   await client.delete(listenDocId);
   await delay(50);
   assert(receivedEvents.length === 3, 'Client Listen: Expected 3 events after delete.');
-  assert(receivedEvents[2].type === 'delete' && receivedEvents[2].documentId === listenDocId, 'Client Listen: Delete event data incorrect.');
+  assert(receivedEvents[2].transition === 'disappear' && receivedEvents[2].documentId === listenDocId, 'Client Listen: Delete event data incorrect.');
+  assert(receivedEvents[2].result === undefined, 'Client Listen: Delete event should have no result.');
 
   // Unsubscribe
   subscription.unsubscribe();
@@ -274,6 +825,550 @@ async function testClientListen() {
   await store.clear(); // clean up lt2
 }
 
+async function testClientListenFilterTransitions() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+
+  await client.create({ _id: 'other-type', _type: 'otherType', _createdAt: '', _updatedAt: '' });
+  await client.create({ _id: 'filter-doc', _type: 'filterTest', status: 'draft', _createdAt: '', _updatedAt: '' });
+
+  const receivedEvents: any[] = [];
+  const subscription = client
+    .listen('*[_type == $type && status == "published"]', { type: 'filterTest' }, { events: ['welcome', 'mutation'], includePreviousRevision: true })
+    .subscribe(event => receivedEvents.push(event));
+
+  await client.patch('filter-doc').set({ status: 'published' }).commit();
+  await client.patch('filter-doc').set({ title: 'Still published' }).commit();
+  await client.patch('filter-doc').set({ status: 'archived' }).commit();
+  await client.patch('filter-doc').set({ title: 'No longer matching' }).commit();
+  await client.delete('other-type');
+  await delay(50);
+
+  assert(receivedEvents[0].type === 'welcome', 'Client Listen Filter: First event should be the welcome event.');
+  const transitions = receivedEvents.slice(1).map(e => e.transition);
+  assert(JSON.stringify(transitions) === JSON.stringify(['appear', 'update', 'disappear']), `Client Listen Filter: Unexpected transitions ${JSON.stringify(transitions)}.`);
+  assert(receivedEvents[3].previous.status === 'published' && receivedEvents[3].result.status === 'archived', 'Client Listen Filter: Previous and result documents incorrect.');
+
+  subscription.unsubscribe();
+}
+
+async function testClientPerspectives() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+
+  await client.create({ _id: 'persp-1', _type: 'post', title: 'Published', _createdAt: '', _updatedAt: '' });
+  await client.create({ _id: 'drafts.persp-1', _type: 'post', title: 'Draft', _createdAt: '', _updatedAt: '' });
+  await client.create({ _id: 'versions.rc-1.persp-1', _type: 'post', title: 'Release', _createdAt: '', _updatedAt: '' });
+  await client.create({ _id: 'drafts.persp-2', _type: 'post', title: 'New draft', _createdAt: '', _updatedAt: '' });
+
+  const titles = async (perspective: any) =>
+    JSON.stringify(await client.fetch('*[_type == "post"] | order(_id) { _id, title }', {}, { perspective }));
+
+  assert((await client.fetch('count(*[_type == "post"])')) === 4, 'Client Perspectives: Raw perspective should return all documents by default.');
+  assert(await titles('published') === JSON.stringify([{ _id: 'persp-1', title: 'Published' }]), 'Client Perspectives: Published perspective incorrect.');
+  assert(
+    await titles('drafts') === JSON.stringify([{ _id: 'persp-1', title: 'Draft' }, { _id: 'persp-2', title: 'New draft' }]),
+    'Client Perspectives: Drafts perspective incorrect.'
+  );
+  assert(
+    await titles(['rc-1', 'drafts']) === JSON.stringify([{ _id: 'persp-1', title: 'Release' }, { _id: 'persp-2', title: 'New draft' }]),
+    'Client Perspectives: Release stack perspective incorrect.'
+  );
+  assert(await titles(['rc-1']) === JSON.stringify([{ _id: 'persp-1', title: 'Release' }]), 'Client Perspectives: Release without drafts incorrect.');
+
+  const overlaid = await client.fetch('persp-1', {}, { perspective: 'drafts' });
+  assert(overlaid.title === 'Draft' && overlaid._originalId === 'drafts.persp-1', 'Client Perspectives: Document ID lookup should be overlaid.');
+
+  const draftsClient = new LocalSanityClientImpl({ ...defaultClientConfig, perspective: 'drafts' });
+  assert((await draftsClient.fetch('count(*[_type == "post"])')) === 2, 'Client Perspectives: Configured perspective should be the default.');
+
+  let invalidPerspectiveError: any;
+  try {
+    await client.fetch('*', {}, { perspective: 'bogus' as any });
+  } catch (error) {
+    invalidPerspectiveError = error;
+  }
+  assert(invalidPerspectiveError !== undefined, 'Client Perspectives: Invalid perspective should be rejected.');
+
+  const receivedEvents: any[] = [];
+  const subscription = client
+    .listen('*[_type == "post"]', {}, { perspective: 'drafts' })
+    .subscribe(event => receivedEvents.push(event));
+
+  // Hidden behind the draft
+  await client.patch('persp-1').set({ title: 'Published 2' }).commit();
+  // Only visible in the release
+  await client.patch('versions.rc-1.persp-1').set({ title: 'Release 2' }).commit();
+  await client.patch('drafts.persp-1').set({ title: 'Draft 2' }).commit();
+  // Discarding the draft reveals the published document again
+  await client.delete('drafts.persp-1');
+  await delay(50);
+
+  assert(receivedEvents.length === 2, `Client Perspectives: Expected 2 listener events, got ${receivedEvents.length}.`);
+  assert(receivedEvents[0].result._id === 'persp-1' && receivedEvents[0].result.title === 'Draft 2', 'Client Perspectives: Draft patch event result incorrect.');
+  assert(receivedEvents[1].transition === 'update' && receivedEvents[1].result.title === 'Published 2', 'Client Perspectives: Discarded draft should reveal the published document.');
+
+  subscription.unsubscribe();
+  await store.clear();
+}
+
+async function testClientDatasetRegistry() {
+  const config: LocalSanityClientConfig = { ...defaultClientConfig, projectId: 'registry-test', dataset: 'production' };
+  const writer = new LocalSanityClientImpl(config);
+  const reader = new LocalSanityClientImpl(config);
+  const staging = new LocalSanityClientImpl({ ...config, dataset: 'staging' });
+
+  const receivedEvents: any[] = [];
+  const subscription = reader.listen('*[_type == "shared"]').subscribe(event => receivedEvents.push(event));
+  await writer.create({ _id: 'shared-1', _type: 'shared', _createdAt: '', _updatedAt: '' });
+  await delay(50);
+
+  assert((await reader.getDocument('shared-1')) !== undefined, 'Client Dataset Registry: Clients of the same dataset should share documents.');
+  assert(receivedEvents.length === 1, 'Client Dataset Registry: Clients of the same dataset should share listener events.');
+  assert((await staging.getDocument('shared-1')) === undefined, 'Client Dataset Registry: Other datasets should be isolated.');
+  subscription.unsubscribe();
+
+  await writer.datasets.copy('production', 'production-copy');
+  const copy = new LocalSanityClientImpl({ ...config, dataset: 'production-copy' });
+  assert((await copy.getDocument('shared-1')) !== undefined, 'Client Dataset Registry: Copied dataset should contain the source documents.');
+  const datasets = (await writer.datasets.list()).map(d => d.name);
+  assert(JSON.stringify(datasets) === JSON.stringify(['production', 'production-copy', 'staging']), `Client Dataset Registry: Unexpected datasets ${JSON.stringify(datasets)}.`);
+
+  let conflictError: any;
+  try {
+    await writer.datasets.create('staging');
+  } catch (error) {
+    conflictError = error;
+  }
+  assert(conflictError?.statusCode === 409, 'Client Dataset Registry: Creating an existing dataset should fail with 409.');
+
+  let invalidNameError: any;
+  try {
+    await writer.datasets.create('Not Valid');
+  } catch (error) {
+    invalidNameError = error;
+  }
+  assert(invalidNameError?.statusCode === 400, 'Client Dataset Registry: Invalid dataset names should be rejected.');
+
+  await writer.datasets.delete('production-copy');
+  await writer.datasets.delete('staging');
+  assert((await copy.getDocument('shared-1')) === undefined, 'Client Dataset Registry: Deleted dataset should be empty when reopened.');
+  await writer.datasets.delete('production');
+  await writer.datasets.delete('production-copy');
+  assert((await writer.datasets.list()).length === 0, 'Client Dataset Registry: All datasets should be deleted.');
+
+  cleanupPersistenceTestDir();
+  try {
+    const persisted = new LocalSanityClientImpl({ ...config, localDataPath: persistenceTestDir });
+    await persisted.create({ _id: 'deleted-1', _type: 'shared', _createdAt: '', _updatedAt: '' });
+    const deletion = persisted.datasets.delete('production');
+    assert((await persisted.getDocument('deleted-1')) === undefined, 'Client Dataset Registry: Documents should not be restored while the dataset is deleted.');
+    await persisted.create({ _id: 'recreated-1', _type: 'shared', _createdAt: '', _updatedAt: '' });
+    await deletion;
+    const reopened = new InMemoryStore({ storage: new FileStorageBackend(path.join(persistenceTestDir, 'production')) });
+    assert((await reopened.get('recreated-1')) !== undefined, 'Client Dataset Registry: Writes during a deletion should be persisted.');
+    await persisted.datasets.delete('production');
+  } finally {
+    cleanupPersistenceTestDir();
+  }
+}
+
+async function testClientDeterministicFixtures() {
+  const ndjson = [
+    '{"_id":"author-1","_type":"author","name":"Ada"}',
+    '',
+    '{"_id":"post-1","_type":"post","title":"First","author":{"_type":"reference","_ref":"author-1"}}',
+  ].join('\n');
+  const run = async (projectId: string) => {
+    const client = new LocalSanityClientImpl({
+      ...defaultClientConfig,
+      projectId,
+      clock: createTestClock({ start: '2024-05-01T12:00:00.000Z', tickMs: 1000 }),
+      generateId: createSequentialIdGenerator(),
+    });
+    const seeded = await seedDataset(client, ndjson);
+    const created = await client.create({ _type: 'post', title: 'Second' });
+    return { client, seeded, created, snapshot: await snapshotDataset(client) };
+  };
+  const first = await run('fixtures-a');
+  const second = await run('fixtures-b');
+
+  assert(first.seeded.documents === 2, 'Fixtures: Seeding should skip blank lines.');
+  assert(first.created._id === 'document-0001' && first.created._rev === 'transaction-0002', 'Fixtures: Generated IDs should be sequential.');
+  assert(first.created._createdAt === '2024-05-01T12:00:01.000Z', 'Fixtures: Timestamps should come from the injected clock.');
+  assert(JSON.stringify(first.snapshot) === JSON.stringify(second.snapshot), 'Fixtures: Same clock and IDs should give identical snapshots.');
+  const readLog = async () =>
+    (await first.client.getTransactionLog('post-1')).trim().split('\n').map((line) => JSON.parse(line));
+  const log = await readLog();
+  assert(log[0]?.id === 'transaction-0001' && log[0].timestamp === '2024-05-01T12:00:00.000Z', 'Fixtures: Transaction log should use the injected clock and IDs.');
+
+  await first.client.patch('post-1').set({ title: 'Changed' }).commit();
+  await first.client.delete('author-1').catch(() => undefined);
+  await resetDataset(first.client, first.snapshot);
+  assert((await first.client.getDocument('post-1'))?.title === 'First', 'Fixtures: Reset should restore documents.');
+  assert((await readLog()).length === 1, 'Fixtures: Reset should restore the transaction log.');
+  assert((await first.client.fetch('count(*[references("author-1")])')) === 1, 'Fixtures: Reset should restore the reference index.');
+
+  await resetDataset(first.client);
+  assert((await first.client.fetch('count(*)')) === 0, 'Fixtures: Reset without a snapshot should empty the dataset.');
+
+  let parseError: any;
+  await seedDataset(first.client, '{"_id":"x","_type":"post"}\nnot json').catch((error) => (parseError = error));
+  assert(parseError instanceof LocalClientError && /Line 2/.test(parseError.message), 'Fixtures: Invalid NDJSON should report the line.');
+  assert((await first.client.fetch('count(*)')) === 0, 'Fixtures: Invalid NDJSON should not seed anything.');
+}
+
+async function testClientWebhooks() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+
+  // The receiver fails the first delivery of the create, so it is retried
+  const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+  let failCreate = true;
+  const receiver = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      const fail = failCreate && req.headers['sanity-operation'] === 'create';
+      failCreate = failCreate && !fail;
+      res.writeHead(fail ? 503 : 200);
+      res.end(fail ? 'try again' : 'ok');
+    });
+  });
+  await new Promise<void>((resolve) => receiver.listen(0, 'localhost', resolve));
+  const { port } = receiver.address() as { port: number };
+
+  try {
+    const hook = await client.hooks.create({
+      name: 'posts',
+      url: `http://localhost:${port}/hook`,
+      filter: '_type == "post"',
+      projection: '{_id, title, "operation": delta::operation(), "previousTitle": before().title}',
+      secret: 'shh',
+      headers: { 'x-custom': 'yes' },
+      retry: { initialDelayMs: 10 },
+    });
+    assert((await client.hooks.list()).map((registered) => registered.id).join() === hook.id, 'Webhooks: List should return the registered webhook.');
+
+    await client.create({ _id: 'hookPost', _type: 'post', title: 'First' });
+    await client.create({ _id: 'hookAuthor', _type: 'author', name: 'Not matched' });
+    await client.create({ _id: 'drafts.hookPost', _type: 'post', title: 'Draft' });
+    await client.patch('hookPost').set({ title: 'Second' }).commit();
+    await client.delete('hookPost');
+    await client.hooks.flush();
+
+    const messages = await client.hooks.getMessages(hook.id);
+    const payloads = messages.map((message) => JSON.parse(message.payload));
+    assert(payloads.map((payload) => payload.operation).join() === 'create,update,delete', 'Webhooks: Only matching published documents should trigger the webhook.');
+    assert(payloads[1].title === 'Second' && payloads[1].previousTitle === 'First', 'Webhooks: Projection should see before() and after().');
+    assert(payloads[2]._id === 'hookPost' && payloads[2].title === 'Second', 'Webhooks: Deletes should project the deleted document.');
+
+    assert(received.length === 4, 'Webhooks: Failed deliveries should be retried.');
+    const [failed, retried] = received.filter((request) => request.headers['sanity-operation'] === 'create');
+    const { headers, body } = retried;
+    const timestamp = Number(/^t=(\d+),/.exec(headers['sanity-webhook-signature'] as string)![1]);
+    assert(headers['sanity-webhook-signature'] === (await signWebhookPayload(body, 'shh', timestamp)), 'Webhooks: Signature incorrect.');
+    assert(headers['sanity-operation'] === 'create' && headers['sanity-document-id'] === 'hookPost' && headers['x-custom'] === 'yes', 'Webhooks: Headers incorrect.');
+    assert(headers['idempotency-key'] === failed.headers['idempotency-key'], 'Webhooks: Retries should keep the idempotency key.');
+
+    assert(messages.length === 3 && messages.every((message) => message.status === 'success'), 'Webhooks: Every message should be delivered.');
+    assert(messages[0].failureCount === 1 && messages[0].resultCode === 200, 'Webhooks: Retried message should count its failure.');
+    const attempts = await client.hooks.getAttempts(hook.id);
+    assert(attempts.length === 4 && attempts[0].messageId === messages[0].id && attempts[0].isFailure && attempts[0].failureReason === 'http' && attempts[0].resultBody === 'try again', 'Webhooks: Attempt log incorrect.');
+
+    await client.hooks.delete(hook.id);
+    await client.create({ _id: 'hookPost2', _type: 'post', title: 'After delete' });
+    await client.hooks.flush();
+    assert(received.length === 4, 'Webhooks: Deleted webhooks should not be triggered.');
+  } finally {
+    await new Promise((resolve) => receiver.close(resolve));
+    await store.clear();
+  }
+}
+
+async function testHttpServer() {
+  const server = new LocalHttpServer({ port: 0, clientConfig: { ...defaultClientConfig, projectId: 'http-test' } });
+  const baseUrl = `${await server.start()}/v2024-03-15`;
+  const post = (url: string, body: unknown) =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  try {
+    // Listen first, so the stream sees the mutation below
+    const streamed: string[] = [];
+    const listenRequest = http.get(`${baseUrl}/data/listen/production?query=${encodeURIComponent('*[_type == "post"]')}`, (res) => {
+      assert(res.headers['content-type'] === 'text/event-stream', 'HTTP Server: Listen should respond with an event stream.');
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => streamed.push(chunk));
+    });
+    await delay(50);
+
+    let response = await post(`${baseUrl}/data/mutate/production?returnDocuments=true`, {
+      mutations: [
+        { create: { _id: 'http-1', _type: 'post', title: 'Over HTTP' } },
+        { patch: { id: 'http-1', set: { rank: 1 } } },
+      ],
+    });
+    let body: any = await response.json();
+    assert(response.status === 200 && typeof body.transactionId === 'string', 'HTTP Server: Mutate should return a transaction ID.');
+    assert(body.results[1].operation === 'update' && body.results[1].document.rank === 1, 'HTTP Server: Mutate results incorrect.');
+
+    response = await fetch(`${baseUrl}/data/query/production?query=${encodeURIComponent('*[_type == $type][0].title')}&%24type=%22post%22`);
+    body = await response.json();
+    assert(body.result === 'Over HTTP' && typeof body.ms === 'number', 'HTTP Server: GET query result incorrect.');
+
+    response = await post(`${baseUrl}/data/query/production`, { query: 'count(*[_type == $type])', params: { type: 'post' } });
+    body = await response.json();
+    assert(body.result === 1, 'HTTP Server: POST query result incorrect.');
+
+    response = await fetch(`${baseUrl}/data/doc/production/http-1,missing`);
+    body = await response.json();
+    assert(body.documents.length === 1 && body.omitted[0].id === 'missing', 'HTTP Server: Doc endpoint result incorrect.');
+    const createdRev = body.documents[0]._rev;
+
+    response = await fetch(`${baseUrl}/data/history/production/transactions/http-1?effectFormat=mendoza&excludeMutations=true`);
+    const historyLines = (await response.text()).trim().split('\n').map((line) => JSON.parse(line));
+    assert(response.headers.get('content-type') === 'application/x-ndjson', 'HTTP Server: History should respond with NDJSON.');
+    assert(historyLines.length === 1 && historyLines[0].id === createdRev && historyLines[0].effects['http-1'], 'HTTP Server: History transactions incorrect.');
+
+    response = await fetch(`${baseUrl}/data/history/production/documents/http-1?revision=${createdRev}`);
+    body = await response.json();
+    assert(body.documents[0]?.rank === 1, 'HTTP Server: History document at revision incorrect.');
+
+    response = await fetch(`${baseUrl}/projects/any-project/datasets/production/acl`);
+    body = await response.json();
+    assert(Array.isArray(body) && body[0].permissions.includes('read'), 'HTTP Server: ACL endpoint should return grants.');
+
+    response = await fetch(`${baseUrl}/data/query/production?query=${encodeURIComponent('*[')}`);
+    body = await response.json();
+    assert(response.status === 400 && body.error.type === 'queryParseError', 'HTTP Server: Query errors should use the Content Lake error shape.');
+
+    response = await fetch(`${baseUrl}/data/query/%E0`);
+    body = await response.json();
+    assert(response.status === 400 && body.error.type === 'httpBadRequest', 'HTTP Server: Malformed paths should be a 400.');
+
+    response = await post(`${baseUrl}/data/mutate/production`, { mutations: [{ patch: { id: 'missing', set: { a: 1 } } }] });
+    body = await response.json();
+    assert(response.status === 404 && body.error.items[0].error.type === 'documentNotFoundError', 'HTTP Server: Mutation errors should use the Content Lake error shape.');
+
+    await delay(50);
+    listenRequest.destroy();
+    const stream = streamed.join('');
+    assert(stream.startsWith('event: welcome\n'), 'HTTP Server: Listen stream should start with a welcome event.');
+    assert(stream.includes('event: mutation\n') && stream.includes('"documentId":"http-1"'), 'HTTP Server: Listen stream should contain the mutation.');
+  } finally {
+    await server.stop();
+    await new LocalSanityClientImpl({ projectId: 'http-test' }).datasets.delete('production');
+  }
+}
+
+async function testLocalStudioBackend() {
+  const originalFetch = globalThis.fetch;
+  const backend = createLocalStudioBackend({ projectId: 'studio-test', dataset: 'production', persist: false });
+  const other = createLocalStudioBackend({ projectId: 'studio-test', dataset: 'production', persist: false });
+  const client = backend.client;
+
+  const events: any[] = [];
+  const subscription = client
+    .listen('*[_type == "post"]', {}, { effectFormat: 'mendoza', includeResult: true })
+    .subscribe((event: any) => events.push(event));
+
+  const created = await client.create({ _id: 'studio-1', _type: 'post', title: 'In the browser' });
+  assert(created._id === 'studio-1' && typeof created._rev === 'string', 'Studio Backend: Create should return the document.');
+  assert((await client.fetch('*[_type == $type][0].title', { type: 'post' })) === 'In the browser', 'Studio Backend: Fetch result incorrect.');
+  assert((await client.getDocument('studio-1'))?.title === 'In the browser', 'Studio Backend: getDocument result incorrect.');
+  assert((await client.withConfig({ perspective: 'raw' }).fetch('count(*)')) === 1, 'Studio Backend: withConfig should keep the local requester.');
+
+  await delay(20);
+  const mutation = events.find((event) => event.type === 'mutation');
+  assert(mutation?.documentId === 'studio-1' && Array.isArray(mutation.effects?.apply), 'Studio Backend: Listen should emit mendoza effects.');
+  subscription.unsubscribe();
+
+  const historyResponse = await fetch(client.getUrl(`/data/history/production/transactions/studio-1?excludeContent=true`));
+  const history = (await historyResponse.text()).trim().split('\n').map((line) => JSON.parse(line));
+  assert(historyResponse.status === 200 && history[0]?.id === created._rev, 'Studio Backend: History should be served through fetch.');
+
+  const me: any = await client.request({ uri: '/users/me' });
+  assert(me.id === 'local' && me.role === 'administrator', 'Studio Backend: /users/me should return the local user.');
+  const project: any = await client.request({ uri: '/projects/studio-test' });
+  assert(project.id === 'studio-test' && project.members[0]?.id === 'local', 'Studio Backend: Project should list the local user.');
+  const auth = await firstValueFrom(backend.auth.state);
+  assert(auth.authenticated && auth.currentUser?.id === 'local', 'Studio Backend: Auth state should be signed in.');
+
+  let notFound: any;
+  await client.request({ uri: '/nope' }).catch((error) => (notFound = error));
+  assert(notFound?.statusCode === 404, 'Studio Backend: Unknown endpoints should reject with a 404 client error.');
+  assert((await fetch(client.getUrl('/data/query/%E0'))).status === 400, 'Studio Backend: Malformed paths should be a 400.');
+
+  const received: any[] = [];
+  const presence = other.bifur.listen('presence').subscribe((event) => received.push(event));
+  await firstValueFrom(backend.bifur.request('presence_announce', { data: { session: 's1', locations: [] } }), { defaultValue: undefined });
+  await delay(20);
+  presence.unsubscribe();
+  assert(received[0]?.type === 'state' && received[0].m.session === 's1', 'Studio Backend: Presence should reach the other backend.');
+
+  const ndjson = await backend.exportNdjson();
+  assert(JSON.parse(ndjson.trim()).title === 'In the browser', 'Studio Backend: Export result incorrect.');
+  assert((await other.importNdjson(ndjson)).documents === 1, 'Studio Backend: Import should count the documents.');
+  assert((await other.client.getDocument('studio-1'))?.title === 'In the browser', 'Studio Backend: Imported document missing.');
+
+  let importError: any;
+  await other.importNdjson('{"title":"no id"}').catch((error) => (importError = error));
+  assert(importError instanceof LocalClientError && importError.statusCode === 400, 'Studio Backend: Import should reject documents without an ID.');
+
+  const contents = fs.readFileSync(
+    path.join(
+      process.cwd(),
+      'packages/sanity/src/_internal/cli/actions/media/test/fixtures/test-media-library-directory/images/a2e6ee830963242992e07afd2773b02a65821939-166x112.jpg'
+    )
+  );
+  const image = await client.assets.upload('image', contents, { filename: 'photo.jpg' });
+  const assetsUrl = `${client.config().apiHost}/images/studio-test/production`;
+  const imageResponse = await fetch(`${assetsUrl}/${image.path}?w=100`);
+  const served = Buffer.from(await imageResponse.arrayBuffer());
+  assert(imageResponse.status === 200 && served.equals(contents), 'Studio Backend: Asset files should be served through fetch.');
+  assert(imageResponse.headers.get('content-type') === 'image/jpeg', 'Studio Backend: Asset files should be served with their MIME type.');
+  assert((await fetch(`${assetsUrl}/missing-1x1.jpg`)).status === 404, 'Studio Backend: Missing asset files should be a 404.');
+  assert((await fetch(`${assetsUrl}/missing-%E0.jpg`)).status === 400, 'Studio Backend: Malformed asset paths should be a 400.');
+
+  backend.dispose();
+  assert(globalThis.fetch !== originalFetch, 'Studio Backend: fetch should be kept while another backend serves requests.');
+  other.dispose();
+  assert(globalThis.fetch === originalFetch, 'Studio Backend: Disposing every backend should restore fetch.');
+}
+
+async function testClientImageAssetUpload() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+  const fixturePath = path.join(
+    process.cwd(),
+    'packages/sanity/src/_internal/cli/actions/media/test/fixtures/test-media-library-directory/images/a2e6ee830963242992e07afd2773b02a65821939-166x112.jpg'
+  );
+  const uploadedFiles: string[] = [];
+
+  try {
+    const contents = fs.readFileSync(fixturePath);
+    const sha1hash = createHash('sha1').update(contents).digest('hex');
+    const image = await client.assets.upload('image', contents, { filename: 'photo.jpg' });
+    uploadedFiles.push(image.url);
+    assert(image._id === `image-${sha1hash}-166x112-jpg`, `Client Image Upload: Unexpected asset ID ${image._id}.`);
+    assert(image.sha1hash === sha1hash && image.extension === 'jpg', 'Client Image Upload: Hash or extension incorrect.');
+    assert(image.mimeType === 'image/jpeg' && image.originalFilename === 'photo.jpg', 'Client Image Upload: MIME type or filename incorrect.');
+    const metadata = image.metadata!;
+    assert(metadata.dimensions.width === 166 && metadata.dimensions.height === 112, 'Client Image Upload: Dimensions incorrect.');
+    assert(metadata.hasAlpha === false && metadata.isOpaque === true, 'Client Image Upload: Alpha flags incorrect.');
+    assert(metadata.lqip!.startsWith('data:image/png;base64,'), 'Client Image Upload: LQIP should be a data URL.');
+    assert(/^#[0-9a-f]{6}$/.test(metadata.palette!.dominant!.background), 'Client Image Upload: Palette should have a dominant color.');
+
+    const again = await client.assets.upload('image', { path: fixturePath, name: 'other-name.jpg', type: 'image/jpeg' });
+    assert(again._id === image._id && again.originalFilename === 'photo.jpg', 'Client Image Upload: Uploading the same contents should return the existing asset.');
+    assert((await client.fetch('count(*[_type == "sanity.imageAsset"])')) === 1, 'Client Image Upload: Duplicate upload should not create a new asset.');
+
+    const svg = await client.assets.upload('image', Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 40 30"></svg>'));
+    uploadedFiles.push(svg.url);
+    assert(/^image-[0-9a-f]{40}-40x30-svg$/.test(svg._id) && svg.metadata!.hasAlpha, `Client Image Upload: Unexpected SVG asset ${svg._id}.`);
+
+    const file = await client.assets.upload('file', Buffer.from('plain text'), { filename: 'notes.txt', contentType: 'text/plain' });
+    uploadedFiles.push(file.url);
+    assert(/^file-[0-9a-f]{40}-txt$/.test(file._id) && file.metadata === undefined, `Client Image Upload: Unexpected file asset ${file._id}.`);
+
+    let invalidImageError: any;
+    try {
+      await client.assets.upload('image', Buffer.from('not an image'));
+    } catch (error) {
+      invalidImageError = error;
+    }
+    assert(invalidImageError?.statusCode === 400, 'Client Image Upload: Non-image uploads should be rejected.');
+  } finally {
+    uploadedFiles.forEach(url => fs.rmSync(path.join(process.cwd(), url), { force: true }));
+    await store.clear();
+  }
+}
+
+async function testClientAssetDeletion() {
+  const client = new LocalSanityClientImpl(defaultClientConfig);
+  const store = await getClientStore(client);
+  await store.clear();
+  const assetsDir = path.join(process.cwd(), 'local_assets');
+  const orphanFile = path.join(assetsDir, 'orphan-gc-test.txt');
+
+  try {
+    const kept = await client.assets.upload('file', Buffer.from('kept by a post'), { filename: 'kept.txt' });
+    const dropped = await client.assets.upload('file', Buffer.from('referenced by nothing'), { filename: 'dropped.txt' });
+    await client.create({ _id: 'assetPost', _type: 'post', attachment: { _type: 'file', asset: { _type: 'reference', _ref: kept._id } } });
+    fs.writeFileSync(orphanFile, 'no asset document');
+
+    try {
+      await client.assets.delete(kept._id);
+      assert(false, 'Asset Deletion: Referenced assets should not be deleted.');
+    } catch (e) {
+      assert(e instanceof LocalMutationError && e.items[0].error.type === 'documentHasExistingReferencesError', 'Asset Deletion: Referenced asset error incorrect.');
+    }
+
+    const preview = await client.assets.collectGarbage({ dryRun: true });
+    assert(preview.dryRun && preview.assetIds.join() === dropped._id, 'Asset Deletion: Dry run should list the unreferenced asset.');
+    assert(preview.files.includes(dropped.path!) && preview.files.includes('orphan-gc-test.txt'), 'Asset Deletion: Dry run should list orphaned files.');
+    assert(!preview.files.includes(kept.path!), 'Asset Deletion: Dry run should not list used files.');
+    assert((await store.get(dropped._id)) !== undefined && fs.existsSync(orphanFile), 'Asset Deletion: Dry run should not remove anything.');
+
+    const collected = await client.assets.collectGarbage();
+    assert(!collected.dryRun && collected.assetIds.join() === dropped._id, 'Asset Deletion: Garbage collection should remove the unreferenced asset.');
+    assert((await store.get(dropped._id)) === undefined, 'Asset Deletion: Unreferenced asset document should be deleted.');
+    assert(!fs.existsSync(path.join(assetsDir, dropped.path!)) && !fs.existsSync(orphanFile), 'Asset Deletion: Orphaned files should be deleted.');
+    assert(fs.existsSync(path.join(assetsDir, kept.path!)), 'Asset Deletion: Used files should be kept.');
+
+    await client.delete('assetPost');
+    const deleted = await client.assets.delete(kept);
+    assert(deleted._id === kept._id && (await store.get(kept._id)) === undefined, 'Asset Deletion: Asset document should be deleted.');
+    assert(!fs.existsSync(path.join(assetsDir, kept.path!)), 'Asset Deletion: Asset file should be deleted with its document.');
+
+    let notFoundError: any;
+    try {
+      await client.assets.delete('assetPost');
+    } catch (error) {
+      notFoundError = error;
+    }
+    assert(notFoundError?.statusCode === 404, 'Asset Deletion: Deleting a missing asset should be a 404.');
+  } finally {
+    fs.rmSync(orphanFile, { force: true });
+    await store.clear();
+  }
+}
+
+async function testClientAssetGarbageAcrossDatasets() {
+  cleanupPersistenceTestDir();
+  const client = new LocalSanityClientImpl({ ...defaultClientConfig, dataset: 'gc-open', localDataPath: persistenceTestDir });
+  const closedFile = path.join(process.cwd(), 'local_assets', 'closed-dataset-gc-test.txt');
+
+  try {
+    // A dataset persisted next to the client's, but never opened in this process
+    const closed = new InMemoryStore({ storage: new FileStorageBackend(path.join(persistenceTestDir, 'gc-closed')) });
+    await closed.create({
+      _id: 'file-closed-txt',
+      _type: 'sanity.fileAsset',
+      url: 'local_assets/closed-dataset-gc-test.txt',
+      path: 'closed-dataset-gc-test.txt',
+      _createdAt: '',
+      _updatedAt: '',
+    });
+    await closed.flush();
+    fs.mkdirSync(path.dirname(closedFile), { recursive: true });
+    fs.writeFileSync(closedFile, 'used by a closed dataset');
+
+    const collected = await client.assets.collectGarbage();
+    assert(!collected.files.includes('closed-dataset-gc-test.txt'), 'Asset Garbage Across Datasets: Files of persisted datasets should not be listed.');
+    assert(fs.existsSync(closedFile), 'Asset Garbage Across Datasets: Files of persisted datasets should be kept.');
+  } finally {
+    fs.rmSync(closedFile, { force: true });
+    await client.datasets.delete('gc-open');
+    cleanupPersistenceTestDir();
+  }
+}
+
 async function testClientAssetUpload() {
   const client = new LocalSanityClientImpl({ ...defaultClientConfig, assetsDirectory: assetsTestDir, logLevel: 'error' });
   const store = await getClientStore(client);
@@ -310,7 +1405,7 @@ async function testClientAssetUpload() {
 
     await delay(50); // Allow event for asset doc creation to propagate
     assert(receivedEvents.length === 1, 'Client Asset Upload: Expected 1 event for asset document creation.');
-    assert(receivedEvents[0].type === 'create' && receivedEvents[0].documentId === assetMeta._id, 'Client Asset Upload: Asset create event data incorrect.');
+    assert(receivedEvents[0].transition === 'appear' && receivedEvents[0].documentId === assetMeta._id, 'Client Asset Upload: Asset create event data incorrect.');
 
   } finally {
     subscription.unsubscribe();
@@ -328,9 +1423,32 @@ const tests: { name: string, fn: () => Promise<void> }[] = [
   { name: 'InMemoryStore: Update Non-Existent', fn: testStoreUpdateNonExistent },
   { name: 'InMemoryStore: Query', fn: testStoreQuery },
   { name: 'InMemoryStore: Clear', fn: testStoreClear },
+  { name: 'InMemoryStore: Persistence', fn: testStorePersistence },
+  { name: 'InMemoryStore: Compaction', fn: testStoreCompaction },
+  { name: 'InMemoryStore: Indexes', fn: testStoreIndexes },
   { name: 'LocalSanityClientImpl: Fetch Queries', fn: testClientFetchQueries },
+  { name: 'LocalSanityClientImpl: Fetch GROQ', fn: testClientFetchGroq },
+  { name: 'LocalSanityClientImpl: Indexed Queries', fn: testClientIndexedQueries },
   { name: 'LocalSanityClientImpl: Transactions & Events', fn: testClientTransactions },
+  { name: 'LocalSanityClientImpl: Transaction Atomicity', fn: testClientTransactionAtomicity },
+  { name: 'LocalSanityClientImpl: Revisions', fn: testClientRevisions },
+  { name: 'LocalSanityClientImpl: Transaction History', fn: testClientTransactionHistory },
+  { name: 'LocalSanityClientImpl: Referential Integrity', fn: testClientReferentialIntegrity },
+  { name: 'LocalSanityClientImpl: Schema Validation', fn: testClientSchemaValidation },
+  { name: 'LocalSanityClientImpl: API Parity', fn: testClientApiParity },
+  { name: 'LocalSanityClientImpl: Access Control', fn: testClientAccessControl },
+  { name: 'LocalSanityClientImpl: Patch Operations', fn: testClientPatchOperations },
   { name: 'LocalSanityClientImpl: Listen', fn: testClientListen },
+  { name: 'LocalSanityClientImpl: Listen Filter Transitions', fn: testClientListenFilterTransitions },
+  { name: 'LocalSanityClientImpl: Perspectives', fn: testClientPerspectives },
+  { name: 'LocalSanityClientImpl: Dataset Registry', fn: testClientDatasetRegistry },
+  { name: 'LocalSanityClientImpl: Deterministic Fixtures', fn: testClientDeterministicFixtures },
+  { name: 'LocalSanityClientImpl: Webhooks', fn: testClientWebhooks },
+  { name: 'LocalHttpServer: Content Lake API', fn: testHttpServer },
+  { name: 'LocalStudioBackend: Studio in the Browser', fn: testLocalStudioBackend },
+  { name: 'LocalSanityClientImpl: Image Asset Upload', fn: testClientImageAssetUpload },
+  { name: 'LocalSanityClientImpl: Asset Deletion', fn: testClientAssetDeletion },
+  { name: 'LocalSanityClientImpl: Asset Garbage Across Datasets', fn: testClientAssetGarbageAcrossDatasets },
   { name: 'LocalSanityClientImpl: Asset Upload & Events', fn: testClientAssetUpload },
 ];
 
@@ -0,0 +1,420 @@
+/**
+ * @remarks
+ * The Content Lake REST API of the local backend, independent of how requests arrive: the Node HTTP server
+ * and the Studio's in-browser backend both route their requests through here.
+ */
+
+import { LocalSanityClientImpl } from './localSanityClient';
+import {
+  ClientPerspective,
+  MutateSummary,
+  SanityDocument,
+  SimpleObservable,
+  TransactionLogOptions,
+} from './localSanityTypes';
+import { LocalClientError } from './localErrors';
+
+/**
+ * Matches the API version prefix of a request path, e.g. `/v1/` or `/v2024-03-15/`.
+ */
+const API_VERSION_PATTERN = /^\/v(?:1|X|\d{4}-\d{2}-\d{2})\/(.+)$/;
+
+/**
+ * A request to the local Content Lake API.
+ */
+export interface LocalApiRequest {
+  /**
+   * The HTTP method, e.g. 'GET'.
+   */
+  method: string;
+
+  /**
+   * The request URL. Only the path and search parameters are used.
+   */
+  url: URL;
+
+  /**
+   * The request headers, keyed by lowercase name.
+   */
+  headers: Record<string, string | undefined>;
+
+  /**
+   * The request body, if any: JSON as a string or bytes, or the raw contents of an asset upload.
+   */
+  body?: string | Buffer | Blob | null;
+}
+
+/**
+ * A response from the local Content Lake API: a JSON body, an NDJSON body, or a stream of listener events.
+ */
+export type LocalApiResponse =
+  | { type: 'json'; status: number; body: unknown }
+  | { type: 'ndjson'; status: number; body: string }
+  | { type: 'events'; status: number; events: SimpleObservable };
+
+/**
+ * Routes a request to its endpoint:
+ * - `GET|POST /v{apiVersion}/data/query/:dataset`
+ * - `POST /v{apiVersion}/data/mutate/:dataset`
+ * - `GET /v{apiVersion}/data/doc/:dataset/:ids`
+ * - `GET /v{apiVersion}/data/listen/:dataset` (listener events)
+ * - `GET /v{apiVersion}/data/history/:dataset/transactions/:ids` (NDJSON)
+ * - `GET /v{apiVersion}/data/history/:dataset/documents/:ids?revision=…|time=…`
+ * - `POST /v{apiVersion}/assets/images/:dataset` and `POST /v{apiVersion}/assets/files/:dataset`
+ * - `GET /v{apiVersion}/projects/:projectId/datasets/:dataset/acl` (the grants of the client's token)
+ * @param request - The request.
+ * @param getClient - Returns the client serving a dataset to the request.
+ * @returns A promise that resolves with the response.
+ * @throws LocalClientError if the path is malformed, no endpoint matches, or the endpoint rejects the request.
+ */
+export async function routeLocalApiRequest(
+  request: LocalApiRequest,
+  getClient: (dataset: string) => LocalSanityClientImpl
+): Promise<LocalApiResponse> {
+  const { method, url } = request;
+  const match = API_VERSION_PATTERN.exec(url.pathname);
+  const [area, endpoint, dataset, ...rest] = match ? decodePathSegments(match[1].split('/')) : [];
+
+  if (area === 'data' && dataset) {
+    const client = getClient(dataset);
+    if (endpoint === 'query' && (method === 'GET' || method === 'POST')) {
+      return handleQuery(client, request);
+    }
+    if (endpoint === 'mutate' && method === 'POST') {
+      return handleMutate(client, request);
+    }
+    if (endpoint === 'doc' && method === 'GET' && rest.length > 0) {
+      return handleDoc(client, rest.join('/'));
+    }
+    if (endpoint === 'listen' && method === 'GET') {
+      return handleListen(client, url);
+    }
+    if (endpoint === 'history' && method === 'GET' && rest.length > 1) {
+      const [kind, ...ids] = rest;
+      if (kind === 'transactions') {
+        return handleHistoryTransactions(client, ids.join('/'), url);
+      }
+      if (kind === 'documents') {
+        return handleHistoryDocuments(client, ids.join('/'), url);
+      }
+    }
+  }
+  if (area === 'assets' && (endpoint === 'images' || endpoint === 'files') && dataset && method === 'POST') {
+    return handleAssetUpload(getClient(dataset), endpoint === 'images' ? 'image' : 'file', request);
+  }
+  // The project ID in the path is not checked, so a Studio configured with any project can read its grants
+  if (area === 'projects' && dataset === 'datasets' && rest.length === 2 && rest[1] === 'acl' && method === 'GET') {
+    return { type: 'json', status: 200, body: await getClient(rest[0]).getGrants() };
+  }
+
+  throw new LocalClientError(404, { type: 'httpNotFound', description: `Cannot ${method} ${url.pathname}` });
+}
+
+/**
+ * Turns an error into a response in the Content Lake error shape.
+ * Errors of the local client keep their status code and body; anything else is reported as a 500.
+ * @param error - The error.
+ * @returns The response.
+ */
+export function toErrorResponse(error: unknown): Extract<LocalApiResponse, { type: 'json' }> {
+  if (error instanceof LocalClientError) {
+    return { type: 'json', status: error.statusCode, body: error.responseBody };
+  }
+  console.error('Local API error:', error);
+  return { type: 'json', status: 500, body: { error: { type: 'internalError', description: (error as Error).message } } };
+}
+
+/**
+ * Decodes the percent-encoded segments of a request path.
+ * @param segments - The encoded segments.
+ * @returns The decoded segments.
+ * @throws LocalClientError with status 400 if a segment is not validly encoded, e.g. `%E0`.
+ */
+export function decodePathSegments(segments: string[]): string[] {
+  try {
+    return segments.map(decodeURIComponent);
+  } catch (error) {
+    if (error instanceof URIError) {
+      throw new LocalClientError(400, { type: 'httpBadRequest', description: 'Malformed URL path' });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the token of an `Authorization: Bearer <token>` header.
+ * @param authorization - The value of the header, if any.
+ * @returns The token, or an empty string for anonymous requests.
+ */
+export function getBearerToken(authorization: string | undefined): string {
+  const match = /^Bearer\s+(.+)$/i.exec(authorization ?? '');
+  return match ? match[1].trim() : '';
+}
+
+/**
+ * Formats a listener event as a server-sent event.
+ * @param event - The listener event.
+ * @returns The event, terminated by a blank line.
+ */
+export function formatServerSentEvent(event: { type: string; eventId?: string }): string {
+  const { type, ...data } = event;
+  const id = type === 'mutation' ? `id: ${event.eventId}\n` : '';
+  return `event: ${type}\n${id}data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Handles `/data/query/:dataset`. Queries are read from the `query` search parameter, or a JSON body for POST.
+ * @param client - The dataset's client.
+ * @param request - The request.
+ * @returns A promise that resolves with the response.
+ */
+async function handleQuery(client: LocalSanityClientImpl, request: LocalApiRequest): Promise<LocalApiResponse> {
+  const { url } = request;
+  const startTime = Date.now();
+  const body = request.method === 'POST' ? await readJsonBody(request) : {};
+  const query: string | undefined = body.query ?? url.searchParams.get('query') ?? undefined;
+  if (!query) {
+    throw new LocalClientError(400, { type: 'httpBadRequest', description: 'Missing query' });
+  }
+  const params = body.params ?? parseQueryParams(url.searchParams);
+  const perspective = parsePerspective(body.perspective ?? url.searchParams.get('perspective'));
+  const result = await client.fetch(query, params, { perspective });
+  return { type: 'json', status: 200, body: { ms: Date.now() - startTime, query, result: result ?? null } };
+}
+
+/**
+ * Handles `/data/mutate/:dataset`. All mutations in the body are committed as one transaction;
+ * with `dryRun=true`, they are checked but not applied.
+ * @param client - The dataset's client.
+ * @param request - The request.
+ * @returns A promise that resolves with the response.
+ */
+async function handleMutate(client: LocalSanityClientImpl, request: LocalApiRequest): Promise<LocalApiResponse> {
+  const { url } = request;
+  const body = await readJsonBody(request);
+  const { mutations } = body;
+  if (!Array.isArray(mutations)) {
+    throw new LocalClientError(400, { type: 'httpBadRequest', description: 'Missing "mutations" array in body' });
+  }
+
+  const returnDocuments = url.searchParams.get('returnDocuments') === 'true';
+  const { transactionId, results } = (await client.mutate(mutations, {
+    dryRun: url.searchParams.get('dryRun') === 'true',
+    transactionId: typeof body.transactionId === 'string' ? body.transactionId : undefined,
+  })) as MutateSummary;
+  return {
+    type: 'json',
+    status: 200,
+    body: {
+      transactionId,
+      results: results.map(({ document, ...result }) => (returnDocuments && document ? { ...result, document } : result)),
+    },
+  };
+}
+
+/**
+ * Handles `/data/doc/:dataset/:ids`, where `ids` is a comma-separated list of document IDs.
+ * @param client - The dataset's client.
+ * @param ids - The comma-separated document IDs.
+ * @returns A promise that resolves with the response.
+ */
+async function handleDoc(client: LocalSanityClientImpl, ids: string): Promise<LocalApiResponse> {
+  const documents = [];
+  const omitted = [];
+  for (const id of ids.split(',')) {
+    const document = await client.getDocument(id);
+    if (document) {
+      documents.push(document);
+    } else {
+      omitted.push({ id, reason: 'existence' });
+    }
+  }
+  return { type: 'json', status: 200, body: { documents, omitted } };
+}
+
+/**
+ * Handles `/data/listen/:dataset`, starting with a welcome event.
+ * @param client - The dataset's client.
+ * @param url - The request URL.
+ * @returns The response, with the events of the listener.
+ * @throws LocalClientError if the query is missing.
+ */
+function handleListen(client: LocalSanityClientImpl, url: URL): LocalApiResponse {
+  const query = url.searchParams.get('query');
+  if (!query) {
+    throw new LocalClientError(400, { type: 'httpBadRequest', description: 'Missing query' });
+  }
+  const events = client.listen(query, parseQueryParams(url.searchParams), {
+    includeResult: url.searchParams.get('includeResult') !== 'false',
+    includePreviousRevision: url.searchParams.get('includePreviousRevision') === 'true',
+    perspective: parsePerspective(url.searchParams.get('perspective')),
+    effectFormat: url.searchParams.get('effectFormat') === 'mendoza' ? 'mendoza' : undefined,
+    events: ['welcome', 'mutation'],
+  });
+  return { type: 'events', status: 200, events };
+}
+
+/**
+ * Handles `/data/history/:dataset/transactions/:ids`, returning the transaction log of the documents as NDJSON.
+ * @param client - The dataset's client.
+ * @param ids - The comma-separated document IDs.
+ * @param url - The request URL.
+ * @returns A promise that resolves with the response.
+ */
+async function handleHistoryTransactions(client: LocalSanityClientImpl, ids: string, url: URL): Promise<LocalApiResponse> {
+  const ndjson = await client.getTransactionLog(ids.split(','), parseTransactionLogOptions(url.searchParams));
+  return { type: 'ndjson', status: 200, body: ndjson };
+}
+
+/**
+ * Handles `/data/history/:dataset/documents/:ids`, returning the documents as they were at the
+ * `revision` or `time` given in the search parameters. Documents that did not exist then are left out.
+ * @param client - The dataset's client.
+ * @param ids - The comma-separated document IDs.
+ * @param url - The request URL.
+ * @returns A promise that resolves with the response.
+ */
+async function handleHistoryDocuments(client: LocalSanityClientImpl, ids: string, url: URL): Promise<LocalApiResponse> {
+  const revision = url.searchParams.get('revision');
+  const time = url.searchParams.get('time');
+  if (!revision && !time) {
+    throw new LocalClientError(400, {
+      type: 'httpBadRequest',
+      description: 'Either "revision" or "time" must be given',
+    });
+  }
+  const documents: SanityDocument[] = [];
+  for (const id of ids.split(',')) {
+    const document = revision
+      ? await client.getDocumentAtRevision(id, revision)
+      : await client.getDocumentAtTime(id, time as string);
+    if (document) {
+      documents.push(document);
+    }
+  }
+  return { type: 'json', status: 200, body: { documents } };
+}
+
+/**
+ * Handles `/assets/images/:dataset` and `/assets/files/:dataset`. The request body is the raw asset.
+ * @param client - The dataset's client.
+ * @param assetType - Whether an image or a file is uploaded.
+ * @param request - The request.
+ * @returns A promise that resolves with the response.
+ */
+async function handleAssetUpload(
+  client: LocalSanityClientImpl,
+  assetType: 'image' | 'file',
+  request: LocalApiRequest
+): Promise<LocalApiResponse> {
+  const { body, url } = request;
+  const contents = typeof body === 'string' ? Buffer.from(body) : (body ?? Buffer.alloc(0));
+  const document = await client.assets.upload(assetType, contents, {
+    filename: url.searchParams.get('filename') || undefined,
+    contentType: request.headers['content-type'] || undefined,
+  });
+  return { type: 'json', status: 200, body: { document } };
+}
+
+/**
+ * Reads transaction log query options from search parameters, as sent by the Studio's history requests.
+ * @param searchParams - The search parameters.
+ * @returns The transaction log options.
+ * @throws LocalClientError if `limit` is not a non-negative integer.
+ */
+function parseTransactionLogOptions(searchParams: URLSearchParams): TransactionLogOptions {
+  const options: TransactionLogOptions = {
+    excludeMutations: searchParams.get('excludeMutations') === 'true',
+    includeIdentifiedDocumentsOnly: searchParams.get('includeIdentifiedDocumentsOnly') === 'true',
+    reverse: searchParams.get('reverse') === 'true',
+  };
+  if (searchParams.get('effectFormat') === 'mendoza') {
+    options.effectFormat = 'mendoza';
+  }
+  for (const key of ['fromTime', 'toTime', 'fromTransaction', 'toTransaction', 'authors'] as const) {
+    const value = searchParams.get(key);
+    if (value) {
+      options[key] = value;
+    }
+  }
+  const limit = searchParams.get('limit');
+  if (limit !== null) {
+    options.limit = Number(limit);
+    if (!Number.isInteger(options.limit) || options.limit < 0) {
+      throw new LocalClientError(400, { type: 'httpBadRequest', description: `Invalid limit "${limit}"` });
+    }
+  }
+  return options;
+}
+
+/**
+ * Parses the `$`-prefixed GROQ parameters of a request's search parameters. Values are JSON-encoded.
+ * @param searchParams - The search parameters.
+ * @returns The GROQ parameters, without the `$` prefix.
+ * @throws LocalClientError if a parameter value is not valid JSON.
+ */
+function parseQueryParams(searchParams: URLSearchParams): Record<string, any> {
+  const params: Record<string, any> = {};
+  searchParams.forEach((value, key) => {
+    if (!key.startsWith('$')) {
+      return;
+    }
+    try {
+      params[key.slice(1)] = JSON.parse(value);
+    } catch {
+      throw new LocalClientError(400, {
+        type: 'httpBadRequest',
+        description: `Unable to parse value of "${key}=${value}". Please quote string values.`,
+      });
+    }
+  });
+  return params;
+}
+
+/**
+ * Parses a perspective from a request, where release stacks are comma-separated (e.g. `rc-1,drafts`).
+ * @param value - The perspective value, if given.
+ * @returns The perspective, or undefined to use the client's default.
+ */
+function parsePerspective(value: string | string[] | null | undefined): ClientPerspective | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return ['raw', 'published', 'drafts', 'previewDrafts'].includes(value)
+    ? (value as ClientPerspective)
+    : value.split(',');
+}
+
+/**
+ * Reads the body of a request as text.
+ * @param request - The request.
+ * @returns A promise that resolves with the text, or an empty string if there is no body.
+ */
+export async function readRequestText(request: LocalApiRequest): Promise<string> {
+  const { body } = request;
+  if (!body) {
+    return '';
+  }
+  return typeof body === 'string' ? body : body instanceof Blob ? body.text() : new TextDecoder().decode(body);
+}
+
+/**
+ * Reads and parses the JSON body of a request.
+ * @param request - The request.
+ * @returns A promise that resolves with the parsed body, or an empty object if there is no body.
+ * @throws LocalClientError if the body is not valid JSON.
+ */
+async function readJsonBody(request: LocalApiRequest): Promise<Record<string, any>> {
+  const text = await readRequestText(request);
+  if (!text) {
+    return {};
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new LocalClientError(400, { type: 'httpBadRequest', description: 'Request body is not valid JSON' });
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * @remarks
+ * Process-wide registry of local datasets, so every client pointing at the same project and dataset
+ * shares its documents and listener events, like clients of the Content Lake do.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { InMemoryStore } from './inMemoryStore';
+import { FileStorageBackend } from './fileStorageBackend';
+import { EventEmitter } from './localEventEmitter';
+import { LocalWebhooks } from './localWebhooks';
+import { LocalClientError } from './localErrors';
+import { LocalClock, LocalIdGenerator, StorageBackend, StorageBackendFactory } from './localSanityTypes';
+
+/**
+ * Dataset names allowed by the Content Lake: lowercase letters, digits, `_` and `-`,
+ * starting with a letter or digit, at most 64 characters.
+ */
+const DATASET_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/**
+ * A dataset shared by all local clients of a project.
+ */
+export interface LocalDataset {
+  /**
+   * ID of the project the dataset belongs to.
+   */
+  readonly projectId: string;
+
+  /**
+   * Name of the dataset.
+   */
+  readonly name: string;
+
+  /**
+   * Directory the dataset is persisted under (as `<localDataPath>/<name>`), or empty if in-memory only.
+   */
+  readonly localDataPath: string;
+
+  /**
+   * Creates the storage the dataset is persisted to instead of `localDataPath`, or null if there is none.
+   */
+  readonly storage: StorageBackendFactory | null;
+
+  /**
+   * The documents of the dataset.
+   */
+  readonly store: InMemoryStore;
+
+  /**
+   * Emits a `mutation` event for every committed document change.
+   */
+  readonly events: EventEmitter;
+
+  /**
+   * The webhooks triggered by the dataset's committed changes.
+   */
+  readonly webhooks: LocalWebhooks;
+}
+
+/**
+ * Options for creating a dataset.
+ */
+export interface CreateDatasetOptions {
+  /**
+   * Optional directory to persist the dataset under, as `<localDataPath>/<name>`.
+   * If not provided, the dataset is in-memory only.
+   */
+  localDataPath?: string;
+
+  /**
+   * Optional storage to persist the dataset to instead, e.g. IndexedDB in the browser.
+   * Takes precedence over `localDataPath`.
+   */
+  storage?: StorageBackendFactory | null;
+
+  /**
+   * Optional clock for the timestamps of the dataset's writes and webhook deliveries. Defaults to the system clock.
+   */
+  clock?: LocalClock;
+
+  /**
+   * Optional generator of the dataset's transaction and webhook IDs. Defaults to random IDs.
+   */
+  generateId?: LocalIdGenerator;
+}
+
+/**
+ * Keeps track of the datasets of every project in the process.
+ */
+export class LocalDatasetRegistry {
+  /**
+   * Datasets, keyed by project ID and dataset name.
+   */
+  private datasets = new Map<string, LocalDataset>();
+
+  /**
+   * Deletions still removing a dataset's persisted data, keyed like `datasets`.
+   */
+  private deletions = new Map<string, Promise<void>>();
+
+  /**
+   * Retrieves a dataset.
+   * @param projectId - The project ID.
+   * @param name - The dataset name.
+   * @returns The dataset, or undefined if it does not exist.
+   */
+  getDataset(projectId: string, name: string): LocalDataset | undefined {
+    return this.datasets.get(getDatasetKey(projectId, name));
+  }
+
+  /**
+   * Retrieves a dataset, creating it if it does not exist yet.
+   * Persisted datasets are restored from their storage when first created.
+   * @param projectId - The project ID.
+   * @param name - The dataset name.
+   * @param options - Options used if the dataset has to be created.
+   * @returns The dataset.
+   * @throws LocalClientError if the dataset name is not valid.
+   */
+  acquireDataset(projectId: string, name: string, options: CreateDatasetOptions = {}): LocalDataset {
+    const existing = this.getDataset(projectId, name);
+    if (existing) {
+      if ((options.localDataPath || '') !== existing.localDataPath) {
+        console.warn(
+          `Dataset "${name}" of project "${projectId}" is already open with localDataPath "${existing.localDataPath}"; ignoring "${options.localDataPath || ''}".`
+        );
+      }
+      return existing;
+    }
+    return this.createDataset(projectId, name, options);
+  }
+
+  /**
+   * Creates a new, empty dataset.
+   * @param projectId - The project ID.
+   * @param name - The dataset name.
+   * @param options - Optional dataset options, such as where to persist it.
+   * @returns The created dataset.
+   * @throws LocalClientError if the dataset name is not valid, or the dataset already exists.
+   */
+  createDataset(projectId: string, name: string, options: CreateDatasetOptions = {}): LocalDataset {
+    if (!DATASET_NAME_PATTERN.test(name)) {
+      throw new LocalClientError(400, {
+        type: 'validationError',
+        description: `Dataset name "${name}" is invalid. Use at most 64 lowercase letters, digits, "_" and "-", starting with a letter or digit.`,
+      });
+    }
+    const key = getDatasetKey(projectId, name);
+    if (this.datasets.has(key)) {
+      throw new LocalClientError(409, {
+        type: 'conflict',
+        description: `Dataset "${name}" already exists in project "${projectId}".`,
+      });
+    }
+
+    const localDataPath = options.localDataPath || '';
+    const storage = options.storage ?? null;
+    const createStorage = (): StorageBackend =>
+      storage ? storage(projectId, name) : new FileStorageBackend(path.join(localDataPath, name));
+    const deletion = this.deletions.get(key);
+    const events = new EventEmitter();
+    const dataset: LocalDataset = {
+      projectId,
+      name,
+      localDataPath,
+      storage,
+      store: new InMemoryStore({
+        storage:
+          storage || localDataPath ? (deletion ? afterDeletion(deletion, createStorage) : createStorage()) : undefined,
+        clock: options.clock,
+        generateId: options.generateId,
+      }),
+      events,
+      webhooks: new LocalWebhooks(projectId, name, events, options.clock, options.generateId),
+    };
+    this.datasets.set(key, dataset);
+    return dataset;
+  }
+
+  /**
+   * Deletes a dataset and all of its documents, including its persisted data.
+   * Clients still pointing at the dataset get a new, empty dataset on their next operation,
+   * which is only restored from its storage once the deletion has finished;
+   * listeners subscribed to the deleted dataset receive no further events, and its webhooks are unregistered.
+   * @param projectId - The project ID.
+   * @param name - The dataset name.
+   * @returns A promise that resolves once the dataset is deleted.
+   * @throws LocalClientError if the dataset does not exist.
+   */
+  async deleteDataset(projectId: string, name: string): Promise<void> {
+    const key = getDatasetKey(projectId, name);
+    const dataset = this.requireDataset(projectId, name);
+    this.datasets.delete(key);
+    dataset.webhooks.clear();
+    const deletion = removeData(dataset);
+    this.deletions.set(key, deletion);
+    try {
+      await deletion;
+    } finally {
+      if (this.deletions.get(key) === deletion) {
+        this.deletions.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Copies all documents of a dataset into a new dataset, persisted alongside the source.
+   * The copy is a single transaction, so copied documents get a new revision.
+   * @param projectId - The project ID.
+   * @param sourceName - The name of the dataset to copy.
+   * @param targetName - The name of the dataset to create.
+   * @param options - Optional clock and ID generator of the new dataset.
+   * @returns A promise that resolves with the new dataset.
+   * @throws LocalClientError if the source does not exist, or the target already exists.
+   */
+  async copyDataset(
+    projectId: string,
+    sourceName: string,
+    targetName: string,
+    options: Pick<CreateDatasetOptions, 'clock' | 'generateId'> = {}
+  ): Promise<LocalDataset> {
+    const source = this.requireDataset(projectId, sourceName);
+    const target = this.createDataset(projectId, targetName, {
+      ...options,
+      localDataPath: source.localDataPath,
+      storage: source.storage,
+    });
+    const documents = await source.store.query(() => true);
+    await target.store.transact((view) => {
+      documents.forEach((doc) => view.set(doc));
+    });
+    return target;
+  }
+
+  /**
+   * Lists the datasets of a project.
+   * @param projectId - The project ID.
+   * @returns The dataset names, sorted alphabetically.
+   */
+  listDatasets(projectId: string): string[] {
+    return Array.from(this.datasets.values())
+      .filter((dataset) => dataset.projectId === projectId)
+      .map((dataset) => dataset.name)
+      .sort();
+  }
+
+  /**
+   * Lists the open datasets of every project.
+   * @returns The datasets.
+   */
+  getOpenDatasets(): LocalDataset[] {
+    return Array.from(this.datasets.values());
+  }
+
+  /**
+   * Retrieves a dataset that must exist.
+   * @param projectId - The project ID.
+   * @param name - The dataset name.
+   * @returns The dataset.
+   * @throws LocalClientError if the dataset does not exist.
+   */
+  private requireDataset(projectId: string, name: string): LocalDataset {
+    const dataset = this.getDataset(projectId, name);
+    if (!dataset) {
+      throw new LocalClientError(404, {
+        type: 'notFound',
+        description: `Dataset "${name}" not found in project "${projectId}".`,
+      });
+    }
+    return dataset;
+  }
+}
+
+/**
+ * Returns the registry key of a dataset.
+ * @param projectId - The project ID.
+ * @param name - The dataset name.
+ * @returns The key.
+ */
+function getDatasetKey(projectId: string, name: string): string {
+  return `${projectId}/${name}`;
+}
+
+/**
+ * Removes the documents of a deleted dataset, including its persisted data.
+ * @param dataset - The deleted dataset.
+ * @returns A promise that resolves once the data is removed.
+ */
+async function removeData(dataset: LocalDataset): Promise<void> {
+  await dataset.store.clear();
+  await dataset.store.flush();
+  // Other storage keeps the empty snapshot written by `clear()`
+  if (dataset.localDataPath && !dataset.storage) {
+    await fs.promises.rm(path.join(dataset.localDataPath, dataset.name), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Creates the storage of a dataset recreated while an earlier deletion of it is still running.
+ * The storage is only created once the deletion has finished (or failed), so the new dataset neither
+ * restores the deleted documents nor has its own writes removed.
+ * @param deletion - The running deletion.
+ * @param createStorage - Creates the storage of the dataset.
+ * @returns The storage backend.
+ */
+function afterDeletion(deletion: Promise<void>, createStorage: () => StorageBackend): StorageBackend {
+  const backend = deletion.catch(() => undefined).then(createStorage);
+  return {
+    load: async () => (await backend).load(),
+    append: async (entry) => (await backend).append(entry),
+    compact: async (snapshot) => (await backend).compact(snapshot),
+  };
+}
+
+/**
+ * The registry shared by all local clients in the process.
+ */
+export const localDatasetRegistry = new LocalDatasetRegistry();
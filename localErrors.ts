@@ -0,0 +1,125 @@
+/**
+ * @remarks
+ * Error classes thrown by the local Sanity client.
+ * Each error carries the HTTP status code and error body the Content Lake would respond with,
+ * so callers can handle them the same way as errors from `@sanity/client`.
+ */
+
+/**
+ * The error body returned by the Content Lake, nested under `error` in the response.
+ */
+export interface LocalErrorDetails {
+  /**
+   * Machine-readable error type (e.g. 'queryParseError', 'mutationError').
+   */
+  type: string;
+
+  /**
+   * Human-readable description of the error.
+   */
+  description: string;
+
+  /**
+   * Additional, error type specific properties.
+   */
+  [key: string]: any;
+}
+
+/**
+ * Base class for errors thrown by the local Sanity client.
+ */
+export class LocalClientError extends Error {
+  /**
+   * The HTTP status code the hosted API would respond with.
+   */
+  statusCode: number;
+
+  /**
+   * The error body the hosted API would respond with.
+   */
+  details: LocalErrorDetails;
+
+  /**
+   * Creates an instance of LocalClientError.
+   * @param statusCode - The HTTP status code of the error.
+   * @param details - The Content Lake error body.
+   */
+  constructor(statusCode: number, details: LocalErrorDetails) {
+    super(details.description);
+    this.name = 'LocalClientError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+
+  /**
+   * The full response body, as returned by the hosted API.
+   */
+  get responseBody(): { error: LocalErrorDetails } {
+    return { error: this.details };
+  }
+}
+
+/**
+ * Thrown when a GROQ query cannot be parsed.
+ */
+export class LocalQueryParseError extends LocalClientError {
+  /**
+   * Creates an instance of LocalQueryParseError.
+   * @param query - The query that failed to parse.
+   * @param description - Description of the parse error.
+   * @param position - Optional 0-based offset in the query where parsing failed.
+   */
+  constructor(query: string, description: string, position?: number) {
+    super(400, {
+      type: 'queryParseError',
+      description,
+      query,
+      start: position ?? 0,
+      end: position === undefined ? query.length : position + 1,
+    });
+    this.name = 'LocalQueryParseError';
+  }
+}
+
+/**
+ * A single failed mutation, as listed in the `items` of a mutation error.
+ */
+export interface LocalMutationErrorItem {
+  /**
+   * Index of the failed mutation within the transaction.
+   */
+  index: number;
+
+  /**
+   * Details of why the mutation failed.
+   */
+  error: LocalErrorDetails & { id: string };
+}
+
+/**
+ * Thrown when a mutation in a transaction fails, in which case none of the transaction's mutations are applied.
+ */
+export class LocalMutationError extends LocalClientError {
+  /**
+   * Creates an instance of LocalMutationError.
+   * @param statusCode - The HTTP status code of the error (e.g. 409 for conflicts).
+   * @param item - The failed mutation.
+   */
+  constructor(statusCode: number, item: LocalMutationErrorItem) {
+    super(statusCode, {
+      type: 'mutationError',
+      description: `The mutation(s) failed: ${item.error.description}`,
+      items: [item],
+    });
+    // Keep the message identical to the underlying error for readability in logs
+    this.message = item.error.description;
+    this.name = 'LocalMutationError';
+  }
+
+  /**
+   * The failed mutations.
+   */
+  get items(): LocalMutationErrorItem[] {
+    return this.details.items;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * @remarks
+ * A minimal event emitter used to pass committed changes from writers to listeners.
+ */
+
+/**
+ * @internal
+ * A simple event emitter class for handling real-time updates.
+ */
+export class EventEmitter {
+  private listeners: Map<string, Array<(data: any) => void>> = new Map();
+
+  /**
+   * Registers a listener for a specific event.
+   * @param eventName - The name of the event to listen to.
+   * @param callback - The function to call when the event is emitted.
+   */
+  on(eventName: string, callback: (data: any) => void): void {
+    if (!this.listeners.has(eventName)) {
+      this.listeners.set(eventName, []);
+    }
+    this.listeners.get(eventName)!.push(callback);
+  }
+
+  /**
+   * Unregisters a listener for a specific event.
+   * @param eventName - The name of the event.
+   * @param callback - The callback function to remove.
+   */
+  off(eventName: string, callback: (data: any) => void): void {
+    const eventListeners = this.listeners.get(eventName);
+    if (eventListeners) {
+      this.listeners.set(
+        eventName,
+        eventListeners.filter((cb) => cb !== callback)
+      );
+    }
+  }
+
+  /**
+   * Emits an event to all registered listeners for that event.
+   * @param eventName - The name of the event to emit.
+   * @param data - The data to pass to the listeners.
+   */
+  emit(eventName: string, data: any): void {
+    const eventListeners = this.listeners.get(eventName);
+    if (eventListeners) {
+      eventListeners.forEach((callback) => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error('Error in event listener:', error);
+        }
+      });
+    }
+  }
+}
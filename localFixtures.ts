@@ -0,0 +1,192 @@
+/**
+ * @remarks
+ * Helpers for reproducible tests against the local backend: a controllable clock and sequential IDs to inject
+ * through the client configuration, and fixtures to seed a dataset from NDJSON, snapshot it and reset it
+ * between tests.
+ */
+
+import { LocalClientError } from './localErrors';
+import { localDatasetRegistry, LocalDataset } from './localDatasetRegistry';
+import { LocalClock, LocalIdGenerator, LocalIdKind, LocalSanityClient, SanityDocument, StoreSnapshot } from './localSanityTypes';
+
+/**
+ * A clock that only moves when told to, for the `clock` client option.
+ */
+export interface TestClock extends LocalClock {
+  /**
+   * Moves the clock forward.
+   * @param ms - The number of milliseconds to move forward by.
+   */
+  advance(ms: number): void;
+
+  /**
+   * Sets the clock to a time.
+   * @param time - The time, as a Date or an ISO 8601 timestamp.
+   */
+  set(time: Date | string): void;
+
+  /**
+   * Sets the clock back to its start time.
+   */
+  reset(): void;
+}
+
+/**
+ * Options for a test clock.
+ */
+export interface TestClockOptions {
+  /**
+   * Optional time the clock starts at, as a Date or an ISO 8601 timestamp. Defaults to `2024-01-01T00:00:00.000Z`.
+   */
+  start?: Date | string;
+
+  /**
+   * Optional number of milliseconds the clock moves forward after every reading, so successive
+   * transactions get distinct, increasing timestamps. Defaults to 0.
+   */
+  tickMs?: number;
+}
+
+/**
+ * Generates predictable IDs, for the `generateId` client option.
+ */
+export interface SequentialIdGenerator extends LocalIdGenerator {
+  /**
+   * Starts every kind of ID from the beginning again.
+   */
+  reset(): void;
+}
+
+/**
+ * Creates a clock that starts at a fixed time and only moves when told to.
+ * @param options - Optional start time and tick.
+ * @returns The clock.
+ */
+export function createTestClock(options: TestClockOptions = {}): TestClock {
+  const start = new Date(options.start ?? '2024-01-01T00:00:00.000Z').getTime();
+  const tickMs = options.tickMs ?? 0;
+  let now = start;
+  const clock = () => {
+    const time = new Date(now);
+    now += tickMs;
+    return time;
+  };
+  return Object.assign(clock, {
+    advance: (ms: number) => {
+      now += ms;
+    },
+    set: (time: Date | string) => {
+      now = new Date(time).getTime();
+    },
+    reset: () => {
+      now = start;
+    },
+  });
+}
+
+/**
+ * Creates a generator of sequential IDs, numbered per kind: `transaction-0001`, `document-0001`, and so on.
+ * @returns The ID generator.
+ */
+export function createSequentialIdGenerator(): SequentialIdGenerator {
+  const counters = new Map<LocalIdKind, number>();
+  const generateId = (kind: LocalIdKind) => {
+    const count = (counters.get(kind) ?? 0) + 1;
+    counters.set(kind, count);
+    return `${kind}-${String(count).padStart(4, '0')}`;
+  };
+  return Object.assign(generateId, { reset: () => counters.clear() });
+}
+
+/**
+ * Parses documents from NDJSON, as written by `sanity dataset export`. Blank lines are skipped.
+ * @param ndjson - One JSON document per line.
+ * @returns The documents, in order.
+ * @throws LocalClientError if a line is not a document with an `_id` and `_type`.
+ */
+export function parseNdjsonDocuments(ndjson: string): SanityDocument[] {
+  return ndjson
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line)
+    .map(({ line, lineNumber }) => parseNdjsonDocument(line, lineNumber));
+}
+
+/**
+ * Seeds the client's dataset with documents from NDJSON, in one transaction that replaces documents with the same ID.
+ * The documents are written through the client, so listeners, validation and access control apply as for any write.
+ * @param client - The client of the dataset to seed.
+ * @param ndjson - One JSON document per line.
+ * @returns A promise that resolves with the number of seeded documents.
+ * @throws LocalClientError if a line is not a document with an `_id` and `_type`.
+ */
+export async function seedDataset(client: LocalSanityClient, ndjson: string): Promise<{ documents: number }> {
+  const documents = parseNdjsonDocuments(ndjson);
+  if (documents.length > 0) {
+    await client.mutate(documents.map((document) => ({ createOrReplace: document })));
+  }
+  return { documents: documents.length };
+}
+
+/**
+ * Takes a snapshot of the documents and the transaction log of the client's dataset.
+ * @param client - The client of the dataset.
+ * @returns A promise that resolves with the snapshot, after every write issued so far.
+ * @throws LocalClientError if the dataset has been deleted.
+ */
+export async function snapshotDataset(client: LocalSanityClient): Promise<StoreSnapshot> {
+  return getOpenDataset(client).store.snapshot();
+}
+
+/**
+ * Resets the client's dataset to a snapshot, or empties it. Listeners are not sent events for the reset.
+ * Registered webhooks are kept.
+ * @param client - The client of the dataset.
+ * @param snapshot - Optional snapshot to reset to, as taken by `snapshotDataset`.
+ * @returns A promise that resolves once the dataset is reset.
+ * @throws LocalClientError if the dataset has been deleted.
+ */
+export async function resetDataset(client: LocalSanityClient, snapshot?: StoreSnapshot): Promise<void> {
+  await getOpenDataset(client).store.reset(snapshot);
+}
+
+/**
+ * Parses a document of an NDJSON file.
+ * @param line - The line.
+ * @param lineNumber - The line number, for error messages.
+ * @returns The document.
+ * @throws LocalClientError if the line is not a document with an `_id` and `_type`.
+ */
+function parseNdjsonDocument(line: string, lineNumber: number): SanityDocument {
+  let document: SanityDocument;
+  try {
+    document = JSON.parse(line);
+  } catch {
+    throw new LocalClientError(400, { type: 'httpBadRequest', description: `Line ${lineNumber} is not valid JSON` });
+  }
+  if (typeof document?._id !== 'string' || typeof document._type !== 'string') {
+    throw new LocalClientError(400, {
+      type: 'httpBadRequest',
+      description: `Line ${lineNumber} is not a document with an _id and _type`,
+    });
+  }
+  return document;
+}
+
+/**
+ * Retrieves the dataset a client points at, which clients open when created.
+ * @param client - The client.
+ * @returns The dataset.
+ * @throws LocalClientError if the dataset has been deleted.
+ */
+function getOpenDataset(client: LocalSanityClient): LocalDataset {
+  const { projectId, dataset: name } = client.config();
+  const dataset = localDatasetRegistry.getDataset(projectId, name);
+  if (!dataset) {
+    throw new LocalClientError(404, {
+      type: 'notFound',
+      description: `Dataset "${name}" not found in project "${projectId}".`,
+    });
+  }
+  return dataset;
+}
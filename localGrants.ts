@@ -0,0 +1,136 @@
+/**
+ * @remarks
+ * Token-based access control for the local backend. Tokens map to roles, and roles to grants: GROQ filters
+ * with the permissions they give on matching documents, in the same format the Studio's grants store reads
+ * from the Content Lake's `/acl` endpoint.
+ */
+
+import { evaluate, ExprNode } from 'groq-js';
+import { DocumentPermission, LocalAuthConfig, LocalGrant, SanityDocument } from './localSanityTypes';
+import { LocalClientError } from './localErrors';
+import { parseGroqQuery } from './localGroq';
+
+/**
+ * The user ID of tokens configured without one, and of anonymous requests.
+ */
+const DEFAULT_USER_ID = 'local';
+
+/**
+ * Every permission on every document.
+ */
+const FULL_ACCESS: LocalGrant[] = [{ filter: '_id in path("**")', permissions: ['read', 'create', 'history', 'update'] }];
+
+/**
+ * The built-in roles, with the same grants the Studio uses for its example roles.
+ */
+export const DEFAULT_ROLES: Record<string, LocalGrant[]> = {
+  administrator: FULL_ACCESS,
+  editor: FULL_ACCESS,
+  developer: FULL_ACCESS,
+  contributor: [
+    { filter: '_id in path("**")', permissions: ['read'] },
+    { filter: '_id in path("drafts.**")', permissions: ['create', 'history', 'update'] },
+  ],
+  viewer: [{ filter: '_id in path("**")', permissions: ['read', 'history'] }],
+};
+
+/**
+ * Checks the permissions of one token (or of anonymous access) on documents.
+ */
+export class LocalAccessControl {
+  /**
+   * Parsed grant filters, keyed by filter.
+   */
+  private filters = new Map<string, ExprNode>();
+
+  /**
+   * Creates an instance of LocalAccessControl.
+   * @param grants - The grants of the token.
+   * @param userId - ID of the token's user, returned by `identity()` in grant filters.
+   */
+  constructor(
+    public readonly grants: LocalGrant[],
+    public readonly userId: string
+  ) {}
+
+  /**
+   * Resolves the access of a token.
+   * @param auth - The access control configuration, or null if there is none.
+   * @param token - The token, or an empty string for anonymous access.
+   * @returns The token's access control, or null if access is not controlled.
+   * @throws LocalClientError if the token is not one of the configured tokens.
+   */
+  static forToken(auth: LocalAuthConfig | null, token: string): LocalAccessControl | null {
+    if (!auth) {
+      return null;
+    }
+    const tokenConfig = token ? auth.tokens[token] : { roles: auth.anonymousRoles ?? [] };
+    if (!tokenConfig) {
+      throw new LocalClientError(401, { type: 'httpUnauthorized', description: 'Session not found' });
+    }
+    const roles = { ...DEFAULT_ROLES, ...auth.roles };
+    const grants = tokenConfig.roles.flatMap((role) => {
+      if (!roles[role]) {
+        throw new Error(`Unknown role "${role}". Define it in the \`roles\` of the auth configuration.`);
+      }
+      return roles[role];
+    });
+    return new LocalAccessControl(grants, tokenConfig.userId ?? DEFAULT_USER_ID);
+  }
+
+  /**
+   * Checks whether a permission is granted on a document.
+   * @param permission - The permission.
+   * @param document - The document.
+   * @returns A promise that resolves with true if any grant with the permission matches the document.
+   */
+  async can(permission: DocumentPermission, document: SanityDocument): Promise<boolean> {
+    for (const grant of this.grants) {
+      if (grant.permissions.includes(permission) && (await this.matches(grant.filter, document))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Keeps the documents a permission is granted on.
+   * @param permission - The permission.
+   * @param documents - The documents.
+   * @returns A promise that resolves with the permitted documents, in order.
+   */
+  async filter(permission: DocumentPermission, documents: SanityDocument[]): Promise<SanityDocument[]> {
+    const permitted: SanityDocument[] = [];
+    for (const document of documents) {
+      if (await this.can(permission, document)) {
+        permitted.push(document);
+      }
+    }
+    return permitted;
+  }
+
+  /**
+   * Checks whether a grant filter matches a document.
+   * @param filter - The GROQ filter.
+   * @param document - The document.
+   * @returns A promise that resolves with true if the filter matches.
+   * @throws LocalQueryParseError if the filter is not valid GROQ.
+   */
+  private async matches(filter: string, document: SanityDocument): Promise<boolean> {
+    let tree = this.filters.get(filter);
+    if (!tree) {
+      tree = parseGroqQuery(`*[${filter}]`);
+      this.filters.set(filter, tree);
+    }
+    const result = await (await evaluate(tree, { dataset: [document], identity: this.userId })).get();
+    return Array.isArray(result) && result.length === 1;
+  }
+}
+
+/**
+ * Returns the grants of unrestricted access, for the `/acl` endpoint when access is not controlled.
+ * @returns The grants.
+ */
+export function getFullAccessGrants(): LocalGrant[] {
+  return FULL_ACCESS.map((grant) => ({ ...grant, permissions: [...grant.permissions] }));
+}
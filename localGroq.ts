@@ -0,0 +1,304 @@
+/**
+ * @remarks
+ * GROQ evaluation for the local Sanity client, backed by the `groq-js` engine.
+ * Filters over the whole dataset (`*[...]`) are narrowed through the store's indexes when their conditions allow it.
+ */
+
+import { evaluate, ExprNode, FilterNode, parse } from 'groq-js';
+import { IndexLookup, SanityDocument } from './localSanityTypes';
+import { LocalQueryParseError } from './localErrors';
+
+/**
+ * Matches the legacy shorthand of passing a bare document ID as the query.
+ * Literals that are valid GROQ on their own are excluded.
+ */
+const DOCUMENT_ID_PATTERN = /^[A-Za-z_][\w.-]*$/;
+const GROQ_LITERALS = new Set(['true', 'false', 'null']);
+
+/**
+ * Reads the documents a query runs against. Without a lookup, it returns every document in the dataset;
+ * with one, it may return only the documents that can satisfy the lookup's conditions.
+ */
+export type DocumentSource = (lookup?: IndexLookup) => Promise<SanityDocument[]>;
+
+/**
+ * Checks whether a query is a bare document ID rather than a GROQ expression.
+ * @param query - The query string.
+ * @returns True if the query should be treated as a document ID lookup.
+ */
+export function isDocumentIdQuery(query: string): boolean {
+  return DOCUMENT_ID_PATTERN.test(query) && !GROQ_LITERALS.has(query);
+}
+
+/**
+ * Parses a GROQ query.
+ * @param query - The GROQ query to parse.
+ * @param params - Optional parameters referenced by the query.
+ * @param mode - Optional parse mode. `'delta'` allows `before()`, `after()` and the `delta::` functions.
+ * @returns The parsed expression tree.
+ * @throws LocalQueryParseError if the query is not valid GROQ.
+ */
+export function parseGroqQuery(
+  query: string,
+  params: Record<string, any> = {},
+  mode: 'normal' | 'delta' = 'normal'
+): ExprNode {
+  try {
+    return parse(query, { params, mode });
+  } catch (error) {
+    const { message, position } = error as Error & { position?: number };
+    throw new LocalQueryParseError(query, message, typeof position === 'number' ? position : undefined);
+  }
+}
+
+/**
+ * Evaluates a GROQ query against a dataset.
+ * Each `*[...]` filter whose conditions the indexes can serve (see `getIndexLookup`) is evaluated against
+ * the documents the source looks up for it; the whole dataset is only read if anything else needs it.
+ * @param query - The GROQ query to evaluate.
+ * @param params - Optional parameters referenced by the query.
+ * @param source - Reads the documents that make up the dataset (`*`).
+ * @returns A promise that resolves with the query result as plain JSON.
+ * @throws LocalQueryParseError if the query is not valid GROQ.
+ */
+export async function evaluateGroqQuery(
+  query: string,
+  params: Record<string, any> = {},
+  source: DocumentSource
+): Promise<any> {
+  const tree = parseGroqQuery(query, params);
+  const candidates = new Map<ExprNode, SanityDocument[]>();
+  for (const node of findDatasetFilters(tree)) {
+    const lookup = getIndexLookup(node.expr);
+    if (lookup) {
+      candidates.set(node, await source(lookup));
+    }
+  }
+  const planned = replaceFilterBases(tree, candidates);
+  // Anything else that reads the dataset, like `count(*)` or `author->name`, needs every document
+  const dataset = readsDataset(planned) ? await source() : [];
+  const value = await evaluate(planned, { dataset, params });
+  return value.get();
+}
+
+/**
+ * Extracts the conditions of a filter that the store's indexes can serve.
+ * Understood are `_type == "x"`, `_type in [...]`, `_id == "x"`, `_id in [...]`, `_id in path("prefix.**")`
+ * and `references(...)`, combined with `&&`, or with `||` on the same attribute. Other conditions are left to
+ * the filter itself, so the lookup may match more documents than the filter does, but never fewer.
+ * @param expr - The filter expression, with parameters already substituted.
+ * @returns The lookup, or null if no condition can be served by an index.
+ */
+export function getIndexLookup(expr: ExprNode): IndexLookup | null {
+  switch (expr.type) {
+    case 'Group':
+      return getIndexLookup(expr.base);
+    case 'And': {
+      const left = getIndexLookup(expr.left);
+      const right = getIndexLookup(expr.right);
+      // Conditions on the same key are left to the filter, keeping only the first
+      return left && right ? { ...right, ...left } : left ?? right;
+    }
+    case 'Or': {
+      const left = getIndexLookup(expr.left);
+      const right = getIndexLookup(expr.right);
+      const [leftKey, ...otherLeftKeys] = Object.keys(left ?? {}) as (keyof IndexLookup)[];
+      const [rightKey, ...otherRightKeys] = Object.keys(right ?? {}) as (keyof IndexLookup)[];
+      if (!leftKey || leftKey !== rightKey || otherLeftKeys.length > 0 || otherRightKeys.length > 0) {
+        return null;
+      }
+      return { [leftKey]: [...left![leftKey]!, ...right![rightKey]!] };
+    }
+    case 'OpCall': {
+      if (expr.op === '==') {
+        const [attribute, operand] = isAttribute(expr.right) ? [expr.right, expr.left] : [expr.left, expr.right];
+        const value = getConstant(operand);
+        return typeof value === 'string' ? getAttributeLookup(attribute, [value]) : null;
+      }
+      if (expr.op === 'in') {
+        const values = getConstantStrings(expr.right);
+        if (values) {
+          return getAttributeLookup(expr.left, values);
+        }
+        const prefix = getPathPrefix(expr.right);
+        return prefix !== null && isAttribute(expr.left, '_id') ? { idPrefixes: [prefix] } : null;
+      }
+      return null;
+    }
+    case 'FuncCall': {
+      if (expr.namespace !== 'global' || expr.name !== 'references') {
+        return null;
+      }
+      const ids = expr.args.map(getConstantStrings);
+      return ids.every(Boolean) ? { references: ids.flatMap((values) => values!) } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compiles a GROQ query into a predicate that checks whether a single document matches it.
+ * A document matches if evaluating the query with the document as the only member of the dataset
+ * yields a non-empty result, so `*[_type == "post"]` matches any document of type post.
+ * @param query - The GROQ query to compile.
+ * @param params - Optional parameters referenced by the query.
+ * @returns A function that resolves to true if the given document matches the query.
+ * @throws LocalQueryParseError if the query is not valid GROQ.
+ */
+export function createGroqFilter(
+  query: string,
+  params: Record<string, any> = {}
+): (document: SanityDocument) => Promise<boolean> {
+  const tree = parseGroqQuery(query, params);
+  return async (document) => {
+    const value = await evaluate(tree, { dataset: [document], params });
+    const result = await value.get();
+    return Array.isArray(result) ? result.length > 0 : result !== null && result !== false;
+  };
+}
+
+/**
+ * Finds the filters over the whole dataset (`*[...]`) in a query, at any depth.
+ * @param tree - The parsed query.
+ * @returns The filter nodes.
+ */
+function findDatasetFilters(tree: ExprNode): FilterNode[] {
+  const filters: FilterNode[] = [];
+  visitNodes(tree, (node) => {
+    if (node.type === 'Filter' && node.base.type === 'Everything') {
+      filters.push(node);
+    }
+  });
+  return filters;
+}
+
+/**
+ * Copies a query, making filters over the whole dataset filter their looked-up candidates instead.
+ * @param node - The node to copy.
+ * @param candidates - The candidates of each filter node.
+ * @returns The copy.
+ */
+function replaceFilterBases(node: ExprNode, candidates: Map<ExprNode, SanityDocument[]>): ExprNode {
+  if (node.type === 'Value') {
+    return node;
+  }
+  const copy = mapChildren(node, (child) => replaceFilterBases(child, candidates));
+  const documents = candidates.get(node);
+  return documents ? ({ ...copy, base: { type: 'Value', value: documents } } as ExprNode) : copy;
+}
+
+/**
+ * Checks whether evaluating a query reads the dataset, through `*` or a dereference.
+ * @param tree - The parsed query.
+ * @returns True if the query needs the dataset.
+ */
+function readsDataset(tree: ExprNode): boolean {
+  let reads = false;
+  visitNodes(tree, (node) => {
+    reads = reads || node.type === 'Everything' || node.type === 'Deref';
+  });
+  return reads;
+}
+
+/**
+ * Calls a function for every node of a query, except within constant values.
+ * @param node - The node to start at.
+ * @param visit - The function to call.
+ */
+function visitNodes(node: ExprNode, visit: (node: ExprNode) => void): void {
+  visit(node);
+  if (node.type !== 'Value') {
+    mapChildren(node, (child) => {
+      visitNodes(child, visit);
+      return child;
+    });
+  }
+}
+
+/**
+ * Copies a node, mapping each of its child nodes.
+ * Children are found generically, as any nested object with a `type`, so every node type is covered.
+ * @param node - The node.
+ * @param map - Maps a child node.
+ * @returns The copy.
+ */
+function mapChildren(node: ExprNode, map: (child: ExprNode) => ExprNode): ExprNode {
+  const mapValue = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(mapValue);
+    }
+    if (typeof value === 'object' && value !== null) {
+      return typeof (value as { type?: unknown }).type === 'string'
+        ? map(value as ExprNode)
+        : Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapValue(item)]));
+    }
+    return value;
+  };
+  return Object.fromEntries(
+    Object.entries(node).map(([key, value]) => [key, key === 'type' ? value : mapValue(value)])
+  ) as ExprNode;
+}
+
+/**
+ * Checks whether a node reads an attribute of the current document, e.g. `_type`.
+ * @param node - The node.
+ * @param name - Optional attribute name to require.
+ * @returns True if the node is such an attribute access.
+ */
+function isAttribute(node: ExprNode, name?: string): boolean {
+  return node.type === 'AccessAttribute' && !node.base && (name === undefined || node.name === name);
+}
+
+/**
+ * Turns a condition on `_type` or `_id` into an index lookup.
+ * @param attribute - The node the values are compared with.
+ * @param values - The values the attribute may have.
+ * @returns The lookup, or null if the node is not `_type` or `_id`.
+ */
+function getAttributeLookup(attribute: ExprNode, values: string[]): IndexLookup | null {
+  if (isAttribute(attribute, '_type')) {
+    return { types: values };
+  }
+  return isAttribute(attribute, '_id') ? { ids: values } : null;
+}
+
+/**
+ * Returns the value of a constant node.
+ * @param node - The node.
+ * @returns The value, or undefined if the node is not a constant.
+ */
+function getConstant(node: ExprNode): unknown {
+  return node.type === 'Value' ? node.value : undefined;
+}
+
+/**
+ * Returns the strings of a constant string or array of strings, e.g. `"a"` or `["a", "b"]`.
+ * @param node - The node.
+ * @returns The strings, or null if the node is anything else.
+ */
+function getConstantStrings(node: ExprNode): string[] | null {
+  const value =
+    node.type === 'Array' && node.elements.every((element) => !element.isSplat)
+      ? node.elements.map((element) => getConstant(element.value))
+      : getConstant(node);
+  const values = Array.isArray(value) ? value : [value];
+  return values.every((item) => typeof item === 'string') ? (values as string[]) : null;
+}
+
+/**
+ * Returns the ID prefix matched by a `path("prefix.**")` pattern.
+ * @param node - The node.
+ * @returns The prefix including its trailing dot, or null if the node is not such a pattern.
+ */
+function getPathPrefix(node: ExprNode): string | null {
+  if (node.type !== 'FuncCall' || node.namespace !== 'global' || node.name !== 'path' || node.args.length !== 1) {
+    return null;
+  }
+  const pattern = getConstant(node.args[0]);
+  if (typeof pattern !== 'string' || !pattern.endsWith('.**')) {
+    return null;
+  }
+  const prefix = pattern.slice(0, -'**'.length);
+  return prefix.includes('*') ? null : prefix;
+}
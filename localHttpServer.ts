@@ -0,0 +1,223 @@
+/**
+ * @remarks
+ * An HTTP server exposing the local backend with the Content Lake REST API,
+ * so `@sanity/client` and Studio can be pointed at it (e.g. `apiHost: 'http://localhost:3535'`, `useProjectHostname: false`).
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LocalSanityClientImpl } from './localSanityClient';
+import { ListenEvent, LocalSanityClientConfig, SimpleObservable } from './localSanityTypes';
+import { formatServerSentEvent, getBearerToken, routeLocalApiRequest, toErrorResponse } from './localApiRoutes';
+
+/**
+ * Interval at which listen streams send a comment line, so proxies and clients keep the connection open.
+ */
+const KEEPALIVE_INTERVAL_MS = 30000;
+
+/**
+ * Options for the local HTTP server.
+ */
+export interface LocalHttpServerOptions {
+  /**
+   * Port to listen on. Defaults to 3535; use 0 for a random free port.
+   */
+  port?: number;
+
+  /**
+   * Host to bind to. Defaults to 'localhost'.
+   */
+  host?: string;
+
+  /**
+   * Configuration for the clients serving each dataset. The dataset is taken from the request path.
+   */
+  clientConfig?: LocalSanityClientConfig;
+}
+
+/**
+ * Serves the local backend over HTTP with the same request and response shapes as the hosted API.
+ * The endpoints are those of `routeLocalApiRequest`; listen streams are sent as server-sent events.
+ *
+ * Requests authenticate with an `Authorization: Bearer <token>` header, checked against the `auth`
+ * of the client configuration.
+ */
+export class LocalHttpServer {
+  private server: http.Server;
+  private clients = new Map<string, LocalSanityClientImpl>();
+  private port: number;
+  private host: string;
+  private clientConfig: LocalSanityClientConfig;
+
+  /**
+   * Creates an instance of LocalHttpServer. Call `start()` to begin listening.
+   * @param options - Optional server options.
+   */
+  constructor(options: LocalHttpServerOptions = {}) {
+    this.port = options.port ?? 3535;
+    this.host = options.host ?? 'localhost';
+    this.clientConfig = options.clientConfig ?? {};
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => sendError(res, error));
+    });
+  }
+
+  /**
+   * The base URL the server is listening on, e.g. `http://localhost:3535`.
+   * @throws Error if the server has not been started.
+   */
+  get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('The local HTTP server is not running.');
+    }
+    return `http://${this.host}:${address.port}`;
+  }
+
+  /**
+   * Starts listening for requests.
+   * @returns A promise that resolves with the base URL once the server is listening.
+   */
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off('error', reject);
+        resolve(this.url);
+      });
+    });
+  }
+
+  /**
+   * Stops the server, closing any open listen streams.
+   * @returns A promise that resolves once the server is closed.
+   */
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      this.server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Returns the client serving a dataset to a token.
+   * @param dataset - The dataset name.
+   * @param token - The token of the request's `Authorization: Bearer` header, or an empty string.
+   * @returns The client.
+   * @throws LocalClientError if the token is not one of the configured tokens.
+   */
+  private getClient(dataset: string, token: string): LocalSanityClientImpl {
+    const key = JSON.stringify([dataset, token]);
+    let client = this.clients.get(key);
+    if (!client) {
+      client = new LocalSanityClientImpl({ ...this.clientConfig, dataset, token });
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Routes a request to its endpoint and sends the response.
+   * @param req - The request.
+   * @param res - The response.
+   * @returns A promise that resolves once the response is sent (or, for listen streams, set up).
+   */
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    setCorsHeaders(req, res);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const method = req.method ?? 'GET';
+    const token = getBearerToken(req.headers.authorization);
+    const response = await routeLocalApiRequest(
+      {
+        method,
+        url: new URL(req.url || '/', 'http://localhost'),
+        headers: req.headers as Record<string, string | undefined>,
+        body: method === 'GET' ? null : await readBody(req),
+      },
+      (dataset) => this.getClient(dataset, token)
+    );
+    if (response.type === 'events') {
+      this.streamEvents(response.events, req, res);
+    } else if (response.type === 'ndjson') {
+      res.writeHead(response.status, { 'Content-Type': 'application/x-ndjson' });
+      res.end(response.body);
+    } else {
+      sendJson(res, response.status, response.body);
+    }
+  }
+
+  /**
+   * Streams listener events as server-sent events, until the client disconnects.
+   * @param events - The listener events.
+   * @param req - The request.
+   * @param res - The response.
+   */
+  private streamEvents(events: SimpleObservable, req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    const subscription = events.subscribe((event: ListenEvent) => res.write(formatServerSentEvent(event)));
+    const keepalive = setInterval(() => res.write(':\n\n'), KEEPALIVE_INTERVAL_MS);
+    req.on('close', () => {
+      clearInterval(keepalive);
+      subscription.unsubscribe();
+    });
+  }
+}
+
+/**
+ * Allows browsers (e.g. a Studio on another port) to call the server, with credentials.
+ * @param req - The request.
+ * @param res - The response.
+ */
+function setCorsHeaders(req: http.IncomingMessage, res: http.ServerResponse): void {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] || '*');
+}
+
+/**
+ * Reads the full body of a request.
+ * @param req - The request.
+ * @returns A promise that resolves with the body.
+ */
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Sends a JSON response.
+ * @param res - The response.
+ * @param statusCode - The HTTP status code.
+ * @param body - The response body.
+ */
+function sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Sends an error response in the Content Lake error shape.
+ * @param res - The response.
+ * @param error - The error.
+ */
+function sendError(res: http.ServerResponse, error: unknown): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  const response = toErrorResponse(error);
+  sendJson(res, response.status, response.body);
+}
@@ -0,0 +1,800 @@
+/**
+ * @remarks
+ * Minimal pure TypeScript image decoders for the local Sanity client, used to compute LQIPs and palettes
+ * without native or network services. Decoders stream pixels into a sink instead of allocating a full bitmap,
+ * and JPEGs are decoded at 1/8 scale from their DC coefficients only, which is all low-resolution metadata needs.
+ */
+
+import * as zlib from 'zlib';
+
+/**
+ * Receives the pixels of a decoded image.
+ */
+export interface PixelSink {
+  /**
+   * Called once, before any pixel, with the size of the pixel grid the decoder emits.
+   * @param width - Width of the pixel grid.
+   * @param height - Height of the pixel grid.
+   */
+  begin(width: number, height: number): void;
+
+  /**
+   * Called for every decoded pixel, in no particular order.
+   * @param x - Column of the pixel.
+   * @param y - Row of the pixel.
+   * @param r - Red, 0-255.
+   * @param g - Green, 0-255.
+   * @param b - Blue, 0-255.
+   * @param a - Alpha, 0-255.
+   */
+  pixel(x: number, y: number, r: number, g: number, b: number, a: number): void;
+}
+
+/**
+ * Starting offsets and steps of the seven Adam7 interlacing passes: [x0, y0, dx, dy].
+ */
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+/**
+ * Number of samples per pixel, keyed by PNG color type.
+ */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Decodes a PNG image (any bit depth and color type, interlaced or not).
+ * @param buffer - The PNG file.
+ * @param sink - Receives the pixels.
+ * @throws Error if the PNG is malformed.
+ */
+export function decodePng(buffer: Buffer, sink: PixelSink): void {
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 8;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (!width || !height || !channels) {
+    throw new Error('Invalid PNG: missing or unsupported IHDR.');
+  }
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const bitsPerPixel = channels * bitDepth;
+  const filterStride = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << bitDepth) - 1;
+
+  const readSample = (row: Uint8Array, index: number): number => {
+    if (bitDepth === 8) {
+      return row[index];
+    }
+    if (bitDepth === 16) {
+      return (row[index * 2] << 8) | row[index * 2 + 1];
+    }
+    const bit = index * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const toByte = (sample: number) => (bitDepth === 16 ? sample >> 8 : Math.round((sample * 255) / maxSample));
+  const transparentSample = (index: number) => (transparency ? transparency.readUInt16BE(index * 2) : -1);
+
+  sink.begin(width, height);
+  const passes = interlace ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  let position = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    let previous: Uint8Array = new Uint8Array(rowBytes);
+    for (let py = 0; py < passHeight; py++) {
+      const filter = raw[position];
+      const row = unfilterPngRow(filter, raw.subarray(position + 1, position + 1 + rowBytes), previous, filterStride);
+      position += rowBytes + 1;
+      previous = row;
+
+      const y = y0 + py * dy;
+      for (let px = 0; px < passWidth; px++) {
+        const x = x0 + px * dx;
+        const base = px * channels;
+        if (colorType === 3) {
+          const index = readSample(row, base);
+          const alpha = transparency && index < transparency.length ? transparency[index] : 255;
+          sink.pixel(x, y, palette?.[index * 3] ?? 0, palette?.[index * 3 + 1] ?? 0, palette?.[index * 3 + 2] ?? 0, alpha);
+        } else if (colorType === 0 || colorType === 4) {
+          const gray = readSample(row, base);
+          const alpha = colorType === 4 ? toByte(readSample(row, base + 1)) : gray === transparentSample(0) ? 0 : 255;
+          const value = toByte(gray);
+          sink.pixel(x, y, value, value, value, alpha);
+        } else {
+          const r = readSample(row, base);
+          const g = readSample(row, base + 1);
+          const b = readSample(row, base + 2);
+          const alpha =
+            colorType === 6
+              ? toByte(readSample(row, base + 3))
+              : r === transparentSample(0) && g === transparentSample(1) && b === transparentSample(2)
+                ? 0
+                : 255;
+          sink.pixel(x, y, toByte(r), toByte(g), toByte(b), alpha);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Reverses the PNG filter of a single scanline.
+ * @param filter - The filter type of the scanline.
+ * @param filtered - The filtered scanline bytes.
+ * @param previous - The previous unfiltered scanline of the same pass (zeros for the first).
+ * @param stride - Bytes per complete pixel, rounded up to 1.
+ * @returns The unfiltered scanline.
+ */
+function unfilterPngRow(filter: number, filtered: Uint8Array, previous: Uint8Array, stride: number): Uint8Array {
+  const row = new Uint8Array(filtered.length);
+  for (let i = 0; i < filtered.length; i++) {
+    const left = i >= stride ? row[i - stride] : 0;
+    const up = previous[i];
+    const upLeft = i >= stride ? previous[i - stride] : 0;
+    let predictor = 0;
+    if (filter === 1) {
+      predictor = left;
+    } else if (filter === 2) {
+      predictor = up;
+    } else if (filter === 3) {
+      predictor = (left + up) >> 1;
+    } else if (filter === 4) {
+      const p = left + up - upLeft;
+      const pa = Math.abs(p - left);
+      const pb = Math.abs(p - up);
+      const pc = Math.abs(p - upLeft);
+      predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+    }
+    row[i] = (filtered[i] + predictor) & 0xff;
+  }
+  return row;
+}
+
+/**
+ * Decodes the first frame of a GIF image.
+ * Pixels outside the first frame, or of its transparent color, are emitted as fully transparent.
+ * @param buffer - The GIF file.
+ * @param sink - Receives the pixels.
+ * @throws Error if the GIF is malformed.
+ */
+export function decodeGif(buffer: Buffer, sink: PixelSink): void {
+  const width = buffer.readUInt16LE(6);
+  const height = buffer.readUInt16LE(8);
+  const flags = buffer[10];
+  let offset = 13;
+  let globalColors: Buffer | undefined;
+  if (flags & 0x80) {
+    const size = 3 * (1 << ((flags & 0x07) + 1));
+    globalColors = buffer.subarray(offset, offset + size);
+    offset += size;
+  }
+
+  let transparentIndex = -1;
+  while (offset < buffer.length) {
+    const block = buffer[offset++];
+    if (block === 0x21) {
+      const label = buffer[offset++];
+      if (label === 0xf9 && buffer[offset + 1] & 0x01) {
+        transparentIndex = buffer[offset + 4];
+      }
+      offset = skipGifSubBlocks(buffer, offset);
+    } else if (block === 0x2c) {
+      const left = buffer.readUInt16LE(offset);
+      const top = buffer.readUInt16LE(offset + 2);
+      const frameWidth = buffer.readUInt16LE(offset + 4);
+      const frameHeight = buffer.readUInt16LE(offset + 6);
+      const frameFlags = buffer[offset + 8];
+      offset += 9;
+      let colors = globalColors;
+      if (frameFlags & 0x80) {
+        const size = 3 * (1 << ((frameFlags & 0x07) + 1));
+        colors = buffer.subarray(offset, offset + size);
+        offset += size;
+      }
+      const minCodeSize = buffer[offset++];
+      const data: Buffer[] = [];
+      while (buffer[offset]) {
+        data.push(buffer.subarray(offset + 1, offset + 1 + buffer[offset]));
+        offset += buffer[offset] + 1;
+      }
+      const indices = decodeGifLzw(minCodeSize, Buffer.concat(data), frameWidth * frameHeight);
+      // Stored line of each frame row; interlaced frames store rows out of order
+      const lines = new Int32Array(frameHeight).map((_, row) => row);
+      if (frameFlags & 0x40) {
+        getGifInterlacedRows(frameHeight).forEach((row, line) => (lines[row] = line));
+      }
+
+      sink.begin(width, height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const fx = x - left;
+          const fy = y - top;
+          const inFrame = fx >= 0 && fy >= 0 && fx < frameWidth && fy < frameHeight;
+          const index = inFrame ? indices[lines[fy] * frameWidth + fx] : -1;
+          if (index === -1 || index === transparentIndex || !colors) {
+            sink.pixel(x, y, 0, 0, 0, 0);
+          } else {
+            sink.pixel(x, y, colors[index * 3], colors[index * 3 + 1], colors[index * 3 + 2], 255);
+          }
+        }
+      }
+      return;
+    } else {
+      break;
+    }
+  }
+  throw new Error('Invalid GIF: no image data.');
+}
+
+/**
+ * Skips a sequence of GIF data sub-blocks.
+ * @param buffer - The GIF file.
+ * @param offset - Offset of the first sub-block.
+ * @returns The offset after the block terminator.
+ */
+function skipGifSubBlocks(buffer: Buffer, offset: number): number {
+  while (offset < buffer.length && buffer[offset]) {
+    offset += buffer[offset] + 1;
+  }
+  return offset + 1;
+}
+
+/**
+ * Returns the image row stored at each position of an interlaced GIF frame.
+ * @param height - Height of the frame.
+ * @returns The row of each stored line, in storage order.
+ */
+function getGifInterlacedRows(height: number): number[] {
+  const rows: number[] = [];
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < height; y += step) {
+      rows.push(y);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Decodes GIF LZW-compressed color indices.
+ * @param minCodeSize - The LZW minimum code size.
+ * @param data - The compressed data, with sub-block lengths removed.
+ * @param pixelCount - Number of indices to decode.
+ * @returns The color indices. Missing data is left as index 0.
+ */
+function decodeGifLzw(minCodeSize: number, data: Buffer, pixelCount: number): Uint8Array {
+  const output = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const firstByte = new Uint8Array(4096);
+  const stack = new Uint8Array(4097);
+  for (let i = 0; i < clearCode; i++) {
+    suffix[i] = i;
+    firstByte[i] = i;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let previous = -1;
+  let bits = 0;
+  let bitCount = 0;
+  let written = 0;
+
+  for (let i = 0; i < data.length && written < pixelCount; ) {
+    while (bitCount < codeSize && i < data.length) {
+      bits |= data[i++] << bitCount;
+      bitCount += 8;
+    }
+    if (bitCount < codeSize) {
+      break;
+    }
+    const code = bits & ((1 << codeSize) - 1);
+    bits >>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === endCode) {
+      break;
+    }
+
+    let current = code;
+    let top = 0;
+    if (previous !== -1 && code >= nextCode) {
+      // The KwKwK case: the code being defined right now
+      stack[top++] = firstByte[previous];
+      current = previous;
+    }
+    while (current >= clearCode) {
+      stack[top++] = suffix[current];
+      current = prefix[current];
+    }
+    stack[top++] = current;
+    const first = current;
+    while (top > 0 && written < pixelCount) {
+      output[written++] = stack[--top];
+    }
+
+    if (previous !== -1 && nextCode < 4096) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = first;
+      firstByte[nextCode] = firstByte[previous];
+      nextCode++;
+      if (nextCode === 1 << codeSize && codeSize < 12) {
+        codeSize++;
+      }
+    }
+    previous = code;
+  }
+  return output;
+}
+
+/**
+ * A JPEG Huffman table, in the lookup form of the JPEG specification (Annex F.2.2.3).
+ */
+interface HuffmanTable {
+  maxCode: Int32Array;
+  valPtr: Int32Array;
+  minCode: Int32Array;
+  values: Uint8Array;
+}
+
+/**
+ * A JPEG frame component, with the DC coefficients of its blocks.
+ */
+interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  dc: Int32Array;
+  pred: number;
+  dcTable: number;
+  acTable: number;
+}
+
+/**
+ * Reads bits from JPEG entropy-coded data, skipping stuffed bytes and stopping at markers.
+ */
+class JpegBitReader {
+  private bits = 0;
+  private bitCount = 0;
+
+  /**
+   * Creates an instance of JpegBitReader.
+   * @param buffer - The JPEG file.
+   * @param offset - Offset of the entropy-coded data.
+   */
+  constructor(private buffer: Buffer, public offset: number) {}
+
+  /**
+   * Reads a single bit. Past the end of the data (at a marker), zeros are returned.
+   * @returns The bit.
+   */
+  readBit(): number {
+    if (this.bitCount === 0) {
+      const byte = this.buffer[this.offset];
+      if (byte === 0xff && this.buffer[this.offset + 1] !== 0x00) {
+        // Marker: do not consume it
+        this.bits = 0;
+      } else {
+        this.bits = byte ?? 0;
+        this.offset += byte === 0xff ? 2 : 1;
+      }
+      this.bitCount = 8;
+    }
+    this.bitCount--;
+    return (this.bits >> this.bitCount) & 1;
+  }
+
+  /**
+   * Reads an unsigned number of the given bit length.
+   * @param length - Number of bits.
+   * @returns The number.
+   */
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  /**
+   * Reads a signed, magnitude-category-encoded number (JPEG `EXTEND`).
+   * @param length - Number of bits.
+   * @returns The number.
+   */
+  receiveExtend(length: number): number {
+    if (length === 0) {
+      return 0;
+    }
+    const value = this.receive(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  }
+
+  /**
+   * Decodes a Huffman-coded symbol.
+   * @param table - The Huffman table.
+   * @returns The symbol.
+   */
+  decode(table: HuffmanTable): number {
+    let code = this.readBit();
+    let length = 1;
+    while (length <= 16 && code > table.maxCode[length]) {
+      code = (code << 1) | this.readBit();
+      length++;
+    }
+    if (length > 16) {
+      return 0;
+    }
+    return table.values[table.valPtr[length] + code - table.minCode[length]];
+  }
+
+  /**
+   * Discards buffered bits and skips a restart marker, if the reader is at one.
+   */
+  restart(): void {
+    this.bitCount = 0;
+    if (this.buffer[this.offset] === 0xff && this.buffer[this.offset + 1] >= 0xd0 && this.buffer[this.offset + 1] <= 0xd7) {
+      this.offset += 2;
+    }
+  }
+}
+
+/**
+ * Builds a Huffman lookup table from the code length counts and symbols of a DHT segment.
+ * @param counts - Number of codes of each length 1-16.
+ * @param values - The symbols, in code order.
+ * @returns The lookup table.
+ */
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valPtr = new Int32Array(17);
+  const minCode = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    valPtr[length] = k;
+    minCode[length] = code;
+    code += counts[length - 1];
+    k += counts[length - 1];
+    maxCode[length] = counts[length - 1] ? code - 1 : -1;
+    code <<= 1;
+  }
+  return { maxCode, valPtr, minCode, values };
+}
+
+/**
+ * Decodes a baseline or progressive Huffman-coded JPEG at 1/8 scale, from the DC coefficient of each block.
+ * Each emitted pixel is the average color of an 8x8 block of the full image.
+ * @param buffer - The JPEG file.
+ * @param sink - Receives the pixels.
+ * @throws Error if the JPEG is malformed or uses arithmetic coding.
+ */
+export function decodeJpegDc(buffer: Buffer, sink: PixelSink): void {
+  const quantTables: Int32Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let components: JpegComponent[] = [];
+  let width = 0;
+  let height = 0;
+  let maxH = 1;
+  let maxV = 1;
+  let progressive = false;
+  let restartInterval = 0;
+  let adobeTransform = -1;
+
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = buffer[offset + 1];
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0xff) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    if (marker === 0xd9) {
+      break;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    const segment = buffer.subarray(offset + 4, offset + 2 + length);
+    offset += 2 + length;
+
+    if (marker === 0xdb) {
+      for (let i = 0; i < segment.length; ) {
+        const precision = segment[i] >> 4;
+        const id = segment[i] & 0x0f;
+        const table = new Int32Array(64);
+        for (let j = 0; j < 64; j++) {
+          table[j] = precision ? segment.readUInt16BE(i + 1 + j * 2) : segment[i + 1 + j];
+        }
+        quantTables[id] = table;
+        i += 1 + 64 * (precision ? 2 : 1);
+      }
+    } else if (marker === 0xc4) {
+      for (let i = 0; i < segment.length; ) {
+        const tableClass = segment[i] >> 4;
+        const id = segment[i] & 0x0f;
+        const counts = segment.subarray(i + 1, i + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const table = buildHuffmanTable(counts, segment.subarray(i + 17, i + 17 + total));
+        (tableClass === 0 ? dcTables : acTables)[id] = table;
+        i += 17 + total;
+      }
+    } else if (marker === 0xdd) {
+      restartInterval = segment.readUInt16BE(0);
+    } else if (marker === 0xee && segment.toString('latin1', 0, 5) === 'Adobe') {
+      adobeTransform = segment[11];
+    } else if (marker === 0xc0 || marker === 0xc1 || marker === 0xc2) {
+      progressive = marker === 0xc2;
+      height = segment.readUInt16BE(1);
+      width = segment.readUInt16BE(3);
+      const count = segment[5];
+      for (let i = 0; i < count; i++) {
+        const sampling = segment[7 + i * 3];
+        components.push({
+          id: segment[6 + i * 3],
+          h: sampling >> 4,
+          v: sampling & 0x0f,
+          quantTable: segment[8 + i * 3],
+          blocksPerLine: 0,
+          blocksPerColumn: 0,
+          dc: new Int32Array(0),
+          pred: 0,
+          dcTable: 0,
+          acTable: 0,
+        });
+      }
+      maxH = Math.max(...components.map((c) => c.h));
+      maxV = Math.max(...components.map((c) => c.v));
+      const mcusPerLine = Math.ceil(width / (8 * maxH));
+      const mcusPerColumn = Math.ceil(height / (8 * maxV));
+      components = components.map((c) => {
+        const blocksPerLine = mcusPerLine * c.h;
+        const blocksPerColumn = mcusPerColumn * c.v;
+        return { ...c, blocksPerLine, blocksPerColumn, dc: new Int32Array(blocksPerLine * blocksPerColumn) };
+      });
+    } else if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      throw new Error('Unsupported JPEG: only Huffman-coded baseline and progressive JPEGs can be decoded.');
+    } else if (marker === 0xda) {
+      const scanComponents = [];
+      for (let i = 0; i < segment[0]; i++) {
+        const component = components.find((c) => c.id === segment[1 + i * 2]);
+        if (component) {
+          component.dcTable = segment[2 + i * 2] >> 4;
+          component.acTable = segment[2 + i * 2] & 0x0f;
+          scanComponents.push(component);
+        }
+      }
+      const spectralStart = segment[1 + segment[0] * 2];
+      const approximation = segment[3 + segment[0] * 2];
+      // Only the first DC scan carries the DC coefficients; later scans refine them or carry AC coefficients
+      const decode = spectralStart === 0 && (!progressive || approximation >> 4 === 0);
+      const reader = new JpegBitReader(buffer, offset);
+      if (decode) {
+        decodeJpegScan(reader, scanComponents, {
+          width,
+          height,
+          maxH,
+          maxV,
+          restartInterval,
+          progressive,
+          successiveLow: approximation & 0x0f,
+          dcTables,
+          acTables,
+        });
+      }
+      offset = findNextJpegMarker(buffer, reader.offset);
+    }
+  }
+
+  if (!width || !height || components.length === 0) {
+    throw new Error('Invalid JPEG: missing frame header.');
+  }
+  emitJpegPixels(components, { width, height, maxH, maxV, quantTables, adobeTransform }, sink);
+}
+
+/**
+ * Decodes the DC coefficients of the blocks of a single JPEG scan.
+ * @param reader - Reads the entropy-coded data of the scan.
+ * @param components - The components in the scan.
+ * @param frame - Frame and scan parameters.
+ */
+function decodeJpegScan(
+  reader: JpegBitReader,
+  components: JpegComponent[],
+  frame: {
+    width: number;
+    height: number;
+    maxH: number;
+    maxV: number;
+    restartInterval: number;
+    progressive: boolean;
+    successiveLow: number;
+    dcTables: HuffmanTable[];
+    acTables: HuffmanTable[];
+  }
+): void {
+  const decodeBlock = (component: JpegComponent, row: number, col: number) => {
+    const category = reader.decode(frame.dcTables[component.dcTable]);
+    component.pred += reader.receiveExtend(category);
+    if (row < component.blocksPerColumn && col < component.blocksPerLine) {
+      component.dc[row * component.blocksPerLine + col] = component.pred << frame.successiveLow;
+    }
+    if (frame.progressive) {
+      return;
+    }
+    // Baseline blocks interleave AC coefficients, which have to be read to reach the next block
+    const acTable = frame.acTables[component.acTable];
+    for (let k = 1; k < 64; ) {
+      const symbol = reader.decode(acTable);
+      const run = symbol >> 4;
+      const size = symbol & 0x0f;
+      if (size === 0) {
+        if (run !== 15) {
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      reader.receive(size);
+      k += run + 1;
+    }
+  };
+
+  components.forEach((component) => (component.pred = 0));
+  let unitsUntilRestart = frame.restartInterval;
+  const restartIfDue = () => {
+    if (frame.restartInterval && unitsUntilRestart-- === 0) {
+      reader.restart();
+      components.forEach((component) => (component.pred = 0));
+      unitsUntilRestart = frame.restartInterval - 1;
+    }
+  };
+
+  if (components.length === 1) {
+    // Non-interleaved scans cover only the component's own blocks, without MCU padding
+    const [component] = components;
+    const columns = Math.ceil(Math.ceil((frame.width * component.h) / frame.maxH) / 8);
+    const rows = Math.ceil(Math.ceil((frame.height * component.v) / frame.maxV) / 8);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        restartIfDue();
+        decodeBlock(component, row, col);
+      }
+    }
+    return;
+  }
+
+  const mcusPerLine = Math.ceil(frame.width / (8 * frame.maxH));
+  const mcusPerColumn = Math.ceil(frame.height / (8 * frame.maxV));
+  for (let mcuRow = 0; mcuRow < mcusPerColumn; mcuRow++) {
+    for (let mcuCol = 0; mcuCol < mcusPerLine; mcuCol++) {
+      restartIfDue();
+      for (const component of components) {
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            decodeBlock(component, mcuRow * component.v + v, mcuCol * component.h + h);
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Finds the next marker that is not a restart marker, after entropy-coded data.
+ * @param buffer - The JPEG file.
+ * @param offset - Offset to start searching from.
+ * @returns The offset of the marker.
+ */
+function findNextJpegMarker(buffer: Buffer, offset: number): number {
+  while (offset + 1 < buffer.length) {
+    if (buffer[offset] === 0xff) {
+      const next = buffer[offset + 1];
+      if (next !== 0x00 && !(next >= 0xd0 && next <= 0xd7)) {
+        return offset;
+      }
+    }
+    offset++;
+  }
+  return buffer.length;
+}
+
+/**
+ * Converts the DC coefficients of all components into pixels, one per 8x8 block of the full image.
+ * @param components - The frame components.
+ * @param frame - Frame parameters.
+ * @param sink - Receives the pixels.
+ */
+function emitJpegPixels(
+  components: JpegComponent[],
+  frame: { width: number; height: number; maxH: number; maxV: number; quantTables: Int32Array[]; adobeTransform: number },
+  sink: PixelSink
+): void {
+  const width = Math.ceil(frame.width / 8);
+  const height = Math.ceil(frame.height / 8);
+  const clamp = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+  // The DC coefficient is 8 times the average of the block's level-shifted samples
+  const sample = (component: JpegComponent, x: number, y: number) => {
+    const col = Math.min(component.blocksPerLine - 1, Math.floor((x * component.h) / frame.maxH));
+    const row = Math.min(component.blocksPerColumn - 1, Math.floor((y * component.v) / frame.maxV));
+    const quant = frame.quantTables[component.quantTable]?.[0] ?? 1;
+    return clamp((component.dc[row * component.blocksPerLine + col] * quant) / 8 + 128);
+  };
+
+  sink.begin(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const values = components.map((component) => sample(component, x, y));
+      if (values.length < 3) {
+        sink.pixel(x, y, values[0], values[0], values[0], 255);
+        continue;
+      }
+      let [c1, c2, c3] = values;
+      // Adobe transform 0 means the samples are RGB (or CMYK) rather than YCbCr (or YCCK)
+      if (!(frame.adobeTransform === 0 || (frame.adobeTransform === -1 && values.length === 4))) {
+        const [luma, cb, cr] = values;
+        c1 = clamp(luma + 1.402 * (cr - 128));
+        c2 = clamp(luma - 0.344136 * (cb - 128) - 0.714136 * (cr - 128));
+        c3 = clamp(luma + 1.772 * (cb - 128));
+      }
+      if (values.length === 4) {
+        // Adobe CMYK is stored inverted, so each channel is already 255 - ink
+        const k = values[3];
+        sink.pixel(x, y, clamp((c1 * k) / 255), clamp((c2 * k) / 255), clamp((c3 * k) / 255), 255);
+      } else {
+        sink.pixel(x, y, c1, c2, c3, 255);
+      }
+    }
+  }
+}
@@ -0,0 +1,606 @@
+/**
+ * @remarks
+ * Image metadata extraction for local asset uploads: format, dimensions, alpha, LQIP and palette,
+ * in the shape the Content Lake stores on `sanity.imageAsset` documents.
+ * Dimensions and alpha are read from the file headers of PNG, JPEG, WebP, GIF and SVG images.
+ * LQIP and palette need pixels, so they are only computed for formats with a local decoder (PNG, JPEG, GIF).
+ */
+
+import * as zlib from 'zlib';
+import { decodeGif, decodeJpegDc, decodePng, PixelSink } from './localImageDecoders';
+import { ImageMetadata, ImagePalette, ImagePaletteSwatch } from './localSanityTypes';
+
+/**
+ * Image formats recognized by the local client, named by their asset ID extension.
+ */
+export type ImageFormat = 'png' | 'jpg' | 'webp' | 'gif' | 'svg';
+
+/**
+ * MIME types of the recognized image formats.
+ */
+const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Width of generated LQIPs, in pixels. Matches the Content Lake.
+ */
+const LQIP_WIDTH = 20;
+
+/**
+ * Maximum width and height of the image the palette is computed from.
+ */
+const PALETTE_SAMPLE_SIZE = 64;
+
+/**
+ * Default size of an SVG without usable width, height or viewBox, as browsers render it.
+ */
+const DEFAULT_SVG_SIZE = { width: 300, height: 150 };
+
+/**
+ * A small RGBA bitmap.
+ */
+interface Bitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * The format and metadata of an image.
+ */
+export interface ImageInfo {
+  /**
+   * The image format, as used in the asset ID extension.
+   */
+  format: ImageFormat;
+
+  /**
+   * The MIME type of the format.
+   */
+  mimeType: string;
+
+  /**
+   * The image metadata, as stored in the asset document's `metadata`.
+   */
+  metadata: ImageMetadata;
+}
+
+/**
+ * Detects the format of an image from its contents.
+ * @param buffer - The image file.
+ * @returns The format, or undefined if the contents are not a recognized image.
+ */
+export function sniffImageFormat(buffer: Buffer): ImageFormat | undefined {
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) {
+    return 'png';
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpg';
+  }
+  if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  if (buffer.length >= 6 && /^GIF8[79]a$/.test(buffer.toString('latin1', 0, 6))) {
+    return 'gif';
+  }
+  if (/<svg[\s>]/i.test(buffer.toString('utf8', 0, Math.min(buffer.length, 4096)))) {
+    return 'svg';
+  }
+  return undefined;
+}
+
+/**
+ * Reads the format and metadata of an image.
+ * @param buffer - The image file.
+ * @returns The image format and metadata.
+ * @throws Error if the contents are not a recognized image, or its header is malformed.
+ */
+export function readImageInfo(buffer: Buffer): ImageInfo {
+  const format = sniffImageFormat(buffer);
+  if (!format) {
+    throw new Error('Invalid image, could not read metadata: unrecognized image format.');
+  }
+
+  const { width, height, hasAlpha } = readImageHeader(format, buffer);
+  if (!width || !height) {
+    throw new Error(`Invalid image, could not read metadata: ${format} image has no dimensions.`);
+  }
+
+  const metadata: ImageMetadata = {
+    _type: 'sanity.imageMetadata',
+    dimensions: {
+      _type: 'sanity.imageDimensions',
+      width,
+      height,
+      aspectRatio: width / height,
+    },
+    hasAlpha,
+    isOpaque: !hasAlpha,
+  };
+
+  const decode = getPixelDecoder(format);
+  if (decode) {
+    const sample = new PixelAccumulator(PALETTE_SAMPLE_SIZE);
+    let bitmap: Bitmap;
+    let lqip: string;
+    try {
+      decode(buffer, sample);
+      bitmap = sample.toBitmap();
+      // Encoding the LQIP needs zlib too, which is missing in the browser
+      lqip = createLqip(bitmap);
+    } catch (error) {
+      // The header is valid, so keep the image; it just gets no LQIP or palette
+      console.warn(`Could not decode ${format} image pixels for LQIP and palette:`, (error as Error).message);
+      return { format, mimeType: IMAGE_MIME_TYPES[format], metadata };
+    }
+    metadata.isOpaque = sample.isOpaque;
+    metadata.lqip = lqip;
+    metadata.palette = createPalette(bitmap);
+  }
+
+  return { format, mimeType: IMAGE_MIME_TYPES[format], metadata };
+}
+
+/**
+ * Reads the dimensions and alpha channel presence of an image from its header.
+ * @param format - The image format.
+ * @param buffer - The image file.
+ * @returns The dimensions and whether the image has an alpha channel.
+ */
+function readImageHeader(format: ImageFormat, buffer: Buffer): { width: number; height: number; hasAlpha: boolean } {
+  switch (format) {
+    case 'png': {
+      const colorType = buffer[25];
+      return {
+        width: buffer.readUInt32BE(16),
+        height: buffer.readUInt32BE(20),
+        hasAlpha: colorType === 4 || colorType === 6 || hasPngTransparency(buffer),
+      };
+    }
+    case 'gif':
+      return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8), hasAlpha: hasGifTransparency(buffer) };
+    case 'jpg':
+      return { ...readJpegSize(buffer), hasAlpha: false };
+    case 'webp':
+      return readWebpHeader(buffer);
+    case 'svg':
+      return { ...readSvgSize(buffer.toString('utf8')), hasAlpha: true };
+  }
+}
+
+/**
+ * Returns the pixel decoder of a format, if there is one.
+ * @param format - The image format.
+ * @returns The decoder, or undefined.
+ */
+function getPixelDecoder(format: ImageFormat): ((buffer: Buffer, sink: PixelSink) => void) | undefined {
+  switch (format) {
+    case 'png':
+      return decodePng;
+    case 'gif':
+      return decodeGif;
+    case 'jpg':
+      return decodeJpegDc;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks whether a PNG has a transparency (`tRNS`) chunk, which precedes the image data.
+ * @param buffer - The PNG file.
+ * @returns True if the PNG has transparency.
+ */
+function hasPngTransparency(buffer: Buffer): boolean {
+  for (let offset = 8; offset + 8 <= buffer.length; offset += 12 + buffer.readUInt32BE(offset)) {
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    if (type === 'tRNS') {
+      return true;
+    }
+    if (type === 'IDAT') {
+      return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks whether a GIF declares a transparent color in a graphic control extension.
+ * @param buffer - The GIF file.
+ * @returns True if the GIF has transparency.
+ */
+function hasGifTransparency(buffer: Buffer): boolean {
+  for (let offset = buffer.indexOf(Buffer.from([0x21, 0xf9, 0x04])); offset !== -1; ) {
+    if (buffer[offset + 3] & 0x01) {
+      return true;
+    }
+    offset = buffer.indexOf(Buffer.from([0x21, 0xf9, 0x04]), offset + 3);
+  }
+  return false;
+}
+
+/**
+ * Reads the dimensions of a JPEG from its start-of-frame marker.
+ * @param buffer - The JPEG file.
+ * @returns The dimensions, or zeros if there is no frame header.
+ */
+function readJpegSize(buffer: Buffer): { width: number; height: number } {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = buffer[offset + 1];
+    if (marker === 0xff || marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return { width: 0, height: 0 };
+}
+
+/**
+ * Reads the dimensions and alpha flag of a WebP from its first chunk (`VP8 `, `VP8L` or `VP8X`).
+ * @param buffer - The WebP file.
+ * @returns The dimensions and whether the image has an alpha channel.
+ */
+function readWebpHeader(buffer: Buffer): { width: number; height: number; hasAlpha: boolean } {
+  const chunk = buffer.toString('latin1', 12, 16);
+  if (chunk === 'VP8X') {
+    return {
+      width: buffer.readUIntLE(24, 3) + 1,
+      height: buffer.readUIntLE(27, 3) + 1,
+      hasAlpha: (buffer[20] & 0x10) !== 0,
+    };
+  }
+  if (chunk === 'VP8L') {
+    const bits = buffer.readUInt32LE(21);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+      hasAlpha: ((bits >> 28) & 1) === 1,
+    };
+  }
+  if (chunk === 'VP8 ') {
+    return {
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+      hasAlpha: false,
+    };
+  }
+  return { width: 0, height: 0, hasAlpha: false };
+}
+
+/**
+ * Reads the intrinsic size of an SVG from the `width`, `height` and `viewBox` of its root element.
+ * Only unitless and pixel lengths are used; other units fall back to the viewBox.
+ * @param svg - The SVG source.
+ * @returns The dimensions, rounded to whole pixels.
+ */
+function readSvgSize(svg: string): { width: number; height: number } {
+  const tag = /<svg\b[^>]*>/i.exec(svg)?.[0] ?? '';
+  const attribute = (name: string) => new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(tag)?.[1];
+  const length = (value: string | undefined) => {
+    const match = value && /^\s*([\d.]+)\s*(px)?\s*$/.exec(value);
+    return match ? parseFloat(match[1]) || undefined : undefined;
+  };
+
+  let width = length(attribute('width'));
+  let height = length(attribute('height'));
+  const viewBox = attribute('viewBox')?.trim().split(/[\s,]+/).map(parseFloat);
+  if (viewBox && viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    const [, , boxWidth, boxHeight] = viewBox;
+    if (width && !height) {
+      height = (width * boxHeight) / boxWidth;
+    } else if (height && !width) {
+      width = (height * boxWidth) / boxHeight;
+    } else if (!width && !height) {
+      width = boxWidth;
+      height = boxHeight;
+    }
+  }
+  return {
+    width: Math.max(1, Math.round(width ?? DEFAULT_SVG_SIZE.width)),
+    height: Math.max(1, Math.round(height ?? DEFAULT_SVG_SIZE.height)),
+  };
+}
+
+/**
+ * Downscales the pixels it receives into a bitmap of at most `maxWidth` by `maxHeight`, averaging each area.
+ */
+class PixelAccumulator implements PixelSink {
+  private width = 0;
+  private height = 0;
+  private sourceWidth = 0;
+  private sourceHeight = 0;
+  private sums = new Float64Array(0);
+  private minAlpha = 255;
+
+  /**
+   * Creates an instance of PixelAccumulator.
+   * @param maxWidth - Maximum width of the resulting bitmap.
+   * @param maxHeight - Maximum height of the resulting bitmap. Defaults to `maxWidth`.
+   */
+  constructor(private maxWidth: number, private maxHeight: number = maxWidth) {}
+
+  /**
+   * Whether every pixel received was fully opaque.
+   */
+  get isOpaque(): boolean {
+    return this.minAlpha === 255;
+  }
+
+  begin(width: number, height: number): void {
+    const scale = Math.min(1, this.maxWidth / width, this.maxHeight / height);
+    this.sourceWidth = width;
+    this.sourceHeight = height;
+    this.width = Math.max(1, Math.round(width * scale));
+    this.height = Math.max(1, Math.round(height * scale));
+    // Alpha-weighted red, green and blue, then alpha and pixel count
+    this.sums = new Float64Array(this.width * this.height * 5);
+  }
+
+  pixel(x: number, y: number, r: number, g: number, b: number, a: number): void {
+    const tx = Math.min(this.width - 1, Math.floor((x * this.width) / this.sourceWidth));
+    const ty = Math.min(this.height - 1, Math.floor((y * this.height) / this.sourceHeight));
+    const i = (ty * this.width + tx) * 5;
+    this.sums[i] += r * a;
+    this.sums[i + 1] += g * a;
+    this.sums[i + 2] += b * a;
+    this.sums[i + 3] += a;
+    this.sums[i + 4]++;
+    if (a < this.minAlpha) {
+      this.minAlpha = a;
+    }
+  }
+
+  /**
+   * Returns the averaged bitmap.
+   * @returns The bitmap.
+   */
+  toBitmap(): Bitmap {
+    const data = new Uint8Array(this.width * this.height * 4);
+    for (let p = 0; p < this.width * this.height; p++) {
+      const alphaSum = this.sums[p * 5 + 3];
+      const count = this.sums[p * 5 + 4];
+      for (let c = 0; c < 3; c++) {
+        data[p * 4 + c] = alphaSum ? Math.round(this.sums[p * 5 + c] / alphaSum) : 0;
+      }
+      data[p * 4 + 3] = count ? Math.round(alphaSum / count) : 0;
+    }
+    return { width: this.width, height: this.height, data };
+  }
+}
+
+/**
+ * Creates a low-quality image placeholder: the image scaled to 20 pixels wide, as a PNG data URL.
+ * @param bitmap - The image, at any size.
+ * @returns The data URL.
+ */
+function createLqip(bitmap: Bitmap): string {
+  // Scale by width only, like the Content Lake, so tall images keep their aspect ratio
+  const scaled = new PixelAccumulator(LQIP_WIDTH, Infinity);
+  scaled.begin(bitmap.width, bitmap.height);
+  for (let y = 0; y < bitmap.height; y++) {
+    for (let x = 0; x < bitmap.width; x++) {
+      const i = (y * bitmap.width + x) * 4;
+      scaled.pixel(x, y, bitmap.data[i], bitmap.data[i + 1], bitmap.data[i + 2], bitmap.data[i + 3]);
+    }
+  }
+  return `data:image/png;base64,${encodePng(scaled.toBitmap()).toString('base64')}`;
+}
+
+/**
+ * Encodes a bitmap as an 8-bit RGBA PNG.
+ * @param bitmap - The bitmap.
+ * @returns The PNG file.
+ */
+function encodePng(bitmap: Bitmap): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(bitmap.width, 0);
+  header.writeUInt32BE(bitmap.height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // Color type: RGBA
+
+  const rowBytes = bitmap.width * 4;
+  const raw = Buffer.alloc((rowBytes + 1) * bitmap.height);
+  for (let y = 0; y < bitmap.height; y++) {
+    // Filter type 0 (none), followed by the row
+    raw.set(bitmap.data.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    createPngChunk('IHDR', header),
+    createPngChunk('IDAT', zlib.deflateSync(raw)),
+    createPngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Creates a PNG chunk, with its length and CRC.
+ * @param type - The chunk type.
+ * @param data - The chunk data.
+ * @returns The chunk.
+ */
+function createPngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'latin1');
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Computes the CRC-32 checksum used by PNG chunks.
+ * @param data - The data.
+ * @returns The checksum.
+ */
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * A color cluster of the palette, with its HSL values.
+ */
+interface PaletteColor {
+  r: number;
+  g: number;
+  b: number;
+  population: number;
+  saturation: number;
+  lightness: number;
+}
+
+/**
+ * The palette swatches, with their target lightness and saturation, in the same spirit as Vibrant.js,
+ * which the Content Lake palette is modelled on.
+ */
+const PALETTE_TARGETS: Record<
+  Exclude<keyof ImagePalette, '_type' | 'dominant'>,
+  { lightness: [number, number, number]; saturation: [number, number, number] }
+> = {
+  vibrant: { lightness: [0.3, 0.5, 0.7], saturation: [0.35, 1, 1] },
+  lightVibrant: { lightness: [0.55, 0.74, 1], saturation: [0.35, 1, 1] },
+  darkVibrant: { lightness: [0, 0.26, 0.45], saturation: [0.35, 1, 1] },
+  muted: { lightness: [0.3, 0.5, 0.7], saturation: [0, 0.3, 0.4] },
+  lightMuted: { lightness: [0.55, 0.74, 1], saturation: [0, 0.3, 0.4] },
+  darkMuted: { lightness: [0, 0.26, 0.45], saturation: [0, 0.3, 0.4] },
+};
+
+/**
+ * Creates the palette of an image: its dominant color, plus vibrant and muted swatches where present.
+ * Colors are clustered by their top 5 bits per channel; mostly transparent pixels are ignored.
+ * @param bitmap - The image, downscaled.
+ * @returns The palette. Swatches without a matching color are omitted.
+ */
+function createPalette(bitmap: Bitmap): ImagePalette {
+  const clusters = new Map<number, { r: number; g: number; b: number; count: number }>();
+  let total = 0;
+  for (let i = 0; i < bitmap.data.length; i += 4) {
+    if (bitmap.data[i + 3] < 125) {
+      continue;
+    }
+    const [r, g, b] = [bitmap.data[i], bitmap.data[i + 1], bitmap.data[i + 2]];
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const cluster = clusters.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+    cluster.r += r;
+    cluster.g += g;
+    cluster.b += b;
+    cluster.count++;
+    clusters.set(key, cluster);
+    total++;
+  }
+
+  const colors: PaletteColor[] = Array.from(clusters.values())
+    .map(({ r, g, b, count }) => {
+      const color = { r: Math.round(r / count), g: Math.round(g / count), b: Math.round(b / count) };
+      return { ...color, ...toHsl(color.r, color.g, color.b), population: count };
+    })
+    .sort((a, b) => b.population - a.population);
+
+  const palette: ImagePalette = { _type: 'sanity.imagePalette' };
+  if (colors.length === 0) {
+    return palette;
+  }
+  palette.dominant = toSwatch(colors[0], total);
+
+  const maxPopulation = colors[0].population;
+  const used = new Set<PaletteColor>();
+  for (const [name, target] of Object.entries(PALETTE_TARGETS) as [keyof typeof PALETTE_TARGETS, typeof PALETTE_TARGETS['vibrant']][]) {
+    let best: PaletteColor | undefined;
+    let bestScore = -Infinity;
+    for (const color of colors) {
+      const [minL, targetL, maxL] = target.lightness;
+      const [minS, targetS, maxS] = target.saturation;
+      if (used.has(color) || color.lightness < minL || color.lightness > maxL || color.saturation < minS || color.saturation > maxS) {
+        continue;
+      }
+      const score =
+        (1 - Math.abs(color.saturation - targetS)) * 3 +
+        (1 - Math.abs(color.lightness - targetL)) * 6.5 +
+        (color.population / maxPopulation) * 0.5;
+      if (score > bestScore) {
+        best = color;
+        bestScore = score;
+      }
+    }
+    if (best) {
+      used.add(best);
+      palette[name] = toSwatch(best, total);
+    }
+  }
+  return palette;
+}
+
+/**
+ * Converts a palette color into a Content Lake palette swatch.
+ * @param color - The palette color.
+ * @param total - Number of pixels the palette was computed from.
+ * @returns The swatch, with a readable text color on top of it.
+ */
+function toSwatch(color: PaletteColor, total: number): ImagePaletteSwatch {
+  const text = relativeLuminance(color) > 0.179 ? '#000' : '#fff';
+  return {
+    _type: 'sanity.imagePaletteSwatch',
+    background: `#${[color.r, color.g, color.b].map((c) => c.toString(16).padStart(2, '0')).join('')}`,
+    foreground: text,
+    title: text,
+    population: Math.round((color.population / total) * 10000) / 100,
+  };
+}
+
+/**
+ * Converts an RGB color to its HSL saturation and lightness.
+ * @param r - Red, 0-255.
+ * @param g - Green, 0-255.
+ * @param b - Blue, 0-255.
+ * @returns Saturation and lightness, 0-1.
+ */
+function toHsl(r: number, g: number, b: number): { saturation: number; lightness: number } {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const lightness = (max + min) / 2;
+  const saturation = max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1));
+  return { saturation, lightness };
+}
+
+/**
+ * Computes the WCAG relative luminance of a color.
+ * @param color - The color.
+ * @returns The luminance, 0-1.
+ */
+function relativeLuminance({ r, g, b }: { r: number; g: number; b: number }): number {
+  const linear = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
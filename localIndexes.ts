@@ -0,0 +1,259 @@
+/**
+ * @remarks
+ * Secondary indexes of the local store's documents: by `_type`, by ID prefix (published, `drafts.`,
+ * `versions.<release>.`) and by referenced document. Queries that can be narrowed through them visit
+ * only the candidate documents instead of every document in the dataset.
+ */
+
+import { IndexLookup, QueryIndexName, SanityDocument } from './localSanityTypes';
+import { findReferences, getReferencedIds } from './localReferences';
+import { getIdPrefix, getPublishedId } from './localPerspectives';
+
+/**
+ * How a lookup is served: the candidate IDs read from one index, and a check for the other conditions.
+ */
+export interface LookupPlan {
+  /**
+   * The index the candidates are read from.
+   */
+  index: QueryIndexName;
+
+  /**
+   * IDs of the candidate documents. Some may not exist.
+   */
+  ids: Iterable<string>;
+
+  /**
+   * Checks whether a candidate satisfies every condition of the lookup.
+   */
+  matches: (document: SanityDocument) => boolean;
+}
+
+/**
+ * A condition of a lookup, served by one index.
+ */
+interface Condition {
+  index: QueryIndexName;
+  /** Upper bound on the number of candidates, used to pick the most selective index. */
+  estimate: number;
+  ids: () => Iterable<string>;
+  matches: (document: SanityDocument) => boolean;
+}
+
+/**
+ * The secondary indexes of a set of documents, kept up to date through `update` on every change.
+ */
+export class DocumentIndexes {
+  /**
+   * Reverse-reference index: whether each referencing document holds a strong reference, keyed by referenced ID.
+   */
+  readonly references = new Map<string, Map<string, boolean>>();
+
+  /**
+   * IDs of the documents of each `_type`.
+   */
+  private types = new Map<string, Set<string>>();
+
+  /**
+   * IDs of the documents with each ID prefix, with `''` for published documents.
+   */
+  private idPrefixes = new Map<string, Set<string>>();
+
+  /**
+   * Insertion order of each document, so index lookups return documents in the same order as a full scan.
+   */
+  private ordinals = new Map<string, number>();
+  private nextOrdinal = 0;
+
+  /**
+   * Updates the indexes for a changed document.
+   * @param id - The ID of the changed document.
+   * @param previous - The document before the change, if it existed.
+   * @param next - The document after the change, or null if it was deleted.
+   */
+  update(id: string, previous: SanityDocument | undefined, next: SanityDocument | null): void {
+    for (const referencedId of getReferencedIds(id, previous).keys()) {
+      removeFromIndex(this.references, referencedId, id);
+    }
+    for (const [referencedId, strong] of getReferencedIds(id, next)) {
+      const referrers = this.references.get(referencedId) ?? new Map<string, boolean>();
+      referrers.set(id, strong);
+      this.references.set(referencedId, referrers);
+    }
+
+    if (previous) {
+      removeFromIndex(this.types, previous._type, id);
+      removeFromIndex(this.idPrefixes, getIdPrefix(id), id);
+    }
+    if (next) {
+      addToIndex(this.types, next._type, id);
+      addToIndex(this.idPrefixes, getIdPrefix(id), id);
+      if (!previous) {
+        this.ordinals.set(id, this.nextOrdinal++);
+      }
+    } else {
+      this.ordinals.delete(id);
+    }
+  }
+
+  /**
+   * Empties every index.
+   */
+  clear(): void {
+    this.references.clear();
+    this.types.clear();
+    this.idPrefixes.clear();
+    this.ordinals.clear();
+  }
+
+  /**
+   * Plans a lookup through the most selective of the indexes its conditions can use.
+   * @param lookup - The lookup. Must have at least one condition.
+   * @returns The plan.
+   */
+  plan(lookup: IndexLookup): LookupPlan {
+    const conditions = this.getConditions(lookup);
+    const [driver] = conditions.slice().sort((a, b) => a.estimate - b.estimate);
+    return {
+      index: driver.index,
+      ids: driver.ids(),
+      // The driving index may yield extra candidates too, e.g. referenced documents themselves
+      matches: (document) => conditions.every((condition) => condition.matches(document)),
+    };
+  }
+
+  /**
+   * Sorts documents in the order they were first written, which is the order of a full scan.
+   * @param documents - The documents to sort, in place.
+   * @returns The sorted documents.
+   */
+  sortByOrder(documents: SanityDocument[]): SanityDocument[] {
+    return documents.sort((a, b) => (this.ordinals.get(a._id) ?? 0) - (this.ordinals.get(b._id) ?? 0));
+  }
+
+  /**
+   * Returns the number of distinct keys in each index.
+   * @returns The index sizes.
+   */
+  getSizes(): { types: number; idPrefixes: number; references: number } {
+    return { types: this.types.size, idPrefixes: this.idPrefixes.size, references: this.references.size };
+  }
+
+  /**
+   * Translates the conditions of a lookup into index reads.
+   * @param lookup - The lookup.
+   * @returns A condition for every key of the lookup.
+   */
+  private getConditions(lookup: IndexLookup): Condition[] {
+    const conditions: Condition[] = [];
+    if (lookup.ids) {
+      const ids = new Set(lookup.ids);
+      conditions.push({ index: '_id', estimate: ids.size, ids: () => ids, matches: (doc) => ids.has(doc._id) });
+    }
+    if (lookup.publishedIds) {
+      const publishedIds = new Set(lookup.publishedIds);
+      const prefixes = Array.from(this.idPrefixes.keys());
+      conditions.push({
+        index: 'idPrefix',
+        estimate: publishedIds.size * prefixes.length,
+        ids: () => Array.from(publishedIds).flatMap((id) => prefixes.map((prefix) => `${prefix}${id}`)),
+        matches: (doc) => publishedIds.has(getPublishedId(doc._id)),
+      });
+    }
+    if (lookup.types) {
+      const sets = getIndexSets(this.types, (type) => lookup.types!.includes(type));
+      const types = new Set(lookup.types);
+      conditions.push({
+        index: '_type',
+        estimate: sumSizes(sets),
+        ids: () => concatSets(sets),
+        matches: (doc) => types.has(doc._type),
+      });
+    }
+    if (lookup.idPrefixes) {
+      const requested = lookup.idPrefixes;
+      const matchesPrefix = (prefix: string) =>
+        requested.some((candidate) => prefix === candidate || (candidate !== '' && prefix.startsWith(candidate)));
+      const sets = getIndexSets(this.idPrefixes, matchesPrefix);
+      conditions.push({
+        index: 'idPrefix',
+        estimate: sumSizes(sets),
+        ids: () => concatSets(sets),
+        matches: (doc) => matchesPrefix(getIdPrefix(doc._id)),
+      });
+    }
+    if (lookup.references) {
+      const referencedIds = lookup.references;
+      const referrers = referencedIds.map((id) => this.references.get(id) ?? new Map<string, boolean>());
+      conditions.push({
+        index: 'references',
+        // Self-references are not indexed, so each referenced document is a candidate too
+        estimate: sumSizes(referrers) + referencedIds.length,
+        ids: () => new Set([...referencedIds, ...referrers.flatMap((map) => Array.from(map.keys()))]),
+        matches: (doc) =>
+          referencedIds.some(
+            (id, index) =>
+              referrers[index].has(doc._id) ||
+              (id === doc._id && findReferences(doc).some((reference) => reference.id === id))
+          ),
+      });
+    }
+    return conditions;
+  }
+}
+
+/**
+ * Adds a document to the set of an index key.
+ * @param index - The index.
+ * @param key - The key.
+ * @param id - The document ID.
+ */
+function addToIndex(index: Map<string, Set<string>>, key: string, id: string): void {
+  const ids = index.get(key) ?? new Set<string>();
+  ids.add(id);
+  index.set(key, ids);
+}
+
+/**
+ * Removes a document from an index key, dropping the key once no document is left.
+ * @param index - The index.
+ * @param key - The key.
+ * @param id - The document ID.
+ */
+function removeFromIndex(index: Map<string, { delete(id: string): boolean; size: number }>, key: string, id: string): void {
+  const ids = index.get(key);
+  ids?.delete(id);
+  if (ids?.size === 0) {
+    index.delete(key);
+  }
+}
+
+/**
+ * Returns the sets of the index keys that match a predicate.
+ * @param index - The index.
+ * @param matches - Tests a key.
+ * @returns The sets of the matching keys.
+ */
+function getIndexSets(index: Map<string, Set<string>>, matches: (key: string) => boolean): Set<string>[] {
+  return Array.from(index).flatMap(([key, ids]) => (matches(key) ? [ids] : []));
+}
+
+/**
+ * Sums the sizes of sets or maps.
+ * @param collections - The sets or maps.
+ * @returns The total size.
+ */
+function sumSizes(collections: { size: number }[]): number {
+  return collections.reduce((total, collection) => total + collection.size, 0);
+}
+
+/**
+ * Iterates over disjoint sets in turn.
+ * @param sets - The sets.
+ * @returns An iterable over every member.
+ */
+function* concatSets(sets: Set<string>[]): Iterable<string> {
+  for (const ids of sets) {
+    yield* ids;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * @remarks
+ * Vitest matchers for documents and listener events of the local backend. Register them in a setup file
+ * with `registerLocalMatchers(expect)`.
+ */
+
+import type { MatcherState, SyncExpectationResult } from '@vitest/expect';
+import type { ExpectStatic } from 'vitest';
+import { ListenEvent, MutationEvent, SanityDocument } from './localSanityTypes';
+
+/**
+ * Fields the backend sets on every write, which are ignored unless expected.
+ */
+const SYSTEM_FIELDS = ['_rev', '_createdAt', '_updatedAt'];
+
+/**
+ * Checks that a document equals the expected one, ignoring `_rev`, `_createdAt` and `_updatedAt` unless they are expected.
+ * Other fields must match exactly; asymmetric matchers such as `expect.any(String)` are supported.
+ * @param received - The document.
+ * @param expected - The expected document.
+ * @returns The result.
+ */
+export function toMatchDocument(this: MatcherState, received: unknown, expected: Partial<SanityDocument>): SyncExpectationResult {
+  const { matcherHint, printExpected, printReceived } = this.utils;
+  if (typeof received !== 'object' || received === null || typeof (received as SanityDocument)._id !== 'string') {
+    return {
+      pass: false,
+      message: () => `${matcherHint('.toMatchDocument')}\n\nReceived value is not a document: ${printReceived(received)}`,
+    };
+  }
+  const actual: Record<string, unknown> = { ...received };
+  for (const field of SYSTEM_FIELDS) {
+    if (!(field in expected)) {
+      delete actual[field];
+    }
+  }
+  const pass = this.equals(actual, expected, this.customTesters);
+  return {
+    pass,
+    message: () =>
+      pass
+        ? `${matcherHint('.not.toMatchDocument')}\n\nExpected document not to match ${printExpected(expected)}`
+        : `${matcherHint('.toMatchDocument')}\n\n${this.utils.diff(expected, actual) ?? ''}`,
+    actual,
+    expected,
+  };
+}
+
+/**
+ * Checks that a list of listener events contains a mutation event with the expected fields, e.g.
+ * `{ documentId: 'post-1', transition: 'appear' }`. Fields that are not expected are ignored.
+ * @param received - The events, in the order they were received.
+ * @param expected - The expected fields of the mutation event.
+ * @returns The result.
+ */
+export function toHaveReceivedMutation(
+  this: MatcherState,
+  received: ListenEvent[],
+  expected: Partial<MutationEvent>
+): SyncExpectationResult {
+  const { matcherHint, printExpected, printReceived } = this.utils;
+  if (!Array.isArray(received)) {
+    return {
+      pass: false,
+      message: () => `${matcherHint('.toHaveReceivedMutation')}\n\nReceived value is not a list of events: ${printReceived(received)}`,
+    };
+  }
+  const mutations = received.filter((event) => event.type === 'mutation');
+  const pass = mutations.some((event) =>
+    this.equals(event, expected, [...this.customTesters, this.utils.iterableEquality, this.utils.subsetEquality])
+  );
+  return {
+    pass,
+    message: () =>
+      `${matcherHint(pass ? '.not.toHaveReceivedMutation' : '.toHaveReceivedMutation')}\n\n` +
+      `Expected a mutation event ${pass ? 'not ' : ''}matching: ${printExpected(expected)}\n` +
+      `Received mutation events: ${printReceived(mutations)}`,
+  };
+}
+
+/**
+ * The matchers, to pass to `expect.extend`.
+ */
+export const localMatchers = {
+  toMatchDocument,
+  toHaveReceivedMutation,
+};
+
+/**
+ * Adds the matchers to `expect`.
+ * @param expect - Vitest's `expect`.
+ */
+export function registerLocalMatchers(expect: ExpectStatic): void {
+  expect.extend(localMatchers);
+}
+
+/**
+ * The matchers, as added to `expect`.
+ */
+interface LocalMatchers<R = unknown> {
+  /**
+   * Checks that a document equals the expected one, ignoring `_rev`, `_createdAt` and `_updatedAt` unless they are expected.
+   */
+  toMatchDocument: (expected: Partial<SanityDocument>) => R;
+
+  /**
+   * Checks that a list of listener events contains a mutation event with the expected fields.
+   */
+  toHaveReceivedMutation: (expected: Partial<MutationEvent>) => R;
+}
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends LocalMatchers<T> {}
+  interface AsymmetricMatchersContaining extends LocalMatchers {}
+}
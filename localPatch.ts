@@ -0,0 +1,51 @@
+/**
+ * @remarks
+ * Patch application for the local Sanity client, backed by the `@sanity/mutator` patcher
+ * so the semantics match the Content Lake.
+ */
+
+import { Mut, Mutation } from '@sanity/mutator';
+import { PatchOperations, SanityDocument } from './localSanityTypes';
+
+/**
+ * The patch operation keys understood by the Content Lake, excluding preconditions such as `ifRevisionID`.
+ */
+const PATCH_OPERATIONS: (keyof PatchOperations)[] = [
+  'set',
+  'setIfMissing',
+  'unset',
+  'inc',
+  'dec',
+  'insert',
+  'diffMatchPatch',
+];
+
+/**
+ * Checks whether a patch contains no operations.
+ * @param operations - The patch operations.
+ * @returns True if the patch would not change any document.
+ */
+export function isEmptyPatch(operations: PatchOperations): boolean {
+  return PATCH_OPERATIONS.every((key) => operations[key] === undefined);
+}
+
+/**
+ * Applies patch operations to a document.
+ * Paths are JSONPath-style, e.g. `title`, `meta.title`, `body[_key=="abc"].text` or `tags[-1]`.
+ * Operations are applied in the same order as the Content Lake does:
+ * `setIfMissing`, `set`, `unset`, `diffMatchPatch`, `inc`, `dec`, `insert`.
+ * @param document - The document to patch. It is not modified.
+ * @param operations - The patch operations to apply. Preconditions such as `ifRevisionID` are not checked here.
+ * @returns The patched document. `_id` cannot be changed by a patch.
+ * @throws Error if the patch is invalid or would remove the document `_type`.
+ */
+export function applyPatch(document: SanityDocument, operations: PatchOperations): SanityDocument {
+  const { ifRevisionID, ...patch } = operations;
+  const mut: Mut = { patch: { ...patch, id: document._id } };
+  const mutation = new Mutation({ mutations: [mut] });
+  const patched = mutation.apply(document) as SanityDocument;
+  if (typeof patched._type !== 'string' || !patched._type) {
+    throw new Error(`Patch for document ID "${document._id}" cannot remove the document _type.`);
+  }
+  return { ...patched, _id: document._id };
+}
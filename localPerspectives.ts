@@ -0,0 +1,162 @@
+/**
+ * @remarks
+ * Perspective support for the local Sanity client: overlays drafts and release versions
+ * on top of published documents the same way the Content Lake does.
+ */
+
+import { ClientPerspective, SanityDocument } from './localSanityTypes';
+
+const DRAFTS_PREFIX = 'drafts.';
+const VERSIONS_PREFIX = 'versions.';
+
+/**
+ * Checks whether a document ID is a draft ID (`drafts.<id>`).
+ * @param id - The document ID.
+ * @returns True if the ID is a draft ID.
+ */
+export function isDraftId(id: string): boolean {
+  return id.startsWith(DRAFTS_PREFIX);
+}
+
+/**
+ * Checks whether a document ID is a release version ID (`versions.<release>.<id>`).
+ * @param id - The document ID.
+ * @returns True if the ID is a version ID.
+ */
+export function isVersionId(id: string): boolean {
+  return id.startsWith(VERSIONS_PREFIX);
+}
+
+/**
+ * Returns the release name of a version ID, e.g. `rc-1` for `versions.rc-1.post-1`.
+ * @param id - The document ID.
+ * @returns The release name, or undefined if the ID is not a version ID.
+ */
+export function getVersionFromId(id: string): string | undefined {
+  return isVersionId(id) ? id.split('.')[1] : undefined;
+}
+
+/**
+ * Returns the published ID of a draft, version or published document ID.
+ * @param id - The document ID.
+ * @returns The published document ID.
+ */
+export function getPublishedId(id: string): string {
+  if (isVersionId(id)) {
+    return id.split('.').slice(2).join('.');
+  }
+  return isDraftId(id) ? id.slice(DRAFTS_PREFIX.length) : id;
+}
+
+/**
+ * Returns the prefix that sets a draft or version ID apart from its published ID.
+ * @param id - The document ID.
+ * @returns `drafts.`, `versions.<release>.`, or an empty string for a published ID.
+ */
+export function getIdPrefix(id: string): string {
+  return id.slice(0, id.length - getPublishedId(id).length);
+}
+
+/**
+ * Returns the ID prefixes of the documents a perspective can show.
+ * @param perspective - The perspective.
+ * @returns The ID prefixes, with `''` for published documents, or null for the `raw` perspective, which shows all.
+ * @throws Error if the perspective is not valid.
+ */
+export function getPerspectiveIdPrefixes(perspective: ClientPerspective): string[] | null {
+  const stack = resolvePerspectiveStack(perspective);
+  if (stack === null) {
+    return null;
+  }
+  return ['', ...stack.map((layer) => (layer === 'drafts' ? DRAFTS_PREFIX : `${VERSIONS_PREFIX}${layer}.`))];
+}
+
+/**
+ * Resolves a perspective to the stack of layers overlaid on top of published documents,
+ * ordered from highest to lowest priority. `drafts` is a layer, anything else is a release name.
+ * @param perspective - The perspective to resolve.
+ * @returns The layers of the stack, or null for the `raw` perspective, which does not overlay anything.
+ * @throws Error if the perspective is not valid.
+ */
+export function resolvePerspectiveStack(perspective: ClientPerspective): string[] | null {
+  if (perspective === 'raw') {
+    return null;
+  }
+  if (perspective === 'published') {
+    return [];
+  }
+  if (perspective === 'drafts' || perspective === 'previewDrafts') {
+    return ['drafts'];
+  }
+  if (Array.isArray(perspective)) {
+    // Published documents are always the bottom layer, so naming them is allowed but redundant
+    return perspective.filter((layer) => layer !== 'published');
+  }
+  throw new Error(
+    `Invalid perspective "${perspective}". Use "raw", "published", "drafts" or an array of release names.`
+  );
+}
+
+/**
+ * Returns the priority of a document ID within a perspective stack.
+ * @param stack - The perspective stack, ordered from highest to lowest priority.
+ * @param id - The document ID.
+ * @returns The priority (lower wins), or -1 if the document is not part of the perspective.
+ */
+function getLayerPriority(stack: string[], id: string): number {
+  if (isDraftId(id)) {
+    return stack.indexOf('drafts');
+  }
+  const version = getVersionFromId(id);
+  if (version !== undefined) {
+    return stack.indexOf(version);
+  }
+  // Published documents sit below every layer of the stack
+  return stack.length;
+}
+
+/**
+ * Checks whether a document ID can be seen through a perspective at all.
+ * @param perspective - The perspective.
+ * @param id - The document ID.
+ * @returns True if the perspective can show the document.
+ */
+export function isIdInPerspective(perspective: ClientPerspective, id: string): boolean {
+  const stack = resolvePerspectiveStack(perspective);
+  return stack === null || getLayerPriority(stack, id) !== -1;
+}
+
+/**
+ * Overlays documents according to a perspective.
+ * For each published ID, only the highest-priority document in the stack is kept. It is returned
+ * with the published ID as `_id`, and its own ID as `_originalId`, like the Content Lake does.
+ * @param documents - The raw documents.
+ * @param perspective - The perspective to apply.
+ * @returns The documents as seen through the perspective.
+ * @throws Error if the perspective is not valid.
+ */
+export function applyPerspective(documents: SanityDocument[], perspective: ClientPerspective): SanityDocument[] {
+  const stack = resolvePerspectiveStack(perspective);
+  if (stack === null) {
+    return documents;
+  }
+
+  const winners = new Map<string, { priority: number; document: SanityDocument }>();
+  for (const document of documents) {
+    const priority = getLayerPriority(stack, document._id);
+    if (priority === -1) {
+      continue;
+    }
+    const publishedId = getPublishedId(document._id);
+    const current = winners.get(publishedId);
+    if (!current || priority < current.priority) {
+      winners.set(publishedId, { priority, document });
+    }
+  }
+
+  return Array.from(winners, ([publishedId, { document }]) => ({
+    ...document,
+    _id: publishedId,
+    _originalId: document._id,
+  }));
+}
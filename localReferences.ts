@@ -0,0 +1,72 @@
+/**
+ * @remarks
+ * Finds the references (`{_ref}` objects) held by documents, for the local backend's referential integrity checks.
+ */
+
+/**
+ * A reference from a document to another document.
+ */
+export interface DocumentReference {
+  /**
+   * ID of the referenced document.
+   */
+  id: string;
+
+  /**
+   * Whether the reference is weak (`_weak: true`), i.e. does not keep the referenced document from being deleted.
+   */
+  weak: boolean;
+
+  /**
+   * Whether the reference is to be made strong once the referenced document is published
+   * (`_strengthenOnPublish`), which allows it to point to a document that does not exist yet.
+   */
+  strengthenOnPublish: boolean;
+}
+
+/**
+ * Finds every reference within a value, at any depth.
+ * Any object with a string `_ref` is a reference, like in the Content Lake, whatever its `_type`.
+ * @param value - The value to search, usually a document.
+ * @returns The references, in document order. The same document may be referenced more than once.
+ */
+export function findReferences(value: unknown): DocumentReference[] {
+  const references: DocumentReference[] = [];
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (typeof node !== 'object' || node === null) {
+      return;
+    }
+    const record = node as Record<string, unknown>;
+    if (typeof record._ref === 'string') {
+      references.push({
+        id: record._ref,
+        weak: record._weak === true,
+        strengthenOnPublish: Boolean(record._strengthenOnPublish),
+      });
+    }
+    Object.values(record).forEach(visit);
+  };
+  visit(value);
+  return references;
+}
+
+/**
+ * Returns the documents a value references, and whether any of the references to each is strong.
+ * Self-references are left out, since they never keep a document from being deleted.
+ * @param selfId - ID of the document holding the references.
+ * @param value - The value to search, usually the document itself.
+ * @returns Whether any reference is strong, keyed by referenced document ID.
+ */
+export function getReferencedIds(selfId: string, value: unknown): Map<string, boolean> {
+  const referenced = new Map<string, boolean>();
+  for (const reference of findReferences(value)) {
+    if (reference.id !== selfId) {
+      referenced.set(reference.id, referenced.get(reference.id) === true || !reference.weak);
+    }
+  }
+  return referenced;
+}
@@ -9,68 +9,102 @@ import {
   DeleteMutation, // Ensure this is imported if used explicitly
   SimpleObservable,
   AssetMetadata,
+  AssetStorage,
+  AssetGarbageCollectionOptions,
+  AssetGarbageCollectionResult,
   UploadOptions,
-  SanityDocument, // Added for Asset document creation
+  DocumentMutationEvent,
+  ListenEvent,
+  ListenOptions,
+  MutationEvent,
+  Patch,
+  PatchOperations,
+  InsertPatch,
+  FetchOptions,
+  ClientPerspective,
+  DatasetsClient,
+  WebhooksClient,
+  ImageMetadata,
+  TransactionLogOptions,
+  CommitResult,
+  CommitOptions,
+  ValidationMarker,
+  DocumentStub,
+  RawMutation,
+  MutateOptions,
+  MutateSummary,
+  MutationResult,
+  ObservableLocalSanityClient,
+  IndexLookup,
+  QueryStats,
+  DocumentPermission,
+  LocalGrant,
+  LocalClock,
+  LocalIdGenerator,
 } from './localSanityTypes';
-import { InMemoryStore } from './inMemoryStore';
+import { CopyOnWriteView, generateRandomId, InMemoryStore, systemClock } from './inMemoryStore';
+import { EventEmitter } from './localEventEmitter';
+import { LocalDataset, localDatasetRegistry } from './localDatasetRegistry';
+import { applyPatch, isEmptyPatch } from './localPatch';
+import { createGroqFilter, evaluateGroqQuery, isDocumentIdQuery } from './localGroq';
+import { LocalClientError, LocalMutationError } from './localErrors';
+import { ImageInfo, readImageInfo } from './localImageMetadata';
+import {
+  applyPerspective,
+  getPerspectiveIdPrefixes,
+  getPublishedId,
+  isIdInPerspective,
+  resolvePerspectiveStack,
+} from './localPerspectives';
+import { createMendozaPatch, queryTransactionLog, toNdjson } from './localTranslog';
+import { findReferences } from './localReferences';
+import { formatValidationMarkers, hasValidationErrors, LocalDocumentValidator } from './localValidation';
+import { getFullAccessGrants, LocalAccessControl } from './localGrants';
+import type { SanityClient } from '@sanity/client';
+import { FileAssetStorage } from './fileAssetStorage';
+import { FileStorageBackend } from './fileStorageBackend';
 import * as fs from 'fs';
 import * as path from 'path';
-import { randomBytes } from 'crypto';
+import { defer, Observable } from 'rxjs';
+
+export { EventEmitter } from './localEventEmitter';
 
 /**
- * @internal
- * A simple event emitter class for handling real-time updates.
+ * The identity reported as the author of mutations in listener events and the transaction log.
  */
-export class EventEmitter {
-  private listeners: Map<string, Array<(data: any) => void>> = new Map();
+const LOCAL_IDENTITY = 'local';
 
-  /**
-   * Registers a listener for a specific event.
-   * @param eventName - The name of the event to listen to.
-   * @param callback - The function to call when the event is emitted.
-   */
-  on(eventName: string, callback: (data: any) => void): void {
-    if (!this.listeners.has(eventName)) {
-      this.listeners.set(eventName, []);
-    }
-    this.listeners.get(eventName)!.push(callback);
-  }
+/**
+ * The mutation operation names reported by the Content Lake, keyed by the local transaction result operation.
+ */
+const RESULT_OPERATIONS: Record<string, MutationResult['operation']> = {
+  create: 'create',
+  replace: 'update',
+  patch: 'update',
+  delete: 'delete',
+  none: 'none',
+};
 
+/**
+ * The document types of uploaded assets.
+ */
+const ASSET_TYPES = ['sanity.imageAsset', 'sanity.fileAsset'];
+
+/**
+ * How a transaction validates the documents it writes.
+ */
+export interface TransactionValidation {
   /**
-   * Unregisters a listener for a specific event.
-   * @param eventName - The name of the event.
-   * @param callback - The callback function to remove.
+   * The validator to check written documents with.
    */
-  off(eventName: string, callback: (data: any) => void): void {
-    const eventListeners = this.listeners.get(eventName);
-    if (eventListeners) {
-      this.listeners.set(
-        eventName,
-        eventListeners.filter((cb) => cb !== callback)
-      );
-    }
-  }
+  validator: LocalDocumentValidator;
 
   /**
-   * Emits an event to all registered listeners for that event.
-   * @param eventName - The name of the event to emit.
-   * @param data - The data to pass to the listeners.
+   * Whether invalid documents are only reported, or make the transaction fail.
    */
-  emit(eventName: string, data: any): void {
-    const eventListeners = this.listeners.get(eventName);
-    if (eventListeners) {
-      eventListeners.forEach((callback) => {
-        try {
-          callback(data);
-        } catch (error) {
-          console.error('Error in event listener:', error);
-        }
-      });
-    }
-  }
+  mode: 'report' | 'strict';
 }
 
-
 /**
  * @internal
  * Implementation of the Transaction interface for the local Sanity client.
@@ -84,11 +118,19 @@ export class TransactionImpl implements Transaction {
    * @param store - The InMemoryStore instance to operate on.
    * @param clientEventEmitter - The EventEmitter instance from the client for emitting mutation events.
    * @param initialMutations - Optional array of initial mutations.
+   * @param validation - Optional validation of the documents written by the transaction.
+   * @param access - Optional access control the written documents are checked against.
+   * @param clock - Optional clock for the timestamps of the transaction. Defaults to the system clock.
+   * @param generateId - Optional generator of the transaction ID and generated document IDs. Defaults to random IDs.
    */
   constructor(
     private store: InMemoryStore,
     private clientEventEmitter: EventEmitter,
-    initialMutations: Mutation[] = []
+    initialMutations: Mutation[] = [],
+    private validation?: TransactionValidation,
+    private access?: LocalAccessControl | null,
+    private clock: LocalClock = systemClock,
+    private generateId: LocalIdGenerator = generateRandomId
   ) {
     if (initialMutations) {
       this.mutations.push(...initialMutations);
@@ -97,14 +139,15 @@ export class TransactionImpl implements Transaction {
 
   /**
    * Adds a create operation to the transaction.
-   * @param document - The document to create.
+   * @param document - The document to create. An `_id` is generated if it has none.
    * @returns The transaction instance for chaining.
    */
-  create(document: SanityDocument): Transaction {
+  create(document: DocumentStub): Transaction {
     // Ensure _createdAt and _updatedAt are set if not provided
-    const now = new Date().toISOString();
+    const now = this.clock().toISOString();
     const docToCreate = {
       ...document,
+      _id: document._id || this.generateId('document'),
       _createdAt: document._createdAt || now,
       _updatedAt: document._updatedAt || now,
     };
@@ -112,22 +155,61 @@ export class TransactionImpl implements Transaction {
     return this;
   }
 
+  /**
+   * Adds a createOrReplace operation to the transaction.
+   * `_createdAt` of a replaced document is kept; `_updatedAt` is set by the transaction.
+   * @param document - The document to create or replace. Must have an `_id`.
+   * @returns The transaction instance for chaining.
+   */
+  createOrReplace(document: DocumentStub & { _id: string }): Transaction {
+    this.mutations.push({ createOrReplace: { document } });
+    return this;
+  }
+
+  /**
+   * Adds a createIfNotExists operation to the transaction.
+   * @param document - The document to create unless it exists. Must have an `_id`.
+   * @returns The transaction instance for chaining.
+   */
+  createIfNotExists(document: DocumentStub & { _id: string }): Transaction {
+    this.mutations.push({ createIfNotExists: { document } });
+    return this;
+  }
+
+  /**
+   * Returns the mutations of the transaction in the Content Lake format.
+   * @returns The mutations.
+   */
+  serialize(): RawMutation[] {
+    return this.mutations.map((mutation) => {
+      if ('create' in mutation) {
+        return { create: mutation.create.document };
+      }
+      if ('createOrReplace' in mutation) {
+        return { createOrReplace: mutation.createOrReplace.document };
+      }
+      if ('createIfNotExists' in mutation) {
+        return { createIfNotExists: mutation.createIfNotExists.document };
+      }
+      return mutation;
+    });
+  }
+
   /**
    * Adds a patch operation to the transaction.
-   * @param id - The ID of the document to patch.
-   * @param fields - The fields to update.
-   *   Note: `_id`, `_type`, `_createdAt` should not be in fields.
-   *   `_updatedAt` will be set by the store during the operation.
+   * @param idOrPatch - The ID of the document to patch, or a patch built with `client.patch()`.
+   * @param operations - The patch operations to apply, if an ID was given.
+   *   `_id` cannot be patched, and `_updatedAt` will be set by the store during the operation.
    * @returns The transaction instance for chaining.
    */
-  patch(id: string, fields: Partial<SanityDocument>): Transaction {
-    // Ensure restricted fields are not in the patch
-    const { _id, _type, _createdAt, _updatedAt, ...patchableFields } = fields;
-    if (Object.keys(patchableFields).length === 0) {
-        console.warn(`Patch for document ID "${id}" is empty or only contains restricted fields. No operation will be performed for this patch.`);
+  patch(idOrPatch: string | Patch, operations: PatchOperations = {}): Transaction {
+    const { id, ...patchOperations } =
+      typeof idOrPatch === 'string' ? { ...operations, id: idOrPatch } : idOrPatch.serialize();
+    if (isEmptyPatch(patchOperations)) {
+        console.warn(`Patch for document ID "${id}" is empty. No operation will be performed for this patch.`);
         return this; // Or throw an error if empty patches are not allowed
     }
-    this.mutations.push({ patch: { id, fields: patchableFields } });
+    this.mutations.push({ patch: { id, ...patchOperations } });
     return this;
   }
 
@@ -142,62 +224,452 @@ export class TransactionImpl implements Transaction {
   }
 
   /**
-   * Commits all mutations in the transaction.
-   * Executes mutations sequentially and stops on the first error.
-   * @returns A promise that resolves with an array of results from each mutation.
+   * Commits all mutations in the transaction atomically.
+   * Every mutation is staged against a copy-on-write view of the store first; only if all of them
+   * succeed (and, with validation enabled, the written documents are validated) are the changes applied
+   * and listener events emitted. If any mutation fails, the store is left untouched and no events are emitted.
+   * With `dryRun`, the mutations are staged and checked the same way, but nothing is applied.
+   * @param options - Optional commit options.
+   * @returns A promise that resolves with the transaction ID, an array of results from each mutation,
+   *   and the validation markers of the written documents if validation is enabled.
+   * @throws LocalMutationError if a mutation fails, or, in strict validation mode, a written document is invalid.
    */
-  async commit(): Promise<{ results: any[] }> {
-    const results: any[] = [];
+  async commit(options: CommitOptions = {}): Promise<CommitResult> {
+    const transactionId = options.transactionId ?? this.generateId('transaction');
+    const timestamp = this.clock().toISOString();
     try {
-      for (const mutation of this.mutations) {
-        if ('create' in mutation) {
-          const createdDoc = await this.store.create(mutation.create.document);
-          const result = {
-            id: createdDoc._id,
-            operation: 'create',
-            document: createdDoc,
-          };
-          results.push(result);
-          this.clientEventEmitter.emit('mutation', {
-            type: 'create',
-            documentId: createdDoc._id,
-            document: createdDoc,
-          });
-        } else if ('patch' in mutation) {
-          const patchedDoc = await this.store.update(mutation.patch.id, mutation.patch.fields);
-          const result = {
-            id: patchedDoc._id,
-            operation: 'patch',
-            document: patchedDoc,
-          };
-          results.push(result);
-          this.clientEventEmitter.emit('mutation', {
-            type: 'update', // Sanity uses 'update' or 'mutation' more generally for patches
-            documentId: patchedDoc._id,
-            document: patchedDoc,
-          });
-        } else if ('delete' in mutation) {
-          const deletedDoc = await this.store.delete(mutation.delete.id);
-          const result = {
-            id: mutation.delete.id,
-            operation: 'delete',
-            documentId: deletedDoc?._id,
-          };
-          results.push(result);
-          // For delete, the document itself is gone. We only have the ID.
-          this.clientEventEmitter.emit('mutation', {
-            type: 'delete',
-            documentId: mutation.delete.id,
-          });
+      const stage = async (view: CopyOnWriteView) => {
+        const results: any[] = [];
+        // Mutations of the same document are reported as a single event, in the order documents were first touched
+        const touched = new Map<string, Record<string, any>[]>();
+        // Index of the last mutation of each document, which validation errors are reported against
+        const lastIndexes = new Map<string, number>();
+        const track = (id: string, mutation: Record<string, any>, index: number) => {
+          touched.set(id, [...(touched.get(id) || []), mutation]);
+          lastIndexes.set(id, index);
+        };
+
+        this.mutations.forEach((mutation, index) => {
+          if ('create' in mutation) {
+            const { document } = mutation.create;
+            if (view.get(document._id)) {
+              throw new LocalMutationError(409, {
+                index,
+                error: {
+                  type: 'documentAlreadyExistsError',
+                  id: document._id,
+                  description: `Document with _id "${document._id}" already exists.`,
+                },
+              });
+            }
+            const createdDoc = view.set({
+              ...document,
+              _createdAt: document._createdAt || timestamp,
+              _updatedAt: document._updatedAt || timestamp,
+            });
+            results.push({
+              id: createdDoc._id,
+              operation: 'create',
+              document: createdDoc,
+            });
+            track(createdDoc._id, { create: document }, index);
+          } else if ('createOrReplace' in mutation) {
+            const { document } = mutation.createOrReplace;
+            const existingDoc = view.get(document._id);
+            const writtenDoc = view.set({
+              ...document,
+              _createdAt: existingDoc?._createdAt || document._createdAt || timestamp,
+              _updatedAt: timestamp,
+            });
+            results.push({
+              id: writtenDoc._id,
+              operation: existingDoc ? 'replace' : 'create',
+              document: writtenDoc,
+            });
+            track(writtenDoc._id, { createOrReplace: document }, index);
+          } else if ('createIfNotExists' in mutation) {
+            const { document } = mutation.createIfNotExists;
+            const existingDoc = view.get(document._id);
+            if (existingDoc) {
+              results.push({ id: existingDoc._id, operation: 'none', document: existingDoc });
+            } else {
+              const createdDoc = view.set({
+                ...document,
+                _createdAt: document._createdAt || timestamp,
+                _updatedAt: document._updatedAt || timestamp,
+              });
+              results.push({ id: createdDoc._id, operation: 'create', document: createdDoc });
+              track(createdDoc._id, { createIfNotExists: document }, index);
+            }
+          } else if ('patch' in mutation) {
+            const { id, ifRevisionID, ...operations } = mutation.patch;
+            const previousDoc = view.get(id);
+            if (!previousDoc) {
+              throw new LocalMutationError(404, {
+                index,
+                error: {
+                  type: 'documentNotFoundError',
+                  id,
+                  description: `Document with _id "${id}" not found (mutation ${index}).`,
+                },
+              });
+            }
+            // Optimistic locking: reject the patch if the document changed since the caller read it
+            if (ifRevisionID !== undefined && previousDoc._rev !== ifRevisionID) {
+              throw new LocalMutationError(409, {
+                index,
+                error: {
+                  type: 'documentRevisionIDDoesNotMatchError',
+                  id,
+                  description: `Document by ID "${id}" has unexpected revision ID ("${previousDoc._rev}"), expected "${ifRevisionID}"`,
+                  expectedRevisionID: ifRevisionID,
+                  currentRevisionID: previousDoc._rev,
+                },
+              });
+            }
+            const patchedDoc = view.set({
+              ...applyPatch(previousDoc, operations),
+              _createdAt: previousDoc._createdAt,
+              _updatedAt: timestamp,
+            });
+            results.push({
+              id,
+              operation: 'patch',
+              document: patchedDoc,
+            });
+            track(id, { patch: mutation.patch }, index);
+          } else if ('delete' in mutation) {
+            const { id } = mutation.delete;
+            const deletedDoc = view.get(id);
+            view.delete(id);
+            results.push({
+              id,
+              operation: 'delete',
+              documentId: deletedDoc?._id,
+            });
+            // Deleting a document that does not exist is a no-op, and not observable by listeners
+            if (deletedDoc) {
+              track(id, { delete: { id } }, index);
+            }
+          }
+        });
+
+        if (this.access) {
+          await this.checkPermissions(view, lastIndexes, this.access);
         }
+        this.checkReferences(view, lastIndexes);
+        const validation = this.validation ? await this.validateWrites(view, lastIndexes, this.validation) : undefined;
+
+        const events: DocumentMutationEvent[] = [];
+        touched.forEach((mutations, documentId) => {
+          const before = view.getCommitted(documentId) ?? null;
+          const after = view.get(documentId) ?? null;
+          // Created and deleted within the same transaction: nothing observable changed
+          if (before || after) {
+            events.push({ transactionId, timestamp, documentId, before, after, mutations });
+          }
+        });
+        return { results, events, validation };
+      };
+
+      if (options.dryRun) {
+        const { results, validation } = await this.store.dryRun(stage, transactionId);
+        return validation ? { transactionId, results, validation } : { transactionId, results };
       }
+      const { results, events, validation } = await this.store.transact(stage, transactionId, {
+        timestamp,
+        author: this.access?.userId ?? LOCAL_IDENTITY,
+        mutations: this.serialize(),
+      });
+
       this.mutations = []; // Clear mutations after successful commit
-      return { results };
+      events.forEach((event) => this.clientEventEmitter.emit('mutation', event));
+      return validation ? { transactionId, results, validation } : { transactionId, results };
     } catch (error) {
       console.error('Transaction commit failed:', error);
       throw error;
     }
   }
+
+  /**
+   * Checks that the token may make every change of the transaction, like the Content Lake:
+   * creating a document needs `create` on it; updating or deleting one needs `update` on it as it was,
+   * and updating also needs `update` on it as it will be.
+   * @param view - The transaction's view.
+   * @param mutationIndexes - Index of the last mutation of each touched document, keyed by document ID.
+   * @param access - The token's access control.
+   * @returns A promise that resolves if every change is permitted.
+   * @throws LocalMutationError for the first change that is not permitted.
+   */
+  private async checkPermissions(
+    view: CopyOnWriteView,
+    mutationIndexes: Map<string, number>,
+    access: LocalAccessControl
+  ): Promise<void> {
+    for (const [id, index] of mutationIndexes) {
+      const before = view.getCommitted(id);
+      const after = view.get(id);
+      const checks: [DocumentPermission, SanityDocument | undefined][] = before
+        ? [['update', before], ['update', after]]
+        : [['create', after]];
+      for (const [permission, document] of checks) {
+        if (document && !(await access.can(permission, document))) {
+          throw new LocalMutationError(403, {
+            index,
+            error: {
+              type: 'insufficientPermissionsError',
+              id,
+              description: `Insufficient permissions; permission "${permission}" required`,
+              permission,
+            },
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Enforces referential integrity on the outcome of the transaction, like the Content Lake:
+   * a document cannot be deleted while other documents strongly reference it, and a written document
+   * cannot strongly reference a document that does not exist, unless the reference has `_strengthenOnPublish`.
+   * Weak references (`_weak: true`) are never checked.
+   * @param view - The transaction's view.
+   * @param mutationIndexes - Index of the last mutation of each touched document, keyed by document ID.
+   * @throws LocalMutationError for the first document that breaks referential integrity.
+   */
+  private checkReferences(view: CopyOnWriteView, mutationIndexes: Map<string, number>): void {
+    for (const [id, index] of mutationIndexes) {
+      const document = view.get(id);
+      if (!document) {
+        const referencingIDs = view.getStrongReferrers(id);
+        if (referencingIDs.length > 0 && view.getCommitted(id)) {
+          throw new LocalMutationError(409, {
+            index,
+            error: {
+              type: 'documentHasExistingReferencesError',
+              id,
+              description: `Document "${id}" cannot be deleted as there are references to it from "${referencingIDs.join('", "')}"`,
+              referencingIDs,
+            },
+          });
+        }
+        continue;
+      }
+      const missing = findReferences(document).find(
+        (reference) => !reference.weak && !reference.strengthenOnPublish && reference.id !== id && !view.get(reference.id)
+      );
+      if (missing) {
+        throw new LocalMutationError(409, {
+          index,
+          error: {
+            type: 'documentReferenceNotFoundError',
+            id,
+            description: `Document "${id}" references non-existent document "${missing.id}"`,
+            referencedID: missing.id,
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * Validates the documents written by the transaction, as staged in its view.
+   * In report mode, documents with validation problems are logged.
+   * @param view - The transaction's view.
+   * @param mutationIndexes - Index of the last mutation of each touched document, keyed by document ID.
+   * @param validation - How to validate.
+   * @returns A promise that resolves with the markers of every document that has any, keyed by document ID.
+   * @throws LocalMutationError in strict mode, for the first document with validation errors.
+   */
+  private async validateWrites(
+    view: CopyOnWriteView,
+    mutationIndexes: Map<string, number>,
+    { validator, mode }: TransactionValidation
+  ): Promise<Record<string, ValidationMarker[]>> {
+    const markersById: Record<string, ValidationMarker[]> = {};
+    for (const [id, index] of mutationIndexes) {
+      const document = view.get(id);
+      // Deleted documents are not validated
+      if (!document) {
+        continue;
+      }
+      const markers = await validator.validate(document);
+      if (markers.length === 0) {
+        continue;
+      }
+      if (mode === 'strict' && hasValidationErrors(markers)) {
+        const errors = markers.filter((marker) => marker.level === 'error');
+        throw new LocalMutationError(400, {
+          index,
+          error: {
+            type: 'validationError',
+            id,
+            description: `Document "${id}" is invalid: ${formatValidationMarkers(errors)}`,
+            markers: errors,
+          },
+        });
+      }
+      if (mode === 'report') {
+        console.warn(`Document "${id}" has validation problems: ${formatValidationMarkers(markers)}`);
+      }
+      markersById[id] = markers;
+    }
+    return markersById;
+  }
+}
+
+/**
+ * @internal
+ * Implementation of the Patch interface for the local Sanity client.
+ */
+export class PatchImpl implements Patch {
+  private operations: PatchOperations;
+
+  /**
+   * Creates an instance of PatchImpl.
+   * @param id - The ID of the document to patch.
+   * @param createTransaction - Creates the transaction the patch is committed in.
+   * @param operations - Optional initial patch operations.
+   */
+  constructor(
+    public readonly id: string,
+    private createTransaction: () => Transaction,
+    operations: PatchOperations = {}
+  ) {
+    this.operations = { ...operations };
+  }
+
+  /**
+   * Sets the given paths to the given values.
+   * @param attrs - Values keyed by path.
+   * @returns The patch instance for chaining.
+   */
+  set(attrs: Record<string, any>): Patch {
+    return this.merge('set', attrs);
+  }
+
+  /**
+   * Sets the given paths to the given values, unless they already have a value.
+   * @param attrs - Values keyed by path.
+   * @returns The patch instance for chaining.
+   */
+  setIfMissing(attrs: Record<string, any>): Patch {
+    return this.merge('setIfMissing', attrs);
+  }
+
+  /**
+   * Removes the values at the given paths.
+   * @param paths - The paths to unset.
+   * @returns The patch instance for chaining.
+   */
+  unset(paths: string[]): Patch {
+    if (!Array.isArray(paths)) {
+      throw new Error('unset(attrs) takes an array of attributes to unset, non-array given');
+    }
+    this.operations.unset = [...(this.operations.unset || []), ...paths];
+    return this;
+  }
+
+  /**
+   * Increments the numbers at the given paths.
+   * @param attrs - Amounts keyed by path.
+   * @returns The patch instance for chaining.
+   */
+  inc(attrs: Record<string, number>): Patch {
+    return this.merge('inc', attrs);
+  }
+
+  /**
+   * Decrements the numbers at the given paths.
+   * @param attrs - Amounts keyed by path.
+   * @returns The patch instance for chaining.
+   */
+  dec(attrs: Record<string, number>): Patch {
+    return this.merge('dec', attrs);
+  }
+
+  /**
+   * Inserts items into an array relative to the item(s) matched by a selector.
+   * A patch holds a single insert operation, so this replaces any previous insert.
+   * @param at - Where to insert the items relative to the selector.
+   * @param selector - Path of the array item(s), e.g. `body[-1]` or `body[_key=="abc"]`.
+   * @param items - The items to insert.
+   * @returns The patch instance for chaining.
+   */
+  insert(at: 'before' | 'after' | 'replace', selector: string, items: any[]): Patch {
+    if (!Array.isArray(items)) {
+      throw new Error('insert(at, selector, items) takes an array of items to insert, non-array given');
+    }
+    this.operations.insert = { [at]: selector, items } as InsertPatch;
+    return this;
+  }
+
+  /**
+   * Appends items to the end of the array at the given path.
+   * @param selector - Path of the array.
+   * @param items - The items to append.
+   * @returns The patch instance for chaining.
+   */
+  append(selector: string, items: any[]): Patch {
+    return this.insert('after', `${selector}[-1]`, items);
+  }
+
+  /**
+   * Prepends items to the start of the array at the given path.
+   * @param selector - Path of the array.
+   * @param items - The items to prepend.
+   * @returns The patch instance for chaining.
+   */
+  prepend(selector: string, items: any[]): Patch {
+    return this.insert('before', `${selector}[0]`, items);
+  }
+
+  /**
+   * Applies diff-match-patch string patches to the strings at the given paths.
+   * @param attrs - Patch strings keyed by path.
+   * @returns The patch instance for chaining.
+   */
+  diffMatchPatch(attrs: Record<string, string>): Patch {
+    return this.merge('diffMatchPatch', attrs);
+  }
+
+  /**
+   * Only applies the patch if the document still has the given revision.
+   * @param rev - The expected current revision (`_rev`) of the document.
+   * @returns The patch instance for chaining.
+   */
+  ifRevisionId(rev: string): Patch {
+    this.operations.ifRevisionID = rev;
+    return this;
+  }
+
+  /**
+   * Returns the accumulated patch operations in the Content Lake format.
+   * @returns The patch operations.
+   */
+  serialize(): PatchMutation['patch'] {
+    return { ...this.operations, id: this.id };
+  }
+
+  /**
+   * Commits the patch in its own transaction.
+   * @param options - Optional commit options, such as `dryRun`.
+   * @returns A promise that resolves with the transaction ID and results.
+   */
+  commit(options?: CommitOptions): Promise<CommitResult> {
+    return this.createTransaction().patch(this).commit(options);
+  }
+
+  /**
+   * Merges values into a keyed patch operation.
+   * @param operation - The operation to merge into.
+   * @param attrs - Values keyed by path.
+   * @returns The patch instance for chaining.
+   */
+  private merge(operation: 'set' | 'setIfMissing' | 'inc' | 'dec' | 'diffMatchPatch', attrs: Record<string, any>): Patch {
+    this.operations[operation] = { ...(this.operations[operation] || {}), ...attrs };
+    return this;
+  }
 }
 
 /**
@@ -205,40 +677,106 @@ export class TransactionImpl implements Transaction {
  */
 const DEFAULT_CONFIG: Required<LocalSanityClientConfig> = {
   localDataPath: '', // Empty means in-memory only by default
+  projectId: 'local',
   dataset: 'local',
   logLevel: 'info',
+  perspective: 'raw',
+  schema: { types: [] },
+  validation: 'off',
+  token: '',
+  auth: null,
+  storage: null,
+  assetStorage: null,
+  clock: systemClock,
+  generateId: generateRandomId,
 };
 
 /**
  * Implementation of the LocalSanityClient interface.
  */
 export class LocalSanityClientImpl implements LocalSanityClient {
-  private store: InMemoryStore;
-  public readonly config: Readonly<Required<LocalSanityClientConfig>>;
-  private eventEmitter: EventEmitter = new EventEmitter();
-  private assetsDirectory: string;
+  /**
+   * The client's configuration, including defaults. Read through `config()`.
+   */
+  private clientConfig: Required<LocalSanityClientConfig>;
+
+  /**
+   * Stores the files of uploaded assets.
+   */
+  private assetStorage: AssetStorage;
+
+  /**
+   * Validates documents against the configured schema. The schema is compiled on first use.
+   */
+  private validator: LocalDocumentValidator;
+
+  /**
+   * The permissions of the configured token, or null if access is not controlled.
+   */
+  private access: LocalAccessControl | null;
+
+  /**
+   * Dataset management for the client's project.
+   */
+  public datasets: DatasetsClient;
+
+  /**
+   * GROQ-powered webhooks of the client's dataset.
+   */
+  public hooks: WebhooksClient;
+
+  /**
+   * The same client, with methods that return RxJS observables instead of promises.
+   */
+  public observable: ObservableLocalSanityClient = new ObservableLocalSanityClientImpl(this);
 
   /**
    * Asset handling methods.
    */
-  public assets: {
-    upload(
-      assetType: 'file' | 'image',
-      body: File | Blob | Buffer | { path: string; name: string; type: string },
-      opts?: UploadOptions
-    ): Promise<AssetMetadata>;
-  };
+  public assets: LocalSanityClient['assets'];
 
   /**
    * Creates an instance of LocalSanityClientImpl.
    * @param config - Configuration for the client.
    */
   constructor(config?: LocalSanityClientConfig) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
-    this.store = new InMemoryStore();
-    // Define assets directory relative to current working directory or a specific app path
-    // For a worker environment, process.cwd() or a pre-defined /app path is typical
-    this.assetsDirectory = path.join(process.cwd(), 'local_assets'); 
+    this.clientConfig = { ...DEFAULT_CONFIG, ...config };
+    // Open the dataset eagerly, so persisted documents start loading and invalid names fail fast
+    void this.dataset;
+    this.validator = this.createValidator();
+    this.access = LocalAccessControl.forToken(this.clientConfig.auth, this.clientConfig.token);
+
+    // The project is read on every call, since `config()` may change it
+    this.datasets = {
+      create: async (name) => {
+        const { projectId, localDataPath, storage, clock, generateId } = this.clientConfig;
+        localDatasetRegistry.createDataset(projectId, name, { localDataPath, storage, clock, generateId });
+        return { datasetName: name };
+      },
+      delete: async (name) => {
+        await localDatasetRegistry.deleteDataset(this.clientConfig.projectId, name);
+        return { deleted: true };
+      },
+      copy: async (sourceName, targetName) => {
+        const { projectId, clock, generateId } = this.clientConfig;
+        await localDatasetRegistry.copyDataset(projectId, sourceName, targetName, { clock, generateId });
+        return { datasetName: targetName };
+      },
+      list: async () => localDatasetRegistry.listDatasets(this.clientConfig.projectId).map((name) => ({ name })),
+    };
+    // Webhooks belong to the dataset, which is also read on every call
+    this.hooks = {
+      create: async (definition) => this.dataset.webhooks.create(definition),
+      list: async () => this.dataset.webhooks.list(),
+      delete: async (id) => {
+        this.dataset.webhooks.delete(id);
+        return { deleted: true };
+      },
+      getMessages: async (id) => this.dataset.webhooks.getMessages(id),
+      getAttempts: async (id) => this.dataset.webhooks.getAttempts(id),
+      flush: () => this.dataset.webhooks.flush(),
+    };
+    this.assetStorage = this.clientConfig.assetStorage ?? new FileAssetStorage(path.join(process.cwd(), 'local_assets'));
 
     // Initialize asset operations
     this.assets = {
@@ -247,178 +785,189 @@ export class LocalSanityClientImpl implements LocalSanityClient {
         body: File | Blob | Buffer | { path: string; name: string; type: string },
         opts: UploadOptions = {}
       ): Promise<AssetMetadata> => {
-        if (this.config.logLevel === 'debug') {
+        if (this.clientConfig.logLevel === 'debug') {
           console.debug('Asset upload called with:', { assetType, body, opts });
         }
 
-        // 1. Generate Asset ID
-        const assetId = `${assetType}-${Date.now()}-${randomBytes(8).toString('hex')}`;
+        // 1. Read the asset contents and what the uploader says about them
+        const { buffer, originalFilename, mimeType: declaredMimeType } = await readUploadBody(
+          body,
+          opts,
+          this.clientConfig.clock()
+        );
 
-        // 2. Determine Metadata
-        let originalFilename: string;
-        let mimeType: string;
-        let size: number;
-        let fileExtension: string;
-
-        if (typeof (body as any).path === 'string') { // Check if body is { path, name, type }
-          const bodyWithPath = body as { path: string; name: string; type: string };
-          originalFilename = opts.filename || bodyWithPath.name;
-          mimeType = opts.contentType || bodyWithPath.type;
-          fileExtension = path.extname(originalFilename) || path.extname(bodyWithPath.path) || '';
+        // 2. Derive the content-addressed asset ID, like the Content Lake does
+        const sha1hash = await getSha1Hash(buffer);
+        let assetId: string;
+        let localFilename: string;
+        let extension: string;
+        let mimeType = declaredMimeType;
+        let metadata: ImageMetadata | undefined;
+        if (assetType === 'image') {
+          let image: ImageInfo;
           try {
-            size = fs.statSync(bodyWithPath.path).size;
+            image = readImageInfo(toBuffer(buffer));
           } catch (error) {
-            console.error(`Error getting file size for ${bodyWithPath.path}:`, error);
-            throw new Error(`Failed to get file size for ${bodyWithPath.path}: ${(error as Error).message}`);
+            throw new LocalClientError(400, { type: 'httpBadRequest', description: (error as Error).message });
           }
-        } else if (body instanceof Buffer) {
-          originalFilename = opts.filename || `buffer-upload-${Date.now()}`;
-          mimeType = opts.contentType || 'application/octet-stream'; // Default for buffer
-          fileExtension = path.extname(originalFilename) || '';
-          size = body.length;
-        } else if (typeof File !== 'undefined' && body instanceof File) {
-          originalFilename = opts.filename || body.name;
-          mimeType = opts.contentType || body.type;
-          fileExtension = path.extname(originalFilename) || '';
-          size = body.size;
-        } else if (typeof Blob !== 'undefined' && body instanceof Blob) {
-          originalFilename = opts.filename || `blob-upload-${Date.now()}`;
-          mimeType = opts.contentType || body.type || 'application/octet-stream';
-          fileExtension = path.extname(originalFilename) || '';
-          size = body.size;
+          const { width, height } = image.metadata.dimensions;
+          extension = image.format;
+          mimeType = image.mimeType;
+          metadata = image.metadata;
+          assetId = `image-${sha1hash}-${width}x${height}-${extension}`;
+          localFilename = `${sha1hash}-${width}x${height}.${extension}`;
         } else {
-          throw new Error('Unsupported body type for asset upload.');
-        }
-        
-        if (!originalFilename) {
-            throw new Error('Filename could not be determined for asset.');
+          extension = /\.([^./\\]+)$/.exec(originalFilename)?.[1].toLowerCase() || 'bin';
+          assetId = `file-${sha1hash}-${extension}`;
+          localFilename = `${sha1hash}.${extension}`;
         }
 
-
-        // 3. Simulate File Storage
-        try {
-          if (!fs.existsSync(this.assetsDirectory)) {
-            fs.mkdirSync(this.assetsDirectory, { recursive: true });
-            if (this.config.logLevel === 'info') {
-              console.info(`Created assets directory: ${this.assetsDirectory}`);
-            }
+        // 3. Uploading the same contents again returns the existing asset instead of duplicating it
+        const existingAsset = await this.store.get(assetId);
+        if (existingAsset) {
+          if (this.clientConfig.logLevel === 'debug') {
+            console.debug(`Asset ${assetId} already exists, skipping upload.`);
           }
-        } catch (error) {
-          console.error(`Error creating assets directory ${this.assetsDirectory}:`, error);
-          throw new Error(`Failed to create assets directory: ${(error as Error).message}`);
+          return existingAsset as AssetMetadata & SanityDocument;
         }
-        
-        const localFilename = `${assetId}${fileExtension}`;
-        const localFilePath = path.join(this.assetsDirectory, localFilename);
-        const assetUrl = `local_assets/${localFilename}`; // URL relative to project root
 
+        // 4. Store the file, once per contents
+        const assetUrl = `local_assets/${localFilename}`; // URL relative to project root
+        let wroteFile = false;
         try {
-          if (typeof (body as any).path === 'string') {
-            fs.copyFileSync((body as { path: string }).path, localFilePath);
-          } else if (body instanceof Buffer) {
-            fs.writeFileSync(localFilePath, body);
-          } else if (typeof File !== 'undefined' && body instanceof File) {
-            // Simulating File to Buffer conversion for Node.js environment
-            const buffer = Buffer.from(await body.arrayBuffer());
-            fs.writeFileSync(localFilePath, buffer);
-          } else if (typeof Blob !== 'undefined' && body instanceof Blob) {
-            // Simulating Blob to Buffer conversion for Node.js environment
-            const buffer = Buffer.from(await body.arrayBuffer());
-            fs.writeFileSync(localFilePath, buffer);
-          }
-          if (this.config.logLevel === 'info') {
-            console.info(`Asset saved to: ${localFilePath}`);
+          wroteFile = await this.assetStorage.write(localFilename, buffer);
+          if (this.clientConfig.logLevel === 'info') {
+            console.info(`Asset saved as: ${localFilename}`);
           }
         } catch (error) {
-          console.error(`Error saving asset to ${localFilePath}:`, error);
+          console.error(`Error saving asset ${localFilename}:`, error);
           throw new Error(`Failed to save asset: ${(error as Error).message}`);
         }
 
-        // 4. Create Asset Document
+        // 5. Create Asset Document
         const assetDocument: AssetMetadata & SanityDocument = {
           _id: assetId,
           _type: assetType === 'image' ? 'sanity.imageAsset' : 'sanity.fileAsset',
-          _createdAt: new Date().toISOString(),
-          _updatedAt: new Date().toISOString(),
+          _createdAt: this.clientConfig.clock().toISOString(),
+          _updatedAt: this.clientConfig.clock().toISOString(),
+          assetId: sha1hash,
+          sha1hash,
+          extension,
           originalFilename,
-          size,
+          size: buffer.length,
           mimeType,
+          path: localFilename,
           url: assetUrl,
-          // Potentially add extension, dimensions (for images) if needed later
+          ...(metadata ? { metadata } : {}),
         };
 
-        // 5. Store Asset Document
+        // 6. Store Asset Document
         try {
-          // this.store.create will also trigger eventEmitter due to previous work
-          const storedAssetDoc = await this.store.create(assetDocument);
-          if (this.config.logLevel === 'info') {
+          // Created through the client so listeners are notified of the new asset document
+          const storedAssetDoc = await this.create(assetDocument);
+          if (this.clientConfig.logLevel === 'info') {
             console.info(`Asset metadata document created for ID: ${storedAssetDoc._id}`);
           }
-          // The storedAssetDoc is already AssetMetadata compatible, but we return the original for clarity
-          return assetDocument as AssetMetadata; 
+          return storedAssetDoc as AssetMetadata & SanityDocument;
         } catch (error) {
+          // A concurrent upload of the same contents won the race: return its asset
+          if (error instanceof LocalMutationError && error.statusCode === 409) {
+            return (await this.store.get(assetId)) as AssetMetadata & SanityDocument;
+          }
           console.error(`Error storing asset metadata document for ID ${assetId}:`, error);
           // Attempt to clean up the saved file if metadata storage fails
-          try {
-            fs.unlinkSync(localFilePath);
-            console.warn(`Cleaned up asset file: ${localFilePath}`);
-          } catch (cleanupError) {
-            console.error(`Error cleaning up asset file ${localFilePath}:`, cleanupError);
+          if (wroteFile) {
+            try {
+              await this.assetStorage.remove(localFilename);
+              console.warn(`Cleaned up asset file: ${localFilename}`);
+            } catch (cleanupError) {
+              console.error(`Error cleaning up asset file ${localFilename}:`, cleanupError);
+            }
           }
           throw new Error(`Failed to store asset metadata: ${(error as Error).message}`);
         }
       },
+      delete: (asset) => this.deleteAsset(typeof asset === 'string' ? asset : asset._id),
+      collectGarbage: (options = {}) => this.collectAssetGarbage(options),
     };
 
-    if (this.config.logLevel === 'debug') {
-      console.debug('LocalSanityClient initialized with config:', this.config);
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug('LocalSanityClient initialized with config:', this.clientConfig);
     }
   }
 
   /**
-   * Fetches data based on a simplified query.
-   * @param query - The query string (e.g., documentId, *[_type == "typeName"], *).
-   * @param params - Optional parameters for the query (used with _type queries).
-   * @returns A promise that resolves with the query result.
+   * Returns the client's configuration, or updates it in place, like `@sanity/client`'s `config`.
+   * @param newConfig - Optional configuration to merge into the current one.
+   * @returns A copy of the configuration, or the client if a new configuration was given.
    */
-  async fetch(query: string, params?: Record<string, any>): Promise<any> {
-    if (this.config.logLevel === 'debug') {
-      console.debug(`Fetching query: "${query}" with params:`, params);
+  config(): Required<LocalSanityClientConfig>;
+  config(newConfig: Partial<LocalSanityClientConfig>): this;
+  config(newConfig?: Partial<LocalSanityClientConfig>): Required<LocalSanityClientConfig> | this {
+    if (!newConfig) {
+      return { ...this.clientConfig };
     }
-
-    // Check if query is a simple ID (no spaces, not a wildcard)
-    if (!query.includes(' ') && !query.includes('[') && query !== '*') {
-      return this.store.get(query);
+    this.clientConfig = { ...this.clientConfig, ...newConfig };
+    void this.dataset;
+    if (newConfig.schema) {
+      this.validator = this.createValidator();
     }
-
-    // Check for *[_type == "typeName"]
-    const typeQueryMatch = query.match(/^\*\[_type == ["']([^"']+)["']\]$/);
-    if (typeQueryMatch) {
-      const typeName = typeQueryMatch[1];
-      return this.store.query(doc => doc._type === typeName);
-    }
-    
-    // Check for *[_type == $typeNameParam]
-    const typeParamQueryMatch = query.match(/^\*\[_type == \$([a-zA-Z_][a-zA-Z0-9_]*)\]$/);
-    if (typeParamQueryMatch && params) {
-        const paramName = typeParamQueryMatch[1];
-        if (params[paramName]) {
-            const typeName = params[paramName];
-            return this.store.query(doc => doc._type === typeName);
-        } else {
-            console.warn(`Parameter "${paramName}" not provided for query: ${query}`);
-            return [];
-        }
+    if ('token' in newConfig || 'auth' in newConfig) {
+      this.access = LocalAccessControl.forToken(this.clientConfig.auth, this.clientConfig.token);
     }
+    return this;
+  }
 
+  /**
+   * Creates a new client with the same configuration, sharing the same datasets.
+   * @returns The new client.
+   */
+  clone(): LocalSanityClientImpl {
+    return new LocalSanityClientImpl(this.clientConfig);
+  }
 
-    // Check for * (select all)
-    if (query === '*') {
-      return this.store.query(() => true);
+  /**
+   * Creates a new client with configuration merged into this client's.
+   * @param newConfig - The configuration to override, e.g. `{ dataset: 'staging' }`.
+   * @returns The new client.
+   */
+  withConfig(newConfig: Partial<LocalSanityClientConfig> = {}): LocalSanityClientImpl {
+    return new LocalSanityClientImpl({ ...this.clientConfig, ...newConfig });
+  }
+
+  /**
+   * Fetches data by evaluating a GROQ query against the documents in the store.
+   * As a local shorthand, a bare document ID (e.g. `post-1`) returns that document.
+   * @param query - The GROQ query string, or a document ID.
+   * @param params - Optional parameters referenced by the query (e.g. `$type`).
+   * @param options - Optional fetch options. `perspective` overrides the client's configured perspective.
+   * @returns A promise that resolves with the query result.
+   * @throws LocalQueryParseError if the query is not valid GROQ.
+   * @throws Error if the perspective is not valid.
+   */
+  async fetch(query: string, params?: Record<string, any>, options: FetchOptions = {}): Promise<any> {
+    const perspective = options.perspective ?? this.clientConfig.perspective;
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug(`Fetching query: "${query}" with params:`, params, 'in perspective:', perspective);
+    }
+
+    if (isDocumentIdQuery(query)) {
+      if (perspective === 'raw') {
+        return this.getReadableDocument(query);
+      }
+      const group = await this.getDocumentGroup(query);
+      return applyPerspective(group, perspective).find((doc) => doc._id === query);
     }
 
-    console.warn(`Query not recognized or not implemented: "${query}"`);
-    return []; // Return empty array for unrecognized queries
+    return evaluateGroqQuery(query, params, (lookup) => this.readDocuments(perspective, lookup));
+  }
+
+  /**
+   * Returns statistics on how the dataset's store served queries, e.g. to check that a query used an index.
+   * @returns A promise that resolves with the statistics.
+   */
+  async getQueryStats(): Promise<QueryStats> {
+    return this.store.getQueryStats();
   }
 
   /**
@@ -427,69 +976,188 @@ export class LocalSanityClientImpl implements LocalSanityClient {
    * @returns A promise that resolves with the document, or undefined if not found.
    */
   async getDocument(id: string): Promise<SanityDocument | undefined> {
-    if (this.config.logLevel === 'debug') {
+    if (this.clientConfig.logLevel === 'debug') {
       console.debug(`Getting document with ID: "${id}"`);
     }
-    return this.store.get(id);
+    return this.getReadableDocument(id);
+  }
+
+  /**
+   * Retrieves several documents by their IDs.
+   * @param ids - The IDs of the documents.
+   * @returns A promise that resolves with the documents in the order of `ids`, with null for missing documents.
+   */
+  async getDocuments(ids: string[]): Promise<(SanityDocument | null)[]> {
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug('Getting documents with IDs:', ids);
+    }
+    return Promise.all(ids.map(async (id) => (await this.getReadableDocument(id)) ?? null));
+  }
+
+  /**
+   * Retrieves a document as it was at a given revision.
+   * @param id - The ID of the document.
+   * @param revision - The revision, i.e. the ID of any transaction in the transaction log.
+   * @returns A promise that resolves with the document, or null if it did not exist at that revision
+   *   or the revision is unknown.
+   */
+  async getDocumentAtRevision(id: string, revision: string): Promise<SanityDocument | null> {
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug(`Getting document with ID: "${id}" at revision "${revision}"`);
+    }
+    return this.hideWithoutHistory((await this.store.getDocumentAtRevision(id, revision)) ?? null);
+  }
+
+  /**
+   * Retrieves a document as it was at a given time.
+   * @param id - The ID of the document.
+   * @param timestamp - The ISO 8601 timestamp.
+   * @returns A promise that resolves with the document, or null if it did not exist at that time.
+   * @throws LocalClientError if the timestamp is not valid.
+   */
+  async getDocumentAtTime(id: string, timestamp: string): Promise<SanityDocument | null> {
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug(`Getting document with ID: "${id}" at time "${timestamp}"`);
+    }
+    try {
+      return await this.hideWithoutHistory(await this.store.getDocumentAtTime(id, timestamp));
+    } catch (error) {
+      throw new LocalClientError(400, { type: 'validationError', description: (error as Error).message });
+    }
+  }
+
+  /**
+   * Queries the transaction log of one or more documents, like the Content Lake history API.
+   * @param documentIds - The ID(s) of the documents.
+   * @param options - Optional query options, such as `effectFormat: 'mendoza'` or `reverse`.
+   * @returns A promise that resolves with the matching transactions as NDJSON.
+   * @throws LocalClientError if a time filter is not a valid timestamp.
+   */
+  async getTransactionLog(documentIds: string | string[], options: TransactionLogOptions = {}): Promise<string> {
+    const ids = Array.isArray(documentIds) ? documentIds : documentIds.split(',');
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug('Querying transaction log of:', ids, 'with options:', options);
+    }
+    const permittedIds = await this.filterHistoryIds(ids);
+    const transactions = await this.store.getTransactions();
+    try {
+      return toNdjson(queryTransactionLog(transactions, permittedIds, options));
+    } catch (error) {
+      throw new LocalClientError(400, { type: 'validationError', description: (error as Error).message });
+    }
   }
 
   /**
    * Creates a new document.
-   * Sets `_createdAt` and `_updatedAt` timestamps.
+   * Sets `_createdAt` and `_updatedAt` timestamps, and generates an `_id` if the document has none.
    * @param document - The document to create.
    * @returns A promise that resolves with the created document.
    */
-  async create(document: SanityDocument): Promise<SanityDocument> {
-    const now = new Date().toISOString();
-    const docToCreate: SanityDocument = {
-      ...document,
-      _createdAt: document._createdAt || now,
-      _updatedAt: document._updatedAt || now,
-    };
-    if (this.config.logLevel === 'debug') {
-      console.debug('Creating document:', docToCreate);
-    }
-    const createdDoc = await this.store.create(docToCreate);
-    this.eventEmitter.emit('mutation', {
-      type: 'create',
-      documentId: createdDoc._id,
-      document: createdDoc,
+  async create(document: DocumentStub): Promise<SanityDocument> {
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug('Creating document:', document);
+    }
+    const { results } = await this.createTransaction().create(document).commit();
+    return results[0].document;
+  }
+
+  /**
+   * Creates a document, or replaces it if it already exists. A replaced document keeps its `_createdAt`.
+   * @param document - The document. Must have an `_id`.
+   * @returns A promise that resolves with the written document.
+   */
+  async createOrReplace(document: DocumentStub & { _id: string }): Promise<SanityDocument> {
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug('Creating or replacing document:', document);
+    }
+    const { results } = await this.createTransaction().createOrReplace(document).commit();
+    return results[0].document;
+  }
+
+  /**
+   * Creates a document unless one with the same `_id` already exists.
+   * @param document - The document. Must have an `_id`.
+   * @returns A promise that resolves with the created document, or the existing one.
+   */
+  async createIfNotExists(document: DocumentStub & { _id: string }): Promise<SanityDocument> {
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug('Creating document if it does not exist:', document);
+    }
+    const { results } = await this.createTransaction().createIfNotExists(document).commit();
+    return results[0].document;
+  }
+
+  /**
+   * Commits mutations in the Content Lake format as a single transaction, like `@sanity/client`'s `mutate`.
+   * @param mutations - The mutations, or a patch or transaction built with this client.
+   * @param options - Optional options. With `returnDocuments`, resolves with the written documents;
+   *   with `returnFirst`, with the first result only. `dryRun` checks the mutations without applying them.
+   * @returns A promise that resolves with the transaction summary, or the written document(s) with `returnDocuments`.
+   *   Summary results also hold the written document, as a local extension.
+   * @throws LocalClientError if a mutation is not supported.
+   * @throws LocalMutationError if a mutation fails.
+   */
+  async mutate(
+    mutations: RawMutation | RawMutation[] | Patch | Transaction,
+    options: MutateOptions = {}
+  ): Promise<MutateSummary | SanityDocument | SanityDocument[] | undefined> {
+    const rawMutations =
+      mutations instanceof PatchImpl
+        ? [{ patch: mutations.serialize() }]
+        : mutations instanceof TransactionImpl
+          ? mutations.serialize()
+          : Array.isArray(mutations)
+            ? mutations
+            : [mutations as RawMutation];
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug('Mutating with:', rawMutations, 'and options:', options);
+    }
+
+    const { transactionId, results } = await this.toTransaction(rawMutations).commit({
+      dryRun: options.dryRun,
+      transactionId: options.transactionId,
     });
-    return createdDoc;
+    const mutationResults: MutationResult[] = results.map((result) => ({
+      id: result.id,
+      operation: RESULT_OPERATIONS[result.operation],
+      ...(result.document ? { document: result.document } : {}),
+    }));
+
+    if (options.returnDocuments) {
+      const documents = mutationResults.flatMap((result) => (result.document ? [result.document] : []));
+      return options.returnFirst ? documents[0] : documents;
+    }
+    return options.returnFirst
+      ? { transactionId, results: mutationResults, documentId: mutationResults[0]?.id }
+      : { transactionId, results: mutationResults, documentIds: mutationResults.map((result) => result.id) };
   }
 
   /**
-   * Creates a transaction with a patch operation.
-   * The transaction's commit will handle updating `_updatedAt`.
+   * Starts a patch of an existing document.
+   * The transaction the patch is committed in will handle updating `_updatedAt`.
    * @param id - The ID of the document to patch.
-   * @param fields - The fields to update. Restricted fields like `_id`, `_type`, `_createdAt` are ignored.
-   * @returns A transaction instance for chaining.
+   * @param operations - Optional initial patch operations, e.g. `{ set: { title: 'New' } }`.
+   * @returns A patch builder; call `commit()` to apply it.
    */
-  patch(id: string, fields: Partial<SanityDocument>): Transaction {
-    if (this.config.logLevel === 'debug') {
-      console.debug(`Patching document ID "${id}" with fields:`, fields);
+  patch(id: string, operations?: PatchOperations): Patch {
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug(`Patching document ID "${id}" with operations:`, operations);
     }
-    // Pass the eventEmitter to the TransactionImpl
-    return new TransactionImpl(this.store, this.eventEmitter).patch(id, fields);
+    return new PatchImpl(id, () => this.createTransaction(), operations);
   }
 
   /**
    * Deletes a document by its ID directly (bypassing transaction).
    * @param id - The ID of the document to delete.
    * @returns A promise that resolves with an object containing the ID of the deleted document.
+   * @throws LocalMutationError if other documents strongly reference the document.
    */
   async delete(id: string): Promise<{ results: { id: string }[] }> {
-    if (this.config.logLevel === 'debug') {
+    if (this.clientConfig.logLevel === 'debug') {
       console.debug(`Deleting document with ID: "${id}"`);
     }
-    const deletedDoc = await this.store.delete(id);
-    if (deletedDoc) {
-      this.eventEmitter.emit('mutation', {
-        type: 'delete',
-        documentId: id,
-      });
-    }
-    return { results: [{ id: deletedDoc ? deletedDoc._id : id }] };
+    await this.createTransaction().delete(id).commit();
+    return { results: [{ id }] };
   }
 
   /**
@@ -497,101 +1165,648 @@ export class LocalSanityClientImpl implements LocalSanityClient {
    * @returns A new transaction instance.
    */
   transaction(): Transaction {
-    if (this.config.logLevel === 'debug') {
+    if (this.clientConfig.logLevel === 'debug') {
       console.debug('Starting new transaction');
     }
-    // Pass the eventEmitter to the TransactionImpl
-    return new TransactionImpl(this.store, this.eventEmitter);
+    return this.createTransaction();
+  }
+
+  /**
+   * Validates a document against the configured schema, without writing it.
+   * Works regardless of the `validation` mode, as long as a schema is configured.
+   * @param document - The document to validate.
+   * @returns A promise that resolves with the validation markers, empty if the document is valid.
+   * @throws Error if the configured schema is invalid.
+   */
+  async validateDocument(document: SanityDocument): Promise<ValidationMarker[]> {
+    return this.validator.validate(document);
+  }
+
+  /**
+   * Builds a transaction from mutations in the Content Lake format.
+   * @param mutations - The mutations.
+   * @returns A new transaction holding the mutations.
+   * @throws LocalClientError if a mutation is not supported.
+   */
+  private toTransaction(mutations: RawMutation[]): TransactionImpl {
+    const transaction = this.createTransaction();
+    mutations.forEach((mutation: Record<string, any>, index) => {
+      if (mutation.create) {
+        transaction.create(mutation.create);
+      } else if (mutation.createOrReplace && typeof mutation.createOrReplace._id === 'string') {
+        transaction.createOrReplace(mutation.createOrReplace);
+      } else if (mutation.createIfNotExists && typeof mutation.createIfNotExists._id === 'string') {
+        transaction.createIfNotExists(mutation.createIfNotExists);
+      } else if (mutation.patch && typeof mutation.patch.id === 'string') {
+        const { id, ...operations } = mutation.patch as PatchMutation['patch'];
+        transaction.patch(id, operations);
+      } else if (mutation.delete && typeof mutation.delete.id === 'string') {
+        transaction.delete(mutation.delete.id);
+      } else {
+        throw new LocalClientError(400, {
+          type: 'mutationError',
+          description: `Unsupported mutation at index ${index}: ${Object.keys(mutation).join(', ') || '(empty)'}`,
+        });
+      }
+    });
+    return transaction;
+  }
+
+  /**
+   * Creates the validator for the configured schema.
+   * @returns A new validator. The schema is compiled on first use.
+   */
+  private createValidator(): LocalDocumentValidator {
+    return new LocalDocumentValidator({
+      schema: this.clientConfig.schema,
+      // Custom validation rules query this client as if it were a `@sanity/client` instance
+      getClient: () => this as unknown as SanityClient,
+      getDocumentExists: async (id) => Boolean(await this.store.get(id)),
+    });
+  }
+
+  /**
+   * Deletes an asset document, and its file once no other asset document points to it.
+   * @param id - The ID of the asset document.
+   * @returns A promise that resolves with the deleted asset document.
+   * @throws LocalClientError if the document does not exist or is not an asset.
+   * @throws LocalMutationError if any document, even weakly, references the asset.
+   */
+  private async deleteAsset(id: string): Promise<AssetMetadata> {
+    const asset = (await this.getReadableDocument(id)) as (AssetMetadata & SanityDocument) | undefined;
+    if (!asset || !ASSET_TYPES.includes(asset._type)) {
+      throw new LocalClientError(404, { type: 'notFound', description: `Asset "${id}" not found` });
+    }
+    // Weak references do not block deleting documents, but would leave images and files without their contents
+    const referencingIDs = await this.store.getReferencingIds(id);
+    if (referencingIDs.length > 0) {
+      throw new LocalMutationError(409, {
+        index: 0,
+        error: {
+          type: 'documentHasExistingReferencesError',
+          id,
+          description: `Asset "${id}" cannot be deleted as there are references to it from "${referencingIDs.join('", "')}"`,
+          referencingIDs,
+        },
+      });
+    }
+    await this.createTransaction().delete(id).commit();
+
+    const file = getAssetFile(asset);
+    if ((await this.getUsedAssetFiles()).has(file)) {
+      return asset;
+    }
+    try {
+      await this.assetStorage.remove(file);
+    } catch (error) {
+      console.error(`Error deleting asset file ${file}:`, error);
+    }
+    return asset;
+  }
+
+  /**
+   * Removes the asset documents no document references, then the files no remaining asset document points to.
+   * The asset storage is shared by every dataset, so files are kept while any open dataset, or any dataset
+   * persisted under the client's `localDataPath`, uses them. Datasets only known to other processes, or kept
+   * in other storage, are not seen; use a dry run to review what would be removed.
+   * @param options - Optional parameters, such as `dryRun`.
+   * @returns A promise that resolves with what was removed, or would be removed in a dry run.
+   * @throws LocalMutationError if deleting the unreferenced asset documents is not permitted.
+   */
+  private async collectAssetGarbage(options: AssetGarbageCollectionOptions): Promise<AssetGarbageCollectionResult> {
+    const dryRun = options.dryRun ?? false;
+    const assets = await this.store.query(() => true, { types: ASSET_TYPES });
+    const assetIds: string[] = [];
+    for (const asset of assets) {
+      if ((await this.store.getReferencingIds(asset._id)).length === 0) {
+        assetIds.push(asset._id);
+      }
+    }
+
+    const usedFiles = await this.getUsedAssetFiles(new Set(assetIds));
+    const storedFiles = await this.assetStorage.list();
+    const files = storedFiles.filter((file) => !usedFiles.has(file)).sort();
+    if (this.clientConfig.logLevel === 'debug') {
+      console.debug(`Asset garbage collection${dryRun ? ' (dry run)' : ''}:`, { assetIds, files });
+    }
+    if (dryRun) {
+      return { dryRun, assetIds, files };
+    }
+
+    if (assetIds.length > 0) {
+      const transaction = this.createTransaction();
+      assetIds.forEach((id) => transaction.delete(id));
+      await transaction.commit();
+    }
+    for (const file of files) {
+      await this.assetStorage.remove(file);
+    }
+    return { dryRun, assetIds, files };
+  }
+
+  /**
+   * Collects the files of the asset documents in every open dataset, and every dataset persisted under the
+   * client's `localDataPath`, which share the asset storage.
+   * @param excludedIds - Optional IDs of asset documents of the client's dataset to leave out.
+   * @returns A promise that resolves with the file names in the asset storage.
+   */
+  private async getUsedAssetFiles(excludedIds: Set<string> = new Set()): Promise<Set<string>> {
+    const files = new Set<string>();
+    const openDatasets = localDatasetRegistry.getOpenDatasets();
+    const stores = [...openDatasets.map((dataset) => dataset.store), ...(await this.loadClosedDatasets(openDatasets))];
+    for (const store of stores) {
+      const assets = await store.query(() => true, { types: ASSET_TYPES });
+      for (const asset of assets) {
+        if (store !== this.store || !excludedIds.has(asset._id)) {
+          files.add(getAssetFile(asset as AssetMetadata & SanityDocument));
+        }
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Loads the datasets persisted under the client's `localDataPath` that are not open in this process.
+   * @param openDatasets - The open datasets.
+   * @returns A promise that resolves with the stores of the other datasets, or none if the client is not
+   *   persisted to `localDataPath`.
+   */
+  private async loadClosedDatasets(openDatasets: LocalDataset[]): Promise<InMemoryStore[]> {
+    const { localDataPath, storage } = this.clientConfig;
+    if (!localDataPath || storage) {
+      return [];
+    }
+    const openDirectories = new Set(
+      openDatasets
+        .filter((dataset) => dataset.localDataPath && !dataset.storage)
+        .map((dataset) => path.resolve(dataset.localDataPath, dataset.name))
+    );
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(localDataPath, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => path.resolve(localDataPath, entry.name))
+      .filter((directory) => !openDirectories.has(directory))
+      .map((directory) => new InMemoryStore({ storage: new FileStorageBackend(directory) }));
+  }
+
+  /**
+   * Returns the grants of the client's token, in the format served by the Content Lake's `/acl` endpoint.
+   * Without access control, a single grant gives every permission on every document.
+   * @returns A promise that resolves with the grants.
+   */
+  async getGrants(): Promise<LocalGrant[]> {
+    return this.access ? this.access.grants.map((grant) => ({ ...grant })) : getFullAccessGrants();
+  }
+
+  /**
+   * Creates a transaction against the client's dataset, validating written documents if configured to.
+   * @returns A new transaction.
+   */
+  private createTransaction(): TransactionImpl {
+    const { validation } = this.clientConfig;
+    return new TransactionImpl(
+      this.store,
+      this.eventEmitter,
+      [],
+      validation === 'off' ? undefined : { validator: this.validator, mode: validation },
+      this.access,
+      this.clientConfig.clock,
+      this.clientConfig.generateId
+    );
+  }
+
+  /**
+   * Keeps the documents the client's token has a permission on.
+   * @param permission - The permission.
+   * @param documents - The documents.
+   * @returns A promise that resolves with the permitted documents, in order.
+   */
+  private async filterPermitted(permission: DocumentPermission, documents: SanityDocument[]): Promise<SanityDocument[]> {
+    return this.access ? this.access.filter(permission, documents) : documents;
+  }
+
+  /**
+   * Retrieves a document from the store, if the client's token can read it.
+   * @param id - The ID of the document.
+   * @returns A promise that resolves with the document, or undefined if it is not found or not readable.
+   */
+  private async getReadableDocument(id: string): Promise<SanityDocument | undefined> {
+    const document = await this.store.get(id);
+    return document && (await this.filterPermitted('read', [document]))[0];
+  }
+
+  /**
+   * Hides a past revision of a document unless the client's token has the `history` permission on it.
+   * @param document - The past revision, or null.
+   * @returns A promise that resolves with the revision, or null if it is hidden.
+   */
+  private async hideWithoutHistory(document: SanityDocument | null): Promise<SanityDocument | null> {
+    return document && ((await this.filterPermitted('history', [document]))[0] ?? null);
+  }
+
+  /**
+   * Keeps the IDs of the documents whose history the client's token can read,
+   * checked against the current document, or against a bare `{ _id }` if it has been deleted.
+   * @param ids - The document IDs.
+   * @returns A promise that resolves with the permitted IDs.
+   */
+  private async filterHistoryIds(ids: string[]): Promise<string[]> {
+    if (!this.access) {
+      return ids;
+    }
+    const documents = await Promise.all(
+      ids.map(async (id) => (await this.store.get(id)) ?? ({ _id: id } as SanityDocument))
+    );
+    return (await this.access.filter('history', documents)).map((doc) => doc._id);
+  }
+
+  /**
+   * Hides the sides of a document change the client's token cannot read.
+   * @param event - The document change.
+   * @returns A promise that resolves with the change, with unreadable sides replaced by null.
+   */
+  private async hideUnreadable(event: DocumentMutationEvent): Promise<DocumentMutationEvent> {
+    if (!this.access) {
+      return event;
+    }
+    const [before = null] = event.before ? await this.access.filter('read', [event.before]) : [];
+    const [after = null] = event.after ? await this.access.filter('read', [event.after]) : [];
+    return { ...event, before, after };
   }
 
   /**
-   * Listens for real-time updates based on a query.
-   * @param query - The query string (e.g., documentId, *[_type == "typeName"], *).
-   * @param params - Optional parameters for the query (used with _type queries).
+   * Listens for real-time updates to documents matching a GROQ filter.
+   * Each committed change is evaluated against the document before and after the change,
+   * and emitted in the same shape as `@sanity/client`'s `listen`.
+   * As a local shorthand, a bare document ID (e.g. `post-1`) listens to that document.
+   * @param query - The GROQ query (e.g. `*[_type == "post"]`), or a document ID.
+   * @param params - Optional parameters referenced by the query.
+   * @param options - Optional listener options.
    * @returns A SimpleObservable to subscribe to updates.
+   * @throws LocalQueryParseError if the query is not valid GROQ.
    */
-  listen(query: string, params?: Record<string, any>): SimpleObservable {
-    if (this.config.logLevel === 'debug') {
+  listen(query: string, params: Record<string, any> = {}, options: ListenOptions = {}): SimpleObservable {
+    if (this.clientConfig.logLevel === 'debug') {
       console.debug(`Listening to query: "${query}" with params:`, params);
     }
 
     const eventEmitter = this.eventEmitter;
+    const {
+      includeResult = true,
+      includePreviousRevision = false,
+      events = ['mutation'],
+      perspective = this.clientConfig.perspective,
+      effectFormat,
+    } = options;
+    // Fail fast on an invalid perspective rather than on the first event
+    resolvePerspectiveStack(perspective);
+    const matches = isDocumentIdQuery(query)
+      ? async (doc: SanityDocument) => doc._id === query
+      : createGroqFilter(query, params);
 
     return {
       subscribe: (
-        observer: (event: any) => void
+        observer: (event: ListenEvent) => void
       ): { unsubscribe(): void } => {
-        const listenerCallback = (eventData: any) => {
-          if (this.config.logLevel === 'debug') {
-            console.debug('Listener received event:', eventData, 'for query:', query);
+        // Filters are evaluated asynchronously, so events are queued to preserve their order
+        let queue: Promise<void> = Promise.resolve();
+        let subscribed = true;
+        const deliver = (event: ListenEvent) => {
+          if (subscribed) {
+            observer(event);
           }
+        };
 
-          // Document ID query
-          if (!query.includes('[') && query !== '*') {
-            if (eventData.documentId === query) {
-              observer(eventData);
+        const listenerCallback = (rawEventData: DocumentMutationEvent) => {
+          queue = queue.then(async () => {
+            const eventData = await this.overlayMutationEvent(await this.hideUnreadable(rawEventData), perspective);
+            if (!eventData) {
+              return;
             }
-            return;
-          }
-
-          // *[_type == "typeName"] query
-          const typeQueryMatch = query.match(/^\*\[_type == ["']([^"']+)["']\]$/);
-          if (typeQueryMatch) {
-            const typeName = typeQueryMatch[1];
-            if (eventData.type === 'delete') {
-              // For deletes, we don't have the full document to check _type.
-              // A more advanced system might look up the document before deletion
-              // or require the delete event to carry more info.
-              // For now, we can pass delete events if the query is for a type,
-              // and the consumer can decide. Or filter them out.
-              // Let's pass it and let consumer decide.
-              observer(eventData);
-            } else if (eventData.document && eventData.document._type === typeName) {
-              observer(eventData);
+            const matchedBefore = eventData.before ? await matches(eventData.before) : false;
+            const matchedAfter = eventData.after ? await matches(eventData.after) : false;
+            if (!matchedBefore && !matchedAfter) {
+              return;
             }
-            return;
-          }
-          
-          // *[_type == $typeNameParam] query
-          const typeParamQueryMatch = query.match(/^\*\[_type == \$([a-zA-Z_][a-zA-Z0-9_]*)\]$/);
-          if (typeParamQueryMatch && params) {
-            const paramName = typeParamQueryMatch[1];
-            if (params[paramName]) {
-                const typeName = params[paramName];
-                 if (eventData.type === 'delete') {
-                    observer(eventData); // Same reasoning as above for deletes
-                 } else if (eventData.document && eventData.document._type === typeName) {
-                    observer(eventData);
-                 }
-            } else {
-                if (this.config.logLevel === 'warn') {
-                    console.warn(`Parameter "${paramName}" not provided for listen query: ${query}`);
-                }
+            if (this.clientConfig.logLevel === 'debug') {
+              console.debug('Listener received event:', eventData, 'for query:', query);
             }
-            return;
-          }
-
 
-          // Wildcard query '*'
-          if (query === '*') {
-            observer(eventData);
-            return;
-          }
-          // If no specific query matched, and it's not wildcard, do nothing.
-          // Or, if desired, log a warning for unrecognized listen queries.
+            const mutationEvent: MutationEvent = {
+              type: 'mutation',
+              eventId: `${eventData.transactionId}#${eventData.documentId}`,
+              documentId: eventData.documentId,
+              transactionId: eventData.transactionId,
+              transition: getTransition(matchedBefore, matchedAfter),
+              identity: LOCAL_IDENTITY,
+              mutations: eventData.mutations,
+              previousRev: eventData.before?._rev,
+              resultRev: eventData.after ? eventData.transactionId : undefined,
+              timestamp: eventData.timestamp,
+              visibility: 'query',
+            };
+            if (includeResult) {
+              mutationEvent.result = eventData.after ?? undefined;
+            }
+            if (includePreviousRevision) {
+              mutationEvent.previous = eventData.before;
+            }
+            if (effectFormat === 'mendoza') {
+              mutationEvent.effects = {
+                apply: createMendozaPatch(eventData.before, eventData.after),
+                revert: createMendozaPatch(eventData.after, eventData.before),
+              };
+            }
+            deliver(mutationEvent);
+          }).catch((error) => {
+            console.error('Error evaluating listener filter:', error);
+          });
         };
 
-        eventEmitter.on('mutation', listenerCallback);
+        if (events.includes('welcome')) {
+          queue = queue.then(() => deliver({ type: 'welcome', listenerName: this.clientConfig.generateId('listener') }));
+        }
+        if (events.includes('mutation')) {
+          eventEmitter.on('mutation', listenerCallback);
+        }
 
         return {
           unsubscribe: () => {
-            if (this.config.logLevel === 'debug') {
+            if (this.clientConfig.logLevel === 'debug') {
               console.debug('Unsubscribing listener for query:', query);
             }
+            subscribed = false;
             eventEmitter.off('mutation', listenerCallback);
           },
         };
       },
     };
   }
+
+  /**
+   * The dataset the client points at, shared with every other client of the same project and dataset.
+   * Looked up on every access, so a deleted dataset is transparently recreated.
+   */
+  private get dataset(): LocalDataset {
+    return localDatasetRegistry.acquireDataset(this.clientConfig.projectId, this.clientConfig.dataset, {
+      localDataPath: this.clientConfig.localDataPath,
+      storage: this.clientConfig.storage,
+      clock: this.clientConfig.clock,
+      generateId: this.clientConfig.generateId,
+    });
+  }
+
+  /**
+   * The documents of the client's dataset.
+   */
+  private get store(): InMemoryStore {
+    return this.dataset.store;
+  }
+
+  /**
+   * Emits the committed changes of the client's dataset.
+   */
+  private get eventEmitter(): EventEmitter {
+    return this.dataset.events;
+  }
+
+  /**
+   * Returns the published document and all of its drafts and versions.
+   * @param id - The published, draft or version ID of any document in the group.
+   * @returns A promise that resolves with the documents in the group.
+   */
+  private async getDocumentGroup(id: string): Promise<SanityDocument[]> {
+    return this.filterPermitted('read', await this.store.query(() => true, { publishedIds: [getPublishedId(id)] }));
+  }
+
+  /**
+   * Reads documents as seen through a perspective, narrowed through the store's indexes.
+   * @param perspective - The perspective.
+   * @param lookup - Optional conditions on the documents as seen through the perspective.
+   * @returns A promise that resolves with the documents, which include all that satisfy the lookup.
+   * @throws Error if the perspective is not valid.
+   */
+  private async readDocuments(perspective: ClientPerspective, lookup: IndexLookup = {}): Promise<SanityDocument[]> {
+    const idPrefixes = getPerspectiveIdPrefixes(perspective);
+    if (idPrefixes === null) {
+      return this.filterPermitted('read', await this.store.query(() => true, lookup));
+    }
+    // Seen through a perspective, every document has its published ID, whichever draft or version it shows,
+    // so conditions on IDs match whole groups, and only the perspective's own ID prefixes narrow the lookup
+    const candidates = await this.store.query(() => true, {
+      publishedIds: lookup.ids?.map(getPublishedId),
+      types: lookup.types,
+      references: lookup.references,
+      idPrefixes,
+    });
+    if (lookup.ids === undefined && lookup.types === undefined && lookup.references === undefined) {
+      return applyPerspective(await this.filterPermitted('read', candidates), perspective);
+    }
+    // A candidate may be hidden by a draft or version that does not satisfy the lookup, so whole groups are read
+    const publishedIds = Array.from(new Set(candidates.map((doc) => getPublishedId(doc._id))));
+    const groups = await this.store.query(() => true, { publishedIds, idPrefixes });
+    return applyPerspective(await this.filterPermitted('read', groups), perspective);
+  }
+
+  /**
+   * Translates a raw document change into the change seen through a perspective.
+   * The other drafts and versions of the document are taken at their current state.
+   * @param event - The raw document change.
+   * @param perspective - The perspective the change is observed in.
+   * @returns A promise that resolves with the change of the overlaid document,
+   *   or null if the changed document is not visible in the perspective before nor after the change.
+   */
+  private async overlayMutationEvent(
+    event: DocumentMutationEvent,
+    perspective: ClientPerspective
+  ): Promise<DocumentMutationEvent | null> {
+    if (perspective === 'raw') {
+      return event;
+    }
+    if (!isIdInPerspective(perspective, event.documentId)) {
+      return null;
+    }
+
+    const others = (await this.getDocumentGroup(event.documentId)).filter((doc) => doc._id !== event.documentId);
+    const overlay = (doc: SanityDocument | null) => {
+      const [visible] = applyPerspective(doc ? [...others, doc] : others, perspective);
+      return visible ?? null;
+    };
+    const before = overlay(event.before);
+    const after = overlay(event.after);
+    // The change is hidden if a higher-priority draft or version was visible both before and after it
+    if (before?._originalId !== event.documentId && after?._originalId !== event.documentId) {
+      return null;
+    }
+    return { ...event, before, after };
+  }
+}
+
+/**
+ * The observable twin of a local client. Each method defers to the client's promise-based
+ * counterpart, so nothing happens until the returned observable is subscribed to.
+ */
+export class ObservableLocalSanityClientImpl implements ObservableLocalSanityClient {
+  /**
+   * Creates an instance of ObservableLocalSanityClientImpl.
+   * @param client - The client to wrap.
+   */
+  constructor(private client: LocalSanityClientImpl) {}
+
+  config(): Required<LocalSanityClientConfig> {
+    return this.client.config();
+  }
+
+  clone(): ObservableLocalSanityClient {
+    return this.client.clone().observable;
+  }
+
+  withConfig(newConfig?: Partial<LocalSanityClientConfig>): ObservableLocalSanityClient {
+    return this.client.withConfig(newConfig).observable;
+  }
+
+  fetch(query: string, params?: Record<string, any>, options?: FetchOptions): Observable<any> {
+    return defer(() => this.client.fetch(query, params, options));
+  }
+
+  getDocument(id: string): Observable<SanityDocument | undefined> {
+    return defer(() => this.client.getDocument(id));
+  }
+
+  getDocuments(ids: string[]): Observable<(SanityDocument | null)[]> {
+    return defer(() => this.client.getDocuments(ids));
+  }
+
+  create(document: DocumentStub): Observable<SanityDocument> {
+    return defer(() => this.client.create(document));
+  }
+
+  createOrReplace(document: DocumentStub & { _id: string }): Observable<SanityDocument> {
+    return defer(() => this.client.createOrReplace(document));
+  }
+
+  createIfNotExists(document: DocumentStub & { _id: string }): Observable<SanityDocument> {
+    return defer(() => this.client.createIfNotExists(document));
+  }
+
+  delete(id: string): Observable<{ results: { id: string }[] }> {
+    return defer(() => this.client.delete(id));
+  }
+
+  mutate(
+    mutations: RawMutation | RawMutation[] | Patch | Transaction,
+    options?: MutateOptions
+  ): Observable<MutateSummary | SanityDocument | SanityDocument[] | undefined> {
+    return defer(() => this.client.mutate(mutations, options));
+  }
+
+  listen(query: string, params?: Record<string, any>, options?: ListenOptions): Observable<ListenEvent> {
+    return new Observable<ListenEvent>((subscriber) => {
+      const subscription = this.client.listen(query, params, options).subscribe((event) => subscriber.next(event));
+      return () => subscription.unsubscribe();
+    });
+  }
+}
+
+/**
+ * Returns the file of an asset document in the asset storage.
+ * Falls back to the URL for asset documents stored before the path was recorded.
+ * @param asset - The asset document.
+ * @returns The file name.
+ */
+function getAssetFile(asset: AssetMetadata): string {
+  return asset.path ?? asset.url.slice(asset.url.lastIndexOf('/') + 1);
+}
+
+/**
+ * Reads the contents of an asset upload, along with its filename and declared MIME type.
+ * @param body - The asset data: a file on disk, a Buffer, a File or a Blob.
+ * @param opts - Upload options, which take precedence over what the body declares.
+ * @param now - The current time, used to name uploads without a filename.
+ * @returns A promise that resolves with the contents, filename and MIME type.
+ * @throws Error if the body type is unsupported or the file cannot be read.
+ */
+async function readUploadBody(
+  body: File | Blob | Buffer | { path: string; name: string; type: string },
+  opts: UploadOptions,
+  now: Date
+): Promise<{ buffer: Uint8Array; originalFilename: string; mimeType: string }> {
+  if (typeof (body as any).path === 'string') { // Check if body is { path, name, type }
+    const bodyWithPath = body as { path: string; name: string; type: string };
+    try {
+      return {
+        buffer: await fs.promises.readFile(bodyWithPath.path),
+        originalFilename: opts.filename || bodyWithPath.name || path.basename(bodyWithPath.path),
+        mimeType: opts.contentType || bodyWithPath.type || 'application/octet-stream',
+      };
+    } catch (error) {
+      console.error(`Error reading file ${bodyWithPath.path}:`, error);
+      throw new Error(`Failed to read file ${bodyWithPath.path}: ${(error as Error).message}`);
+    }
+  }
+  if (body instanceof Uint8Array) {
+    return {
+      buffer: body,
+      originalFilename: opts.filename || `buffer-upload-${now.getTime()}`,
+      mimeType: opts.contentType || 'application/octet-stream', // Default for buffer
+    };
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    // Files are Blobs with a name
+    const name = typeof File !== 'undefined' && body instanceof File ? body.name : undefined;
+    return {
+      buffer: new Uint8Array(await body.arrayBuffer()),
+      originalFilename: opts.filename || name || `blob-upload-${now.getTime()}`,
+      mimeType: opts.contentType || body.type || 'application/octet-stream',
+    };
+  }
+  throw new Error('Unsupported body type for asset upload.');
+}
+
+/**
+ * Computes the SHA-1 hash of asset contents, which asset IDs are derived from.
+ * Uses the Web Crypto API, so uploads also work in the browser.
+ * @param contents - The asset contents.
+ * @returns A promise that resolves with the hash as lowercase hex.
+ */
+async function getSha1Hash(contents: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await globalThis.crypto.subtle.digest('SHA-1', contents as BufferSource));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Wraps asset contents in a Buffer for the image metadata readers.
+ * @param contents - The asset contents.
+ * @returns The contents as a Buffer, sharing their memory.
+ * @throws LocalClientError if there is no Buffer implementation, as in browsers without a polyfill.
+ */
+function toBuffer(contents: Uint8Array): Buffer {
+  if (typeof Buffer === 'undefined') {
+    throw new LocalClientError(400, {
+      type: 'httpBadRequest',
+      description: 'Reading image metadata needs a global Buffer; provide one (e.g. from the "buffer" package) to upload images.',
+    });
+  }
+  return Buffer.from(contents.buffer, contents.byteOffset, contents.byteLength);
+}
+
+/**
+ * Determines the listener transition of a document from whether it matched the filter before and after a change.
+ * @param matchedBefore - Whether the document matched the filter before the change.
+ * @param matchedAfter - Whether the document matched the filter after the change.
+ * @returns The transition to report to listeners.
+ */
+function getTransition(matchedBefore: boolean, matchedAfter: boolean): MutationEvent['transition'] {
+  if (!matchedBefore) {
+    return 'appear';
+  }
+  return matchedAfter ? 'update' : 'disappear';
 }
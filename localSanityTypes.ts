@@ -3,182 +3,1664 @@
  * This file contains type definitions for a local Sanity client implementation.
  */
 
+import type { Observable } from 'rxjs';
+
+/**
+ * Configuration for the local Sanity client.
+ */
+export interface LocalSanityClientConfig {
+  /**
+   * Optional path to a local directory for data persistence.
+   * Each dataset is persisted to its own subdirectory (`<localDataPath>/<dataset>`)
+   * as a snapshot file plus an append-only mutation journal.
+   * If not provided, data will be in-memory.
+   */
+  localDataPath?: string;
+
+  /**
+   * Optional project ID. Clients with the same project ID and dataset share the same documents and listeners.
+   * Defaults to 'local'.
+   */
+  projectId?: string;
+
+  /**
+   * Optional dataset name, similar to Sanity's dataset concept.
+   * Defaults to 'local'.
+   */
+  dataset?: string;
+
+  /**
+   * Optional logging level for the client.
+   * Defaults to 'info'.
+   */
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+
+  /**
+   * Optional default perspective for `fetch` and `listen`.
+   * Defaults to 'raw', which returns drafts, versions and published documents side by side.
+   */
+  perspective?: ClientPerspective;
+
+  /**
+   * Optional schema the documents are validated against, like `schema` in `sanity.config.ts`.
+   * Only used when `validation` is enabled.
+   */
+  schema?: LocalSchemaConfig;
+
+  /**
+   * Optional validation of written documents against `schema`, using the same rules as the Studio:
+   * - 'off': documents are not validated.
+   * - 'report': invalid documents are written, and their validation markers are logged and returned from `commit()`.
+   * - 'strict': transactions writing a document with an unknown `_type` or validation errors are rejected.
+   * Defaults to 'off'.
+   */
+  validation?: 'off' | 'report' | 'strict';
+
+  /**
+   * Optional token to authenticate as, like `token` in `@sanity/client`. Only used when `auth` is configured.
+   * Empty means anonymous. Defaults to ''.
+   */
+  token?: string;
+
+  /**
+   * Optional access control: the accepted tokens and the roles they grant.
+   * When set, `fetch`, `getDocument` and `listen` only return documents the token can read,
+   * and mutations the token is not permitted to make are rejected. Null means no access control.
+   * Defaults to null.
+   */
+  auth?: LocalAuthConfig | null;
+
+  /**
+   * Optional storage for datasets other than files under `localDataPath`, e.g. IndexedDB in the browser.
+   * Called once for every dataset the client opens; takes precedence over `localDataPath`.
+   * Null means files under `localDataPath`, or in-memory only. Defaults to null.
+   */
+  storage?: StorageBackendFactory | null;
+
+  /**
+   * Optional storage for the files of uploaded assets, e.g. IndexedDB in the browser.
+   * Null means files in `local_assets` under the current working directory. Defaults to null.
+   */
+  assetStorage?: AssetStorage | null;
+
+  /**
+   * Optional clock the current time is read from, for `_createdAt`, `_updatedAt`, transaction timestamps and
+   * webhook deliveries. Inject a fixed clock to make documents and the transaction log reproducible in tests.
+   * Defaults to the system clock.
+   */
+  clock?: LocalClock;
+
+  /**
+   * Optional generator of the IDs the backend assigns, such as transaction IDs (which become `_rev`)
+   * and the `_id` of created documents that have none. Defaults to random IDs.
+   */
+  generateId?: LocalIdGenerator;
+}
+
+/**
+ * Returns the current time.
+ */
+export type LocalClock = () => Date;
+
+/**
+ * The kinds of IDs the local backend generates.
+ */
+export type LocalIdKind = 'transaction' | 'document' | 'listener' | 'webhook' | 'webhookMessage' | 'webhookAttempt';
+
+/**
+ * Generates a new, unique ID.
+ * @param kind - What the ID is for.
+ * @returns The ID.
+ */
+export type LocalIdGenerator = (kind: LocalIdKind) => string;
+
+/**
+ * A permission on documents, as used in Content Lake grants.
+ */
+export type DocumentPermission = 'read' | 'create' | 'update' | 'history' | 'editHistory';
+
+/**
+ * Grants permissions on the documents matching a GROQ filter, in the format served by the `/acl` endpoint.
+ * Filters may use `identity()` to refer to the current user.
+ */
+export interface LocalGrant {
+  /**
+   * GROQ filter selecting the documents, e.g. `_id in path("drafts.**")`.
+   */
+  filter: string;
+
+  /**
+   * The permissions granted on the matching documents.
+   */
+  permissions: DocumentPermission[];
+}
+
+/**
+ * A token accepted by the local backend.
+ */
+export interface LocalTokenConfig {
+  /**
+   * ID of the user the token belongs to, returned by `identity()` and recorded as the author of transactions.
+   * Defaults to 'local'.
+   */
+  userId?: string;
+
+  /**
+   * Names of the roles the token has, e.g. `['editor']`.
+   */
+  roles: string[];
+}
+
+/**
+ * Access control for the local backend.
+ */
+export interface LocalAuthConfig {
+  /**
+   * The accepted tokens, keyed by token.
+   */
+  tokens: Record<string, LocalTokenConfig>;
+
+  /**
+   * Optional custom roles, keyed by role name. They are added to, and may override, the built-in
+   * `administrator`, `editor`, `developer`, `contributor` and `viewer` roles.
+   */
+  roles?: Record<string, LocalGrant[]>;
+
+  /**
+   * Optional roles of requests without a token. Defaults to none, so anonymous requests see no documents.
+   */
+  anonymousRoles?: string[];
+}
+
+/**
+ * Schema definition for the local client, in the same shape as `schema` in `sanity.config.ts`.
+ */
+export interface LocalSchemaConfig {
+  /**
+   * Optional name of the schema. Defaults to 'default'.
+   */
+  name?: string;
+
+  /**
+   * The schema type definitions, e.g. created with `defineType`.
+   */
+  types: any[];
+}
+
+/**
+ * A segment of a path into a document: a field name, an array index or an array item `_key`.
+ */
+export type PathSegment = string | number | { _key: string };
+
+/**
+ * A validation problem found in a document, in the same shape as `@sanity/types`' `ValidationMarker`.
+ */
+export interface ValidationMarker {
+  /**
+   * Severity of the problem. Only errors make a strict-mode transaction fail.
+   */
+  level: 'error' | 'warning' | 'info';
+
+  /**
+   * Human-readable description of the problem.
+   */
+  message: string;
+
+  /**
+   * Path to the invalid value within the document, e.g. `['author', 'name']`.
+   */
+  path: PathSegment[];
+}
+
+/**
+ * How documents are overlaid when reading, matching the Content Lake perspectives.
+ * - `raw`: all documents, including drafts (`drafts.<id>`) and versions (`versions.<release>.<id>`).
+ * - `published`: only published documents.
+ * - `drafts` (or the legacy `previewDrafts`): drafts overlaid on top of published documents.
+ * - An array of release names, optionally including `drafts`, ordered from highest to lowest priority
+ *   (e.g. `['rc-1', 'drafts']`), overlaid on top of published documents.
+ */
+export type ClientPerspective = 'raw' | 'published' | 'drafts' | 'previewDrafts' | string[];
+
+/**
+ * Optional parameters for fetching data.
+ */
+export interface FetchOptions {
+  /**
+   * The perspective to evaluate the query in. Defaults to the client's configured perspective.
+   */
+  perspective?: ClientPerspective;
+}
+
+/**
+ * Represents a generic Sanity document.
+ */
+export interface SanityDocument {
+  /**
+   * Unique identifier for the document.
+   */
+  _id: string;
+
+  /**
+   * Type of the document (e.g., 'product', 'user').
+   */
+  _type: string;
+
+  /**
+   * ISO 8601 timestamp of when the document was created.
+   */
+  _createdAt: string;
+
+  /**
+   * ISO 8601 timestamp of when the document was last updated.
+   */
+  _updatedAt: string;
+
+  /**
+   * Revision ID of the document, assigned by the store on every write.
+   * Equal to the ID of the transaction that last wrote the document.
+   */
+  _rev?: string;
+
+  /**
+   * The raw ID of the draft or version a document was read from, when read through a perspective.
+   * In that case `_id` is the published ID.
+   */
+  _originalId?: string;
+
+  /**
+   * Allows for any other properties on the document.
+   */
+  [key: string]: any;
+}
+
+/**
+ * The state of a single document after a write.
+ * A `null` document means the document was deleted.
+ */
+export interface DocumentChange {
+  /**
+   * ID of the document that was written.
+   */
+  id: string;
+
+  /**
+   * The full document after the write, or `null` if it was deleted.
+   */
+  document: SanityDocument | null;
+}
+
+/**
+ * Details of a committed transaction, as recorded in the transaction log.
+ */
+export interface TransactionInfo {
+  /**
+   * ID of the transaction, which is also the resulting revision of every document it changed.
+   */
+  id: string;
+
+  /**
+   * ISO 8601 timestamp of when the transaction was committed.
+   */
+  timestamp: string;
+
+  /**
+   * The identity of the user that made the transaction.
+   */
+  author: string;
+
+  /**
+   * The mutations of the transaction, in the Content Lake mutation format.
+   */
+  mutations: Record<string, any>[];
+}
+
+/**
+ * A transaction in the transaction log, with the resulting state of every document it changed.
+ */
+export interface TransactionRecord extends TransactionInfo {
+  /**
+   * The document changes of the transaction.
+   */
+  changes: DocumentChange[];
+}
+
+/**
+ * A single entry in the append-only mutation journal of a persisted store.
+ */
+export interface JournalEntry {
+  /**
+   * Monotonically increasing sequence number of the entry.
+   */
+  seq: number;
+
+  /**
+   * The document changes written by this entry, applied in order.
+   */
+  changes: DocumentChange[];
+
+  /**
+   * The transaction that wrote the changes. Missing for entries that are not part of the transaction log,
+   * such as those written before the log existed.
+   */
+  transaction?: TransactionInfo;
+}
+
+/**
+ * A point-in-time snapshot of all documents in a persisted store.
+ */
+export interface StoreSnapshot {
+  /**
+   * Sequence number of the last journal entry included in the snapshot.
+   * Journal entries with a lower or equal sequence number are skipped on replay.
+   */
+  seq: number;
+
+  /**
+   * All documents in the store at the time of the snapshot.
+   */
+  documents: SanityDocument[];
+
+  /**
+   * The transaction log at the time of the snapshot, oldest first.
+   */
+  transactions?: TransactionRecord[];
+}
+
+/**
+ * A durable storage backend for the in-memory store.
+ * Backends only read and write raw state; replaying the journal is up to the store.
+ */
+export interface StorageBackend {
+  /**
+   * Loads the last snapshot and any journal entries written after it.
+   * @returns A promise that resolves with the snapshot (or null if none exists) and the journal entries.
+   */
+  load(): Promise<{ snapshot: StoreSnapshot | null; journal: JournalEntry[] }>;
+
+  /**
+   * Appends an entry to the journal.
+   * @param entry - The journal entry to append.
+   * @returns A promise that resolves once the entry is durably written.
+   */
+  append(entry: JournalEntry): Promise<void>;
+
+  /**
+   * Replaces the stored snapshot and truncates the journal.
+   * @param snapshot - The snapshot to write.
+   * @returns A promise that resolves once the snapshot is durably written.
+   */
+  compact(snapshot: StoreSnapshot): Promise<void>;
+}
+
+/**
+ * Creates the storage backend of a dataset.
+ * @param projectId - The project ID.
+ * @param dataset - The dataset name.
+ * @returns The storage backend.
+ */
+export type StorageBackendFactory = (projectId: string, dataset: string) => StorageBackend;
+
+/**
+ * Stores the files of uploaded assets, named by their content hash (e.g. `<sha1>-<width>x<height>.png`).
+ * The files are shared by every dataset using the storage.
+ */
+export interface AssetStorage {
+  /**
+   * Writes a file, unless a file with the same name already exists.
+   * @param file - The file name.
+   * @param contents - The file contents.
+   * @returns A promise that resolves with true if the file was written, or false if it already existed.
+   */
+  write(file: string, contents: Uint8Array): Promise<boolean>;
+
+  /**
+   * Reads a file.
+   * @param file - The file name.
+   * @returns A promise that resolves with the file contents, or null if the file does not exist.
+   */
+  read(file: string): Promise<Uint8Array | null>;
+
+  /**
+   * Removes a file. Removing a file that does not exist is a no-op.
+   * @param file - The file name.
+   * @returns A promise that resolves once the file is removed.
+   */
+  remove(file: string): Promise<void>;
+
+  /**
+   * Lists the stored files.
+   * @returns A promise that resolves with the file names.
+   */
+  list(): Promise<string[]>;
+}
+
+/**
+ * Narrows a store query to the documents that can be found through the store's indexes.
+ * A document must satisfy every given condition; within a condition, any of the values may match.
+ */
+export interface IndexLookup {
+  /**
+   * Document IDs.
+   */
+  ids?: string[];
+
+  /**
+   * Published IDs, matching the published document and all of its drafts and versions.
+   */
+  publishedIds?: string[];
+
+  /**
+   * Document types (`_type`).
+   */
+  types?: string[];
+
+  /**
+   * ID prefixes: `''` for published documents, `drafts.`, `versions.` for any version,
+   * or `versions.<release>.` for the versions of one release.
+   */
+  idPrefixes?: string[];
+
+  /**
+   * IDs of referenced documents, as matched by GROQ's `references()`.
+   */
+  references?: string[];
+}
+
+/**
+ * The index a store query was served by. `scan` means every document was visited.
+ */
+export type QueryIndexName = '_id' | '_type' | 'idPrefix' | 'references' | 'scan';
+
+/**
+ * Statistics on how the store served its queries.
+ */
+export interface QueryStats {
+  /**
+   * Number of queries served by each index.
+   */
+  queries: Record<QueryIndexName, number>;
+
+  /**
+   * The last query: the index that served it, how many documents it visited and how many matched.
+   */
+  lastQuery?: { index: QueryIndexName; candidates: number; matches: number };
+
+  /**
+   * Number of distinct keys in each secondary index.
+   */
+  indexSizes: { types: number; idPrefixes: number; references: number };
+}
+
+/**
+ * Represents a create mutation operation.
+ */
+export interface CreateMutation {
+  create: { document: SanityDocument };
+}
+
+/**
+ * Represents a mutation that creates a document, or replaces it if it already exists.
+ */
+export interface CreateOrReplaceMutation {
+  createOrReplace: { document: DocumentStub & { _id: string } };
+}
+
+/**
+ * Represents a mutation that creates a document unless it already exists.
+ */
+export interface CreateIfNotExistsMutation {
+  createIfNotExists: { document: DocumentStub & { _id: string } };
+}
+
+/**
+ * Inserts items into an array, relative to the item(s) matched by a path
+ * (e.g. `body[-1]` or `body[_key=="abc"]`).
+ */
+export type InsertPatch =
+  | { before: string; items: any[] }
+  | { after: string; items: any[] }
+  | { replace: string; items: any[] };
+
+/**
+ * Patch operations in the Content Lake format.
+ * Keys of `set`, `setIfMissing`, `inc`, `dec` and `diffMatchPatch`, and entries of `unset`,
+ * are JSONPath-style paths such as `title`, `meta.title` or `body[_key=="abc"].text`.
+ */
+export interface PatchOperations {
+  /**
+   * Sets the value at each path, creating intermediate objects as needed.
+   */
+  set?: Record<string, any>;
+
+  /**
+   * Sets the value at each path, unless a value is already present.
+   */
+  setIfMissing?: Record<string, any>;
+
+  /**
+   * Removes the values at the given paths.
+   */
+  unset?: string[];
+
+  /**
+   * Increments the numbers at each path by the given amount.
+   */
+  inc?: Record<string, number>;
+
+  /**
+   * Decrements the numbers at each path by the given amount.
+   */
+  dec?: Record<string, number>;
+
+  /**
+   * Inserts items into an array.
+   */
+  insert?: InsertPatch;
+
+  /**
+   * Applies a diff-match-patch string patch to the strings at each path.
+   */
+  diffMatchPatch?: Record<string, string>;
+
+  /**
+   * Only applies the patch if the document's current `_rev` matches this revision.
+   * Otherwise the transaction fails with a 409 conflict error.
+   */
+  ifRevisionID?: string;
+}
+
+/**
+ * Represents a patch mutation operation.
+ */
+export interface PatchMutation {
+  patch: { id: string } & PatchOperations;
+}
+
+/**
+ * Represents a delete mutation operation.
+ */
+export interface DeleteMutation {
+  delete: { id: string };
+}
+
+/**
+ * Represents a single mutation operation.
+ * This can be a create, createOrReplace, createIfNotExists, patch, or delete operation.
+ */
+export type Mutation =
+  | CreateMutation
+  | CreateOrReplaceMutation
+  | CreateIfNotExistsMutation
+  | PatchMutation
+  | DeleteMutation;
+
+/**
+ * A document to be written, before the store assigns its system fields.
+ * Documents created without an `_id` get a generated one.
+ */
+export interface DocumentStub {
+  _id?: string;
+  _type: string;
+  [key: string]: any;
+}
+
+/**
+ * A mutation in the Content Lake format, as sent to the `mutate` endpoint.
+ */
+export type RawMutation =
+  | { create: DocumentStub }
+  | { createOrReplace: DocumentStub & { _id: string } }
+  | { createIfNotExists: DocumentStub & { _id: string } }
+  | PatchMutation
+  | DeleteMutation;
+
+/**
+ * Options for committing a transaction.
+ */
+export interface CommitOptions {
+  /**
+   * Stage and check the mutations (including referential integrity and validation) without applying them.
+   * Nothing is written and no listener events are emitted. Defaults to false.
+   */
+  dryRun?: boolean;
+
+  /**
+   * ID to give the transaction, which becomes the `_rev` of every written document. Generated if not provided.
+   */
+  transactionId?: string;
+}
+
+/**
+ * Options for `mutate`, matching `@sanity/client`.
+ */
+export interface MutateOptions extends CommitOptions {
+  /**
+   * Resolve with the written documents instead of the transaction summary. Defaults to false.
+   */
+  returnDocuments?: boolean;
+
+  /**
+   * Resolve with only the first result (or document, with `returnDocuments`). Defaults to false.
+   */
+  returnFirst?: boolean;
+
+  /**
+   * When the mutation should become visible to queries. Accepted for compatibility only:
+   * local writes are always visible as soon as the returned promise resolves.
+   */
+  visibility?: 'sync' | 'async' | 'deferred';
+}
+
+/**
+ * The result of a mutation, as reported by the Content Lake.
+ */
+export interface MutationResult {
+  /**
+   * ID of the mutated document.
+   */
+  id: string;
+
+  /**
+   * What happened to the document. `none` means a `createIfNotExists` found the document already present.
+   */
+  operation: 'create' | 'update' | 'delete' | 'none';
+
+  /**
+   * The document after the mutation. Missing for deleted documents.
+   */
+  document?: SanityDocument;
+}
+
+/**
+ * The summary `mutate` resolves with unless `returnDocuments` is set.
+ */
+export interface MutateSummary {
+  /**
+   * ID of the transaction.
+   */
+  transactionId: string;
+
+  /**
+   * The result of each mutation, in order.
+   */
+  results: MutationResult[];
+
+  /**
+   * IDs of the mutated documents, in order. Only without `returnFirst`.
+   */
+  documentIds?: string[];
+
+  /**
+   * ID of the first mutated document. Only with `returnFirst`.
+   */
+  documentId?: string;
+}
+
+/**
+ * The observable twin of a local client, reached through `client.observable`.
+ * Each method behaves like its promise-based counterpart; work starts when the observable is subscribed to.
+ */
+export interface ObservableLocalSanityClient {
+  /**
+   * Returns the client's configuration, including defaults.
+   * @returns A copy of the configuration.
+   */
+  config(): Required<LocalSanityClientConfig>;
+
+  /**
+   * Creates a new client with the same configuration.
+   * @returns The observable twin of the new client.
+   */
+  clone(): ObservableLocalSanityClient;
+
+  /**
+   * Creates a new client with configuration merged into this client's.
+   * @param newConfig - The configuration to override.
+   * @returns The observable twin of the new client.
+   */
+  withConfig(newConfig?: Partial<LocalSanityClientConfig>): ObservableLocalSanityClient;
+
+  /**
+   * Fetches data based on a GROQ query.
+   * @param query - The GROQ query string.
+   * @param params - Optional parameters for the query.
+   * @param options - Optional fetch options, such as the perspective.
+   * @returns An observable of the query result.
+   */
+  fetch(query: string, params?: Record<string, any>, options?: FetchOptions): Observable<any>;
+
+  /**
+   * Retrieves a single document by its ID.
+   * @param id - The ID of the document.
+   * @returns An observable of the document, or undefined if not found.
+   */
+  getDocument(id: string): Observable<SanityDocument | undefined>;
+
+  /**
+   * Retrieves several documents by their IDs.
+   * @param ids - The IDs of the documents.
+   * @returns An observable of the documents in the order of `ids`, with null for missing documents.
+   */
+  getDocuments(ids: string[]): Observable<(SanityDocument | null)[]>;
+
+  /**
+   * Creates a new document.
+   * @param document - The document to create.
+   * @returns An observable of the created document.
+   */
+  create(document: DocumentStub): Observable<SanityDocument>;
+
+  /**
+   * Creates a document, or replaces it if it already exists.
+   * @param document - The document. Must have an `_id`.
+   * @returns An observable of the written document.
+   */
+  createOrReplace(document: DocumentStub & { _id: string }): Observable<SanityDocument>;
+
+  /**
+   * Creates a document unless one with the same `_id` already exists.
+   * @param document - The document. Must have an `_id`.
+   * @returns An observable of the created document, or the existing one.
+   */
+  createIfNotExists(document: DocumentStub & { _id: string }): Observable<SanityDocument>;
+
+  /**
+   * Deletes a document by its ID.
+   * @param id - The ID of the document to delete.
+   * @returns An observable of the deletion results.
+   */
+  delete(id: string): Observable<{ results: { id: string }[] }>;
+
+  /**
+   * Commits mutations in the Content Lake format as a single transaction.
+   * @param mutations - The mutations, or a patch or transaction built with the client.
+   * @param options - Optional options, such as `returnDocuments` or `dryRun`.
+   * @returns An observable of the transaction summary, or the written document(s) with `returnDocuments`.
+   */
+  mutate(
+    mutations: RawMutation | RawMutation[] | Patch | Transaction,
+    options?: MutateOptions
+  ): Observable<MutateSummary | SanityDocument | SanityDocument[] | undefined>;
+
+  /**
+   * Listens for real-time updates to documents matching a GROQ filter.
+   * @param query - The GROQ query to listen for.
+   * @param params - Optional parameters for the query.
+   * @param options - Optional listener options.
+   * @returns An observable of listener events.
+   */
+  listen(query: string, params?: Record<string, any>, options?: ListenOptions): Observable<ListenEvent>;
+}
+
+/**
+ * The result of committing a transaction.
+ */
+export interface CommitResult {
+  /**
+   * ID of the committed transaction.
+   */
+  transactionId: string;
+
+  /**
+   * The result of each mutation, in order.
+   */
+  results: any[];
+
+  /**
+   * Validation markers of the written documents that have any, keyed by document ID.
+   * Only present when the client's `validation` is enabled; in 'strict' mode it only holds warnings and info.
+   */
+  validation?: Record<string, ValidationMarker[]>;
+}
+
+/**
+ * Interface for transaction objects, which can apply multiple mutations.
+ */
+export interface Transaction {
+  /**
+   * Adds a create operation to the transaction.
+   * @param document - The document to create.
+   * @returns The transaction instance for chaining.
+   */
+  create(document: SanityDocument): Transaction;
+
+  /**
+   * Adds a patch operation to the transaction.
+   * @param idOrPatch - The ID of the document to patch, or a patch built with `client.patch()`.
+   * @param operations - The patch operations to apply, if an ID was given.
+   * @returns The transaction instance for chaining.
+   */
+  patch(idOrPatch: string | Patch, operations?: PatchOperations): Transaction;
+
+  /**
+   * Adds a delete operation to the transaction.
+   * @param id - The ID of the document to delete.
+   * @returns The transaction instance for chaining.
+   */
+  delete(id: string): Transaction;
+
+  /**
+   * Adds a createOrReplace operation to the transaction.
+   * @param document - The document to create or replace. Must have an `_id`.
+   * @returns The transaction instance for chaining.
+   */
+  createOrReplace(document: DocumentStub & { _id: string }): Transaction;
+
+  /**
+   * Adds a createIfNotExists operation to the transaction.
+   * @param document - The document to create unless it exists. Must have an `_id`.
+   * @returns The transaction instance for chaining.
+   */
+  createIfNotExists(document: DocumentStub & { _id: string }): Transaction;
+
+  /**
+   * Returns the mutations of the transaction in the Content Lake format.
+   * @returns The mutations.
+   */
+  serialize(): RawMutation[];
+
+  /**
+   * Commits all mutations in the transaction atomically: either all of them are applied, or none are.
+   * @param options - Optional commit options, such as `dryRun`.
+   * @returns A promise that resolves when the transaction is complete,
+   *          with the transaction ID and results similar to Sanity.
+   * @throws LocalMutationError if a mutation fails, or, in strict validation mode, a written document is invalid.
+   */
+  commit(options?: CommitOptions): Promise<CommitResult>;
+}
+
+/**
+ * A chainable builder for patching a single document, similar to `@sanity/client`'s `Patch`.
+ */
+export interface Patch {
+  /**
+   * ID of the document to patch.
+   */
+  readonly id: string;
+
+  /**
+   * Sets the given paths to the given values.
+   * @param attrs - Values keyed by path.
+   * @returns The patch instance for chaining.
+   */
+  set(attrs: Record<string, any>): Patch;
+
+  /**
+   * Sets the given paths to the given values, unless they already have a value.
+   * @param attrs - Values keyed by path.
+   * @returns The patch instance for chaining.
+   */
+  setIfMissing(attrs: Record<string, any>): Patch;
+
+  /**
+   * Removes the values at the given paths.
+   * @param paths - The paths to unset.
+   * @returns The patch instance for chaining.
+   */
+  unset(paths: string[]): Patch;
+
+  /**
+   * Increments the numbers at the given paths.
+   * @param attrs - Amounts keyed by path.
+   * @returns The patch instance for chaining.
+   */
+  inc(attrs: Record<string, number>): Patch;
+
+  /**
+   * Decrements the numbers at the given paths.
+   * @param attrs - Amounts keyed by path.
+   * @returns The patch instance for chaining.
+   */
+  dec(attrs: Record<string, number>): Patch;
+
+  /**
+   * Inserts items into an array relative to the item(s) matched by a selector.
+   * @param at - Where to insert the items relative to the selector.
+   * @param selector - Path of the array item(s), e.g. `body[-1]` or `body[_key=="abc"]`.
+   * @param items - The items to insert.
+   * @returns The patch instance for chaining.
+   */
+  insert(at: 'before' | 'after' | 'replace', selector: string, items: any[]): Patch;
+
+  /**
+   * Appends items to the end of the array at the given path.
+   * @param selector - Path of the array.
+   * @param items - The items to append.
+   * @returns The patch instance for chaining.
+   */
+  append(selector: string, items: any[]): Patch;
+
+  /**
+   * Prepends items to the start of the array at the given path.
+   * @param selector - Path of the array.
+   * @param items - The items to prepend.
+   * @returns The patch instance for chaining.
+   */
+  prepend(selector: string, items: any[]): Patch;
+
+  /**
+   * Applies diff-match-patch string patches to the strings at the given paths.
+   * @param attrs - Patch strings keyed by path.
+   * @returns The patch instance for chaining.
+   */
+  diffMatchPatch(attrs: Record<string, string>): Patch;
+
+  /**
+   * Only applies the patch if the document still has the given revision.
+   * @param rev - The expected current revision (`_rev`) of the document.
+   * @returns The patch instance for chaining.
+   */
+  ifRevisionId(rev: string): Patch;
+
+  /**
+   * Returns the accumulated patch operations in the Content Lake format.
+   * @returns The patch operations.
+   */
+  serialize(): PatchMutation['patch'];
+
+  /**
+   * Commits the patch in its own transaction.
+   * @param options - Optional commit options, such as `dryRun`.
+   * @returns A promise that resolves with the transaction ID and results.
+   */
+  commit(options?: CommitOptions): Promise<CommitResult>;
+}
+
+/**
+ * Represents metadata for an uploaded asset.
+ */
+export interface AssetMetadata {
+  /**
+   * Unique identifier for the asset.
+   */
+  _id: string;
+
+  /**
+   * Type of the asset.
+   * 'sanity.fileAsset' and 'sanity.imageAsset' are standard Sanity types.
+   * Custom local types can also be used.
+   */
+  _type: 'sanity.fileAsset' | 'sanity.imageAsset' | string;
+
+  /**
+   * The original filename of the uploaded asset.
+   */
+  originalFilename: string;
+
+  /**
+   * Size of the asset in bytes.
+   */
+  size: number;
+
+  /**
+   * MIME type of the asset (e.g., 'image/jpeg', 'application/pdf').
+   */
+  mimeType: string;
+
+  /**
+   * URL or local path to access the asset.
+   */
+  url: string;
+
+  /**
+   * SHA-1 hash of the asset contents, which asset IDs are derived from.
+   */
+  sha1hash?: string;
+
+  /**
+   * The content-derived part of the asset ID (the SHA-1 hash).
+   */
+  assetId?: string;
+
+  /**
+   * File extension of the asset, without the dot (e.g. 'png').
+   */
+  extension?: string;
+
+  /**
+   * Path of the asset file, relative to the assets directory.
+   */
+  path?: string;
+
+  /**
+   * Image metadata. Only set for image assets.
+   */
+  metadata?: ImageMetadata;
+}
+
+/**
+ * Dimensions of an image, as stored in `metadata.dimensions` of image assets.
+ */
+export interface ImageDimensions {
+  _type: 'sanity.imageDimensions';
+  width: number;
+  height: number;
+  aspectRatio: number;
+}
+
+/**
+ * A color of an image palette, with text colors readable on top of it.
+ */
+export interface ImagePaletteSwatch {
+  _type: 'sanity.imagePaletteSwatch';
+
+  /**
+   * The color, as a hex string (e.g. '#1a2b3c').
+   */
+  background: string;
+
+  /**
+   * Readable text color on top of the background, '#fff' or '#000'.
+   */
+  foreground: string;
+
+  /**
+   * Readable title color on top of the background, '#fff' or '#000'.
+   */
+  title: string;
+
+  /**
+   * Share of the image covered by the color, in percent.
+   */
+  population: number;
+}
+
+/**
+ * The color palette of an image, as stored in `metadata.palette` of image assets.
+ * Swatches without a matching color in the image are omitted.
+ */
+export interface ImagePalette {
+  _type: 'sanity.imagePalette';
+  dominant?: ImagePaletteSwatch;
+  vibrant?: ImagePaletteSwatch;
+  lightVibrant?: ImagePaletteSwatch;
+  darkVibrant?: ImagePaletteSwatch;
+  muted?: ImagePaletteSwatch;
+  lightMuted?: ImagePaletteSwatch;
+  darkMuted?: ImagePaletteSwatch;
+}
+
+/**
+ * Metadata of an image asset, in the shape Studio's image input expects.
+ */
+export interface ImageMetadata {
+  _type: 'sanity.imageMetadata';
+  dimensions: ImageDimensions;
+
+  /**
+   * Low-quality image placeholder, as a data URL. Omitted for formats that cannot be decoded locally.
+   */
+  lqip?: string;
+
+  /**
+   * The color palette. Omitted for formats that cannot be decoded locally.
+   */
+  palette?: ImagePalette;
+
+  /**
+   * Whether the image format has an alpha channel.
+   */
+  hasAlpha: boolean;
+
+  /**
+   * Whether every pixel of the image is fully opaque.
+   */
+  isOpaque: boolean;
+}
+
+/**
+ * Optional parameters for asset uploads.
+ */
+export interface UploadOptions {
+  /**
+   * Optional desired filename for the asset.
+   */
+  filename?: string;
+
+  /**
+   * Optional content type (MIME type) of the asset.
+   */
+  contentType?: string;
+}
+
+/**
+ * Optional parameters for asset garbage collection.
+ */
+export interface AssetGarbageCollectionOptions {
+  /**
+   * If true, only reports what would be removed. Defaults to false.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * What asset garbage collection removed, or would remove in a dry run.
+ */
+export interface AssetGarbageCollectionResult {
+  /**
+   * Whether this was a dry run, which removed nothing.
+   */
+  dryRun: boolean;
+
+  /**
+   * IDs of the asset documents no document references.
+   */
+  assetIds: string[];
+
+  /**
+   * Files in the assets directory no remaining asset document points to, relative to the directory.
+   * Includes the files of the unreferenced asset documents.
+   */
+  files: string[];
+}
+
+/**
+ * A committed change to a single document, as passed from write operations to listeners.
+ */
+export interface DocumentMutationEvent {
+  /**
+   * ID of the transaction the change was part of.
+   */
+  transactionId: string;
+
+  /**
+   * ISO 8601 timestamp of when the transaction was committed.
+   */
+  timestamp: string;
+
+  /**
+   * ID of the changed document.
+   */
+  documentId: string;
+
+  /**
+   * The document before the change, or null if it did not exist.
+   */
+  before: SanityDocument | null;
+
+  /**
+   * The document after the change, or null if it was deleted.
+   */
+  after: SanityDocument | null;
+
+  /**
+   * The mutations applied to the document, in the Content Lake mutation format.
+   */
+  mutations: Record<string, any>[];
+}
+
+/**
+ * A mutation event emitted to listeners, in the same shape as `@sanity/client`'s `MutationEvent`.
+ */
+export interface MutationEvent {
+  type: 'mutation';
+
+  /**
+   * Unique ID of the event, made up of the transaction ID and the document ID.
+   */
+  eventId: string;
+
+  /**
+   * ID of the changed document.
+   */
+  documentId: string;
+
+  /**
+   * ID of the transaction the change was part of.
+   */
+  transactionId: string;
+
+  /**
+   * Whether the document started matching the query (`appear`), still matches it (`update`),
+   * or stopped matching it (`disappear`), which includes deletions.
+   */
+  transition: 'appear' | 'update' | 'disappear';
+
+  /**
+   * The identity of the user that made the change.
+   */
+  identity: string;
+
+  /**
+   * The mutations applied to the document, in the Content Lake mutation format.
+   */
+  mutations: Record<string, any>[];
+
+  /**
+   * Revision of the document before the change, if it existed.
+   */
+  previousRev?: string;
+
+  /**
+   * Revision of the document after the change, unless it was deleted.
+   */
+  resultRev?: string;
+
+  /**
+   * The document after the change. Only included if `includeResult` is enabled.
+   */
+  result?: SanityDocument;
+
+  /**
+   * The document before the change. Only included if `includePreviousRevision` is enabled.
+   */
+  previous?: SanityDocument | null;
+
+  /**
+   * ISO 8601 timestamp of when the transaction was committed.
+   */
+  timestamp: string;
+
+  /**
+   * When the change is visible to queries. Always `query` for the local client.
+   */
+  visibility: 'query';
+
+  /**
+   * Mendoza patches that apply or revert the change to the document. Only with `effectFormat: 'mendoza'`.
+   */
+  effects?: { apply: unknown[]; revert: unknown[] };
+}
+
+/**
+ * Emitted to a listener once it is set up, if requested with the `events` option.
+ */
+export interface WelcomeEvent {
+  type: 'welcome';
+
+  /**
+   * Unique name of the listener.
+   */
+  listenerName: string;
+}
+
 /**
- * Configuration for the local Sanity client.
+ * Any event emitted to listeners.
  */
-export interface LocalSanityClientConfig {
+export type ListenEvent = MutationEvent | WelcomeEvent;
+
+/**
+ * Options for listening to real-time updates.
+ */
+export interface ListenOptions {
   /**
-   * Optional path to a local directory for data persistence.
-   * If not provided, data will be in-memory.
+   * Whether to include the document after the change as `result`. Defaults to true.
    */
-  localDataPath?: string;
+  includeResult?: boolean;
 
   /**
-   * Optional dataset name, similar to Sanity's dataset concept.
-   * Defaults to 'local'.
+   * Whether to include the document before the change as `previous`. Defaults to false.
    */
-  dataset?: string;
+  includePreviousRevision?: boolean;
 
   /**
-   * Optional logging level for the client.
-   * Defaults to 'info'.
+   * Which event types to emit. Defaults to `['mutation']`.
    */
-  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+  events?: Array<'welcome' | 'mutation'>;
+
+  /**
+   * The perspective to evaluate the filter and results in. Defaults to the client's configured perspective.
+   * With a perspective other than `raw`, changes to documents that are hidden by a higher-priority
+   * draft or version are not emitted, and `result`/`previous` are the overlaid documents.
+   */
+  perspective?: ClientPerspective;
+
+  /**
+   * Include the effects of each change on the document as `effects`, in the mendoza patch format.
+   */
+  effectFormat?: 'mendoza';
 }
 
 /**
- * Represents a generic Sanity document.
+ * Options for querying the transaction log, matching the Content Lake history API.
  */
-export interface SanityDocument {
+export interface TransactionLogOptions {
   /**
-   * Unique identifier for the document.
+   * Include the effects of each transaction on the documents, as `{apply, revert}` mendoza patches.
    */
-  _id: string;
+  effectFormat?: 'mendoza';
 
   /**
-   * Type of the document (e.g., 'product', 'user').
+   * Leave out the mutations of each transaction. Defaults to false.
    */
-  _type: string;
+  excludeMutations?: boolean;
 
   /**
-   * ISO 8601 timestamp of when the document was created.
+   * Only report the requested documents in `documentIDs`, `mutations` and `effects`. Defaults to false.
    */
-  _createdAt: string;
+  includeIdentifiedDocumentsOnly?: boolean;
 
   /**
-   * ISO 8601 timestamp of when the document was last updated.
+   * Return the newest transactions first. Defaults to false.
    */
-  _updatedAt: string;
+  reverse?: boolean;
 
   /**
-   * Allows for any other properties on the document.
+   * Maximum number of transactions to return, counted after `reverse` is applied.
    */
-  [key: string]: any;
+  limit?: number;
+
+  /**
+   * Only include transactions at or after this ISO 8601 timestamp.
+   */
+  fromTime?: string;
+
+  /**
+   * Only include transactions at or before this ISO 8601 timestamp.
+   */
+  toTime?: string;
+
+  /**
+   * Only include transactions from this transaction on (inclusive).
+   */
+  fromTransaction?: string;
+
+  /**
+   * Only include transactions up to this transaction (inclusive).
+   */
+  toTransaction?: string;
+
+  /**
+   * Only include transactions by these authors. A string is treated as a comma-separated list.
+   */
+  authors?: string | string[];
 }
 
 /**
- * Represents a create mutation operation.
+ * A transaction as returned by the transaction log, in the same shape as `@sanity/types`' `TransactionLogEvent`.
  */
-export interface CreateMutation {
-  create: { document: SanityDocument };
+export interface TransactionLogEvent {
+  /**
+   * ID of the transaction.
+   */
+  id: string;
+
+  /**
+   * ISO 8601 timestamp of when the transaction was committed.
+   */
+  timestamp: string;
+
+  /**
+   * The identity of the user that made the transaction.
+   */
+  author: string;
+
+  /**
+   * IDs of the documents changed by the transaction.
+   */
+  documentIDs: string[];
+
+  /**
+   * The mutations of the transaction, unless `excludeMutations` is set.
+   */
+  mutations?: Record<string, any>[];
+
+  /**
+   * Mendoza patches to apply or revert the transaction, keyed by document ID. Only with `effectFormat: 'mendoza'`.
+   */
+  effects?: Record<string, { apply: unknown[]; revert: unknown[] }>;
 }
 
 /**
- * Represents a patch mutation operation.
+ * A simplified Observable-like interface for real-time updates.
  */
-export interface PatchMutation {
-  patch: { id: string; fields: Partial<SanityDocument> };
+export interface SimpleObservable {
+  /**
+   * Subscribes to events from the observable.
+   * @param observer - A function that will be called with new events.
+   * @returns An object with an `unsubscribe` method to stop listening.
+   */
+  subscribe(observer: (event: any) => void): { unsubscribe(): void };
 }
 
 /**
- * Represents a delete mutation operation.
+ * Dataset management for the client's project, similar to `@sanity/client`'s `datasets`.
  */
-export interface DeleteMutation {
-  delete: { id: string };
+export interface DatasetsClient {
+  /**
+   * Creates a new, empty dataset, persisted like the client's own dataset (to `storage` or under `localDataPath`).
+   * @param name - The dataset name.
+   * @returns A promise that resolves with the dataset name once it is created.
+   */
+  create(name: string): Promise<{ datasetName: string }>;
+
+  /**
+   * Deletes a dataset and all of its documents.
+   * @param name - The dataset name.
+   * @returns A promise that resolves once the dataset is deleted.
+   */
+  delete(name: string): Promise<{ deleted: true }>;
+
+  /**
+   * Copies all documents of a dataset into a new dataset.
+   * @param sourceName - The name of the dataset to copy.
+   * @param targetName - The name of the dataset to create.
+   * @returns A promise that resolves with the new dataset name once the copy is complete.
+   */
+  copy(sourceName: string, targetName: string): Promise<{ datasetName: string }>;
+
+  /**
+   * Lists the datasets of the project that are open in this process.
+   * @returns A promise that resolves with the datasets.
+   */
+  list(): Promise<{ name: string }[]>;
 }
 
 /**
- * Represents a single mutation operation.
- * This can be a create, patch, or delete operation.
+ * The document changes a webhook can be triggered by.
  */
-export type Mutation = CreateMutation | PatchMutation | DeleteMutation;
+export type WebhookOperation = 'create' | 'update' | 'delete';
 
 /**
- * Interface for transaction objects, which can apply multiple mutations.
+ * How a local webhook retries failed deliveries. Only available locally.
  */
-export interface Transaction {
+export interface LocalWebhookRetryOptions {
   /**
-   * Adds a create operation to the transaction.
-   * @param document - The document to create.
-   * @returns The transaction instance for chaining.
+   * Maximum number of delivery attempts per message, including the first. Defaults to 5.
    */
-  create(document: SanityDocument): Transaction;
+  maxAttempts?: number;
 
   /**
-   * Adds a patch operation to the transaction.
-   * @param id - The ID of the document to patch.
-   * @param fields - The fields to update.
-   * @returns The transaction instance for chaining.
+   * Delay before the first retry in milliseconds, doubled for every further retry. Defaults to 1000.
    */
-  patch(id: string, fields: Partial<SanityDocument>): Transaction;
+  initialDelayMs?: number;
+}
 
+/**
+ * A GROQ-powered webhook to register on a local dataset, with the same options as a hosted one.
+ */
+export interface LocalWebhookDefinition {
   /**
-   * Adds a delete operation to the transaction.
-   * @param id - The ID of the document to delete.
-   * @returns The transaction instance for chaining.
+   * Name of the webhook.
    */
-  delete(id: string): Transaction;
+  name: string;
 
   /**
-   * Commits all mutations in the transaction.
-   * @returns A promise that resolves when the transaction is complete,
-   *          optionally with results similar to Sanity.
+   * URL the webhook sends requests to.
    */
-  commit(): Promise<{results: any[]}>; // Or Promise<void> if results are not needed
-}
+  url: string;
 
-/**
- * Represents metadata for an uploaded asset.
- */
-export interface AssetMetadata {
   /**
-   * Unique identifier for the asset.
+   * Optional GROQ filter on the changed document, e.g. `_type == "post"`. It is evaluated against the document
+   * after the change, or before it for deletes, and may use `before()`, `after()` and `delta::` functions.
+   * Empty matches every document.
    */
-  _id: string;
+  filter?: string | null;
 
   /**
-   * Type of the asset.
-   * 'sanity.fileAsset' and 'sanity.imageAsset' are standard Sanity types.
-   * Custom local types can also be used.
+   * Optional GROQ projection of the payload, e.g. `{_id, "title": after().title}`. Defaults to the whole document.
    */
-  _type: 'sanity.fileAsset' | 'sanity.imageAsset' | string;
+  projection?: string | null;
 
   /**
-   * The original filename of the uploaded asset.
+   * Optional document changes that trigger the webhook. Defaults to all of them.
    */
-  originalFilename: string;
+  on?: WebhookOperation[];
 
   /**
-   * Size of the asset in bytes.
+   * Optional HTTP method of the requests. Defaults to 'POST'.
    */
-  size: number;
+  httpMethod?: 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'GET';
 
   /**
-   * MIME type of the asset (e.g., 'image/jpeg', 'application/pdf').
+   * Optional additional HTTP headers of the requests.
    */
-  mimeType: string;
+  headers?: Record<string, string>;
 
   /**
-   * URL or local path to access the asset.
+   * Optional secret that requests are signed with, in the `sanity-webhook-signature` header.
+   */
+  secret?: string | null;
+
+  /**
+   * Optional flag to also trigger on changes to drafts and versions. Defaults to false.
+   */
+  includeDrafts?: boolean;
+
+  /**
+   * Optional flag to register the webhook without triggering it. Defaults to false.
+   */
+  isDisabled?: boolean;
+
+  /**
+   * Optional description of the webhook.
+   */
+  description?: string | null;
+
+  /**
+   * Optional API version the filter and projection are evaluated with. Defaults to 'v2021-03-25'.
    */
+  apiVersion?: string;
+
+  /**
+   * Optional retry policy for failed deliveries.
+   */
+  retry?: LocalWebhookRetryOptions;
+}
+
+/**
+ * A registered local webhook, in the shape `sanity hook list` reads from the hooks API.
+ */
+export interface LocalWebhook {
+  id: string;
+  type: 'document';
+  name: string;
+  projectId: string;
+  dataset: string;
   url: string;
+  rule: {
+    on: WebhookOperation[];
+    filter: string | null;
+    projection: string | null;
+  };
+  apiVersion: string;
+  httpMethod: string;
+  includeDrafts: boolean;
+  headers: Record<string, string>;
+  secret: string | null;
+  createdAt: string;
+  isDisabled: boolean;
+  description: string | null;
+  retry: Required<LocalWebhookRetryOptions>;
 }
 
 /**
- * Optional parameters for asset uploads.
+ * A payload a webhook was triggered with, in the shape `sanity hook logs` reads from the hooks API.
  */
-export interface UploadOptions {
+export interface LocalWebhookMessage {
+  id: string;
+  hookId: string;
+  projectId: string;
+  dataset: string;
   /**
-   * Optional desired filename for the asset.
+   * ID of the changed document.
    */
-  filename?: string;
+  documentId: string;
+  /**
+   * ID of the transaction that changed the document.
+   */
+  transactionId: string;
+  operation: WebhookOperation;
+  /**
+   * The request body, as JSON.
+   */
+  payload: string;
+  status: 'queued' | 'sending' | 'success' | 'failure';
+  failureCount: number;
+  resultCode: number | null;
+  createdAt: string;
+  updatedAt: string | null;
+}
 
+/**
+ * A single attempt to deliver a webhook message, in the shape `sanity hook attempt` reads from the hooks API.
+ */
+export interface LocalWebhookAttempt {
+  id: string;
+  projectId: string;
+  hookId: string;
+  messageId: string;
+  inProgress: boolean;
   /**
-   * Optional content type (MIME type) of the asset.
+   * Duration of the request in milliseconds, or null while in progress.
    */
-  contentType?: string;
+  duration: number | null;
+  isFailure: boolean;
+  /**
+   * Why the attempt failed: 'http' for an unsuccessful status code, 'network' or 'timeout'. Empty on success.
+   */
+  failureReason: '' | 'http' | 'network' | 'timeout';
+  resultCode: number;
+  resultBody: string;
+  createdAt: string;
+  updatedAt: string | null;
 }
 
 /**
- * A simplified Observable-like interface for real-time updates.
+ * Webhook management for the client's dataset. Webhooks are shared by every client of the dataset,
+ * and kept in memory only.
  */
-export interface SimpleObservable {
+export interface WebhooksClient {
   /**
-   * Subscribes to events from the observable.
-   * @param observer - A function that will be called with new events.
-   * @returns An object with an `unsubscribe` method to stop listening.
+   * Registers a webhook, triggered by every transaction committed from then on.
+   * @param definition - The webhook.
+   * @returns A promise that resolves with the registered webhook.
    */
-  subscribe(observer: (event: any) => void): { unsubscribe(): void };
+  create(definition: LocalWebhookDefinition): Promise<LocalWebhook>;
+
+  /**
+   * Lists the registered webhooks.
+   * @returns A promise that resolves with the webhooks, in the order they were registered.
+   */
+  list(): Promise<LocalWebhook[]>;
+
+  /**
+   * Unregisters a webhook. Pending retries of its messages are dropped.
+   * @param id - The webhook ID.
+   * @returns A promise that resolves once the webhook is unregistered.
+   */
+  delete(id: string): Promise<{ deleted: true }>;
+
+  /**
+   * Lists the messages a webhook was triggered with.
+   * @param id - The webhook ID.
+   * @returns A promise that resolves with the messages, oldest first.
+   */
+  getMessages(id: string): Promise<LocalWebhookMessage[]>;
+
+  /**
+   * Lists the delivery attempts of a webhook.
+   * @param id - The webhook ID.
+   * @returns A promise that resolves with the attempts, oldest first.
+   */
+  getAttempts(id: string): Promise<LocalWebhookAttempt[]>;
+
+  /**
+   * Waits until every triggered message has been delivered, or has failed its last attempt.
+   * @returns A promise that resolves once no delivery is pending.
+   */
+  flush(): Promise<void>;
 }
 
 /**
@@ -186,9 +1668,47 @@ export interface SimpleObservable {
  */
 export interface LocalSanityClient {
   /**
-   * Readonly configuration object for the client.
+   * Returns the client's configuration, including defaults.
+   * @returns A copy of the configuration.
+   */
+  config(): Required<LocalSanityClientConfig>;
+
+  /**
+   * Updates the client's configuration in place, like `@sanity/client`. Prefer `withConfig`,
+   * which leaves this client untouched.
+   * @param newConfig - The configuration to merge into the current one.
+   * @returns The client.
+   */
+  config(newConfig: Partial<LocalSanityClientConfig>): this;
+
+  /**
+   * Creates a new client with the same configuration.
+   * @returns The new client.
+   */
+  clone(): LocalSanityClient;
+
+  /**
+   * Creates a new client with configuration merged into this client's. Clients of the same
+   * project and dataset share documents, so this is the way to switch datasets or perspectives.
+   * @param newConfig - The configuration to override.
+   * @returns The new client.
+   */
+  withConfig(newConfig?: Partial<LocalSanityClientConfig>): LocalSanityClient;
+
+  /**
+   * The same client, with methods that return RxJS observables instead of promises.
    */
-  readonly config: Readonly<LocalSanityClientConfig>;
+  observable: ObservableLocalSanityClient;
+
+  /**
+   * Dataset management for the client's project.
+   */
+  datasets: DatasetsClient;
+
+  /**
+   * GROQ-powered webhooks of the client's dataset.
+   */
+  hooks: WebhooksClient;
 
   /**
    * Asset handling methods.
@@ -206,16 +1726,35 @@ export interface LocalSanityClient {
       body: File | Blob | Buffer | { path: string; name: string; type: string },
       opts?: UploadOptions
     ): Promise<AssetMetadata>;
+
+    /**
+     * Deletes an asset document, along with its file once no other asset document points to it.
+     * @param asset - The asset document, or its ID.
+     * @returns A promise that resolves with the deleted asset document.
+     * @throws LocalClientError if the document does not exist or is not an asset.
+     * @throws LocalMutationError if any document references the asset.
+     */
+    delete(asset: string | { _id: string }): Promise<AssetMetadata>;
+
+    /**
+     * Removes the asset documents no document references, and the files in the assets directory
+     * no remaining asset document points to. Files used by other open datasets, or by datasets persisted
+     * under the same `localDataPath`, are kept.
+     * @param options - Optional parameters, such as `dryRun`.
+     * @returns A promise that resolves with what was removed, or would be removed in a dry run.
+     */
+    collectGarbage(options?: AssetGarbageCollectionOptions): Promise<AssetGarbageCollectionResult>;
   };
 
   /**
-   * Fetches data based on a query.
-   * Note: Query syntax will be simplified and not full GROQ.
-   * @param query - The query string.
+   * Fetches data based on a GROQ query.
+   * A bare document ID is also accepted and returns that document.
+   * @param query - The GROQ query string.
    * @param params - Optional parameters for the query.
+   * @param options - Optional fetch options, such as the perspective.
    * @returns A promise that resolves with the query result.
    */
-  fetch(query: string, params?: Record<string, any>): Promise<any>;
+  fetch(query: string, params?: Record<string, any>, options?: FetchOptions): Promise<any>;
 
   /**
    * Retrieves a single document by its ID.
@@ -224,21 +1763,96 @@ export interface LocalSanityClient {
    */
   getDocument(id: string): Promise<SanityDocument | undefined>;
 
+  /**
+   * Retrieves a document as it was at a given revision.
+   * @param id - The ID of the document.
+   * @param revision - The revision, i.e. the ID of any transaction in the transaction log.
+   * @returns A promise that resolves with the document, or null if it did not exist at that revision
+   *   or the revision is unknown.
+   */
+  getDocumentAtRevision(id: string, revision: string): Promise<SanityDocument | null>;
+
+  /**
+   * Retrieves a document as it was at a given time.
+   * @param id - The ID of the document.
+   * @param timestamp - The ISO 8601 timestamp.
+   * @returns A promise that resolves with the document, or null if it did not exist at that time.
+   */
+  getDocumentAtTime(id: string, timestamp: string): Promise<SanityDocument | null>;
+
+  /**
+   * Queries the transaction log of one or more documents.
+   * @param documentIds - The ID(s) of the documents.
+   * @param options - Optional query options.
+   * @returns A promise that resolves with the transactions as NDJSON, in the format of the Content Lake history API.
+   */
+  getTransactionLog(documentIds: string | string[], options?: TransactionLogOptions): Promise<string>;
+
+  /**
+   * Returns statistics on how the dataset's store served queries, e.g. to check that a query used an index.
+   * @returns A promise that resolves with the statistics.
+   */
+  getQueryStats(): Promise<QueryStats>;
+
+  /**
+   * Returns the grants of the client's token, in the format served by the `/acl` endpoint.
+   * @returns A promise that resolves with the grants. Without access control, everything is granted.
+   */
+  getGrants(): Promise<LocalGrant[]>;
+
+  /**
+   * Validates a document against the configured schema, without writing it.
+   * @param document - The document to validate.
+   * @returns A promise that resolves with the validation markers, empty if the document is valid.
+   */
+  validateDocument(document: SanityDocument): Promise<ValidationMarker[]>;
+
+  /**
+   * Retrieves several documents by their IDs.
+   * @param ids - The IDs of the documents.
+   * @returns A promise that resolves with the documents in the order of `ids`, with null for missing documents.
+   */
+  getDocuments(ids: string[]): Promise<(SanityDocument | null)[]>;
+
   /**
    * Creates a new document.
    * @param document - The document to create.
    * @returns A promise that resolves with the created document.
    */
-  create(document: SanityDocument): Promise<SanityDocument>;
+  create(document: DocumentStub): Promise<SanityDocument>;
+
+  /**
+   * Creates a document, or replaces it if it already exists.
+   * @param document - The document. Must have an `_id`.
+   * @returns A promise that resolves with the written document.
+   */
+  createOrReplace(document: DocumentStub & { _id: string }): Promise<SanityDocument>;
+
+  /**
+   * Creates a document unless one with the same `_id` already exists.
+   * @param document - The document. Must have an `_id`.
+   * @returns A promise that resolves with the created document, or the existing one.
+   */
+  createIfNotExists(document: DocumentStub & { _id: string }): Promise<SanityDocument>;
 
   /**
-   * Patches an existing document.
-   * This can return a transaction for chaining or apply the patch directly.
+   * Commits mutations in the Content Lake format as a single transaction, like `@sanity/client`'s `mutate`.
+   * @param mutations - The mutations, or a patch or transaction built with this client.
+   * @param options - Optional options, such as `returnDocuments` or `dryRun`.
+   * @returns A promise that resolves with the transaction summary, or the written document(s) with `returnDocuments`.
+   */
+  mutate(
+    mutations: RawMutation | RawMutation[] | Patch | Transaction,
+    options?: MutateOptions
+  ): Promise<MutateSummary | SanityDocument | SanityDocument[] | undefined>;
+
+  /**
+   * Starts a patch of an existing document.
    * @param id - The ID of the document to patch.
-   * @param fields - The fields to update.
-   * @returns A transaction instance for chaining, or a promise if applied directly.
+   * @param operations - Optional initial patch operations.
+   * @returns A patch builder; call `commit()` to apply it.
    */
-  patch(id: string, fields: Partial<SanityDocument>): Transaction; // Or Promise<SanityDocument>
+  patch(id: string, operations?: PatchOperations): Patch;
 
   /**
    * Deletes a document by its ID.
@@ -255,11 +1869,47 @@ export interface LocalSanityClient {
   transaction(): Transaction;
 
   /**
-   * Listens for real-time updates based on a query.
-   * Uses a simplified Observable-like interface.
-   * @param query - The query string to listen for.
+   * Listens for real-time updates to documents matching a GROQ filter.
+   * Uses a simplified Observable-like interface, emitting `ListenEvent`s.
+   * @param query - The GROQ query to listen for.
    * @param params - Optional parameters for the query.
+   * @param options - Optional listener options.
    * @returns A SimpleObservable to subscribe to updates.
    */
-  listen(query: string, params?: Record<string, any>): SimpleObservable;
+  listen(query: string, params?: Record<string, any>, options?: ListenOptions): SimpleObservable;
+}
+
+/**
+ * A document as returned by either client.
+ */
+export interface DocumentLike {
+  _id: string;
+  _type: string;
+  [key: string]: any;
+}
+
+/**
+ * The part of the client API shared by `LocalSanityClient` and `@sanity/client`'s `SanityClient`.
+ * Code typed against it accepts either client, e.g. to run against the local backend in tests.
+ */
+export interface SanityClientLike {
+  config(): { projectId?: string; dataset?: string };
+  withConfig(newConfig?: { dataset?: string; perspective?: ClientPerspective }): SanityClientLike;
+  clone(): SanityClientLike;
+  fetch(query: string, params?: Record<string, any>): Promise<any>;
+  getDocument(id: string): Promise<DocumentLike | undefined>;
+  getDocuments(ids: string[]): Promise<(DocumentLike | null)[]>;
+  create(document: DocumentStub): Promise<DocumentLike>;
+  createOrReplace(document: DocumentStub & { _id: string }): Promise<DocumentLike>;
+  createIfNotExists(document: DocumentStub & { _id: string }): Promise<DocumentLike>;
+  delete(id: string): Promise<unknown>;
+  mutate(mutations: RawMutation[], options?: { returnDocuments?: false; dryRun?: boolean }): Promise<unknown>;
+  observable: {
+    fetch(query: string, params?: Record<string, any>): Observable<any>;
+    getDocument(id: string): Observable<DocumentLike | undefined>;
+    getDocuments(ids: string[]): Observable<(DocumentLike | null)[]>;
+    create(document: DocumentStub): Observable<DocumentLike>;
+    delete(id: string): Observable<unknown>;
+    mutate(mutations: RawMutation[], options?: { returnDocuments?: false; dryRun?: boolean }): Observable<unknown>;
+  };
 }
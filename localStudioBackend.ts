@@ -0,0 +1,567 @@
+/**
+ * @remarks
+ * Runs the Studio entirely in the browser against the local backend: a `SanityClient` whose requests are served
+ * by local clients instead of the Content Lake, an auth store signing in a fixed user, and presence shared
+ * between tabs over a `BroadcastChannel`. Documents and assets are persisted to IndexedDB.
+ *
+ * ```ts
+ * const backend = createLocalStudioBackend({ projectId: 'local', dataset: 'production' });
+ * export default defineConfig({ projectId: 'local', dataset: 'production', unstable_backend: backend, ... });
+ * ```
+ *
+ * Image assets need a global `Buffer` to read their metadata. Asset files are served through `fetch` from the
+ * backend's API host, at the paths the asset CDN uses, e.g. `/images/<projectId>/<dataset>/<file>`.
+ */
+
+import { ClientError, createClient, SanityClient } from '@sanity/client';
+import { getIt } from 'get-it';
+import { jsonRequest, jsonResponse, observable } from 'get-it/middleware';
+import type { HttpRequest, MiddlewareResponse } from 'get-it';
+import type { CurrentUser, StudioBackend } from 'sanity';
+import { filter, map, Observable, of, share, timer } from 'rxjs';
+import { LocalSanityClientImpl } from './localSanityClient';
+import {
+  AssetMetadata,
+  AssetStorage,
+  ListenOptions,
+  LocalSanityClientConfig,
+  SanityDocument,
+} from './localSanityTypes';
+import {
+  decodePathSegments,
+  LocalApiRequest,
+  LocalApiResponse,
+  readRequestText,
+  routeLocalApiRequest,
+  toErrorResponse,
+} from './localApiRoutes';
+import { IndexedDbAssetStorage, IndexedDbStorageBackend, openLocalDatabase } from './indexedDbStorage';
+import { seedDataset } from './localFixtures';
+import { LocalClientError } from './localErrors';
+
+/**
+ * API version of the backend's client. The Studio picks its own with `withConfig`.
+ */
+const API_VERSION = '2025-02-19';
+
+/**
+ * Interval of the presence connection's heartbeats, which keep the Studio's connection status green.
+ */
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * The user signed in to the Studio when none is configured.
+ */
+const DEFAULT_USER: CurrentUser = {
+  id: 'local',
+  name: 'Local User',
+  email: 'local@localhost',
+  role: 'administrator',
+  roles: [{ name: 'administrator', title: 'Administrator' }],
+};
+
+/**
+ * Paths of asset files, like on the asset CDN: `/images/:projectId/:dataset/:file` or `/files/:projectId/:dataset/:file`.
+ */
+const ASSET_PATH_PATTERN = /^\/(images|files)\/[^/]+\/([^/]+)\/([^/.]+)\.([^/.]+)$/;
+
+/**
+ * Serves the requests to backend API hosts made with `fetch`, keyed by API host.
+ */
+const fetchHandlers = new Map<string, (request: Request) => Promise<Response>>();
+
+/**
+ * The `fetch` replaced while any handler is installed.
+ */
+let originalFetch: typeof fetch | undefined;
+
+/**
+ * Number of backends created, which keeps their API hosts apart.
+ */
+let backendCount = 0;
+
+/**
+ * Options for the local Studio backend.
+ */
+export interface LocalStudioBackendOptions {
+  /**
+   * The project ID, as configured for the Studio.
+   */
+  projectId: string;
+
+  /**
+   * The dataset, as configured for the Studio.
+   */
+  dataset: string;
+
+  /**
+   * Optional user the Studio is signed in as. Defaults to an administrator with the ID `local`.
+   */
+  currentUser?: CurrentUser;
+
+  /**
+   * Optional name of the IndexedDB database the datasets and assets are persisted to,
+   * or false to keep them in memory. Defaults to `sanity-local-<projectId>`.
+   */
+  persist?: string | false;
+
+  /**
+   * Optional configuration for the local clients serving each dataset, such as `schema` and `validation`.
+   */
+  clientConfig?: LocalSanityClientConfig;
+}
+
+/**
+ * A backend for the Studio, served in the browser by local clients.
+ */
+export interface LocalStudioBackend extends StudioBackend {
+  /**
+   * A `SanityClient` for the backend, as handed to the Studio.
+   */
+  client: SanityClient;
+
+  /**
+   * Exports the documents of a dataset, one JSON document per line, like `sanity dataset export` does.
+   * @param dataset - Optional dataset name. Defaults to the configured dataset.
+   * @returns A promise that resolves with the NDJSON, ordered by document ID.
+   */
+  exportNdjson(dataset?: string): Promise<string>;
+
+  /**
+   * Imports documents into a dataset in one transaction, replacing documents with the same ID.
+   * @param ndjson - One JSON document per line.
+   * @param dataset - Optional dataset name. Defaults to the configured dataset.
+   * @returns A promise that resolves with the number of imported documents.
+   * @throws LocalClientError if a line is not a document with an `_id` and `_type`.
+   */
+  importNdjson(ndjson: string, dataset?: string): Promise<{ documents: number }>;
+
+  /**
+   * Stops serving `fetch` requests to the backend's API host, restoring the original `fetch` once no backend
+   * serves any.
+   */
+  dispose(): void;
+}
+
+/**
+ * Creates a Studio backend served in the browser by local clients.
+ * Requests made with `fetch` to the backend's API host, such as the Studio's history requests and asset files,
+ * are served by the backend too, until it is disposed.
+ * @param options - The backend options.
+ * @returns The backend, to pass as `unstable_backend` in the Studio configuration.
+ */
+export function createLocalStudioBackend(options: LocalStudioBackendOptions): LocalStudioBackend {
+  const { projectId, dataset, currentUser = DEFAULT_USER, persist = `sanity-local-${projectId}` } = options;
+  const database = persist === false ? null : openLocalDatabase(persist);
+  const assetStorage: AssetStorage = database ? new IndexedDbAssetStorage(database) : new MemoryAssetStorage();
+  const clientConfig: LocalSanityClientConfig = {
+    perspective: 'raw',
+    ...options.clientConfig,
+    projectId,
+    storage: database ? (project, name) => new IndexedDbStorageBackend(database, `${project}/${name}`) : null,
+    assetStorage,
+  };
+
+  const localClients = new Map<string, LocalSanityClientImpl>();
+  const getLocalClient = (name: string): LocalSanityClientImpl => {
+    let client = localClients.get(name);
+    if (!client) {
+      client = new LocalSanityClientImpl({ ...clientConfig, dataset: name });
+      localClients.set(name, client);
+    }
+    return client;
+  };
+
+  const keyValues = new Map<string, unknown>();
+  const handleRequest = async (request: LocalApiRequest): Promise<LocalApiResponse> => {
+    try {
+      const studioResponse = await handleStudioRequest(request, currentUser, projectId, keyValues, getLocalClient);
+      return studioResponse ?? (await routeLocalApiRequest(request, getLocalClient));
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  };
+
+  const apiHost = `https://backend-${++backendCount}.local.invalid`;
+  const removeFetchHandler = installFetchHandler(apiHost, async (request) => {
+    const url = new URL(request.url);
+    const assetPath = ASSET_PATH_PATTERN.exec(url.pathname);
+    if (request.method === 'GET' && assetPath) {
+      return serveAsset(assetPath, assetStorage, getLocalClient);
+    }
+    const response = toHttpResponse(
+      await handleRequest({
+        method: request.method,
+        url,
+        headers: getHeaders(request.headers),
+        body: request.method === 'GET' || request.method === 'HEAD' ? null : await request.blob(),
+      })
+    );
+    return new Response(response.body, { status: response.status, headers: response.headers });
+  });
+
+  const client = withLocalListen(
+    createClient({
+      projectId,
+      dataset,
+      apiHost,
+      apiVersion: API_VERSION,
+      useProjectHostname: false,
+      useCdn: false,
+      withCredentials: false,
+      requester: createLocalRequester(handleRequest),
+    }),
+    getLocalClient
+  );
+
+  return {
+    client,
+    auth: {
+      state: of({ authenticated: true, currentUser, client }),
+      token: of(null),
+      // There is no session to end
+      logout: () => undefined,
+      handleCallbackUrl: async () => undefined,
+    },
+    bifur: createLocalBifur(`sanity-local-presence:${projectId}:${dataset}`, currentUser.id),
+    exportNdjson: async (name = dataset) => {
+      const documents: SanityDocument[] = await getLocalClient(name).fetch('*[] | order(_id asc)', {}, { perspective: 'raw' });
+      return documents.map((document) => `${JSON.stringify(document)}\n`).join('');
+    },
+    importNdjson: (ndjson, name = dataset) => seedDataset(getLocalClient(name), ndjson),
+    dispose: removeFetchHandler,
+  };
+}
+
+/**
+ * Serves the Studio's requests that are about the project and its users rather than its datasets:
+ * - `GET /users/me` and `GET /users/:ids` (only the signed-in user exists)
+ * - `GET /projects/:projectId` and `GET /projects/:projectId/datasets`
+ * - `GET /features` and `GET /projects/:projectId/features` (no features)
+ * - `GET /users/me/keyvalue/:keys` and `PUT /users/me/keyvalue` (Studio settings, kept in memory)
+ * @param request - The request.
+ * @param currentUser - The signed-in user.
+ * @param projectId - The project ID.
+ * @param keyValues - The Studio settings of the signed-in user.
+ * @param getLocalClient - Returns the client serving a dataset.
+ * @returns A promise that resolves with the response, or undefined if the request is not a Studio request.
+ */
+async function handleStudioRequest(
+  request: LocalApiRequest,
+  currentUser: CurrentUser,
+  projectId: string,
+  keyValues: Map<string, unknown>,
+  getLocalClient: (dataset: string) => LocalSanityClientImpl
+): Promise<LocalApiResponse | undefined> {
+  const { method, url } = request;
+  const match = /^\/v[^/]+\/(.+)$/.exec(url.pathname);
+  const [area, id, resource, ...rest] = match ? decodePathSegments(match[1].split('/')) : [];
+  const json = (body: unknown): LocalApiResponse => ({ type: 'json', status: 200, body });
+
+  if (area === 'users' && id === 'me' && resource === 'keyvalue') {
+    if (method === 'PUT') {
+      const pairs: { key: string; value: unknown }[] = JSON.parse(await readRequestText(request));
+      pairs.forEach(({ key, value }) => keyValues.set(key, value));
+      return json(pairs);
+    }
+    return json((rest[0] ?? '').split(',').map((key) => ({ key, value: keyValues.get(key) ?? null })));
+  }
+  if (method !== 'GET') {
+    return undefined;
+  }
+  if (area === 'users' && id === 'me' && !resource) {
+    return json(currentUser);
+  }
+  if (area === 'users' && id && !resource) {
+    const user = { id: currentUser.id, displayName: currentUser.name, email: currentUser.email, imageUrl: currentUser.profileImage };
+    return json(id.split(',').includes(currentUser.id) ? [user] : []);
+  }
+  if (area === 'features' || (area === 'projects' && resource === 'features')) {
+    return json([]);
+  }
+  if (area === 'projects' && id && resource === 'datasets' && rest.length === 0) {
+    const datasets = await getLocalClient(id).datasets.list();
+    return json(datasets.map(({ name }) => ({ name, aclMode: 'public' })));
+  }
+  if (area === 'projects' && id === projectId && !resource) {
+    const now = new Date().toISOString();
+    return json({
+      id: projectId,
+      displayName: projectId,
+      studioHost: null,
+      isBlocked: false,
+      isDisabled: false,
+      isDisabledByUser: false,
+      metadata: {},
+      members: [
+        {
+          id: currentUser.id,
+          createdAt: now,
+          updatedAt: now,
+          isCurrentUser: true,
+          isRobot: false,
+          role: currentUser.role,
+          roles: currentUser.roles,
+        },
+      ],
+    });
+  }
+  return undefined;
+}
+
+/**
+ * Creates a get-it requester that serves requests with the backend instead of sending them.
+ * Like the client's own requester, JSON bodies are encoded and decoded, and error responses become `ClientError`s.
+ * @param handleRequest - Serves a request.
+ * @returns The requester, for the client's `requester` option.
+ */
+function createLocalRequester(handleRequest: (request: LocalApiRequest) => Promise<LocalApiResponse>) {
+  const httpRequest: HttpRequest = ({ options }, callback) => {
+    let aborted = false;
+    const method = options.method ?? 'GET';
+    const url = new URL(options.url);
+    const headers: Record<string, string> = {};
+    Object.entries(options.headers ?? {}).forEach(([name, value]) => (headers[name.toLowerCase()] = String(value)));
+    handleRequest({ method, url, headers, body: options.body ?? null })
+      .then((response) => {
+        const { status, headers: responseHeaders, body } = toHttpResponse(response);
+        const result: MiddlewareResponse = {
+          body,
+          url: url.href,
+          method,
+          headers: responseHeaders,
+          statusCode: status,
+          statusMessage: '',
+        };
+        if (!aborted) {
+          callback(null, result);
+        }
+      })
+      .catch((error) => !aborted && callback(error));
+    return { abort: () => (aborted = true) };
+  };
+  return getIt(
+    [
+      jsonRequest(),
+      jsonResponse(),
+      {
+        onResponse: (response: MiddlewareResponse) => {
+          if (response.statusCode >= 400) {
+            throw new ClientError(response);
+          }
+          return response;
+        },
+      },
+      observable({ implementation: Observable }),
+    ],
+    httpRequest
+  );
+}
+
+/**
+ * Serializes a response of the backend for HTTP.
+ * @param response - The response.
+ * @returns The status, headers and body.
+ */
+function toHttpResponse(response: LocalApiResponse): { status: number; headers: Record<string, string>; body: string } {
+  if (response.type === 'events') {
+    // Listeners go through `listen()`, since the client streams them with EventSource
+    return toHttpResponse(
+      toErrorResponse(new LocalClientError(400, { type: 'httpBadRequest', description: 'Listen with `listen()` instead' }))
+    );
+  }
+  return {
+    status: response.status,
+    headers: { 'content-type': response.type === 'ndjson' ? 'application/x-ndjson' : 'application/json; charset=utf-8' },
+    body: response.type === 'ndjson' ? response.body : JSON.stringify(response.body),
+  };
+}
+
+/**
+ * Wraps a client so `listen()`, which `@sanity/client` streams with EventSource, is served by the local clients.
+ * Clients derived with `withConfig()` or `clone()` are wrapped too.
+ * @param client - The client.
+ * @param getLocalClient - Returns the client serving a dataset.
+ * @returns The wrapped client.
+ */
+function withLocalListen(client: SanityClient, getLocalClient: (dataset: string) => LocalSanityClientImpl): SanityClient {
+  const listen = (query: string, params?: Record<string, any>, options?: ListenOptions) =>
+    getLocalClient(client.config().dataset as string).observable.listen(query, params, options);
+  const observableClient = bindMethods(client.observable, { listen });
+  return bindMethods(client, {
+    listen,
+    observable: observableClient,
+    withConfig: (...args: Parameters<SanityClient['withConfig']>) => withLocalListen(client.withConfig(...args), getLocalClient),
+    clone: () => withLocalListen(client.clone(), getLocalClient),
+  });
+}
+
+/**
+ * Proxies an object with some of its properties overridden. Methods are bound to the object itself,
+ * since the client's methods use private fields.
+ * @param target - The object.
+ * @param overrides - The overridden properties.
+ * @returns The proxy.
+ */
+function bindMethods<T extends object>(target: T, overrides: Record<string, unknown>): T {
+  return new Proxy(target, {
+    get(object, property) {
+      if (typeof property === 'string' && property in overrides) {
+        return overrides[property];
+      }
+      const value = Reflect.get(object, property, object);
+      return typeof value === 'function' ? value.bind(object) : value;
+    },
+  });
+}
+
+/**
+ * Creates the presence connection: the Studio's presence messages are broadcast to its other tabs.
+ * Channels are only open while needed, since an open channel keeps Node processes (like tests) alive.
+ * @param channelName - Name of the `BroadcastChannel`, shared by the tabs of the same project and dataset.
+ * @param userId - ID of the signed-in user, who sends every message.
+ * @returns The connection.
+ */
+function createLocalBifur(channelName: string, userId: string): StudioBackend['bifur'] {
+  const isSupported = typeof BroadcastChannel !== 'undefined';
+  const messages = new Observable<{ event: string; data: unknown }>((subscriber) => {
+    const channel = isSupported ? new BroadcastChannel(channelName) : null;
+    channel?.addEventListener('message', (message) => subscriber.next(message.data));
+    return () => channel?.close();
+  }).pipe(share());
+
+  return {
+    heartbeats: timer(0, HEARTBEAT_INTERVAL_MS).pipe(map(() => new Date())),
+    listen: <T>(eventName: string) =>
+      messages.pipe(
+        filter(({ event }) => event === eventName),
+        map(({ data }) => data as T)
+      ),
+    request: <T>(method: string, params?: any) =>
+      new Observable<T>((subscriber) => {
+        const data = toPresenceEvent(method, params, userId);
+        if (data && isSupported) {
+          const channel = new BroadcastChannel(channelName);
+          channel.postMessage({ event: 'presence', data });
+          channel.close();
+        }
+        subscriber.complete();
+      }),
+  };
+}
+
+/**
+ * Turns a presence request into the event the other tabs receive, as the presence service would.
+ * @param method - The request method, e.g. `presence_announce`.
+ * @param params - The request parameters.
+ * @param userId - ID of the user sending the request.
+ * @returns The event, or undefined if the method is not a presence request.
+ */
+function toPresenceEvent(method: string, params: any, userId: string): unknown {
+  switch (method) {
+    case 'presence_rollcall':
+      return { type: 'rollCall', i: userId, session: params.session };
+    case 'presence_announce':
+      return { type: 'state', i: userId, m: params.data };
+    case 'presence_disconnect':
+      return { type: 'disconnect', i: userId, m: { session: params.session } };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Routes `fetch` requests to an API host to its handler; other requests are sent as usual.
+ * @param apiHost - The API host, e.g. `https://backend-1.local.invalid`.
+ * @param handler - Serves the requests.
+ * @returns A function that removes the handler, restoring the original `fetch` once no handler is left.
+ */
+function installFetchHandler(apiHost: string, handler: (request: Request) => Promise<Response>): () => void {
+  if (typeof globalThis.fetch !== 'function') {
+    return () => undefined;
+  }
+  if (!originalFetch) {
+    const send = globalThis.fetch;
+    originalFetch = send;
+    globalThis.fetch = (input, init) => {
+      const url = new URL(input instanceof Request ? input.url : String(input), globalThis.location?.href);
+      const handle = fetchHandlers.get(url.origin);
+      return handle ? handle(new Request(input, init)) : send(input, init);
+    };
+  }
+  fetchHandlers.set(apiHost, handler);
+  return () => {
+    if (!fetchHandlers.delete(apiHost) || fetchHandlers.size > 0 || !originalFetch) {
+      return;
+    }
+    globalThis.fetch = originalFetch;
+    originalFetch = undefined;
+  };
+}
+
+/**
+ * Serves an asset file from the asset storage, like the asset CDN does.
+ * @param assetPath - The match of `ASSET_PATH_PATTERN` against the request path.
+ * @param assetStorage - The storage of the asset files.
+ * @param getLocalClient - Returns the client serving a dataset.
+ * @returns A promise that resolves with the file, a 404 error if the dataset has no such asset, or a 400 error
+ * if the path is malformed.
+ */
+async function serveAsset(
+  assetPath: RegExpExecArray,
+  assetStorage: AssetStorage,
+  getLocalClient: (dataset: string) => LocalSanityClientImpl
+): Promise<Response> {
+  try {
+    const [, kind, dataset, name, extension] = decodePathSegments(assetPath);
+    const assetId = `${kind === 'images' ? 'image' : 'file'}-${name}-${extension}`;
+    const asset = (await getLocalClient(dataset).getDocument(assetId)) as AssetMetadata | undefined;
+    const contents = asset ? await assetStorage.read(asset.path ?? `${name}.${extension}`) : null;
+    if (!asset || !contents) {
+      throw new LocalClientError(404, { type: 'notFound', description: `Asset "${assetId}" not found` });
+    }
+    // Copied, since `Blob` only takes views of an `ArrayBuffer`
+    return new Response(new Blob([new Uint8Array(contents)], { type: asset.mimeType }), { status: 200 });
+  } catch (error) {
+    const response = toHttpResponse(toErrorResponse(error));
+    return new Response(response.body, { status: response.status, headers: response.headers });
+  }
+}
+
+/**
+ * Reads the headers of a `fetch` request.
+ * @param headers - The headers.
+ * @returns The headers, keyed by lowercase name.
+ */
+function getHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => (result[name] = value));
+  return result;
+}
+
+/**
+ * Keeps asset files in memory, for backends that are not persisted.
+ */
+class MemoryAssetStorage implements AssetStorage {
+  private files = new Map<string, Uint8Array>();
+
+  async write(file: string, contents: Uint8Array): Promise<boolean> {
+    if (this.files.has(file)) {
+      return false;
+    }
+    this.files.set(file, contents);
+    return true;
+  }
+
+  async read(file: string): Promise<Uint8Array | null> {
+    return this.files.get(file) ?? null;
+  }
+
+  async remove(file: string): Promise<void> {
+    this.files.delete(file);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.files.keys());
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * @remarks
+ * Formats the local transaction log the way the Content Lake history API does, so the Studio's
+ * review changes and history timeline can read it: NDJSON lines of transactions, with mendoza patches as effects.
+ */
+
+import { SanityDocument, TransactionLogEvent, TransactionLogOptions, TransactionRecord } from './localSanityTypes';
+
+/**
+ * Mendoza opcodes used by the encoder, as defined by the `mendoza` package.
+ */
+const OP_VALUE = 0;
+const OP_PUSH_FIELD_COPY = 10;
+const OP_RETURN_INTO_OBJECT_SAME_KEY_POP = 15;
+const OP_OBJECT_SET_FIELD_VALUE = 17;
+const OP_OBJECT_DELETE_FIELD = 19;
+
+/**
+ * Selects transactions from the transaction log and formats them as history events.
+ * @param transactions - The full transaction log, oldest first.
+ * @param documentIds - The IDs of the documents whose transactions to return.
+ * @param options - Optional query options.
+ * @returns The matching transactions, formatted like the Content Lake history API.
+ * @throws Error if `fromTime` or `toTime` is not a valid timestamp.
+ */
+export function queryTransactionLog(
+  transactions: TransactionRecord[],
+  documentIds: string[],
+  options: TransactionLogOptions = {}
+): TransactionLogEvent[] {
+  const requested = new Set(documentIds);
+  const authors = typeof options.authors === 'string' ? options.authors.split(',') : options.authors;
+  const fromTime = parseTime(options.fromTime);
+  const toTime = parseTime(options.toTime);
+
+  // Effects need the state of each document before the transaction, so the whole log is replayed
+  const current = new Map<string, SanityDocument | null>();
+  const events: TransactionLogEvent[] = [];
+  let inRange = !options.fromTransaction;
+  for (const transaction of transactions) {
+    if (transaction.id === options.fromTransaction) {
+      inRange = true;
+    }
+    const before = new Map(transaction.changes.map(({ id }) => [id, current.get(id) ?? null]));
+    transaction.changes.forEach(({ id, document }) => current.set(id, document));
+
+    const time = Date.parse(transaction.timestamp);
+    const matches =
+      inRange &&
+      transaction.changes.some(({ id }) => requested.has(id)) &&
+      (!authors || authors.includes(transaction.author)) &&
+      (fromTime === undefined || time >= fromTime) &&
+      (toTime === undefined || time <= toTime);
+    if (matches) {
+      events.push(formatTransaction(transaction, before, requested, options));
+    }
+    if (transaction.id === options.toTransaction) {
+      break;
+    }
+  }
+
+  if (options.reverse) {
+    events.reverse();
+  }
+  return options.limit === undefined ? events : events.slice(0, options.limit);
+}
+
+/**
+ * Serializes history events as NDJSON, one event per line.
+ * @param events - The events to serialize.
+ * @returns The NDJSON string, with a trailing newline if there are any events.
+ */
+export function toNdjson(events: TransactionLogEvent[]): string {
+  return events.map((event) => `${JSON.stringify(event)}\n`).join('');
+}
+
+/**
+ * Encodes a mendoza patch that turns one document into another.
+ * Changed fields of nested objects are patched in place; anything else that changed is replaced.
+ * @param left - The document before the change, or null if it did not exist.
+ * @param right - The document after the change, or null if it was deleted.
+ * @returns The mendoza patch. It is empty if both documents are equal.
+ */
+export function createMendozaPatch(left: SanityDocument | null, right: SanityDocument | null): unknown[] {
+  if (isPlainObject(left) && isPlainObject(right)) {
+    return diffObject(left, right);
+  }
+  return isEqual(left, right) ? [] : [OP_VALUE, right];
+}
+
+/**
+ * Formats a transaction as a history event.
+ * @param transaction - The transaction.
+ * @param before - The state of each changed document before the transaction.
+ * @param requested - The IDs of the requested documents.
+ * @param options - The query options.
+ * @returns The history event.
+ */
+function formatTransaction(
+  transaction: TransactionRecord,
+  before: Map<string, SanityDocument | null>,
+  requested: Set<string>,
+  options: TransactionLogOptions
+): TransactionLogEvent {
+  const changes = options.includeIdentifiedDocumentsOnly
+    ? transaction.changes.filter(({ id }) => requested.has(id))
+    : transaction.changes;
+  const documentIDs = changes.map(({ id }) => id);
+
+  const event: TransactionLogEvent = {
+    id: transaction.id,
+    timestamp: transaction.timestamp,
+    author: transaction.author,
+    documentIDs,
+  };
+  if (!options.excludeMutations) {
+    event.mutations = transaction.mutations.filter((mutation) => documentIDs.includes(getMutationId(mutation)));
+  }
+  if (options.effectFormat === 'mendoza') {
+    event.effects = {};
+    for (const { id, document } of changes) {
+      const previous = before.get(id) ?? null;
+      event.effects[id] = {
+        apply: createMendozaPatch(previous, document),
+        revert: createMendozaPatch(document, previous),
+      };
+    }
+  }
+  return event;
+}
+
+/**
+ * Returns the ID of the document a mutation targets.
+ * @param mutation - The mutation, in the Content Lake mutation format.
+ * @returns The document ID, or an empty string if the mutation has none.
+ */
+function getMutationId(mutation: Record<string, any>): string {
+  const [operation] = Object.values(mutation);
+  return operation?._id ?? operation?.id ?? '';
+}
+
+/**
+ * Encodes the mendoza operations that turn one object into another, operating on the current output object.
+ * @param left - The object before the change.
+ * @param right - The object after the change.
+ * @returns The mendoza operations.
+ */
+function diffObject(left: Record<string, any>, right: Record<string, any>): unknown[] {
+  // Fields of the input are addressed by their index in sorted key order
+  const leftKeys = Object.keys(left).sort();
+  const operations: unknown[] = [];
+  leftKeys.forEach((key, index) => {
+    if (!(key in right)) {
+      operations.push(OP_OBJECT_DELETE_FIELD, index);
+    }
+  });
+  for (const [key, value] of Object.entries(right)) {
+    if (key in left) {
+      if (isEqual(left[key], value)) {
+        continue;
+      }
+      if (isPlainObject(left[key]) && isPlainObject(value)) {
+        operations.push(
+          OP_PUSH_FIELD_COPY,
+          leftKeys.indexOf(key),
+          ...diffObject(left[key], value),
+          OP_RETURN_INTO_OBJECT_SAME_KEY_POP
+        );
+        continue;
+      }
+    }
+    operations.push(OP_OBJECT_SET_FIELD_VALUE, value, key);
+  }
+  return operations;
+}
+
+/**
+ * Checks whether a value is a plain (non-array) object.
+ * @param value - The value to check.
+ * @returns True if the value is a plain object.
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether two JSON values are deeply equal.
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns True if the values are equal.
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Parses an optional ISO 8601 timestamp.
+ * @param timestamp - The timestamp, if any.
+ * @returns The time in milliseconds, or undefined if no timestamp was given.
+ * @throws Error if the timestamp is not valid.
+ */
+function parseTime(timestamp: string | undefined): number | undefined {
+  if (timestamp === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(timestamp);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid timestamp "${timestamp}".`);
+  }
+  return time;
+}
@@ -0,0 +1,191 @@
+/**
+ * @remarks
+ * Schema-aware validation for the local Sanity client. The configured schema is compiled with `@sanity/schema`
+ * through the Studio's `createSchema`, and documents are checked with the Studio's own `validateDocument`,
+ * so the markers match what editors would see. The `sanity` package is only loaded once validation is used.
+ */
+
+import type { SanityClient } from '@sanity/client';
+import type { SchemaValidationProblemPath } from '@sanity/types';
+import type * as Sanity from 'sanity';
+import { LocalSchemaConfig, PathSegment, SanityDocument, ValidationMarker } from './localSanityTypes';
+
+/**
+ * A schema compiled by `createSchema`.
+ */
+type CompiledSchema = ReturnType<typeof Sanity.createSchema>;
+
+/**
+ * Options for the document validator.
+ */
+export interface LocalDocumentValidatorOptions {
+  /**
+   * The schema to validate against.
+   */
+  schema: LocalSchemaConfig;
+
+  /**
+   * Returns the client custom validation rules query through, e.g. for `Rule.custom` or unique slugs.
+   */
+  getClient: () => SanityClient;
+
+  /**
+   * Checks whether a referenced document exists, for reference validation.
+   */
+  getDocumentExists: (id: string) => Promise<boolean>;
+}
+
+/**
+ * Validates documents against a schema with the Studio's validation rules.
+ */
+export class LocalDocumentValidator {
+  /**
+   * The loaded `sanity` package and compiled schema, once compilation has started.
+   */
+  private compiled?: Promise<{ sanity: typeof Sanity; schema: CompiledSchema }>;
+
+  /**
+   * Creates an instance of LocalDocumentValidator. The schema is compiled on first use.
+   * @param options - The validator options.
+   */
+  constructor(private options: LocalDocumentValidatorOptions) {}
+
+  /**
+   * Validates a document.
+   * @param document - The document to validate.
+   * @returns A promise that resolves with the validation markers, empty if the document is valid.
+   *   A document whose `_type` is not in the schema gets a single error marker.
+   * @throws Error if the schema itself is invalid.
+   */
+  async validate(document: SanityDocument): Promise<ValidationMarker[]> {
+    const { sanity, schema } = await this.compile();
+    if (!schema.get(document._type)) {
+      return [{ level: 'error', message: `Unknown document type "${document._type}"`, path: ['_type'] }];
+    }
+    const markers = await withTimerWindow(() =>
+      sanity.validateDocument({
+        // Local documents may lack a `_rev` before they are first written
+        document: document as Sanity.ValidateDocumentOptions['document'],
+        // Without an i18n source, validation messages fall back to the Studio's built-in English strings
+        workspace: { schema } as unknown as Sanity.Workspace,
+        getClient: () => this.options.getClient(),
+        getDocumentExists: ({ id }) => this.options.getDocumentExists(id),
+        environment: 'cli',
+      })
+    );
+    return markers.map(({ level, message, path }) => ({ level, message, path: path as PathSegment[] }));
+  }
+
+  /**
+   * Loads the `sanity` package and compiles the schema, once.
+   * @returns A promise that resolves with the package and the compiled schema.
+   * @throws Error if the schema has errors, listing them.
+   */
+  private compile(): Promise<{ sanity: typeof Sanity; schema: CompiledSchema }> {
+    if (!this.compiled) {
+      this.compiled = Promise.all([importSanity(), import('@sanity/schema/_internal')]).then(
+        ([sanity, { groupProblems, validateSchema }]) => {
+          const { name = 'default', types } = this.options.schema;
+          // `createSchema` compiles an empty schema if there are errors, so check for them first
+          const problems = groupProblems(validateSchema(types).getTypes()).flatMap((group) =>
+            group.problems
+              .filter((problem) => problem.severity === 'error')
+              .map((problem) => `${formatSchemaPath(group.path)}: ${problem.message}`)
+          );
+          if (problems.length > 0) {
+            throw new Error(`Invalid schema:\n${problems.join('\n')}`);
+          }
+          const schema = sanity.createSchema({ name, types });
+          return { sanity, schema };
+        }
+      );
+    }
+    return this.compiled;
+  }
+}
+
+/**
+ * Loads the `sanity` package, a dependency of the workspace.
+ * @returns A promise that resolves with the package.
+ * @throws Error if the package cannot be loaded.
+ */
+async function importSanity(): Promise<typeof Sanity> {
+  try {
+    return await import('sanity');
+  } catch (error) {
+    throw new Error(`Schema validation needs the \`sanity\` package: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Number of validations running with the `window` provided by `withTimerWindow`.
+ */
+let timerWindowUsers = 0;
+
+/**
+ * Runs a validation outside the browser. The Studio's validation waits for idle time with `window.setTimeout`
+ * when there is no `window.requestIdleCallback`, so a `window` with only the timer functions is provided while
+ * validations run, and removed once none is left. In the browser, the validation is run as is.
+ * @param validate - Runs the validation.
+ * @returns A promise that resolves with the result of the validation.
+ */
+async function withTimerWindow<T>(validate: () => Promise<T>): Promise<T> {
+  const global = globalThis as { window?: unknown };
+  if (timerWindowUsers === 0 && global.window !== undefined) {
+    return validate();
+  }
+  if (timerWindowUsers++ === 0) {
+    global.window = { setTimeout, clearTimeout };
+  }
+  try {
+    return await validate();
+  } finally {
+    if (--timerWindowUsers === 0) {
+      delete global.window;
+    }
+  }
+}
+
+/**
+ * Checks whether any of the markers is an error.
+ * @param markers - The validation markers.
+ * @returns True if the markers contain an error.
+ */
+export function hasValidationErrors(markers: ValidationMarker[]): boolean {
+  return markers.some((marker) => marker.level === 'error');
+}
+
+/**
+ * Formats validation markers for error messages and logs, one `path: message` per marker.
+ * @param markers - The validation markers.
+ * @returns The formatted markers, separated by `; `.
+ */
+export function formatValidationMarkers(markers: ValidationMarker[]): string {
+  return markers.map((marker) => `${pathToString(marker.path) || '(document)'}: ${marker.message}`).join('; ');
+}
+
+/**
+ * Formats a document path the way the Studio does, e.g. `body[_key=="abc"].children[0]`.
+ * @param path - The path.
+ * @returns The formatted path, or an empty string for the document itself.
+ */
+export function pathToString(path: PathSegment[]): string {
+  return path.reduce<string>((target, segment, index) => {
+    if (typeof segment === 'number') {
+      return `${target}[${segment}]`;
+    }
+    if (typeof segment === 'string') {
+      return `${target}${index === 0 ? '' : '.'}${segment}`;
+    }
+    return `${target}[_key=="${segment._key}"]`;
+  }, '');
+}
+
+/**
+ * Formats the path of a schema problem, e.g. `post.author`.
+ * @param path - The problem path, as reported by `@sanity/schema`.
+ * @returns The type and field names along the path, joined by dots.
+ */
+function formatSchemaPath(path: SchemaValidationProblemPath): string {
+  return path.map((segment) => segment.name ?? '?').join('.');
+}
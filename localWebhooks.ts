@@ -0,0 +1,404 @@
+/**
+ * @remarks
+ * GROQ-powered webhooks for local datasets. After every committed transaction, each registered webhook whose
+ * filter matches a changed document is sent the projected document, with the same headers and signature as
+ * hosted webhooks. Failed deliveries are retried with exponential backoff, and every attempt is logged.
+ */
+
+import { evaluate, ExprNode } from 'groq-js';
+import {
+  DocumentMutationEvent,
+  LocalClock,
+  LocalIdGenerator,
+  LocalWebhook,
+  LocalWebhookAttempt,
+  LocalWebhookDefinition,
+  LocalWebhookMessage,
+  LocalWebhookRetryOptions,
+  WebhookOperation,
+} from './localSanityTypes';
+import { EventEmitter } from './localEventEmitter';
+import { generateRandomId, systemClock } from './inMemoryStore';
+import { LocalClientError } from './localErrors';
+import { parseGroqQuery } from './localGroq';
+import { isDraftId, isVersionId } from './localPerspectives';
+
+/**
+ * The API version of webhooks registered without one, the first with GROQ-powered webhooks.
+ */
+const DEFAULT_API_VERSION = 'v2021-03-25';
+
+/**
+ * The retry policy of webhooks registered without one.
+ */
+const DEFAULT_RETRY: Required<LocalWebhookRetryOptions> = { maxAttempts: 5, initialDelayMs: 1000 };
+
+/**
+ * Time a delivery attempt may take before it is aborted.
+ */
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Maximum length of the response bodies kept in the attempt log.
+ */
+const MAX_RESULT_BODY_LENGTH = 1000;
+
+/**
+ * A registered webhook, with its parsed GROQ and its delivery log.
+ */
+interface RegisteredWebhook {
+  hook: LocalWebhook;
+  /** The filter, as `*[filter]`. */
+  filter: ExprNode;
+  projection: ExprNode | null;
+  messages: LocalWebhookMessage[];
+  attempts: LocalWebhookAttempt[];
+}
+
+/**
+ * Signs a webhook payload like hosted webhooks do, so consumers can verify it with `@sanity/webhook`.
+ * @param payload - The request body.
+ * @param secret - The webhook's secret.
+ * @param timestamp - The time of signing, in milliseconds since the epoch.
+ * @returns A promise that resolves with the value of the `sanity-webhook-signature` header,
+ * e.g. `t=1633519811129,v1=tLa470fx...`.
+ */
+export async function signWebhookPayload(payload: string, secret: string, timestamp: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await globalThis.crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = new Uint8Array(await globalThis.crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payload}`)));
+  const signature = btoa(String.fromCharCode(...digest))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * The webhooks of one dataset, triggered by the dataset's committed changes.
+ */
+export class LocalWebhooks {
+  /**
+   * Registered webhooks, keyed by ID, in the order they were registered.
+   */
+  private webhooks = new Map<string, RegisteredWebhook>();
+
+  /**
+   * Triggers and deliveries that have not settled yet.
+   */
+  private pending = new Set<Promise<void>>();
+
+  /**
+   * Subscribed to the dataset's changes while any webhook is registered.
+   */
+  private listener = (event: DocumentMutationEvent) => this.track(this.trigger(event));
+
+  /**
+   * Creates an instance of LocalWebhooks.
+   * @param projectId - ID of the dataset's project.
+   * @param dataset - Name of the dataset.
+   * @param events - Emits the dataset's committed changes.
+   * @param clock - Optional clock for timestamps of webhooks, messages and attempts. Defaults to the system clock.
+   * @param generateId - Optional generator of webhook, message and attempt IDs. Defaults to random IDs.
+   */
+  constructor(
+    private readonly projectId: string,
+    private readonly dataset: string,
+    private readonly events: EventEmitter,
+    private readonly clock: LocalClock = systemClock,
+    private readonly generateId: LocalIdGenerator = generateRandomId
+  ) {}
+
+  /**
+   * Registers a webhook.
+   * @param definition - The webhook.
+   * @returns The registered webhook.
+   * @throws LocalClientError if the name or URL is missing or invalid.
+   * @throws LocalQueryParseError if the filter or projection is not valid GROQ.
+   */
+  create(definition: LocalWebhookDefinition): LocalWebhook {
+    if (!definition.name) {
+      throw new LocalClientError(400, { type: 'validationError', description: 'Webhook name is required' });
+    }
+    if (!URL.canParse(definition.url) || !/^https?:$/.test(new URL(definition.url).protocol)) {
+      throw new LocalClientError(400, {
+        type: 'validationError',
+        description: `Webhook URL "${definition.url}" is not a valid HTTP(S) URL`,
+      });
+    }
+    const filter = parseGroqQuery(`*[${definition.filter || 'true'}]`, {}, 'delta');
+    const projection = definition.projection ? parseGroqQuery(definition.projection, {}, 'delta') : null;
+
+    const hook: LocalWebhook = {
+      id: this.generateId('webhook'),
+      type: 'document',
+      name: definition.name,
+      projectId: this.projectId,
+      dataset: this.dataset,
+      url: definition.url,
+      rule: {
+        on: definition.on ?? ['create', 'update', 'delete'],
+        filter: definition.filter || null,
+        projection: definition.projection || null,
+      },
+      apiVersion: definition.apiVersion ?? DEFAULT_API_VERSION,
+      httpMethod: definition.httpMethod ?? 'POST',
+      includeDrafts: definition.includeDrafts ?? false,
+      headers: { ...definition.headers },
+      secret: definition.secret || null,
+      createdAt: this.clock().toISOString(),
+      isDisabled: definition.isDisabled ?? false,
+      description: definition.description ?? null,
+      retry: { ...DEFAULT_RETRY, ...definition.retry },
+    };
+    if (this.webhooks.size === 0) {
+      this.events.on('mutation', this.listener);
+    }
+    this.webhooks.set(hook.id, { hook, filter, projection, messages: [], attempts: [] });
+    return structuredClone(hook);
+  }
+
+  /**
+   * Lists the registered webhooks.
+   * @returns The webhooks, in the order they were registered.
+   */
+  list(): LocalWebhook[] {
+    return Array.from(this.webhooks.values(), ({ hook }) => structuredClone(hook));
+  }
+
+  /**
+   * Unregisters a webhook. Pending retries of its messages are dropped.
+   * @param id - The webhook ID.
+   * @throws LocalClientError if the webhook does not exist.
+   */
+  delete(id: string): void {
+    this.requireWebhook(id);
+    this.webhooks.delete(id);
+    if (this.webhooks.size === 0) {
+      this.events.off('mutation', this.listener);
+    }
+  }
+
+  /**
+   * Unregisters every webhook, e.g. when the dataset is deleted.
+   */
+  clear(): void {
+    this.webhooks.clear();
+    this.events.off('mutation', this.listener);
+  }
+
+  /**
+   * Lists the messages a webhook was triggered with.
+   * @param id - The webhook ID.
+   * @returns The messages, oldest first.
+   * @throws LocalClientError if the webhook does not exist.
+   */
+  getMessages(id: string): LocalWebhookMessage[] {
+    return structuredClone(this.requireWebhook(id).messages);
+  }
+
+  /**
+   * Lists the delivery attempts of a webhook.
+   * @param id - The webhook ID.
+   * @returns The attempts, oldest first.
+   * @throws LocalClientError if the webhook does not exist.
+   */
+  getAttempts(id: string): LocalWebhookAttempt[] {
+    return structuredClone(this.requireWebhook(id).attempts);
+  }
+
+  /**
+   * Waits until every triggered message has been delivered, or has failed its last attempt.
+   * @returns A promise that resolves once no delivery is pending.
+   */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  /**
+   * Retrieves a webhook that must exist.
+   * @param id - The webhook ID.
+   * @returns The webhook.
+   * @throws LocalClientError if the webhook does not exist.
+   */
+  private requireWebhook(id: string): RegisteredWebhook {
+    const webhook = this.webhooks.get(id);
+    if (!webhook) {
+      throw new LocalClientError(404, { type: 'notFound', description: `Webhook "${id}" not found` });
+    }
+    return webhook;
+  }
+
+  /**
+   * Keeps track of a trigger or delivery until it settles, for `flush`.
+   * @param work - The trigger or delivery.
+   */
+  private track(work: Promise<void>): void {
+    const tracked: Promise<void> = work
+      .catch((error) => console.error('Error delivering webhook:', error))
+      .finally(() => this.pending.delete(tracked));
+    this.pending.add(tracked);
+  }
+
+  /**
+   * Creates a message for every webhook a committed document change triggers, and starts delivering it.
+   * @param event - The document change.
+   * @returns A promise that resolves once the messages are created.
+   */
+  private async trigger(event: DocumentMutationEvent): Promise<void> {
+    const operation: WebhookOperation = !event.before ? 'create' : event.after ? 'update' : 'delete';
+    // Deletes are matched and projected against the document as it was
+    const document = event.after ?? event.before;
+    if (!document) {
+      return;
+    }
+    const delta = { before: event.before ?? undefined, after: event.after ?? undefined };
+    const isDraft = isDraftId(event.documentId) || isVersionId(event.documentId);
+
+    for (const webhook of Array.from(this.webhooks.values())) {
+      const { hook } = webhook;
+      if (hook.isDisabled || !hook.rule.on.includes(operation) || (isDraft && !hook.includeDrafts)) {
+        continue;
+      }
+      const matched = await (await evaluate(webhook.filter, { ...delta, dataset: [document] })).get();
+      if (!Array.isArray(matched) || matched.length === 0) {
+        continue;
+      }
+      const body = webhook.projection
+        ? await (await evaluate(webhook.projection, { ...delta, root: document })).get()
+        : document;
+
+      const message: LocalWebhookMessage = {
+        id: this.generateId('webhookMessage'),
+        hookId: hook.id,
+        projectId: this.projectId,
+        dataset: this.dataset,
+        documentId: event.documentId,
+        transactionId: event.transactionId,
+        operation,
+        payload: JSON.stringify(body ?? null),
+        status: 'queued',
+        failureCount: 0,
+        resultCode: null,
+        createdAt: this.clock().toISOString(),
+        updatedAt: null,
+      };
+      webhook.messages.push(message);
+      this.track(this.deliver(webhook, message, event));
+    }
+  }
+
+  /**
+   * Delivers a message, retrying with exponential backoff while attempts fail with a retryable error.
+   * @param webhook - The webhook.
+   * @param message - The message.
+   * @param event - The document change the message was triggered by.
+   * @returns A promise that resolves once the message is delivered, or has failed its last attempt.
+   */
+  private async deliver(webhook: RegisteredWebhook, message: LocalWebhookMessage, event: DocumentMutationEvent): Promise<void> {
+    const { maxAttempts, initialDelayMs } = webhook.hook.retry;
+    for (let attemptNumber = 1; this.webhooks.has(webhook.hook.id); attemptNumber++) {
+      message.status = 'sending';
+      const attempt = await this.send(webhook, message, event);
+      message.resultCode = attempt.resultCode || null;
+      message.updatedAt = attempt.updatedAt;
+      if (!attempt.isFailure) {
+        message.status = 'success';
+        return;
+      }
+      message.failureCount++;
+      if (attemptNumber >= maxAttempts || !isRetryable(attempt)) {
+        message.status = 'failure';
+        return;
+      }
+      message.status = 'queued';
+      await new Promise((resolve) => setTimeout(resolve, initialDelayMs * 2 ** (attemptNumber - 1)));
+    }
+  }
+
+  /**
+   * Makes a single delivery attempt, and logs it.
+   * @param webhook - The webhook.
+   * @param message - The message.
+   * @param event - The document change the message was triggered by.
+   * @returns A promise that resolves with the attempt once the request has settled.
+   */
+  private async send(
+    webhook: RegisteredWebhook,
+    message: LocalWebhookMessage,
+    event: DocumentMutationEvent
+  ): Promise<LocalWebhookAttempt> {
+    const { hook } = webhook;
+    const startedAt = this.clock().getTime();
+    const attempt: LocalWebhookAttempt = {
+      id: this.generateId('webhookAttempt'),
+      projectId: this.projectId,
+      hookId: hook.id,
+      messageId: message.id,
+      inProgress: true,
+      duration: null,
+      isFailure: false,
+      failureReason: '',
+      resultCode: 0,
+      resultBody: '',
+      createdAt: new Date(startedAt).toISOString(),
+      updatedAt: null,
+    };
+    webhook.attempts.push(attempt);
+
+    const headers: Record<string, string> = {
+      ...hook.headers,
+      'content-type': 'application/json',
+      'idempotency-key': message.id,
+      'sanity-project-id': this.projectId,
+      'sanity-dataset': this.dataset,
+      'sanity-document-id': event.documentId,
+      'sanity-transaction-id': event.transactionId,
+      'sanity-transaction-time': event.timestamp,
+      'sanity-operation': message.operation,
+      'sanity-webhook-id': hook.id,
+    };
+    if (hook.secret) {
+      headers['sanity-webhook-signature'] = await signWebhookPayload(message.payload, hook.secret, startedAt);
+    }
+
+    try {
+      const response = await fetch(hook.url, {
+        method: hook.httpMethod,
+        headers,
+        body: hook.httpMethod === 'GET' ? undefined : message.payload,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      attempt.resultCode = response.status;
+      attempt.resultBody = (await response.text()).slice(0, MAX_RESULT_BODY_LENGTH);
+      attempt.isFailure = !response.ok;
+      attempt.failureReason = response.ok ? '' : 'http';
+    } catch (error) {
+      attempt.isFailure = true;
+      attempt.failureReason = (error as Error).name === 'TimeoutError' ? 'timeout' : 'network';
+      attempt.resultBody = (error as Error).message;
+    }
+    attempt.inProgress = false;
+    const finishedAt = this.clock();
+    attempt.duration = finishedAt.getTime() - startedAt;
+    attempt.updatedAt = finishedAt.toISOString();
+    return attempt;
+  }
+}
+
+/**
+ * Checks whether a failed attempt is worth retrying: network errors, timeouts, rate limits and server errors are.
+ * @param attempt - The failed attempt.
+ * @returns True if the message should be retried.
+ */
+function isRetryable(attempt: LocalWebhookAttempt): boolean {
+  return attempt.failureReason !== 'http' || attempt.resultCode === 429 || attempt.resultCode >= 500;
+}
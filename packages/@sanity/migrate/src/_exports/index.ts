@@ -1,10 +1,20 @@
 export * from '../defineMigration'
+export * from '../destinations/writeExportArchive'
 export * from '../it-utils'
+export * from '../ledger/migrationLedger'
 export * from '../mutations'
+export * from '../revert/revert'
+export {
+  readRevertArchive,
+  readRevertManifest,
+  type RevertArchiveEntry,
+  type RevertArchiveManifest,
+} from '../revert/revertArchive'
 export * from '../runner/collectMigrationMutations'
 export {DEFAULT_MUTATION_CONCURRENCY, MAX_MUTATION_CONCURRENCY} from '../runner/constants'
 export * from '../runner/dryRun'
 export * from '../runner/run'
+export * from '../runner/runOffline'
 export {fromDocuments} from '../sources/fromDocuments'
 export {fromExportArchive} from '../sources/fromExportArchive'
 export {fromExportEndpoint} from '../sources/fromExportEndpoint'
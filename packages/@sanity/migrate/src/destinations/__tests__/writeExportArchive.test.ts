@@ -0,0 +1,108 @@
+import {mkdtemp, rm} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import path from 'node:path'
+
+import {afterEach, beforeEach, expect, test} from 'vitest'
+
+import {maybeDecompress} from '../../fs-webstream/maybeDecompress'
+import {readFileAsWebStream} from '../../fs-webstream/readFileAsWebStream'
+import {decodeText, parse, toArray} from '../../it-utils'
+import {fromExportArchive} from '../../sources/fromExportArchive'
+import {untar} from '../../tar-webstream/untar'
+import {streamToAsyncIterator} from '../../utils/streamToAsyncIterator'
+import {writeExportArchive} from '../writeExportArchive'
+
+const source = `${__dirname}/../../sources/__test__/fixtures/example.tar.gz`
+
+async function* fromArray<T>(values: T[]) {
+  yield* values
+}
+
+async function listFiles(file: string) {
+  const files: Record<string, number> = {}
+  for await (const [header, entry] of streamToAsyncIterator(
+    untar(await maybeDecompress(readFileAsWebStream(file))),
+  )) {
+    let size = 0
+    for await (const chunk of streamToAsyncIterator(entry)) {
+      size += chunk.length
+    }
+    files[header.name] = size
+  }
+  return files
+}
+
+let dir: string
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'export-archive-'))
+})
+afterEach(async () => {
+  await rm(dir, {recursive: true, force: true})
+})
+
+test('writes the documents of the export with the mutations applied', async () => {
+  const output = path.join(dir, 'migrated.tar.gz')
+  const results = await writeExportArchive(
+    fromArray([
+      [{patch: {id: 'e749feed-4a9e-4175-b130-913f28436f62', set: {title: 'Migrated'}}}],
+      {
+        transactionId: 'tx2',
+        mutations: [
+          {delete: {id: '12274d53-4d6d-4aa4-9ace-d15da7ba7c10'}},
+          {create: {_id: 'author-1', _type: 'author', name: 'Ada'}},
+        ],
+      },
+    ]),
+    {sourcePath: source, outputPath: output},
+  )
+
+  expect(results).toEqual([
+    {
+      transactionId: expect.any(String),
+      documentIds: ['e749feed-4a9e-4175-b130-913f28436f62'],
+      results: [{id: 'e749feed-4a9e-4175-b130-913f28436f62', operation: 'update'}],
+    },
+    {
+      transactionId: 'tx2',
+      documentIds: ['12274d53-4d6d-4aa4-9ace-d15da7ba7c10', 'author-1'],
+      results: [
+        {id: '12274d53-4d6d-4aa4-9ace-d15da7ba7c10', operation: 'delete'},
+        {id: 'author-1', operation: 'create'},
+      ],
+    },
+  ])
+
+  const documents = await toArray(
+    parse<{_id: string; _rev: string; title?: string}>(decodeText(fromExportArchive(output))),
+  )
+  expect(documents).toEqual([
+    expect.objectContaining({
+      _id: 'e749feed-4a9e-4175-b130-913f28436f62',
+      _rev: results[0].transactionId,
+      title: 'Migrated',
+    }),
+    expect.objectContaining({_id: 'author-1', _type: 'author', _rev: 'tx2', name: 'Ada'}),
+  ])
+})
+
+test('copies the assets of the export', async () => {
+  const output = path.join(dir, 'migrated.tar.gz')
+  await writeExportArchive(fromArray([]), {sourcePath: source, outputPath: output})
+
+  expect(await listFiles(output)).toEqual(await listFiles(source))
+})
+
+test('does not support mutations by query', async () => {
+  await expect(
+    writeExportArchive(fromArray([[{delete: {query: '*[_type == "post"]'}}]]), {
+      sourcePath: source,
+      outputPath: path.join(dir, 'migrated.tar.gz'),
+    }),
+  ).rejects.toThrow('Mutations by query can not be applied to an export')
+})
+
+test('does not overwrite the source export', async () => {
+  await expect(
+    writeExportArchive(fromArray([]), {sourcePath: source, outputPath: source}),
+  ).rejects.toThrow('The migrated export can not be written to the export it is read from')
+})
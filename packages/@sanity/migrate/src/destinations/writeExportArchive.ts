@@ -0,0 +1,143 @@
+import {open, rm, stat} from 'node:fs/promises'
+import path from 'node:path'
+
+import {type MultipleMutationResult, type Mutation as SanityMutation} from '@sanity/client'
+import {type Doc} from '@sanity/mutator'
+import {type SanityDocument} from '@sanity/types'
+
+import {maybeDecompress} from '../fs-webstream/maybeDecompress'
+import {readFileAsWebStream} from '../fs-webstream/readFileAsWebStream'
+import {writeWebStreamToFile} from '../fs-webstream/writeWebStreamToFile'
+import {decodeText} from '../it-utils/decodeText'
+import {parse} from '../it-utils/ndjson'
+import {createBufferFile} from '../runner/utils/getBufferFile'
+import {
+  applyPending,
+  type PendingMutations,
+  queueTransaction,
+} from '../runner/utils/pendingMutations'
+import {type TransactionPayload} from '../runner/utils/toSanityMutations'
+import {safeJsonParser} from '../sources/fromExportEndpoint'
+import {drain} from '../tar-webstream/drain'
+import {tar, type TarEntry} from '../tar-webstream/tar'
+import {untar} from '../tar-webstream/untar'
+import {streamToAsyncIterator} from '../utils/streamToAsyncIterator'
+
+const DOCUMENTS_FILE = 'data.ndjson'
+
+/**
+ * @public
+ */
+export interface ExportArchiveDestinationOptions {
+  /**
+   * Path to the dataset export the migrated documents were read from. Its documents are written to the output
+   * with the mutations applied, and all other files, like assets, are copied as they are
+   */
+  sourcePath: string
+
+  /**
+   * Path to write the migrated export to
+   */
+  outputPath: string
+}
+
+/**
+ * Applies mutations to the documents of a dataset export and writes the result to a new export, without touching
+ * any live dataset. Each item of `transactions` is applied as one transaction, and the `_rev` of a changed document
+ * is the ID of the last transaction that changed it.
+ *
+ * All mutations are collected before the export is written, so they are kept in memory. Patches and deletes by
+ * query are not supported, as there is no dataset to run the query against.
+ *
+ * @param transactions - The mutations to apply, e.g. from `toSanityMutations`
+ * @param options - Where to read the export from, and where to write the migrated export to
+ * @returns A result for each transaction, like the ones returned by the mutation endpoint
+ * @public
+ */
+export async function writeExportArchive(
+  transactions: AsyncIterableIterator<SanityMutation[] | TransactionPayload>,
+  options: ExportArchiveDestinationOptions,
+): Promise<MultipleMutationResult[]> {
+  if (path.resolve(options.sourcePath) === path.resolve(options.outputPath)) {
+    throw new Error('The migrated export can not be written to the export it is read from')
+  }
+
+  const pending: PendingMutations = new Map()
+  const results: MultipleMutationResult[] = []
+
+  for await (const transaction of transactions) {
+    results.push(queueTransaction(pending, transaction))
+  }
+
+  await writeWebStreamToFile(
+    tar(migrateEntries(options.sourcePath, pending)).pipeThrough(new CompressionStream('gzip')),
+    options.outputPath,
+  )
+
+  return results
+}
+
+/**
+ * Reads the entries of the source export, replacing its documents with the migrated ones
+ */
+async function* migrateEntries(
+  sourcePath: string,
+  pending: PendingMutations,
+): AsyncIterableIterator<TarEntry> {
+  const timestamp = new Date().toISOString()
+  let foundDocuments = false
+
+  for await (const [header, entry] of streamToAsyncIterator(
+    untar(await maybeDecompress(readFileAsWebStream(sourcePath))),
+  )) {
+    if (header.type !== 'file') {
+      // directories are implied by the paths of the files in them
+      await drain(entry)
+      continue
+    }
+
+    if (path.posix.basename(header.name) !== DOCUMENTS_FILE) {
+      yield {
+        name: header.name,
+        size: header.size ?? 0,
+        mtime: header.mtime ?? undefined,
+        content: () => entry,
+      }
+      continue
+    }
+
+    foundDocuments = true
+    const documentsFile = await createBufferFile()
+    const documentsHandle = await open(documentsFile, 'w')
+    const encoder = new TextEncoder()
+    const write = (document: Doc | null) =>
+      document && documentsHandle.write(encoder.encode(`${JSON.stringify(document)}\n`))
+
+    try {
+      for await (const document of parse<SanityDocument>(decodeText(streamToAsyncIterator(entry)), {
+        parse: safeJsonParser,
+      })) {
+        await write(applyPending(document, pending, timestamp))
+      }
+      // documents created by the migration
+      for (const id of [...pending.keys()]) {
+        await write(applyPending(null, pending, timestamp, id))
+      }
+    } finally {
+      await documentsHandle.close()
+    }
+
+    yield {
+      name: header.name,
+      size: (await stat(documentsFile)).size,
+      mtime: header.mtime ?? undefined,
+      content: () => readFileAsWebStream(documentsFile),
+    }
+    // the content has been written to the archive once the next entry is pulled
+    await rm(path.dirname(documentsFile), {recursive: true, force: true})
+  }
+
+  if (!foundDocuments) {
+    throw new Error(`${sourcePath} is not a dataset export: it has no ${DOCUMENTS_FILE}`)
+  }
+}
@@ -0,0 +1,27 @@
+import {open} from 'node:fs/promises'
+
+import baseDebug from '../debug'
+import {streamToAsyncIterator} from '../utils/streamToAsyncIterator'
+
+const debug = baseDebug.extend('writeWebStreamToFile')
+
+/**
+ * Drains a readable stream into a file, replacing the file if it exists
+ *
+ * @param stream - The stream to write
+ * @param filename - The file to write to
+ */
+export async function writeWebStreamToFile(
+  stream: ReadableStream<Uint8Array>,
+  filename: string,
+): Promise<void> {
+  debug('Writing readable stream to', filename)
+  const fileHandle = await open(filename, 'w')
+  try {
+    for await (const chunk of streamToAsyncIterator(stream)) {
+      await fileHandle.write(chunk)
+    }
+  } finally {
+    await fileHandle.close()
+  }
+}
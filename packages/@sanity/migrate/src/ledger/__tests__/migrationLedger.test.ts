@@ -0,0 +1,81 @@
+import {describe, expect, it} from 'vitest'
+
+import {
+  getLedgerDocumentId,
+  getMigrationStatus,
+  type MigrationLedgerEntry,
+} from '../migrationLedger'
+
+function entry(migrationId: string, checksum: string): MigrationLedgerEntry {
+  return {
+    migrationId,
+    title: migrationId,
+    checksum,
+    appliedAt: '2024-02-16T14:13:59.000Z',
+    documents: 10,
+    mutations: 4,
+    transactions: 1,
+  }
+}
+
+describe('#getMigrationStatus', () => {
+  it('marks migrations without a ledger entry as pending', () => {
+    expect(getMigrationStatus([{id: 'add-slugs', checksum: 'a'}], [])).toEqual([
+      {id: 'add-slugs', state: 'pending'},
+    ])
+  })
+
+  it('marks migrations with a matching checksum as applied', () => {
+    const applied = entry('add-slugs', 'a')
+    expect(getMigrationStatus([{id: 'add-slugs', checksum: 'a'}], [applied])).toEqual([
+      {id: 'add-slugs', state: 'applied', entry: applied},
+    ])
+  })
+
+  it('marks migrations whose source changed since they were applied', () => {
+    const applied = entry('add-slugs', 'a')
+    expect(getMigrationStatus([{id: 'add-slugs', checksum: 'b'}], [applied])).toEqual([
+      {id: 'add-slugs', state: 'changed', entry: applied},
+    ])
+  })
+
+  it('reports applied migrations that are no longer on disk', () => {
+    const applied = entry('removed', 'a')
+    expect(getMigrationStatus([], [applied])).toEqual([
+      {id: 'removed', state: 'missing', entry: applied},
+    ])
+  })
+
+  it('orders migrations by ID', () => {
+    const statuses = getMigrationStatus(
+      [
+        {id: '002-rename-field', checksum: 'b'},
+        {id: '001-add-slugs', checksum: 'a'},
+        {id: '003-convert-body', checksum: 'c'},
+      ],
+      [entry('001-add-slugs', 'a')],
+    )
+    expect(statuses.map(({id, state}) => [id, state])).toEqual([
+      ['001-add-slugs', 'applied'],
+      ['002-rename-field', 'pending'],
+      ['003-convert-body', 'pending'],
+    ])
+  })
+})
+
+describe('#getLedgerDocumentId', () => {
+  it('returns a private document ID', () => {
+    expect(getLedgerDocumentId('add-slugs')).toBe('sanity.migrations.add-slugs')
+  })
+
+  it('escapes characters not allowed in document IDs', () => {
+    expect(getLedgerDocumentId('add slugs (v2)')).toBe(
+      'sanity.migrations.add_0020slugs_0020_0028v2_0029',
+    )
+  })
+
+  it('returns different IDs for different migrations', () => {
+    expect(getLedgerDocumentId('add.slugs')).toBe('sanity.migrations.add_002eslugs')
+    expect(getLedgerDocumentId('add_slugs')).toBe('sanity.migrations.add_005fslugs')
+  })
+})
@@ -0,0 +1,196 @@
+import {createClient, type SanityClient} from '@sanity/client'
+
+import {type APIConfig} from '../types'
+
+/**
+ * Document type of the ledger entries
+ * @internal
+ */
+export const MIGRATION_LEDGER_TYPE = 'sanity.migrationLedgerEntry'
+
+/**
+ * Prefix of the ledger entry document IDs. The dot makes the documents private, so they are only
+ * readable with a token and don't show up in the Studio
+ */
+const MIGRATION_LEDGER_ID_PREFIX = 'sanity.migrations.'
+
+/**
+ * @public
+ *
+ * A record of a migration that has been applied to a dataset
+ */
+export interface MigrationLedgerEntry {
+  /**
+   * ID of the migration, e.g. the name of its directory in the `migrations` folder
+   */
+  migrationId: string
+
+  /**
+   * Title of the migration at the time it was applied
+   */
+  title: string
+
+  /**
+   * Checksum of the migration's source at the time it was applied
+   */
+  checksum: string
+
+  /**
+   * ISO 8601 timestamp of when the migration completed
+   */
+  appliedAt: string
+
+  /**
+   * Number of documents processed
+   */
+  documents: number
+
+  /**
+   * Number of mutations generated
+   */
+  mutations: number
+
+  /**
+   * Number of transactions committed
+   */
+  transactions: number
+}
+
+/**
+ * @public
+ *
+ * A migration found on disk, as compared against the ledger
+ */
+export interface LocalMigration {
+  /**
+   * ID of the migration
+   */
+  id: string
+
+  /**
+   * Checksum of the migration's current source
+   */
+  checksum: string
+}
+
+/**
+ * @public
+ *
+ * Whether a migration has been applied to a dataset:
+ * - `applied`: recorded in the ledger, with an unchanged source
+ * - `pending`: not recorded in the ledger
+ * - `changed`: recorded in the ledger, but its source has changed since
+ * - `missing`: recorded in the ledger, but not found on disk
+ */
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing'
+
+/**
+ * @public
+ *
+ * The state of a migration, along with its ledger entry if it has one
+ */
+export interface MigrationStatus {
+  id: string
+  state: MigrationState
+  entry?: MigrationLedgerEntry
+}
+
+/**
+ * Returns the ID of the ledger document of a migration. Characters not allowed in document IDs, and `_` itself,
+ * are escaped as `_` followed by their four digit hex code, so no two migrations share a ledger document. The
+ * migration ID itself is kept as `migrationId` in the document
+ *
+ * @param migrationId - ID of the migration
+ * @returns The document ID
+ * @internal
+ */
+export function getLedgerDocumentId(migrationId: string): string {
+  return `${MIGRATION_LEDGER_ID_PREFIX}${migrationId.replace(
+    /[^a-zA-Z0-9-]/g,
+    (char) => `_${char.charCodeAt(0).toString(16).padStart(4, '0')}`,
+  )}`
+}
+
+/**
+ * Fetches the ledger of the migrations applied to a dataset
+ *
+ * @param api - API configuration of the dataset
+ * @returns The ledger entries, oldest first
+ * @public
+ */
+export async function fetchMigrationLedger(api: APIConfig): Promise<MigrationLedgerEntry[]> {
+  return createLedgerClient(api).fetch<MigrationLedgerEntry[]>(
+    `*[_type == $type] | order(appliedAt asc) {migrationId, title, checksum, appliedAt, documents, mutations, transactions}`,
+    {type: MIGRATION_LEDGER_TYPE},
+  )
+}
+
+/**
+ * Records a migration as applied to a dataset, replacing any previous record of it
+ *
+ * @param api - API configuration of the dataset
+ * @param entry - The ledger entry to record
+ * @public
+ */
+export async function recordMigration(api: APIConfig, entry: MigrationLedgerEntry): Promise<void> {
+  await createLedgerClient(api).createOrReplace({
+    ...entry,
+    _id: getLedgerDocumentId(entry.migrationId),
+    _type: MIGRATION_LEDGER_TYPE,
+  })
+}
+
+/**
+ * Removes the record of a migration from the ledger of a dataset, e.g. after it has been reverted
+ *
+ * @param api - API configuration of the dataset
+ * @param migrationId - ID of the migration
+ * @public
+ */
+export async function removeMigrationRecord(api: APIConfig, migrationId: string): Promise<void> {
+  await createLedgerClient(api).delete(getLedgerDocumentId(migrationId))
+}
+
+/**
+ * Compares the migrations on disk against the ledger of a dataset
+ *
+ * @param migrations - The migrations on disk
+ * @param ledger - The ledger of the dataset
+ * @returns The status of every migration on disk or in the ledger, ordered by ID - the order pending migrations are run in
+ * @public
+ */
+export function getMigrationStatus(
+  migrations: LocalMigration[],
+  ledger: MigrationLedgerEntry[],
+): MigrationStatus[] {
+  const entries = new Map(ledger.map((entry) => [entry.migrationId, entry]))
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const entry = entries.get(migration.id)
+    if (!entry) {
+      return {id: migration.id, state: 'pending'}
+    }
+    return {
+      id: migration.id,
+      state: entry.checksum === migration.checksum ? 'applied' : 'changed',
+      entry,
+    }
+  })
+
+  const localIds = new Set(migrations.map((migration) => migration.id))
+  for (const entry of ledger) {
+    if (!localIds.has(entry.migrationId)) {
+      statuses.push({id: entry.migrationId, state: 'missing', entry})
+    }
+  }
+
+  return statuses.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+}
+
+function createLedgerClient(api: APIConfig): SanityClient {
+  return createClient({
+    ...api,
+    useCdn: false,
+    perspective: 'raw',
+    requestTagPrefix: 'sanity.migration.ledger',
+  })
+}
@@ -0,0 +1,96 @@
+import {type SanityDocument} from '@sanity/types'
+import {describe, expect, it} from 'vitest'
+
+import {getRevertAction} from '../revert'
+
+function doc(rev: string, title: string): SanityDocument {
+  return {
+    _id: 'post-1',
+    _type: 'post',
+    _rev: rev,
+    _createdAt: '2024-02-16T14:13:59.000Z',
+    _updatedAt: '2024-02-16T14:13:59.000Z',
+    title,
+  }
+}
+
+describe('#getRevertAction', () => {
+  it('restores a document the migration changed, guarded by its revision after the migration', () => {
+    expect(
+      getRevertAction(
+        {id: 'post-1', before: doc('before', 'Old title'), after: {rev: 'after'}},
+        doc('after', 'New title'),
+      ),
+    ).toEqual({
+      type: 'restore',
+      mutations: [
+        {patch: {id: 'post-1', ifRevisionID: 'after'}},
+        {
+          createOrReplace: {
+            _id: 'post-1',
+            _type: 'post',
+            _createdAt: '2024-02-16T14:13:59.000Z',
+            title: 'Old title',
+          },
+        },
+      ],
+    })
+  })
+
+  it('deletes a document the migration created', () => {
+    expect(
+      getRevertAction({id: 'post-1', before: null, after: {rev: 'after'}}, doc('after', 'New')),
+    ).toEqual({
+      type: 'restore',
+      mutations: [{patch: {id: 'post-1', ifRevisionID: 'after'}}, {delete: {id: 'post-1'}}],
+    })
+  })
+
+  it('creates a document the migration deleted', () => {
+    expect(
+      getRevertAction({id: 'post-1', before: doc('before', 'Old'), after: null}, undefined),
+    ).toEqual({
+      type: 'restore',
+      mutations: [
+        {
+          create: {
+            _id: 'post-1',
+            _type: 'post',
+            _createdAt: '2024-02-16T14:13:59.000Z',
+            title: 'Old',
+          },
+        },
+      ],
+    })
+  })
+
+  it('skips documents the migration never committed a change to', () => {
+    expect(
+      getRevertAction({id: 'post-1', before: doc('before', 'Old')}, doc('before', 'Old')),
+    ).toEqual({type: 'skip'})
+  })
+
+  it('reports documents edited since the migration', () => {
+    expect(
+      getRevertAction(
+        {id: 'post-1', before: doc('before', 'Old'), after: {rev: 'after'}},
+        doc('edited', 'Edited'),
+      ),
+    ).toEqual({type: 'conflict', reason: 'edited'})
+  })
+
+  it('reports documents deleted since the migration', () => {
+    expect(
+      getRevertAction(
+        {id: 'post-1', before: doc('before', 'Old'), after: {rev: 'after'}},
+        undefined,
+      ),
+    ).toEqual({type: 'conflict', reason: 'deleted'})
+  })
+
+  it('reports documents created again after the migration deleted them', () => {
+    expect(
+      getRevertAction({id: 'post-1', before: doc('before', 'Old'), after: null}, doc('new', 'New')),
+    ).toEqual({type: 'conflict', reason: 'recreated'})
+  })
+})
@@ -0,0 +1,149 @@
+import {mkdtemp, rm} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import path from 'node:path'
+
+import {type MultipleMutationResult} from '@sanity/client'
+import {type SanityDocument} from '@sanity/types'
+import {afterEach, beforeEach, expect, test} from 'vitest'
+
+import {toArray} from '../../it-utils/toArray'
+import {createRevertRecorder, readRevertArchive, readRevertManifest} from '../revertArchive'
+
+const existing: SanityDocument[] = [
+  {_id: 'a', _type: 'post', _rev: 'a1', _createdAt: '', _updatedAt: '', title: 'A'},
+  {_id: 'b', _type: 'post', _rev: 'b1', _createdAt: '', _updatedAt: '', title: 'B'},
+]
+
+async function* fromArray<T>(values: T[]) {
+  yield* values
+}
+
+let dir: string
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'revert-archive-'))
+})
+afterEach(async () => {
+  await rm(dir, {recursive: true, force: true})
+})
+
+test('records documents as they were before the migration, and their revision after', async () => {
+  const fetched: string[][] = []
+  const recorder = await createRevertRecorder({
+    manifest: {migrationId: 'rename-title', title: 'Rename title', projectId: 'p', dataset: 'd'},
+    fetchDocuments: async (ids) => {
+      fetched.push(ids)
+      return existing.filter((doc) => ids.includes(doc._id))
+    },
+  })
+
+  const results: MultipleMutationResult[] = [
+    {
+      transactionId: 'tx1',
+      documentIds: ['a', 'b'],
+      results: [
+        {id: 'a', operation: 'update'},
+        {id: 'b', operation: 'delete'},
+      ],
+    },
+    {
+      transactionId: 'tx2',
+      documentIds: ['a', 'c'],
+      results: [
+        {id: 'a', operation: 'update'},
+        {id: 'c', operation: 'create'},
+      ],
+    },
+    {
+      transactionId: 'tx3',
+      documentIds: ['generated'],
+      results: [{id: 'generated', operation: 'create'}],
+    },
+  ]
+  const batches = []
+  for await (const batch of recorder.capture(
+    fromArray([
+      {mutations: [{patch: {id: 'a', set: {title: 'A2'}}}, {delete: {id: 'b'}}]},
+      {mutations: [{patch: {id: 'a', set: {title: 'A3'}}}, {create: {_id: 'c', _type: 'post'}}]},
+      {mutations: [{create: {_type: 'post'}}, {patch: {id: 'uncommitted', set: {}}}]},
+    ]),
+  )) {
+    batches.push(batch)
+    recorder.record(results[batches.length - 1])
+  }
+  expect(batches).toHaveLength(3)
+  // each document is fetched once, before the first batch touching it is committed
+  expect(fetched).toEqual([['a', 'b'], ['c'], ['uncommitted']])
+
+  const archive = path.join(dir, 'revert.tar.gz')
+  await recorder.write(archive)
+
+  expect(await readRevertManifest(archive)).toEqual({
+    migrationId: 'rename-title',
+    title: 'Rename title',
+    projectId: 'p',
+    dataset: 'd',
+    createdAt: expect.any(String),
+  })
+  expect(await toArray(readRevertArchive(archive))).toEqual([
+    {id: 'a', before: existing[0], after: {rev: 'tx2'}},
+    {id: 'b', before: existing[1], after: null},
+    {id: 'c', before: null, after: {rev: 'tx2'}},
+    {id: 'uncommitted', before: null},
+    {id: 'generated', before: null, after: {rev: 'tx3'}},
+  ])
+})
+
+test('holds back a batch touching a document of a batch that is not yet committed', async () => {
+  const recorder = await createRevertRecorder({
+    manifest: {title: 'Rename title', projectId: 'p', dataset: 'd'},
+    fetchDocuments: async (ids) => existing.filter((doc) => ids.includes(doc._id)),
+  })
+  const batches = recorder.capture(
+    fromArray([
+      {mutations: [{patch: {id: 'a', set: {title: 'A2'}}}]},
+      {mutations: [{patch: {id: 'b', set: {title: 'B2'}}}]},
+      {mutations: [{patch: {id: 'a', set: {title: 'A3'}}}]},
+    ]),
+  )
+
+  // pull the batches the way concurrent submits do, without waiting for the earlier ones to commit
+  expect((await batches.next()).done).toBe(false)
+  expect((await batches.next()).done).toBe(false)
+  let third: IteratorResult<unknown> | undefined
+  const pulled = batches.next().then((result) => (third = result))
+  await new Promise((resolve) => setTimeout(resolve, 10))
+  expect(third).toBeUndefined()
+
+  recorder.record({
+    transactionId: 'tx1',
+    documentIds: ['a'],
+    results: [{id: 'a', operation: 'update'}],
+  })
+  await pulled
+  expect(third?.done).toBe(false)
+
+  recorder.record({
+    transactionId: 'tx2',
+    documentIds: ['b'],
+    results: [{id: 'b', operation: 'update'}],
+  })
+  recorder.record({
+    transactionId: 'tx3',
+    documentIds: ['a'],
+    results: [{id: 'a', operation: 'update'}],
+  })
+  expect((await batches.next()).done).toBe(true)
+
+  const archive = path.join(dir, 'revert.tar.gz')
+  await recorder.write(archive)
+  expect(await toArray(readRevertArchive(archive))).toEqual([
+    {id: 'a', before: existing[0], after: {rev: 'tx3'}},
+    {id: 'b', before: existing[1], after: {rev: 'tx2'}},
+  ])
+})
+
+test('fails to read the manifest of a file that is not a revert archive', async () => {
+  await expect(
+    readRevertManifest(`${__dirname}/../../sources/__test__/fixtures/example.tar.gz`),
+  ).rejects.toThrow('is not a revert archive')
+})
@@ -0,0 +1,222 @@
+import {createClient, type Mutation as SanityMutation} from '@sanity/client'
+import {type SanityDocument} from '@sanity/types'
+
+import {mapAsync} from '../it-utils/mapAsync'
+import {DEFAULT_MUTATION_CONCURRENCY, MAX_MUTATION_CONCURRENCY} from '../runner/constants'
+import {type APIConfig} from '../types'
+import {readRevertArchive, type RevertArchiveEntry} from './revertArchive'
+
+/**
+ * Number of documents to fetch the current state of at a time
+ */
+const FETCH_CHUNK_SIZE = 100
+
+/**
+ * @public
+ *
+ * Why a document could not be reverted:
+ * - `edited`: the document has been edited since the migration
+ * - `deleted`: the document has been deleted since the migration
+ * - `recreated`: the migration deleted the document, but it has been created again since
+ */
+export type RevertConflictReason = 'edited' | 'deleted' | 'recreated'
+
+/**
+ * @public
+ */
+export interface RevertConflict {
+  id: string
+  reason: RevertConflictReason
+}
+
+/**
+ * @public
+ *
+ * What to do with a document when reverting a migration
+ */
+export type RevertAction =
+  | {type: 'skip'}
+  | {type: 'conflict'; reason: RevertConflictReason}
+  | {type: 'restore'; mutations: SanityMutation[]}
+
+/**
+ * @public
+ */
+export interface RevertProgress {
+  /**
+   * Number of documents read from the archive
+   */
+  documents: number
+
+  /**
+   * Number of documents restored to their state before the migration. In dry runs, the number that would be restored
+   */
+  restored: number
+
+  /**
+   * Number of documents the migration didn't change
+   */
+  skipped: number
+
+  /**
+   * Documents that have changed since the migration, and were left as they are
+   */
+  conflicts: RevertConflict[]
+
+  done?: boolean
+}
+
+/**
+ * @public
+ */
+export interface RevertConfig {
+  api: APIConfig
+  concurrency?: number
+  /**
+   * Only report what would be restored, without changing any documents
+   */
+  dryRun?: boolean
+  onProgress?: (progress: RevertProgress) => void
+}
+
+/**
+ * Decides how to revert a document, given its entry in the revert archive and its current state.
+ * Restores are guarded by the document's revision after the migration, so a document edited in the meantime
+ * is never overwritten.
+ *
+ * @param entry - The document's entry in the revert archive
+ * @param current - The current document, or undefined if it doesn't exist
+ * @returns The action to take
+ * @public
+ */
+export function getRevertAction(
+  entry: RevertArchiveEntry,
+  current: SanityDocument | undefined,
+): RevertAction {
+  const {id, before, after} = entry
+  if (after === undefined) {
+    // the migration never committed a change to the document
+    return {type: 'skip'}
+  }
+
+  if (after === null) {
+    if (current) {
+      return {type: 'conflict', reason: 'recreated'}
+    }
+    // `create` fails if the document has been created since we checked
+    return before
+      ? {type: 'restore', mutations: [{create: toRestorableDocument(before)}]}
+      : {type: 'skip'}
+  }
+
+  if (!current) {
+    return {type: 'conflict', reason: 'deleted'}
+  }
+  if (current._rev !== after.rev) {
+    return {type: 'conflict', reason: 'edited'}
+  }
+  return {
+    type: 'restore',
+    mutations: [
+      // a patch without operations only checks the revision, failing the transaction if it has changed
+      {patch: {id, ifRevisionID: after.rev}},
+      before ? {createOrReplace: toRestorableDocument(before)} : {delete: {id}},
+    ],
+  }
+}
+
+/**
+ * Reverts a migration by restoring the documents in a revert archive to their state before the migration.
+ * Documents that have changed since the migration are reported as conflicts and left as they are.
+ *
+ * @param config - API configuration of the dataset, and options
+ * @param archivePath - Path to the revert archive written by the migration run
+ * @returns The final progress, listing the conflicts
+ * @public
+ */
+export async function revert(config: RevertConfig, archivePath: string): Promise<RevertProgress> {
+  const concurrency = config.concurrency ?? DEFAULT_MUTATION_CONCURRENCY
+  if (concurrency > MAX_MUTATION_CONCURRENCY) {
+    throw new Error(`Concurrency exceeds maximum allowed value (${MAX_MUTATION_CONCURRENCY})`)
+  }
+
+  const progress: RevertProgress = {documents: 0, restored: 0, skipped: 0, conflicts: []}
+  const client = createClient({
+    ...config.api,
+    useCdn: false,
+    perspective: 'raw',
+    requestTagPrefix: 'sanity.migration.revert',
+  })
+
+  async function* plan() {
+    for await (const entries of chunk(readRevertArchive(archivePath), FETCH_CHUNK_SIZE)) {
+      const current = new Map(
+        (
+          await client.fetch<SanityDocument[]>(`*[_id in $ids]`, {
+            ids: entries.map((entry) => entry.id),
+          })
+        ).map((document) => [document._id, document]),
+      )
+      for (const entry of entries) {
+        yield {entry, action: getRevertAction(entry, current.get(entry.id))}
+      }
+    }
+  }
+
+  const results = await mapAsync(
+    plan(),
+    async ({entry, action}): Promise<{id: string; action: RevertAction}> => {
+      if (action.type !== 'restore' || config.dryRun) {
+        return {id: entry.id, action}
+      }
+      try {
+        await client.mutate(action.mutations, {visibility: 'async'})
+        return {id: entry.id, action}
+      } catch (err) {
+        if (err.statusCode === 409) {
+          // the document changed between checking it and restoring it
+          return {
+            id: entry.id,
+            action: {type: 'conflict', reason: entry.after === null ? 'recreated' : 'edited'},
+          }
+        }
+        throw err
+      }
+    },
+    concurrency,
+  )
+
+  for await (const {id, action} of results) {
+    progress.documents++
+    if (action.type === 'restore') {
+      progress.restored++
+    } else if (action.type === 'skip') {
+      progress.skipped++
+    } else {
+      progress.conflicts.push({id, reason: action.reason})
+    }
+    config.onProgress?.({...progress})
+  }
+
+  config.onProgress?.({...progress, done: true})
+  return {...progress, done: true}
+}
+
+async function* chunk<T>(it: AsyncIterableIterator<T>, size: number) {
+  let current: T[] = []
+  for await (const value of it) {
+    current.push(value)
+    if (current.length === size) {
+      yield current
+      current = []
+    }
+  }
+  if (current.length > 0) {
+    yield current
+  }
+}
+
+function toRestorableDocument(document: SanityDocument) {
+  const {_rev, _updatedAt, ...restorable} = document
+  return restorable
+}
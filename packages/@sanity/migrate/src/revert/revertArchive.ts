@@ -0,0 +1,283 @@
+import {open, rm, stat} from 'node:fs/promises'
+import path from 'node:path'
+
+import {type MultipleMutationResult} from '@sanity/client'
+import {type SanityDocument} from '@sanity/types'
+
+import {maybeDecompress} from '../fs-webstream/maybeDecompress'
+import {readFileAsWebStream} from '../fs-webstream/readFileAsWebStream'
+import {writeWebStreamToFile} from '../fs-webstream/writeWebStreamToFile'
+import {decodeText} from '../it-utils/decodeText'
+import {concatStr} from '../it-utils/concatStr'
+import {lastValueFrom} from '../it-utils/lastValueFrom'
+import {parse} from '../it-utils/ndjson'
+import {createBufferFile} from '../runner/utils/getBufferFile'
+import {getMutationDocumentIds} from '../runner/utils/getMutationDocumentIds'
+import {type TransactionPayload} from '../runner/utils/toSanityMutations'
+import {drain} from '../tar-webstream/drain'
+import {tar} from '../tar-webstream/tar'
+import {untar} from '../tar-webstream/untar'
+import {streamToAsyncIterator} from '../utils/streamToAsyncIterator'
+
+const MANIFEST_FILE = 'manifest.json'
+const DOCUMENTS_FILE = 'documents.ndjson'
+
+/**
+ * @public
+ *
+ * Describes the migration run a revert archive was recorded from
+ */
+export interface RevertArchiveManifest {
+  /**
+   * ID of the migration, if it was run from the CLI
+   */
+  migrationId?: string
+
+  /**
+   * Title of the migration
+   */
+  title: string
+
+  projectId: string
+  dataset: string
+
+  /**
+   * ISO 8601 timestamp of when the archive was written
+   */
+  createdAt: string
+}
+
+/**
+ * @public
+ *
+ * The state of a document before and after a migration
+ */
+export interface RevertArchiveEntry {
+  /**
+   * ID of the document
+   */
+  id: string
+
+  /**
+   * The document before the migration touched it, or `null` if it didn't exist
+   */
+  before: SanityDocument | null
+
+  /**
+   * The document after the migration: its revision if it exists, or `null` if the migration deleted it.
+   * Absent if no transaction touching the document was committed, e.g. because the migration failed
+   */
+  after?: {rev: string} | null
+}
+
+/**
+ * Records the state of the documents a migration touches, to write them to a revert archive
+ * @internal
+ */
+export interface RevertRecorder {
+  /**
+   * Captures the current state of the documents in each batch before passing the batch on.
+   * A document is only captured the first time it is seen, so the capture is the document before the migration.
+   * A batch touching a document of an earlier batch is held back until that batch is recorded, so concurrent
+   * batches can't commit changes to the same document out of order
+   */
+  capture(
+    batches: AsyncIterableIterator<TransactionPayload>,
+  ): AsyncIterableIterator<TransactionPayload>
+
+  /**
+   * Records the state of the documents after a committed transaction. Must be called with the result of each
+   * captured batch, in the order the batches were captured
+   */
+  record(result: MultipleMutationResult): void
+
+  /**
+   * Writes the revert archive and removes the recorder's temporary files
+   */
+  write(filename: string): Promise<void>
+}
+
+/**
+ * @internal
+ */
+export interface RevertRecorderOptions {
+  manifest: Omit<RevertArchiveManifest, 'createdAt'>
+
+  /**
+   * Fetches the current state of the given documents, including drafts. Documents that don't exist are left out
+   */
+  fetchDocuments: (ids: string[]) => Promise<SanityDocument[]>
+}
+
+/**
+ * Creates a recorder for the documents touched by a migration. Captured documents are buffered in a temporary file,
+ * so only their IDs and revisions are kept in memory.
+ *
+ * @param options - The manifest of the archive and how to fetch documents
+ * @returns The recorder
+ * @internal
+ */
+export async function createRevertRecorder(
+  options: RevertRecorderOptions,
+): Promise<RevertRecorder> {
+  const bufferFile = await createBufferFile()
+  const bufferHandle = await open(bufferFile, 'w')
+  const encoder = new TextEncoder()
+
+  const captured = new Set<string>()
+  const after = new Map<string, {rev: string} | null>()
+  // batches that are captured but not yet recorded, in capture order
+  const uncommitted: {documentIds: Set<string>; committed: Promise<void>; resolve: () => void}[] =
+    []
+
+  async function* capture(batches: AsyncIterableIterator<TransactionPayload>) {
+    for await (const batch of batches) {
+      const documentIds = new Set(batch.mutations.flatMap(getMutationDocumentIds))
+      await Promise.all(
+        uncommitted
+          .filter((pending) => [...documentIds].some((id) => pending.documentIds.has(id)))
+          .map((pending) => pending.committed),
+      )
+
+      const ids = [...documentIds].filter((id) => !captured.has(id))
+      if (ids.length > 0) {
+        ids.forEach((id) => captured.add(id))
+        const documents = new Map(
+          (await options.fetchDocuments(ids)).map((document) => [document._id, document]),
+        )
+        for (const id of ids) {
+          await bufferHandle.write(
+            encoder.encode(`${JSON.stringify({id, before: documents.get(id) ?? null})}\n`),
+          )
+        }
+      }
+
+      let resolve = () => {}
+      const committed = new Promise<void>((done) => {
+        resolve = done
+      })
+      uncommitted.push({documentIds, committed, resolve})
+      yield batch
+    }
+  }
+
+  function record(result: MultipleMutationResult) {
+    for (const {id, operation} of result.results) {
+      if (operation === 'delete') {
+        after.set(id, null)
+      } else if (operation !== 'none') {
+        after.set(id, {rev: result.transactionId})
+      }
+    }
+    uncommitted.shift()?.resolve()
+  }
+
+  async function write(filename: string) {
+    await bufferHandle.close()
+
+    // merge the captured documents with their state after the migration. Documents the migration created
+    // without an ID of their own weren't captured, so they are added last
+    const documentsFile = path.join(path.dirname(bufferFile), DOCUMENTS_FILE)
+    const documentsHandle = await open(documentsFile, 'w')
+    try {
+      const entries = parse<RevertArchiveEntry>(
+        decodeText(streamToAsyncIterator(readFileAsWebStream(bufferFile))),
+      )
+      for await (const entry of entries) {
+        await documentsHandle.write(
+          encoder.encode(`${JSON.stringify({...entry, after: after.get(entry.id)})}\n`),
+        )
+      }
+      for (const [id, state] of after) {
+        if (!captured.has(id)) {
+          await documentsHandle.write(
+            encoder.encode(`${JSON.stringify({id, before: null, after: state})}\n`),
+          )
+        }
+      }
+    } finally {
+      await documentsHandle.close()
+    }
+
+    const manifest = encoder.encode(
+      JSON.stringify({...options.manifest, createdAt: new Date().toISOString()}, null, 2),
+    )
+    const archive = tar([
+      {name: MANIFEST_FILE, size: manifest.length, content: () => toStream(manifest)},
+      {
+        name: DOCUMENTS_FILE,
+        size: (await stat(documentsFile)).size,
+        content: () => readFileAsWebStream(documentsFile),
+      },
+    ])
+    await writeWebStreamToFile(archive.pipeThrough(new CompressionStream('gzip')), filename)
+    await rm(path.dirname(bufferFile), {recursive: true, force: true})
+  }
+
+  return {capture, record, write}
+}
+
+/**
+ * Reads the manifest of a revert archive
+ *
+ * @param filename - Path to the revert archive
+ * @returns The manifest
+ * @public
+ */
+export async function readRevertManifest(filename: string): Promise<RevertArchiveManifest> {
+  let manifest: RevertArchiveManifest | undefined
+  // read through the whole archive, so the file is closed when we're done
+  for await (const [name, entry] of readArchiveFiles(filename)) {
+    if (name === MANIFEST_FILE) {
+      manifest = JSON.parse(
+        await lastValueFrom(concatStr(decodeText(streamToAsyncIterator(entry)))),
+      )
+    } else {
+      await drain(entry)
+    }
+  }
+  if (manifest) {
+    return manifest
+  }
+  throw new Error(`${filename} is not a revert archive: it has no ${MANIFEST_FILE}`)
+}
+
+/**
+ * Reads the documents of a revert archive
+ *
+ * @param filename - Path to the revert archive
+ * @returns The documents' state before and after the migration
+ * @public
+ */
+export async function* readRevertArchive(
+  filename: string,
+): AsyncIterableIterator<RevertArchiveEntry> {
+  for await (const [name, entry] of readArchiveFiles(filename)) {
+    if (name === DOCUMENTS_FILE) {
+      yield* parse<RevertArchiveEntry>(decodeText(streamToAsyncIterator(entry)))
+    } else {
+      await drain(entry)
+    }
+  }
+}
+
+async function* readArchiveFiles(filename: string) {
+  for await (const [header, entry] of streamToAsyncIterator(
+    untar(await maybeDecompress(readFileAsWebStream(filename))),
+  )) {
+    if (header.type === 'file') {
+      yield [header.name, entry] as const
+    } else {
+      await drain(entry)
+    }
+  }
+}
+
+function toStream(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(bytes)
+      controller.close()
+    },
+  })
+}
@@ -0,0 +1,72 @@
+import {expect, test} from 'vitest'
+
+import {toArray} from '../../it-utils'
+import {at, create, delete_, patch, set} from '../../mutations'
+import {type APIConfig, type Migration} from '../../types'
+import {dryRunChanges} from '../dryRun'
+
+const exportPath = `${__dirname}/../../sources/__test__/fixtures/example.tar.gz`
+const api: APIConfig = {
+  projectId: 'xyz',
+  dataset: 'production',
+  apiVersion: 'v2024-01-29',
+  token: 'token',
+}
+
+test('applies the mutations of a dry run to the documents they change', async () => {
+  const migration: Migration = {
+    title: 'Migrate posts',
+    documentTypes: ['post'],
+    async *migrate(documents) {
+      for await (const document of documents()) {
+        if (document._id === 'e749feed-4a9e-4175-b130-913f28436f62') {
+          yield patch(document._id, at('title', set('Migrated')))
+        } else {
+          yield delete_(document._id)
+        }
+      }
+      yield create({_id: 'author-1', _type: 'author', name: 'Ada'})
+    },
+  }
+
+  const changes = await toArray(dryRunChanges({api, exportPath}, migration))
+
+  expect(changes.map(({id}) => id)).toEqual([
+    'e749feed-4a9e-4175-b130-913f28436f62',
+    '12274d53-4d6d-4aa4-9ace-d15da7ba7c10',
+    'author-1',
+  ])
+
+  const [updated, deleted, created] = changes
+  expect(updated.before).toMatchObject({
+    _type: 'post',
+    title: expect.not.stringMatching('Migrated'),
+  })
+  expect(updated.after).toMatchObject({_type: 'post', title: 'Migrated'})
+  expect(deleted.before).toMatchObject({_type: 'post'})
+  expect(deleted.after).toBe(null)
+  expect(created.before).toBe(null)
+  expect(created.after).toMatchObject({_id: 'author-1', _type: 'author', name: 'Ada'})
+})
+
+test('reads changed documents outside the filters from the export', async () => {
+  const migration: Migration = {
+    title: 'Migrate a related post',
+    filter: '_id == "e749feed-4a9e-4175-b130-913f28436f62"',
+    async *migrate(documents) {
+      for await (const document of documents()) {
+        yield patch('12274d53-4d6d-4aa4-9ace-d15da7ba7c10', at('related', set(document._id)))
+      }
+    },
+  }
+
+  const [change] = await toArray(dryRunChanges({api, exportPath}, migration))
+
+  expect(change.id).toBe('12274d53-4d6d-4aa4-9ace-d15da7ba7c10')
+  expect(change.before).toMatchObject({_type: 'post'})
+  expect(change.before).not.toHaveProperty('related')
+  expect(change.after).toMatchObject({
+    _type: 'post',
+    related: 'e749feed-4a9e-4175-b130-913f28436f62',
+  })
+})
@@ -1,3 +1,4 @@
+import {type Doc} from '@sanity/mutator'
 import {type SanityDocument} from '@sanity/types'
 
 import {bufferThroughFile} from '../fs-webstream/bufferThroughFile'
@@ -13,13 +14,97 @@ import {applyFilters} from './utils/applyFilters'
 import {createContextClient} from './utils/createContextClient'
 import {createFilteredDocumentsClient} from './utils/createFilteredDocumentsClient'
 import {createBufferFile} from './utils/getBufferFile'
+import {applyPending, type PendingMutations, queueTransaction} from './utils/pendingMutations'
+import {toSanityMutations} from './utils/toSanityMutations'
 
 interface MigrationRunnerOptions {
   api: APIConfig
   exportPath?: string
 }
 
+/**
+ * @public
+ *
+ * A document before and after the mutations of a dry run are applied to it
+ */
+export interface DryRunDocumentChange {
+  /**
+   * ID of the document
+   */
+  id: string
+
+  /**
+   * The document before the migration, or `null` if it doesn't exist
+   */
+  before: SanityDocument | null
+
+  /**
+   * The document after the migration, or `null` if the migration deletes it
+   */
+  after: SanityDocument | null
+}
+
 export async function* dryRun(config: MigrationRunnerOptions, migration: Migration) {
+  const {documents, context, stop} = await prepareDryRun(config, migration)
+
+  yield* collectMigrationMutations(migration, documents, context)
+
+  // stop buffering the export once we're done collecting all mutations
+  stop()
+}
+
+/**
+ * Dry runs a migration, and applies its mutations to the documents they change, without committing them.
+ * Documents that are changed but not matched by the migration's filters are fetched from the dataset, or read
+ * from the export the migration runs on.
+ *
+ * All mutations are collected before the documents are read, so they are kept in memory. Patches and deletes
+ * by query are not supported, as it is not known which documents they apply to.
+ *
+ * @param config - API configuration of the dataset, and the export to use instead of it
+ * @param migration - The migration to run
+ * @returns Each document the migration changes, before and after the change
+ * @public
+ */
+export async function* dryRunChanges(
+  config: MigrationRunnerOptions,
+  migration: Migration,
+): AsyncIterableIterator<DryRunDocumentChange> {
+  const {documents, context, keepBuffer, stop} = await prepareDryRun(config, migration)
+
+  // the documents are read again once the mutations are collected, so the buffer must outlive the migration's reads
+  const bufferReader = keepBuffer()
+  const pending: PendingMutations = new Map()
+  try {
+    for await (const transaction of toSanityMutations(
+      collectMigrationMutations(migration, documents, context),
+    )) {
+      queueTransaction(pending, transaction)
+    }
+
+    const timestamp = new Date().toISOString()
+    for await (const before of documents()) {
+      if (pending.has(before._id)) {
+        yield {id: before._id, before, after: toDocument(applyPending(before, pending, timestamp))}
+      }
+    }
+
+    // documents the migration creates, or that are outside its filters
+    const ids = [...pending.keys()]
+    const existing = new Map(
+      (await findDocuments(config, context, ids)).map((document) => [document._id, document]),
+    )
+    for (const id of ids) {
+      const before = existing.get(id) ?? null
+      yield {id, before, after: toDocument(applyPending(before, pending, timestamp, id))}
+    }
+  } finally {
+    await bufferReader.cancel()
+    stop()
+  }
+}
+
+async function prepareDryRun(config: MigrationRunnerOptions, migration: Migration) {
   const source = config.exportPath
     ? fromExportArchive(config.exportPath)
     : streamToAsyncIterator(
@@ -49,12 +134,51 @@ export async function* dryRun(config: MigrationRunnerOptions, migration: Migrati
     dryRun: true,
   }
 
-  yield* collectMigrationMutations(
-    migration,
-    () => parse(decodeText(streamToAsyncIterator(createReader())), {parse: safeJsonParser}),
+  return {
+    documents: () =>
+      parse<SanityDocument>(decodeText(streamToAsyncIterator(createReader())), {
+        parse: safeJsonParser,
+      }),
     context,
-  )
+    /**
+     * Keeps the buffered export from being removed when all its readers are done, until the returned stream is cancelled
+     */
+    keepBuffer: () => createReader(),
+    stop: () => abortController.abort(),
+  }
+}
 
-  // stop buffering the export once we're done collecting all mutations
-  abortController.abort()
+/**
+ * Finds documents by ID in the dataset, or in the export the migration runs on, regardless of the migration's filters
+ */
+async function findDocuments(
+  config: MigrationRunnerOptions,
+  context: MigrationContext,
+  ids: string[],
+): Promise<SanityDocument[]> {
+  if (ids.length === 0) {
+    return []
+  }
+  if (!config.exportPath) {
+    return context.client.fetch<SanityDocument[]>('*[_id in $ids]', {ids}, {perspective: 'raw'})
+  }
+
+  const remaining = new Set(ids)
+  const found: SanityDocument[] = []
+  for await (const document of parse<SanityDocument>(
+    decodeText(fromExportArchive(config.exportPath)),
+    {parse: safeJsonParser},
+  )) {
+    if (remaining.delete(document._id)) {
+      found.push(document)
+    }
+    if (remaining.size === 0) {
+      break
+    }
+  }
+  return found
+}
+
+function toDocument(document: Doc | null): SanityDocument | null {
+  return document as SanityDocument | null
 }
@@ -12,6 +12,8 @@ import {lastValueFrom} from '../it-utils/lastValueFrom'
 import {mapAsync} from '../it-utils/mapAsync'
 import {parse, stringify} from '../it-utils/ndjson'
 import {tap} from '../it-utils/tap'
+import {recordMigration} from '../ledger/migrationLedger'
+import {createRevertRecorder} from '../revert/revertArchive'
 import {fromExportEndpoint, safeJsonParser} from '../sources/fromExportEndpoint'
 import {
   type APIConfig,
@@ -38,6 +40,15 @@ export interface MigrationRunnerConfig {
   api: APIConfig
   concurrency?: number
   onProgress?: (event: MigrationProgress) => void
+  /**
+   * Records the migration in the dataset's migration ledger once all its transactions are committed
+   */
+  ledger?: {migrationId: string; checksum: string}
+  /**
+   * Path to write a revert archive to, recording every document the migration touches as it was before the
+   * migration. The archive is written even if the migration fails part way through
+   */
+  revertArchive?: string
 }
 
 export async function* toFetchOptionsIterable(
@@ -61,7 +72,10 @@ export async function* toFetchOptionsIterable(
   }
 }
 
-export async function run(config: MigrationRunnerConfig, migration: Migration) {
+export async function run(
+  config: MigrationRunnerConfig,
+  migration: Migration,
+): Promise<MigrationProgress> {
   const stats: MigrationProgress = {
     documents: 0,
     mutations: 0,
@@ -127,6 +141,18 @@ export async function run(config: MigrationRunnerConfig, migration: Migration) {
     throw new Error(`Concurrency exceeds maximum allowed value (${MAX_MUTATION_CONCURRENCY})`)
   }
 
+  const revertRecorder = config.revertArchive
+    ? await createRevertRecorder({
+        manifest: {
+          migrationId: config.ledger?.migrationId,
+          title: migration.title,
+          projectId: config.api.projectId,
+          dataset: config.api.dataset,
+        },
+        fetchDocuments: (ids) => client.fetch(`*[_id in $ids]`, {ids}, {perspective: 'raw'}),
+      })
+    : undefined
+
   const batches = tap(
     batchMutations(toSanityMutations(mutations), MUTATION_ENDPOINT_MAX_BODY_SIZE),
     () => {
@@ -138,7 +164,7 @@ export async function run(config: MigrationRunnerConfig, migration: Migration) {
     lastValueFrom(parseJSON(concatStr(decodeText(await fetchAsyncIterator(opts)))))
 
   const commits = await mapAsync(
-    toFetchOptionsIterable(config.api, batches),
+    toFetchOptionsIterable(config.api, revertRecorder ? revertRecorder.capture(batches) : batches),
     (opts) => {
       config.onProgress?.({...stats, pending: ++stats.pending})
       return submit(opts)
@@ -146,12 +172,44 @@ export async function run(config: MigrationRunnerConfig, migration: Migration) {
     concurrency,
   )
 
-  for await (const result of commits) {
-    stats.completedTransactions.push(result)
-    config.onProgress?.({
-      ...stats,
+  const writeRevertArchive = async () => {
+    if (revertRecorder && config.revertArchive) {
+      await revertRecorder.write(config.revertArchive)
+    }
+  }
+
+  try {
+    for await (const result of commits) {
+      stats.completedTransactions.push(result)
+      revertRecorder?.record(result)
+      config.onProgress?.({
+        ...stats,
+      })
+    }
+  } catch (error) {
+    // Still record the transactions committed before the failure. If that fails as well, both failures are
+    // reported, with the migration's own error as the cause
+    await writeRevertArchive().catch((writeError) => {
+      throw new Error(
+        `${getErrorMessage(error)}. The revert archive could not be written to ${config.revertArchive} either: ${getErrorMessage(writeError)}`,
+        {cause: error},
+      )
     })
+    throw error
   }
+  await writeRevertArchive()
+
+  if (config.ledger) {
+    await recordMigration(config.api, {
+      ...config.ledger,
+      title: migration.title,
+      appliedAt: new Date().toISOString(),
+      documents: stats.documents,
+      mutations: stats.mutations,
+      transactions: stats.completedTransactions.length,
+    })
+  }
+
   config.onProgress?.({
     ...stats,
     done: true,
@@ -159,4 +217,10 @@ export async function run(config: MigrationRunnerConfig, migration: Migration) {
 
   // Cancel export/buffer stream, it's not needed anymore
   abortController.abort()
+
+  return {...stats, done: true}
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
 }
@@ -0,0 +1,121 @@
+import {type SanityDocument} from '@sanity/types'
+import arrify from 'arrify'
+
+import {writeExportArchive} from '../destinations/writeExportArchive'
+import {bufferThroughFile} from '../fs-webstream/bufferThroughFile'
+import {decodeText} from '../it-utils'
+import {parse, stringify} from '../it-utils/ndjson'
+import {tap} from '../it-utils/tap'
+import {fromExportArchive} from '../sources/fromExportArchive'
+import {safeJsonParser} from '../sources/fromExportEndpoint'
+import {
+  type APIConfig,
+  type Migration,
+  type MigrationContext,
+  type MigrationProgress,
+} from '../types'
+import {asyncIterableToStream} from '../utils/asyncIterableToStream'
+import {streamToAsyncIterator} from '../utils/streamToAsyncIterator'
+import {collectMigrationMutations} from './collectMigrationMutations'
+import {applyFilters} from './utils/applyFilters'
+import {createContextClient, createOfflineContextClient} from './utils/createContextClient'
+import {createFilteredDocumentsClient} from './utils/createFilteredDocumentsClient'
+import {createBufferFile} from './utils/getBufferFile'
+import {toSanityMutations} from './utils/toSanityMutations'
+
+export interface OfflineMigrationRunnerConfig {
+  /**
+   * Path to the dataset export to migrate
+   */
+  exportPath: string
+
+  /**
+   * Path to write the migrated dataset export to
+   */
+  outputPath: string
+
+  /**
+   * API configuration for the client in the migration context. Without it, migrations calling the client fail
+   */
+  api?: APIConfig
+
+  onProgress?: (event: MigrationProgress) => void
+}
+
+/**
+ * Runs a migration on a dataset export and writes the migrated documents, along with the export's assets,
+ * to a new export. No live dataset is read or changed, unless the migration uses the client in its context.
+ *
+ * @param config - Where to read the export from and write the migrated export to
+ * @param migration - The migration to run
+ * @returns The final progress
+ * @public
+ */
+export async function runOffline(
+  config: OfflineMigrationRunnerConfig,
+  migration: Migration,
+): Promise<MigrationProgress> {
+  const stats: MigrationProgress = {
+    documents: 0,
+    mutations: 0,
+    pending: 0,
+    queuedBatches: 0,
+    completedTransactions: [],
+    currentTransactions: [],
+  }
+
+  const filteredDocuments = applyFilters(
+    migration,
+    parse<SanityDocument>(decodeText(fromExportArchive(config.exportPath)), {
+      parse: safeJsonParser,
+    }),
+  )
+  const abortController = new AbortController()
+
+  const createReader = bufferThroughFile(
+    asyncIterableToStream(stringify(filteredDocuments)),
+    await createBufferFile(),
+    {signal: abortController.signal},
+  )
+
+  const context: MigrationContext = {
+    client: config.api
+      ? createContextClient({...config.api, useCdn: false})
+      : createOfflineContextClient(),
+    filtered: createFilteredDocumentsClient(createReader),
+    dryRun: false,
+  }
+
+  const documents = () =>
+    tap(
+      parse<SanityDocument>(decodeText(streamToAsyncIterator(createReader())), {
+        parse: safeJsonParser,
+      }),
+      () => {
+        config.onProgress?.({...stats, documents: ++stats.documents})
+      },
+    )
+
+  const mutations = tap(collectMigrationMutations(migration, documents, context), (muts) => {
+    stats.currentTransactions = arrify(muts)
+    config.onProgress?.({
+      ...stats,
+      mutations: ++stats.mutations,
+    })
+  })
+
+  stats.completedTransactions = await writeExportArchive(toSanityMutations(mutations), {
+    sourcePath: config.exportPath,
+    outputPath: config.outputPath,
+  })
+
+  config.onProgress?.({
+    ...stats,
+    done: true,
+  })
+
+  // stop buffering the export once the migrated export is written
+  abortController.abort()
+
+  return {...stats, done: true}
+}
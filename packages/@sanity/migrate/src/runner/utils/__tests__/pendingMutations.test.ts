@@ -0,0 +1,32 @@
+import {type Mutation} from '@sanity/client'
+import {describe, expect, it} from 'vitest'
+
+import {applyPending, type PendingMutations, queueTransaction} from '../pendingMutations'
+
+const timestamp = '2024-01-01T00:00:00.000Z'
+
+describe('#queueTransaction', () => {
+  it('gives creates without an ID one, without changing the given mutations', () => {
+    const mutations: Mutation[] = [{create: {_type: 'tag', name: 'migrated'}}]
+    const pending: PendingMutations = new Map()
+
+    const result = queueTransaction(pending, {transactionId: 'tx-1', mutations})
+
+    expect(mutations).toEqual([{create: {_type: 'tag', name: 'migrated'}}])
+    expect(result.documentIds).toHaveLength(1)
+    const [id] = result.documentIds
+    expect(result.results).toEqual([{id, operation: 'create'}])
+    expect(applyPending(null, pending, timestamp, id)).toMatchObject({
+      _id: id,
+      _type: 'tag',
+      _rev: 'tx-1',
+      name: 'migrated',
+    })
+  })
+
+  it('rejects mutations by query', () => {
+    expect(() =>
+      queueTransaction(new Map(), [{delete: {query: '*[_type == "post"]'}}] as Mutation[]),
+    ).toThrow('Mutations by query can not be applied to an export')
+  })
+})
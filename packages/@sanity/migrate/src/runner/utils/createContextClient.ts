@@ -10,6 +10,25 @@ export function createContextClient(config: Parameters<typeof createClient>[0]):
   )
 }
 
+/**
+ * Creates the client for migrations that run without a dataset, e.g. on a dataset export. Calling any of its
+ * methods throws.
+ */
+export function createOfflineContextClient(): RestrictedClient {
+  return new Proxy({} as RestrictedClient, {
+    get: (target, property) => {
+      if (typeof property === 'symbol') {
+        return undefined
+      }
+      return () => {
+        throw new Error(
+          `Client method "${property}" can not be called when migrating a dataset export without an API configuration.`,
+        )
+      }
+    },
+  })
+}
+
 const ALLOWED_PROPERTIES = [
   'fetch',
   'clone',
@@ -14,7 +14,9 @@ export function createFilteredDocumentsClient(
     })
   }
 
-  async function getDocumentsFromBuffer<T extends SanityDocument>(ids: string[]): Promise<T[]> {
+  async function getDocumentsFromBuffer<T extends SanityDocument>(
+    ids: string[],
+  ): Promise<(T | undefined)[]> {
     const found: {[id: string]: T} = {}
     let remaining = ids.length
     for await (const doc of getAllDocumentsFromBuffer<T>()) {
@@ -0,0 +1,18 @@
+import {type Mutation as SanityMutation} from '@sanity/client'
+import arrify from 'arrify'
+
+/**
+ * Returns the IDs of the documents a mutation applies to. Creates without an `_id` and patches or deletes
+ * by query have no known IDs before they are committed, so they yield none.
+ *
+ * @param mutation - The mutation, as sent to the mutation endpoint
+ * @returns The document IDs
+ */
+export function getMutationDocumentIds(mutation: SanityMutation): string[] {
+  if ('create' in mutation) return mutation.create._id ? [mutation.create._id] : []
+  if ('createIfNotExists' in mutation) return [mutation.createIfNotExists._id]
+  if ('createOrReplace' in mutation) return [mutation.createOrReplace._id]
+  if ('delete' in mutation) return 'id' in mutation.delete ? arrify(mutation.delete.id) : []
+  if ('patch' in mutation) return 'id' in mutation.patch ? arrify(mutation.patch.id) : []
+  return []
+}
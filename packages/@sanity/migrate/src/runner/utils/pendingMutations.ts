@@ -0,0 +1,103 @@
+import {randomUUID} from 'node:crypto'
+
+import {type MultipleMutationResult, type Mutation as SanityMutation} from '@sanity/client'
+import {type Doc, type Mut, Mutation as DocumentMutation} from '@sanity/mutator'
+
+import {getMutationDocumentIds} from './getMutationDocumentIds'
+import {type TransactionPayload} from './toSanityMutations'
+
+interface PendingDocument {
+  transactionId: string
+  mutations: Mut[]
+}
+
+/**
+ * Mutations waiting to be applied to documents outside a dataset, e.g. in an export, by document ID
+ */
+export type PendingMutations = Map<string, PendingDocument>
+
+/**
+ * Queues the mutations of a transaction on the documents they apply to. Creates without an `_id` are given one.
+ *
+ * @param pending - The queued mutations
+ * @param transaction - The transaction to queue
+ * @returns A result for the transaction, like the one returned by the mutation endpoint
+ * @throws if a mutation applies to documents by query, as there is no dataset to run the query against
+ */
+export function queueTransaction(
+  pending: PendingMutations,
+  transaction: SanityMutation[] | TransactionPayload,
+): MultipleMutationResult {
+  const {transactionId = randomUUID(), mutations: transactionMutations} = Array.isArray(transaction)
+    ? {mutations: transaction}
+    : transaction
+  // Copied rather than assigned in place, to leave the caller's mutations as they are
+  const mutations = transactionMutations.map((mutation) =>
+    'create' in mutation && !mutation.create._id
+      ? {...mutation, create: {...mutation.create, _id: randomUUID()}}
+      : mutation,
+  )
+
+  const documentIds = new Set<string>()
+  for (const mutation of mutations) {
+    const ids = getMutationDocumentIds(mutation)
+    if (ids.length === 0) {
+      throw new Error(
+        `Mutations by query can not be applied to an export: ${JSON.stringify(mutation)}`,
+      )
+    }
+    for (const id of ids) {
+      const document = pending.get(id) ?? {transactionId, mutations: []}
+      document.transactionId = transactionId
+      document.mutations.push(mutation as Mut)
+      pending.set(id, document)
+      documentIds.add(id)
+    }
+  }
+
+  return {
+    transactionId,
+    documentIds: [...documentIds],
+    results: [...documentIds].map((id) => ({id, operation: getOperation(mutations, id)})),
+  }
+}
+
+/**
+ * Applies the queued mutations of a document, and removes them from the queue. The `_rev` of a changed document
+ * is the ID of the last transaction that changed it.
+ *
+ * @param document - The document, or `null` if it doesn't exist
+ * @param pending - The queued mutations
+ * @param timestamp - ISO 8601 timestamp to set as `_updatedAt` of changed documents
+ * @param id - ID of the document, if it doesn't exist
+ * @returns The document with the mutations applied, or `null` if it doesn't exist after them
+ */
+export function applyPending(
+  document: Doc | null,
+  pending: PendingMutations,
+  timestamp: string,
+  id = document?._id,
+): Doc | null {
+  const changes = id ? pending.get(id) : undefined
+  if (!id || !changes) {
+    return document
+  }
+  pending.delete(id)
+  return new DocumentMutation({
+    mutations: changes.mutations,
+    transactionId: changes.transactionId,
+    timestamp,
+  }).apply(document)
+}
+
+function getOperation(
+  mutations: SanityMutation[],
+  id: string,
+): MultipleMutationResult['results'][number]['operation'] {
+  const last = [...mutations]
+    .reverse()
+    .find((mutation) => getMutationDocumentIds(mutation).includes(id))
+  if (last && 'delete' in last) return 'delete'
+  if (last && ('create' in last || 'createIfNotExists' in last)) return 'create'
+  return 'update'
+}
@@ -0,0 +1,54 @@
+import {mkdtemp, rm} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import path from 'node:path'
+
+import {expect, test} from 'vitest'
+
+import {readFileAsWebStream} from '../../fs-webstream/readFileAsWebStream'
+import {writeWebStreamToFile} from '../../fs-webstream/writeWebStreamToFile'
+import {decodeText} from '../../it-utils/decodeText'
+import {toArray} from '../../it-utils/toArray'
+import {streamToAsyncIterator} from '../../utils/streamToAsyncIterator'
+import {tar} from '../tar'
+import {untar} from '../untar'
+
+function toStream(text: string) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(text))
+      controller.close()
+    },
+  })
+}
+
+test('tar files that can be read back with untar', async () => {
+  const archive = tar([
+    {name: 'a.txt', size: 1, content: () => toStream('a')},
+    {name: 'dir/b.ndjson', size: 600, content: () => toStream('b'.repeat(600))},
+    {name: `${'d'.repeat(80)}/${'c'.repeat(80)}.txt`, size: 1, content: () => toStream('c')},
+  ])
+
+  const dir = await mkdtemp(path.join(tmpdir(), 'tar-'))
+  const file = path.join(dir, 'archive.tar')
+  await writeWebStreamToFile(archive, file)
+
+  const files: Record<string, string> = {}
+  for await (const [header, body] of streamToAsyncIterator(untar(readFileAsWebStream(file)))) {
+    files[header.name] = (await toArray(decodeText(streamToAsyncIterator(body)))).join('')
+  }
+  await rm(dir, {recursive: true, force: true})
+
+  expect(files).toEqual({
+    'a.txt': 'a',
+    'dir/b.ndjson': 'b'.repeat(600),
+    [`${'d'.repeat(80)}/${'c'.repeat(80)}.txt`]: 'c',
+  })
+})
+
+test('fail if the content does not match the size of the entry', async () => {
+  const archive = tar([{name: 'a.txt', size: 2, content: () => toStream('a')}])
+
+  await expect(toArray(streamToAsyncIterator(archive))).rejects.toThrow(
+    'Expected 2 bytes of content for tar entry "a.txt", got 1',
+  )
+})
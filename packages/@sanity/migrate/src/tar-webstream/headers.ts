@@ -8,6 +8,7 @@ const ZERO_OFFSET = '0'.charCodeAt(0)
 const USTAR_MAGIC = new Uint8Array([0x75, 0x73, 0x74, 0x61, 0x72, 0x00]) // ustar\x00
 const GNU_MAGIC = new Uint8Array([0x75, 0x73, 0x74, 0x61, 0x72, 0x20]) // ustar\x20
 const GNU_VER = new Uint8Array([0x20, 0x00])
+const USTAR_VER = new Uint8Array([0x30, 0x30]) // 00
 const MAGIC_OFFSET = 257
 const VERSION_OFFSET = 263
 
@@ -110,6 +111,52 @@ export function decode(
   }
 }
 
+/**
+ * Encodes the header of a regular file entry. Only supports ASCII names, of up to 100 characters plus a
+ * 155 character directory prefix, which is all we need for the archives we write ourselves.
+ */
+export function encode(header: {
+  name: string
+  size: number
+  mtime: Date
+  mode?: number
+}): Uint8Array {
+  const {size, mtime, mode = 0o644} = header
+  let name = header.name
+  let prefix = ''
+  // eslint-disable-next-line no-control-regex
+  if (!/^[\x00-\x7f]*$/.test(name)) {
+    throw new Error(`Unsupported tar entry name: "${header.name}"`)
+  }
+  while (name.length > 100) {
+    const i = name.indexOf('/')
+    if (i === -1) {
+      throw new Error(`Unsupported tar entry name: "${header.name}"`)
+    }
+    prefix += prefix ? `/${name.slice(0, i)}` : name.slice(0, i)
+    name = name.slice(i + 1)
+  }
+  if (prefix.length > 155) {
+    throw new Error(`Unsupported tar entry name: "${header.name}"`)
+  }
+
+  const buf = new Uint8Array(512)
+  writeStr(buf, name, 0)
+  writeStr(buf, encodeOct(mode, 6), 100)
+  writeStr(buf, encodeOct(0, 6), 108)
+  writeStr(buf, encodeOct(0, 6), 116)
+  writeStr(buf, encodeOct(size, 11), 124)
+  writeStr(buf, encodeOct((mtime.getTime() / 1000) | 0, 11), 136)
+  buf[156] = ZERO_OFFSET
+  buf.set(USTAR_MAGIC, MAGIC_OFFSET)
+  buf.set(USTAR_VER, VERSION_OFFSET)
+  writeStr(buf, encodeOct(0, 6), 329)
+  writeStr(buf, encodeOct(0, 6), 337)
+  writeStr(buf, prefix, 345)
+  writeStr(buf, encodeOct(cksum(buf), 6), 148)
+  return buf
+}
+
 function isUSTAR(buf: Uint8Array) {
   return areUint8ArraysEqual(USTAR_MAGIC, buf.subarray(MAGIC_OFFSET, MAGIC_OFFSET + 6))
 }
@@ -237,3 +284,17 @@ function decodeOct(val: Uint8Array, offset: number, length: number) {
 function decodeStr(val: Uint8Array, offset: number, length: number, encoding?: string) {
   return toString(val.subarray(offset, indexOf(val, 0, offset, offset + length)), encoding)
 }
+
+function encodeOct(val: number, length: number) {
+  const str = val.toString(8)
+  if (str.length > length) {
+    throw new Error(`Value ${val} is too large for a tar header field`)
+  }
+  return `${'0'.repeat(length - str.length)}${str} `
+}
+
+function writeStr(buf: Uint8Array, str: string, offset: number) {
+  for (let i = 0; i < str.length; i++) {
+    buf[offset + i] = str.charCodeAt(i)
+  }
+}
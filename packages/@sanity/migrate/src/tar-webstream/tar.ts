@@ -0,0 +1,55 @@
+import {asyncIterableToStream} from '../utils/asyncIterableToStream'
+import {streamToAsyncIterator} from '../utils/streamToAsyncIterator'
+import {encode} from './headers'
+
+const BLOCK_SIZE = 512
+
+export interface TarEntry {
+  name: string
+  size: number
+  mtime?: Date
+  /**
+   * Creates the stream of the entry's content, which must be exactly `size` bytes
+   */
+  content: () => ReadableStream<Uint8Array>
+}
+
+/**
+ * Creates a tar archive of regular files. The entries' content streams are created and read one at a time, in order,
+ * and the next entry is not pulled until the previous one has been written.
+ *
+ * @param entries - The files to add to the archive
+ * @returns A stream of the archive
+ */
+export function tar(
+  entries: Iterable<TarEntry> | AsyncIterable<TarEntry>,
+): ReadableStream<Uint8Array> {
+  return asyncIterableToStream(writeEntries(entries))
+}
+
+async function* writeEntries(
+  entries: Iterable<TarEntry> | AsyncIterable<TarEntry>,
+): AsyncIterableIterator<Uint8Array> {
+  for await (const entry of entries) {
+    yield encode({name: entry.name, size: entry.size, mtime: entry.mtime ?? new Date()})
+
+    let written = 0
+    for await (const chunk of streamToAsyncIterator(entry.content())) {
+      written += chunk.length
+      yield chunk
+    }
+    if (written !== entry.size) {
+      throw new Error(
+        `Expected ${entry.size} bytes of content for tar entry "${entry.name}", got ${written}`,
+      )
+    }
+
+    const overflow = written % BLOCK_SIZE
+    if (overflow > 0) {
+      yield new Uint8Array(BLOCK_SIZE - overflow)
+    }
+  }
+
+  // an archive ends with two empty blocks
+  yield new Uint8Array(BLOCK_SIZE * 2)
+}
@@ -0,0 +1,121 @@
+import {type SanityDocument} from '@sanity/types'
+import {describe, expect, it} from 'vitest'
+
+import {defineMigration} from '../../defineMigration'
+import {at, create, delete_, patch, set} from '../../mutations'
+import {testMigration} from '../testMigration'
+
+const documents: SanityDocument[] = [
+  {
+    _id: 'post-1',
+    _type: 'post',
+    _rev: 'rev-1',
+    _createdAt: '2024-01-01T00:00:00Z',
+    _updatedAt: '2024-01-01T00:00:00Z',
+    title: 'Hello',
+  },
+  {
+    _id: 'post-2',
+    _type: 'post',
+    _rev: 'rev-1',
+    _createdAt: '2024-01-01T00:00:00Z',
+    _updatedAt: '2024-01-01T00:00:00Z',
+    title: 'Obsolete',
+  },
+  {
+    _id: 'author-1',
+    _type: 'author',
+    _rev: 'rev-1',
+    _createdAt: '2024-01-01T00:00:00Z',
+    _updatedAt: '2024-01-01T00:00:00Z',
+    name: 'Ada',
+  },
+]
+
+const timestamps = {_createdAt: '2000-01-01T00:00:00.000Z', _updatedAt: '2000-01-01T00:00:00.000Z'}
+
+describe('testMigration', () => {
+  it('returns the mutations of the migration and the resulting documents', async () => {
+    const migration = defineMigration({
+      title: 'Migrate posts',
+      documentTypes: ['post'],
+      async *migrate(docs) {
+        for await (const document of docs()) {
+          yield document.title === 'Obsolete'
+            ? delete_(document._id)
+            : patch(document._id, at('title', set(`${document.title}!`)))
+        }
+        yield create({_type: 'tag', name: 'migrated'})
+      },
+    })
+
+    const result = await testMigration(migration, {documents})
+
+    expect(result.transactions.map(({transactionId}) => transactionId)).toEqual([
+      'transaction-1',
+      'transaction-2',
+      'transaction-3',
+    ])
+    expect(result.transactions[1].mutations).toEqual([{delete: {id: 'post-2'}}])
+    expect(result.transactions[2].mutations).toEqual([
+      {create: {_id: 'created-1', _type: 'tag', name: 'migrated'}},
+    ])
+    expect(result.documents).toEqual([
+      documents[2],
+      {_id: 'created-1', _type: 'tag', name: 'migrated', _rev: 'transaction-3', ...timestamps},
+      {...documents[0], title: 'Hello!', _rev: 'transaction-1', _updatedAt: timestamps._updatedAt},
+    ])
+  })
+
+  it('only passes the documents matching the filters to the migration', async () => {
+    const seen: string[] = []
+    const found: (string | undefined)[] = []
+    await testMigration(
+      defineMigration({
+        title: 'Collect authors',
+        filter: '_type == "author"',
+        migrate: {
+          async document(document, context) {
+            seen.push(document._id)
+            const filtered = await context.filtered.getDocuments([
+              'post-1',
+              'missing',
+              document._id,
+            ])
+            found.push(...filtered.map((filteredDocument) => filteredDocument?._id))
+            return []
+          },
+        },
+      }),
+      {documents},
+    )
+    expect(seen).toEqual(['author-1'])
+    // documents that are missing or don't match the filters keep their place in the result
+    expect(found).toEqual([undefined, undefined, 'author-1'])
+  })
+
+  it('answers client queries with the fetch stub', async () => {
+    const migration = defineMigration({
+      title: 'Set author',
+      documentTypes: ['post'],
+      migrate: {
+        async document(document, context) {
+          const author = await context.client.fetch<string>('*[_type == "author"][0]._id')
+          return at('author', set({_type: 'reference', _ref: author}))
+        },
+      },
+    })
+
+    await expect(testMigration(migration, {documents})).rejects.toThrow(
+      'Client method "fetch" is not available when testing a migration',
+    )
+
+    const result = await testMigration(migration, {
+      documents,
+      fetch: (query) => (query.includes('author') ? 'author-1' : null),
+    })
+    expect(result.documents.find(({_id}) => _id === 'post-1')).toMatchObject({
+      author: {_type: 'reference', _ref: 'author-1'},
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import {type Mutation as SanityMutation, type QueryParams} from '@sanity/client'
+import {type SanityDocument} from '@sanity/types'
+
+import {collectMigrationMutations} from '../runner/collectMigrationMutations'
+import {applyFilters} from '../runner/utils/applyFilters'
+import {type RestrictedClient} from '../runner/utils/createContextClient'
+import {
+  applyPending,
+  type PendingMutations,
+  queueTransaction,
+} from '../runner/utils/pendingMutations'
+import {toSanityMutations, type TransactionPayload} from '../runner/utils/toSanityMutations'
+import {type Migration, type MigrationContext} from '../types'
+
+/**
+ * Timestamp set as `_updatedAt` of the changed documents, unless another is given, so results can be snapshotted
+ */
+const DEFAULT_TIMESTAMP = '2000-01-01T00:00:00.000Z'
+
+/**
+ * @public
+ *
+ * Answers a query made by a migration with `context.client.fetch`
+ */
+export type MigrationTestFetch = (query: string, params?: QueryParams) => unknown
+
+/**
+ * @public
+ */
+export interface MigrationTestOptions {
+  /**
+   * The documents of the dataset to run the migration on. Only those matching the migration's `documentTypes`
+   * and `filter` are passed to it, but any of them can be changed by its mutations
+   */
+  documents: SanityDocument[]
+
+  /**
+   * Answers the queries the migration makes with `context.client.fetch`. Without it, or when calling any other
+   * client method, the migration fails
+   */
+  fetch?: MigrationTestFetch
+
+  /**
+   * The value of `context.dryRun` in the migration. Defaults to `false`
+   */
+  dryRun?: boolean
+
+  /**
+   * ISO 8601 timestamp to set as `_updatedAt` of the changed documents. Defaults to a fixed timestamp
+   */
+  timestamp?: string
+}
+
+/**
+ * @public
+ */
+export interface MigrationTestResult {
+  /**
+   * The mutations produced by the migration, as they would be sent to the mutation endpoint, one entry per
+   * transaction. Transactions without an ID of their own are numbered in order, e.g. `transaction-1`
+   */
+  transactions: {transactionId: string; mutations: SanityMutation[]}[]
+
+  /**
+   * The documents after the migration, sorted by ID. Documents deleted by the migration are left out, and the
+   * `_rev` of a changed document is the ID of the last transaction that changed it
+   */
+  documents: SanityDocument[]
+}
+
+/**
+ * Runs a migration in memory on a set of fixture documents, without reading or changing any dataset, to test it.
+ * The result doesn't depend on when or where the test runs: documents created without an `_id` are numbered in
+ * order, e.g. `created-1`, as are transactions without an ID.
+ *
+ * Patches and deletes by query are not supported, as there is no dataset to run the query against.
+ *
+ * @example
+ * ```ts
+ * import migration from '../migrations/rename-titles'
+ *
+ * test('renames titles', async () => {
+ *   const result = await testMigration(migration, {
+ *     documents: [{_id: 'post-1', _type: 'post', title: 'Hello', ...}],
+ *   })
+ *   expect(result).toMatchSnapshot()
+ * })
+ * ```
+ *
+ * @param migration - The migration to test, e.g. as defined with `defineMigration`
+ * @param options - The documents to run the migration on, and a stub for the queries it makes
+ * @returns The mutations the migration produces, and the resulting documents
+ * @public
+ */
+export async function testMigration(
+  migration: Migration,
+  options: MigrationTestOptions,
+): Promise<MigrationTestResult> {
+  const filteredDocuments: SanityDocument[] = []
+  for await (const document of applyFilters(migration, fromArray(options.documents))) {
+    filteredDocuments.push(document)
+  }
+
+  // Like the runner, documents that are missing or don't match the filters are undefined
+  async function getDocuments<T extends SanityDocument>(ids: string[]): Promise<(T | undefined)[]> {
+    return ids.map((id) => filteredDocuments.find((document): document is T => document._id === id))
+  }
+
+  async function getDocument<T extends SanityDocument>(id: string): Promise<T | undefined> {
+    return (await getDocuments<T>([id]))[0]
+  }
+
+  const context: MigrationContext = {
+    client: createTestClient(options.fetch),
+    filtered: {getDocument, getDocuments},
+    dryRun: options.dryRun ?? false,
+  }
+
+  const transactions: MigrationTestResult['transactions'] = []
+  const pending: PendingMutations = new Map()
+  let created = 0
+
+  for await (const transaction of toSanityMutations(
+    collectMigrationMutations(
+      migration,
+      () => fromArray(structuredClone(filteredDocuments)),
+      context,
+    ),
+  )) {
+    const payload: TransactionPayload = Array.isArray(transaction)
+      ? {mutations: transaction}
+      : transaction
+    const transactionId = payload.transactionId ?? `transaction-${transactions.length + 1}`
+
+    // the mutations are the migration's own, so creates are given an ID on a copy
+    const mutations = payload.mutations.map((mutation) =>
+      'create' in mutation && !mutation.create._id
+        ? {...mutation, create: {...mutation.create, _id: `created-${++created}`}}
+        : mutation,
+    )
+    transactions.push({transactionId, mutations: structuredClone(mutations)})
+    queueTransaction(pending, {transactionId, mutations})
+  }
+
+  const timestamp = options.timestamp ?? DEFAULT_TIMESTAMP
+  const documents = [
+    ...structuredClone(options.documents).map((document) =>
+      applyPending(document, pending, timestamp),
+    ),
+    // documents created by the migration
+    ...[...pending.keys()].map((id) => applyPending(null, pending, timestamp, id)),
+  ].filter((document): document is SanityDocument => document !== null)
+
+  return {
+    transactions,
+    documents: documents.sort((a, b) => a._id.localeCompare(b._id)),
+  }
+}
+
+/**
+ * Creates the client for migrations under test, which answers queries with the given stub. Calling any other
+ * method throws.
+ */
+function createTestClient(fetch: MigrationTestFetch | undefined): RestrictedClient {
+  const client: RestrictedClient = new Proxy({} as RestrictedClient, {
+    get: (target, property) => {
+      if (typeof property === 'symbol') {
+        return undefined
+      }
+      if (property === 'fetch' && fetch) {
+        return async (query: string, params?: QueryParams) => fetch(query, params)
+      }
+      if (property === 'withConfig' || property === 'clone') {
+        return () => client
+      }
+      return () => {
+        throw new Error(
+          `Client method "${property}" is not available when testing a migration${
+            property === 'fetch' ? ', unless a `fetch` stub is given' : ''
+          }.`,
+        )
+      }
+    },
+  })
+  return client
+}
+
+async function* fromArray<T>(values: T[]) {
+  yield* values
+}
@@ -59,7 +59,7 @@ export interface MigrationContext {
   client: RestrictedClient
   filtered: {
     getDocument<T extends SanityDocument>(id: string): Promise<T | undefined>
-    getDocuments<T extends SanityDocument>(ids: string[]): Promise<T[]>
+    getDocuments<T extends SanityDocument>(ids: string[]): Promise<(T | undefined)[]>
   }
   dryRun: boolean
 }
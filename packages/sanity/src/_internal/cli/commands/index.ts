@@ -50,7 +50,9 @@ import mediaGroup from './media/mediaGroup'
 import createMigrationCommand from './migration/createMigrationCommand'
 import listMigrationsCommand from './migration/listMigrationsCommand'
 import migrationGroup from './migration/migrationGroup'
+import revertMigrationCommand from './migration/revertMigrationCommand'
 import runMigrationCommand from './migration/runMigrationCommand'
+import statusMigrationCommand from './migration/statusMigrationCommand'
 import previewCommand from './preview/previewCommand'
 import deleteSchemaCommand from './schema/deleteSchemaCommand'
 import deploySchemaCommand from './schema/deploySchemaCommand'
@@ -95,6 +97,8 @@ const commands: (CliCommandDefinition | CliCommandGroupDefinition)[] = [
   createMigrationCommand,
   runMigrationCommand,
   listMigrationsCommand,
+  statusMigrationCommand,
+  revertMigrationCommand,
   deleteHookCommand,
   listHookLogsCommand,
   printHookAttemptCommand,
@@ -64,6 +64,11 @@ const listMigrationCommand: CliCommandDefinition = {
 export interface ResolvedMigration {
   id: string
   migration: Migration
+
+  /**
+   * Absolute path to the migration script
+   */
+  scriptPath: string
 }
 
 /**
@@ -94,6 +99,7 @@ export async function resolveMigrations(workDir: string): Promise<ResolvedMigrat
       migrations.push({
         id: entryName,
         migration: candidate.mod.default,
+        scriptPath: candidate.absolutePath,
       })
     }
   }
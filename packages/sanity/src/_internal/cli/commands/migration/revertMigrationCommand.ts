@@ -0,0 +1,180 @@
+import {type CliCommandDefinition} from '@sanity/cli'
+import {
+  DEFAULT_MUTATION_CONCURRENCY,
+  MAX_MUTATION_CONCURRENCY,
+  readRevertManifest,
+  removeMigrationRecord,
+  revert,
+  type RevertConflictReason,
+  type RevertProgress,
+} from '@sanity/migrate'
+import {Table} from 'console-table-printer'
+import {hideBin} from 'yargs/helpers'
+import yargs from 'yargs/yargs'
+
+import {debug} from '../../debug'
+import {DEFAULT_API_VERSION} from './constants'
+import {getMigrationApiConfig} from './utils/getMigrationApiConfig'
+
+const helpText = `
+Options
+  --no-dry-run By default the revert runs in dry mode, only reporting what would be restored. Pass this option to restore the documents.
+  --concurrency <concurrent> How many mutation requests to run in parallel. Must be between 1 and ${MAX_MUTATION_CONCURRENCY}. Default: ${DEFAULT_MUTATION_CONCURRENCY}.
+  --dataset <dataset> Dataset to revert. Defaults to the dataset configured in your Sanity CLI config.
+  --project <project id> Project ID of the dataset to revert. Defaults to the projectId configured in your Sanity CLI config.
+  --api-version <version> API version to use when reverting. Defaults to ${DEFAULT_API_VERSION}.
+  --no-confirm Skip the confirmation prompt before reverting the migration.
+
+Restores every document in a revert archive, recorded with \`sanity migration run --revert-archive\`, to its state before the migration.
+Documents that have changed since the migration are left as they are, and reported.
+
+Examples
+  # show what reverting the migration would restore
+  sanity migration revert revert-add-slugs.tar.gz
+
+  # revert the migration
+  sanity migration revert revert-add-slugs.tar.gz --no-dry-run
+`
+
+interface RevertFlags {
+  ['dry-run']?: boolean
+  concurrency?: number
+  dataset?: string
+  project?: string
+  ['api-version']?: string
+  confirm?: boolean
+}
+
+const CONFLICT_LABELS: Record<RevertConflictReason, string> = {
+  edited: 'Edited since the migration',
+  deleted: 'Deleted since the migration',
+  recreated: 'Created again since the migration deleted it',
+}
+
+function parseCliFlags(args: {argv?: string[]}) {
+  return yargs(hideBin(args.argv || process.argv).slice(2))
+    .options('dry-run', {type: 'boolean', default: true})
+    .options('concurrency', {type: 'number', default: DEFAULT_MUTATION_CONCURRENCY})
+    .options('dataset', {type: 'string'})
+    .options('project', {type: 'string'})
+    .options('api-version', {type: 'string'})
+    .options('confirm', {type: 'boolean', default: true}).argv
+}
+
+const revertMigrationCommand: CliCommandDefinition<RevertFlags> = {
+  name: 'revert',
+  group: 'migration',
+  signature: 'ARCHIVE',
+  helpText,
+  description: 'Revert a migration using the revert archive recorded when it ran',
+  action: async (args, context) => {
+    const {apiClient, output, prompt, chalk} = context
+    const [archivePath] = args.argsWithoutOptions
+    const flags = await parseCliFlags(args)
+
+    if (!archivePath) {
+      throw new Error(
+        'Path to a revert archive must be provided. Record one with `sanity migration run <ID> --no-dry-run --revert-archive <file>`',
+      )
+    }
+
+    const concurrency = flags.concurrency
+    if (concurrency > MAX_MUTATION_CONCURRENCY) {
+      throw new Error(
+        `Concurrency exceeds the maximum allowed value of ${MAX_MUTATION_CONCURRENCY}`,
+      )
+    }
+    if (concurrency === 0) {
+      throw new Error(`Concurrency must be a positive number, got ${concurrency}`)
+    }
+
+    const apiConfig = getMigrationApiConfig(apiClient, {
+      dataset: flags.dataset,
+      project: flags.project,
+      apiVersion: flags.apiVersion,
+    })
+
+    const manifest = await readRevertManifest(archivePath)
+    if (manifest.projectId !== apiConfig.projectId || manifest.dataset !== apiConfig.dataset) {
+      throw new Error(
+        `The revert archive was recorded from the ${manifest.dataset} dataset in project ${manifest.projectId}, not the ${apiConfig.dataset} dataset in project ${apiConfig.projectId}. Pass --project and --dataset to revert it.`,
+      )
+    }
+
+    const migrationName = manifest.migrationId ? `"${manifest.migrationId}"` : `"${manifest.title}"`
+
+    if (!flags.dryRun && flags.confirm) {
+      const response = await prompt.single<boolean>({
+        message: `This will revert migration ${migrationName}, run at ${manifest.createdAt}, on the ${chalk.yellow(
+          chalk.bold(apiConfig.dataset),
+        )} dataset in ${chalk.yellow(chalk.bold(apiConfig.projectId))} project. Are you sure?`,
+        type: 'confirm',
+      })
+
+      if (!response) {
+        debug('User aborted revert')
+        return
+      }
+    }
+
+    const spinner = output
+      .spinner(`Reverting migration ${migrationName}${flags.dryRun ? ' in dry mode' : ''}`)
+      .start()
+    const result = await revert(
+      {
+        api: apiConfig,
+        concurrency,
+        dryRun: flags.dryRun,
+        onProgress: (progress: RevertProgress) => {
+          spinner.text = `Reverting migration ${migrationName}${flags.dryRun ? ' in dry mode...' : '...'}
+
+  ${progress.documents} documents checked…
+  ${chalk.green(progress.restored)} documents ${flags.dryRun ? 'to restore' : 'restored'}…
+  ${chalk.red(progress.conflicts.length)} documents changed since the migration.`
+        },
+      },
+      archivePath,
+    )
+    spinner.text = `${flags.dryRun ? 'Dry run of reverting' : 'Reverted'} migration ${migrationName}.
+
+  Project id:  ${chalk.bold(apiConfig.projectId)}
+  Dataset:     ${chalk.bold(apiConfig.dataset)}
+
+  ${result.documents} documents checked.
+  ${chalk.green(result.restored)} documents ${flags.dryRun ? 'would be restored' : 'restored'}.
+  ${result.skipped} documents were not changed by the migration.`
+    spinner.stopAndPersist({symbol: chalk.green('✔')})
+
+    if (result.conflicts.length > 0) {
+      const table = new Table({
+        title: `${result.conflicts.length} document(s) changed since the migration were left as they are`,
+        columns: [
+          {name: 'id', title: 'ID', alignment: 'left'},
+          {name: 'reason', title: 'Reason', alignment: 'left'},
+        ],
+      })
+      result.conflicts.forEach(({id, reason}) => {
+        table.addRow({id, reason: CONFLICT_LABELS[reason]})
+      })
+      table.printTable()
+    }
+
+    if (!flags.dryRun && manifest.migrationId) {
+      if (result.conflicts.length === 0) {
+        await removeMigrationRecord(apiConfig, manifest.migrationId)
+      } else {
+        output.print(
+          `\nMigration "${manifest.migrationId}" is still recorded as applied, as not all of its documents were reverted`,
+        )
+      }
+    }
+
+    if (flags.dryRun && result.restored > 0) {
+      output.print(
+        `\nRun \`sanity migration revert ${archivePath} --no-dry-run\` to restore the documents`,
+      )
+    }
+  },
+}
+
+export default revertMigrationCommand
@@ -1,13 +1,18 @@
+import {writeFile} from 'node:fs/promises'
 import path from 'node:path'
 
 import {type CliCommandDefinition} from '@sanity/cli'
 import {
   DEFAULT_MUTATION_CONCURRENCY,
   dryRun,
+  dryRunChanges,
+  fetchMigrationLedger,
+  getMigrationStatus,
   MAX_MUTATION_CONCURRENCY,
   type Migration,
   type MigrationProgress,
   run,
+  runOffline,
 } from '@sanity/migrate'
 import {Table} from 'console-table-printer'
 import {register} from 'esbuild-register/dist/node'
@@ -18,7 +23,18 @@ import {debug} from '../../debug'
 import {DEFAULT_API_VERSION, MIGRATIONS_DIRECTORY} from './constants'
 import {resolveMigrations} from './listMigrationsCommand'
 import {prettyFormat} from './prettyMutationFormatter'
-import {ensureApiVersionFormat} from './utils/ensureApiVersionFormat'
+import {
+  createDocumentReport,
+  type DocumentReport,
+  summarizeDocumentReports,
+} from './utils/dryRunReport'
+import {
+  DRY_RUN_REPORT_FORMATS,
+  type DryRunReportFormat,
+  formatDryRunReport,
+} from './utils/formatDryRunReport'
+import {getMigrationApiConfig} from './utils/getMigrationApiConfig'
+import {getMigrationChecksum} from './utils/getMigrationChecksum'
 import {isLoadableMigrationScript, resolveMigrationScript} from './utils/resolveMigrationScript'
 
 const helpText = `
@@ -30,7 +46,15 @@ Options
   --project <project id> Project ID of the dataset to migrate. Defaults to the projectId configured in your Sanity CLI config.
   --api-version <version> API version to use when migrating. Defaults to ${DEFAULT_API_VERSION}.
   --no-confirm Skip the confirmation prompt before running the migration. Make sure you know what you're doing before using this flag.
-  --from-export <export.tar.gz> Use a local dataset export as source for migration instead of calling the Sanity API. Note: this is only supported for dry runs.
+  --from-export <export.tar.gz> Use a local dataset export as source for migration instead of calling the Sanity API. Note: this is only supported for dry runs, unless --to-export is given.
+  --to-export <migrated.tar.gz> Write the migrated documents of the --from-export dataset export, along with its assets, to a new export instead of a dataset. Runs fully offline: no dataset is read or changed, and the migration can not use the client in its context.
+  --pending Run every migration in the migrations folder that has not been applied to the dataset yet, in order of their IDs. Refuses to run if the source of an applied migration has changed since.
+  --force Run the migration even if the dataset's migration ledger shows it has already been applied.
+  --revert-archive <revert.tar.gz> Record every document the migration touches, as it was before the migration, to a revert archive. Pass the archive to \`sanity migration revert\` to undo the migration.
+  --report <${DRY_RUN_REPORT_FORMATS.join('|')}> Instead of listing the mutations of a dry run, apply them to the documents and report how each document changes, field by field, with a summary per document type.
+  --report-file <file> Write the dry run report to a file instead of printing it. Useful with --report markdown or --report html.
+
+Migrations run with --no-dry-run are recorded in the dataset's migration ledger. Run \`sanity migration status\` to see which migrations have been applied.
 
 
 Examples
@@ -42,6 +66,18 @@ Examples
 
   # execute the migration using a dataset export as the source
   sanity migration run <id>  --from-export=production.tar.gz --no-dry-run --projectId xyz --dataset staging
+
+  # transform a dataset export into a new export, without touching any dataset
+  sanity migration run <id> --from-export=production.tar.gz --to-export=migrated.tar.gz
+
+  # review how the migration changes each document, in a self-contained HTML report
+  sanity migration run <id> --report html --report-file report.html
+
+  # execute the migration, recording what it changes so it can be reverted
+  sanity migration run <id> --no-dry-run --revert-archive=revert-<id>.tar.gz
+
+  # execute every migration not yet applied to a dataset, in order
+  sanity migration run --pending --no-dry-run --project xyz --dataset staging
 `
 
 interface CreateFlags {
@@ -52,6 +88,12 @@ interface CreateFlags {
   dataset?: string
   project?: string
   confirm?: boolean
+  pending?: boolean
+  force?: boolean
+  ['revert-archive']?: string
+  ['to-export']?: string
+  report?: DryRunReportFormat
+  ['report-file']?: string
 }
 
 function parseCliFlags(args: {argv?: string[]}) {
@@ -63,7 +105,13 @@ function parseCliFlags(args: {argv?: string[]}) {
     .options('from-export', {type: 'string'})
     .options('project', {type: 'string'})
     .options('api-version', {type: 'string'})
-    .options('confirm', {type: 'boolean', default: true}).argv
+    .options('confirm', {type: 'boolean', default: true})
+    .options('pending', {type: 'boolean', default: false})
+    .options('force', {type: 'boolean', default: false})
+    .options('revert-archive', {type: 'string'})
+    .options('to-export', {type: 'string'})
+    .options('report', {type: 'string', choices: DRY_RUN_REPORT_FORMATS})
+    .options('report-file', {type: 'string'}).argv
 }
 
 const runMigrationCommand: CliCommandDefinition<CreateFlags> = {
@@ -86,11 +134,11 @@ const runMigrationCommand: CliCommandDefinition<CreateFlags> = {
     const project = flags.project
     const apiVersion = flags.apiVersion
 
-    if ((dataset && !project) || (project && !dataset)) {
-      throw new Error('If either --dataset or --project is provided, both must be provided')
+    if (id && flags.pending) {
+      throw new Error('Provide either a migration ID or --pending, not both')
     }
 
-    if (!id) {
+    if (!id && !flags.pending) {
       output.error(chalk.red('Error: Migration ID must be provided'))
       const migrations = await resolveMigrations(workDir)
       const table = new Table({
@@ -117,41 +165,37 @@ const runMigrationCommand: CliCommandDefinition<CreateFlags> = {
       })
     }
 
-    const candidates = resolveMigrationScript(workDir, id)
-    const resolvedScripts = candidates.filter(isLoadableMigrationScript)
+    const toExport = flags.toExport
+    if (toExport && !fromExport) {
+      throw new Error('--to-export requires a dataset export to migrate, passed with --from-export')
+    }
 
-    if (resolvedScripts.length > 1) {
-      // todo: consider prompt user about which one to run? note: it's likely a mistake if multiple files resolve to the same name
-      throw new Error(
-        `Found multiple migrations for "${id}" in ${chalk.cyan(migrationsDirectoryPath)}: \n - ${candidates
-          .map((candidate) => path.relative(migrationsDirectoryPath, candidate.absolutePath))
-          .join('\n - ')}`,
-      )
+    if (toExport && flags.pending) {
+      throw new Error('Only a single migration can be run on a dataset export')
     }
 
-    const script = resolvedScripts[0]
-    if (!script) {
+    if (fromExport && !dry && !toExport) {
       throw new Error(
-        `No migration found for "${id}" in ${chalk.cyan(chalk.cyan(migrationsDirectoryPath))}. Make sure that the migration file exists and exports a valid migration as its default export.\n
- Tried the following files:\n - ${candidates
-   .map((candidate) => path.relative(migrationsDirectoryPath, candidate.absolutePath))
-   .join('\n - ')}`,
+        'Can only dry run migrations from a dataset export file, unless the migrated documents are written to another export with --to-export',
       )
     }
 
-    const mod = script.mod
-    if ('up' in mod || 'down' in mod) {
-      // todo: consider adding support for up/down as separate named exports
-      // For now, make sure we reserve the names for future use
-      throw new Error(
-        'Only "up" migrations are supported at this time, please use a default export',
-      )
+    const revertArchive = flags.revertArchive
+    if (revertArchive && flags.pending) {
+      throw new Error('A revert archive can only be recorded when running a single migration')
     }
 
-    const migration: Migration = mod.default
+    if (revertArchive && toExport) {
+      throw new Error('A revert archive can not be recorded when migrating a dataset export')
+    }
 
-    if (fromExport && !dry) {
-      throw new Error('Can only dry run migrations from a dataset export file')
+    const report = flags.reportFile ? (flags.report ?? 'markdown') : flags.report
+    if (report && (!dry || toExport)) {
+      throw new Error('A report can only be made of dry runs')
+    }
+
+    if (report && flags.pending) {
+      throw new Error('A report can only be made when dry running a single migration')
     }
 
     const concurrency = flags.concurrency
@@ -167,35 +211,40 @@ const runMigrationCommand: CliCommandDefinition<CreateFlags> = {
       }
     }
 
-    const projectConfig = apiClient({
-      requireUser: true,
-      requireProject: false,
-    }).config()
+    if (fromExport && toExport) {
+      // runs fully offline, so there is no dataset to resolve, nor a ledger to record the migration in
+      const {migration: definition} = loadMigration(id)
+      await runOfflineMigration(id, definition, fromExport, toExport)
+      return
+    }
 
-    if (!project && !projectConfig.projectId) {
-      throw new Error(
-        'sanity.cli.js does not contain a project identifier ("api.projectId") and no --project option was provided.',
-      )
+    const apiConfig = getMigrationApiConfig(apiClient, {dataset, project, apiVersion})
+
+    if (flags.pending) {
+      await runPendingMigrations()
+      return
     }
 
-    const apiConfig = {
-      dataset: dataset ?? projectConfig.dataset!,
-      projectId: project ?? projectConfig.projectId!,
-      apiHost: projectConfig.apiHost!,
-      token: projectConfig.token!,
-      apiVersion: ensureApiVersionFormat(apiVersion ?? DEFAULT_API_VERSION),
-    } as const
+    const {migration, scriptPath} = loadMigration(id)
+
     if (dry) {
-      dryRunHandler()
+      await dryRunHandler(id, migration)
       return
     }
 
-    output.print(
-      `\n${chalk.yellow(chalk.bold('Note: During migrations, your webhooks stay active.'))}`,
-    )
-    output.print(
-      `To adjust them, launch the management interface with ${chalk.cyan('sanity manage')}, navigate to the API settings, and toggle the webhooks before and after the migration as needed.\n`,
+    const checksum = await getMigrationChecksum(workDir, scriptPath)
+    const applied = (await fetchMigrationLedger(apiConfig)).find(
+      (entry) => entry.migrationId === id,
     )
+    if (applied && !flags.force) {
+      throw new Error(
+        `Migration "${id}" was already applied to the ${apiConfig.dataset} dataset at ${applied.appliedAt}${
+          applied.checksum === checksum ? '' : ', and its source has changed since'
+        }. Pass --force to run it again.`,
+      )
+    }
+
+    printWebhooksNote()
 
     if (flags.confirm) {
       const response = await prompt.single<boolean>({
@@ -211,18 +260,199 @@ const runMigrationCommand: CliCommandDefinition<CreateFlags> = {
       }
     }
 
-    const spinner = output.spinner(`Running migration "${id}"`).start()
-    await run({api: apiConfig, concurrency, onProgress: createProgress(spinner)}, migration)
-    spinner.stop()
+    await runMigration(id, migration, checksum)
 
-    function createProgress(progressSpinner: ReturnType<typeof output.spinner>) {
+    function loadMigration(migrationId: string) {
+      const candidates = resolveMigrationScript(workDir, migrationId)
+      const resolvedScripts = candidates.filter(isLoadableMigrationScript)
+
+      if (resolvedScripts.length > 1) {
+        // todo: consider prompt user about which one to run? note: it's likely a mistake if multiple files resolve to the same name
+        throw new Error(
+          `Found multiple migrations for "${migrationId}" in ${chalk.cyan(migrationsDirectoryPath)}: \n - ${candidates
+            .map((candidate) => path.relative(migrationsDirectoryPath, candidate.absolutePath))
+            .join('\n - ')}`,
+        )
+      }
+
+      const script = resolvedScripts[0]
+      if (!script) {
+        throw new Error(
+          `No migration found for "${migrationId}" in ${chalk.cyan(chalk.cyan(migrationsDirectoryPath))}. Make sure that the migration file exists and exports a valid migration as its default export.\n
+ Tried the following files:\n - ${candidates
+   .map((candidate) => path.relative(migrationsDirectoryPath, candidate.absolutePath))
+   .join('\n - ')}`,
+        )
+      }
+
+      const mod = script.mod
+      if ('up' in mod || 'down' in mod) {
+        // todo: consider adding support for up/down as separate named exports
+        // For now, make sure we reserve the names for future use
+        throw new Error(
+          'Only "up" migrations are supported at this time, please use a default export',
+        )
+      }
+
+      return {migration: mod.default as Migration, scriptPath: script.absolutePath}
+    }
+
+    async function runPendingMigrations() {
+      const migrations = await resolveMigrations(workDir)
+      const checksums = new Map(
+        await Promise.all(
+          migrations.map(
+            async ({id: migrationId, scriptPath}) =>
+              [migrationId, await getMigrationChecksum(workDir, scriptPath)] as const,
+          ),
+        ),
+      )
+      const statuses = getMigrationStatus(
+        migrations.map(({id: migrationId}) => ({
+          id: migrationId,
+          checksum: checksums.get(migrationId)!,
+        })),
+        await fetchMigrationLedger(apiConfig),
+      )
+
+      const changed = statuses.filter(({state}) => state === 'changed')
+      if (changed.length > 0) {
+        throw new Error(
+          `The source of ${changed
+            .map(({id: migrationId}) => `"${migrationId}"`)
+            .join(', ')} has changed since it was applied to the ${
+            apiConfig.dataset
+          } dataset. Restore the applied source, or move the changes to a new migration, before running pending migrations.`,
+        )
+      }
+
+      const pending = statuses
+        .filter(({state}) => state === 'pending')
+        .map(({id: migrationId}) => migrations.find((candidate) => candidate.id === migrationId)!)
+      if (pending.length === 0) {
+        output.print(`No pending migrations for the ${chalk.bold(apiConfig.dataset)} dataset`)
+        return
+      }
+
+      if (dry) {
+        for (const pendingMigration of pending) {
+          await dryRunHandler(pendingMigration.id, pendingMigration.migration)
+          output.print()
+        }
+        return
+      }
+
+      printWebhooksNote()
+
+      if (flags.confirm) {
+        const response = await prompt.single<boolean>({
+          message: `${pending.length} pending migration(s) will run on the ${chalk.yellow(
+            chalk.bold(apiConfig.dataset),
+          )} dataset in ${chalk.yellow(chalk.bold(apiConfig.projectId))} project, in this order:\n${pending
+            .map((pendingMigration) => `  - ${pendingMigration.id}`)
+            .join('\n')}\nAre you sure?`,
+          type: 'confirm',
+        })
+
+        if (!response) {
+          debug('User aborted migrations')
+          return
+        }
+      }
+
+      for (const pendingMigration of pending) {
+        await runMigration(
+          pendingMigration.id,
+          pendingMigration.migration,
+          checksums.get(pendingMigration.id)!,
+        )
+      }
+    }
+
+    function printWebhooksNote() {
+      output.print(
+        `\n${chalk.yellow(chalk.bold('Note: During migrations, your webhooks stay active.'))}`,
+      )
+      output.print(
+        `To adjust them, launch the management interface with ${chalk.cyan('sanity manage')}, navigate to the API settings, and toggle the webhooks before and after the migration as needed.\n`,
+      )
+    }
+
+    async function runMigration(
+      migrationId: string,
+      definition: Migration,
+      migrationChecksum: string,
+    ) {
+      const spinner = output.spinner(`Running migration "${migrationId}"`).start()
+      await run(
+        {
+          api: apiConfig,
+          concurrency,
+          onProgress: createProgress(spinner, migrationId, definition),
+          ledger: {migrationId, checksum: migrationChecksum},
+          revertArchive,
+        },
+        definition,
+      )
+      spinner.stop()
+      if (revertArchive) {
+        output.print(
+          `Recorded the documents as they were before the migration to ${chalk.cyan(revertArchive)}. Run ${chalk.cyan(
+            `sanity migration revert ${revertArchive}`,
+          )} to undo the migration.`,
+        )
+      }
+    }
+
+    async function runOfflineMigration(
+      migrationId: string,
+      definition: Migration,
+      exportPath: string,
+      outputPath: string,
+    ) {
+      const spinner = output
+        .spinner(`Running migration "${migrationId}" on ${chalk.cyan(exportPath)}`)
+        .start()
+      const progress = await runOffline(
+        {
+          exportPath,
+          outputPath,
+          onProgress: (event) => {
+            if (!flags.progress) {
+              spinner.stop()
+              return
+            }
+            spinner.text = `Running migration "${migrationId}" on ${chalk.cyan(exportPath)}...
+
+  ${event.documents} documents processed…
+  ${event.mutations} mutations generated…`
+          },
+        },
+        definition,
+      )
+      spinner.text = `Migration "${migrationId}" completed.
+
+  Source:  ${chalk.cyan(exportPath)}
+  Output:  ${chalk.cyan(outputPath)}
+
+  ${progress.documents} documents processed.
+  ${progress.mutations} mutations generated.
+  ${chalk.green(progress.completedTransactions.length)} transactions applied.`
+      spinner.stopAndPersist({symbol: chalk.green('✔')})
+    }
+
+    function createProgress(
+      progressSpinner: ReturnType<typeof output.spinner>,
+      migrationId: string,
+      definition: Migration,
+    ) {
       return function onProgress(progress: MigrationProgress) {
         if (!flags.progress) {
           progressSpinner.stop()
           return
         }
         if (progress.done) {
-          progressSpinner.text = `Migration "${id}" completed.
+          progressSpinner.text = `Migration "${migrationId}" completed.
 
   Project id:  ${chalk.bold(apiConfig.projectId)}
   Dataset:     ${chalk.bold(apiConfig.dataset)}
@@ -235,11 +465,11 @@ const runMigrationCommand: CliCommandDefinition<CreateFlags> = {
         }
 
         ;[null, ...progress.currentTransactions].forEach((transaction) => {
-          progressSpinner.text = `Running migration "${id}" ${dry ? 'in dry mode...' : '...'}
+          progressSpinner.text = `Running migration "${migrationId}" ${dry ? 'in dry mode...' : '...'}
 
   Project id:     ${chalk.bold(apiConfig.projectId)}
   Dataset:        ${chalk.bold(apiConfig.dataset)}
-  Document type:  ${chalk.bold(migration.documentTypes?.join(','))}
+  Document type:  ${chalk.bold(definition.documentTypes?.join(','))}
 
   ${progress.documents} documents processed…
   ${progress.mutations} mutations generated…
@@ -248,15 +478,15 @@ const runMigrationCommand: CliCommandDefinition<CreateFlags> = {
 
   ${
     transaction && !progress.done
-      ? `» ${prettyFormat({chalk, subject: transaction, migration, indentSize: 2})}`
+      ? `» ${prettyFormat({chalk, subject: transaction, migration: definition, indentSize: 2})}`
       : ''
   }`
         })
       }
     }
 
-    async function dryRunHandler() {
-      output.print(`Running migration "${id}" in dry mode`)
+    async function dryRunHandler(migrationId: string, definition: Migration) {
+      output.print(`Running migration "${migrationId}" in dry mode`)
 
       if (fromExport) {
         output.print(`Using export ${chalk.cyan(fromExport)}`)
@@ -266,18 +496,62 @@ const runMigrationCommand: CliCommandDefinition<CreateFlags> = {
       output.print(`Project id:  ${chalk.bold(apiConfig.projectId)}`)
       output.print(`Dataset:     ${chalk.bold(apiConfig.dataset)}`)
 
-      for await (const mutation of dryRun({api: apiConfig, exportPath: fromExport}, migration)) {
+      if (report) {
+        await dryRunReportHandler(migrationId, definition, report)
+        return
+      }
+
+      for await (const mutation of dryRun({api: apiConfig, exportPath: fromExport}, definition)) {
         if (!mutation) continue
         output.print()
         output.print(
           prettyFormat({
             chalk,
             subject: mutation,
-            migration,
+            migration: definition,
           }),
         )
       }
     }
+
+    async function dryRunReportHandler(
+      migrationId: string,
+      definition: Migration,
+      format: DryRunReportFormat,
+    ) {
+      const spinner = output.spinner(`Applying the mutations of "${migrationId}"`).start()
+      const documents: DocumentReport[] = []
+      for await (const change of dryRunChanges(
+        {api: apiConfig, exportPath: fromExport},
+        definition,
+      )) {
+        documents.push(createDocumentReport(change))
+        spinner.text = `Applying the mutations of "${migrationId}"… ${documents.length} documents changed`
+      }
+      spinner.stop()
+
+      const formatted = formatDryRunReport(
+        {
+          migrationId,
+          title: definition.title,
+          projectId: apiConfig.projectId,
+          dataset: apiConfig.dataset,
+          exportPath: fromExport,
+          documents,
+          summary: summarizeDocumentReports(documents),
+        },
+        format,
+        chalk,
+      )
+
+      output.print()
+      if (flags.reportFile) {
+        await writeFile(flags.reportFile, formatted)
+        output.print(`Wrote dry run report to ${chalk.cyan(flags.reportFile)}`)
+      } else {
+        output.print(formatted)
+      }
+    }
   },
 }
 
@@ -0,0 +1,118 @@
+import {type CliCommandDefinition} from '@sanity/cli'
+import {fetchMigrationLedger, getMigrationStatus, type MigrationState} from '@sanity/migrate'
+import {Table} from 'console-table-printer'
+import {hideBin} from 'yargs/helpers'
+import yargs from 'yargs/yargs'
+
+import {DEFAULT_API_VERSION} from './constants'
+import {resolveMigrations} from './listMigrationsCommand'
+import {getMigrationApiConfig} from './utils/getMigrationApiConfig'
+import {getMigrationChecksum} from './utils/getMigrationChecksum'
+
+const helpText = `
+Options
+  --dataset <dataset> Dataset to show the status of. Defaults to the dataset configured in your Sanity CLI config.
+  --project <project id> Project ID of the dataset. Defaults to the projectId configured in your Sanity CLI config.
+  --api-version <version> API version to use when reading the migration ledger. Defaults to ${DEFAULT_API_VERSION}.
+
+Examples
+  # show which migrations have been applied to the configured dataset
+  sanity migration status
+
+  # show which migrations have been applied to another dataset
+  sanity migration status --project xyz --dataset staging
+`
+
+interface StatusFlags {
+  dataset?: string
+  project?: string
+  ['api-version']?: string
+}
+
+const STATE_LABELS: Record<MigrationState, string> = {
+  applied: 'Applied',
+  pending: 'Pending',
+  changed: 'Changed since applied',
+  missing: 'Applied, not found locally',
+}
+
+function parseCliFlags(args: {argv?: string[]}) {
+  return yargs(hideBin(args.argv || process.argv).slice(2))
+    .options('dataset', {type: 'string'})
+    .options('project', {type: 'string'})
+    .options('api-version', {type: 'string'}).argv
+}
+
+const statusMigrationCommand: CliCommandDefinition<StatusFlags> = {
+  name: 'status',
+  group: 'migration',
+  signature: '',
+  helpText,
+  description: 'Show which migrations have been applied to a dataset',
+  action: async (args, context) => {
+    const {apiClient, output, chalk, workDir} = context
+    const flags = await parseCliFlags(args)
+    const apiConfig = getMigrationApiConfig(apiClient, flags)
+
+    const migrations = await resolveMigrations(workDir)
+    const ledger = await fetchMigrationLedger(apiConfig)
+    const statuses = getMigrationStatus(
+      await Promise.all(
+        migrations.map(async ({id, scriptPath}) => ({
+          id,
+          checksum: await getMigrationChecksum(workDir, scriptPath),
+        })),
+      ),
+      ledger,
+    )
+
+    if (statuses.length === 0) {
+      output.print('No migrations found in migrations folder of the project')
+      return
+    }
+
+    const colors: Record<MigrationState, (text: string) => string> = {
+      applied: chalk.green,
+      pending: chalk.yellow,
+      changed: chalk.red,
+      missing: chalk.gray,
+    }
+    const table = new Table({
+      title: `Migrations of the ${apiConfig.dataset} dataset in project ${apiConfig.projectId}`,
+      columns: [
+        {name: 'id', title: 'ID', alignment: 'left'},
+        {name: 'title', title: 'Title', alignment: 'left'},
+        {name: 'status', title: 'Status', alignment: 'left'},
+        {name: 'appliedAt', title: 'Applied at', alignment: 'left'},
+        {name: 'mutations', title: 'Mutations', alignment: 'right'},
+      ],
+    })
+    statuses.forEach(({id, state, entry}) => {
+      table.addRow({
+        id,
+        title: migrations.find((migration) => migration.id === id)?.migration.title ?? entry?.title,
+        status: colors[state](STATE_LABELS[state]),
+        appliedAt: entry?.appliedAt ?? '',
+        mutations: entry?.mutations ?? '',
+      })
+    })
+    table.printTable()
+
+    const pending = statuses.filter(({state}) => state === 'pending')
+    const changed = statuses.filter(({state}) => state === 'changed')
+    if (changed.length > 0) {
+      output.print(
+        `\n${chalk.red(
+          `The source of ${changed.map(({id}) => `"${id}"`).join(', ')} has changed since it was applied.`,
+        )} Pending migrations will not run until this is resolved.`,
+      )
+    }
+    if (pending.length > 0) {
+      output.print(
+        `\nRun \`sanity migration run --pending --no-dry-run\` to apply ${pending.length} pending migration(s)`,
+      )
+    }
+  },
+}
+
+export default statusMigrationCommand
@@ -0,0 +1,128 @@
+import {type SanityDocument} from '@sanity/types'
+import chalk from 'chalk'
+import {describe, expect, it} from 'vitest'
+
+import {createDocumentReport, summarizeDocumentReports} from '../dryRunReport'
+import {formatDryRunReport} from '../formatDryRunReport'
+
+const post: SanityDocument = {
+  _id: 'post-1',
+  _type: 'post',
+  _rev: 'rev-1',
+  _createdAt: '2024-01-01T00:00:00Z',
+  _updatedAt: '2024-01-01T00:00:00Z',
+  title: 'Hello world',
+  slug: {_type: 'slug', current: 'hello'},
+  tags: [
+    {_key: 'a', name: 'news'},
+    {_key: 'b', name: 'tech'},
+  ],
+}
+
+describe('createDocumentReport', () => {
+  it('reports each changed field by its path', () => {
+    const report = createDocumentReport({
+      id: 'post-1',
+      before: post,
+      after: {
+        ...post,
+        _rev: 'rev-2',
+        _updatedAt: '2024-02-01T00:00:00Z',
+        title: 'Hello there',
+        slug: {_type: 'slug', current: 'hello-there'},
+        tags: [{_key: 'a', name: 'news'}],
+        author: 'Ada',
+      },
+    })
+
+    expect(report.action).toBe('updated')
+    expect(report.type).toBe('post')
+    expect(report.fields.map(({path, action}) => [path, action])).toEqual(
+      expect.arrayContaining([
+        ['title', 'changed'],
+        ['slug.current', 'changed'],
+        ['tags[_key=="b"]', 'removed'],
+        ['author', 'added'],
+      ]),
+    )
+    expect(report.fields).toHaveLength(4)
+    expect(report.fields.find((field) => field.path === 'title')?.segments).toBeDefined()
+  })
+
+  it('reports documents that are created, deleted or left as they are', () => {
+    expect(createDocumentReport({id: 'post-1', before: null, after: post}).action).toBe('created')
+    expect(createDocumentReport({id: 'post-1', before: post, after: null}).action).toBe('deleted')
+    expect(
+      createDocumentReport({id: 'post-1', before: post, after: {...post, _rev: 'rev-2'}}).action,
+    ).toBe('unchanged')
+  })
+})
+
+describe('summarizeDocumentReports', () => {
+  it('counts documents by type and action', () => {
+    const documents = [
+      createDocumentReport({id: 'post-1', before: post, after: {...post, title: 'Changed'}}),
+      createDocumentReport({id: 'post-2', before: {...post, _id: 'post-2'}, after: null}),
+      createDocumentReport({
+        id: 'author-1',
+        before: null,
+        after: {...post, _id: 'author-1', _type: 'author'},
+      }),
+    ]
+
+    expect(summarizeDocumentReports(documents)).toEqual([
+      {type: 'author', created: 1, updated: 0, deleted: 0, unchanged: 0},
+      {type: 'post', created: 0, updated: 1, deleted: 1, unchanged: 0},
+    ])
+  })
+})
+
+describe('formatDryRunReport', () => {
+  const documents = [
+    createDocumentReport({
+      id: 'post-1',
+      before: post,
+      after: {...post, title: '<b>Hello</b> | world'},
+    }),
+  ]
+  const report = {
+    migrationId: 'rename-titles',
+    title: 'Rename titles',
+    projectId: 'xyz',
+    dataset: 'production',
+    documents,
+    summary: summarizeDocumentReports(documents),
+  }
+
+  it('formats the report as Markdown', () => {
+    const markdown = formatDryRunReport(report, 'markdown', chalk)
+    expect(markdown).toContain('| `post` | 0 | 1 | 0 | 0 |')
+    expect(markdown).toContain('| `title` | `"Hello world"` | `"<b>Hello</b> \\| world"` |')
+  })
+
+  it('keeps backticks in Markdown code spans', () => {
+    const withBackticks = [
+      createDocumentReport({
+        id: 'post-`1`',
+        before: {...post, _id: 'post-`1`'},
+        after: {...post, _id: 'post-`1`', title: 'Use ``code``'},
+      }),
+    ]
+    const markdown = formatDryRunReport(
+      {...report, documents: withBackticks, summary: summarizeDocumentReports(withBackticks)},
+      'markdown',
+      chalk,
+    )
+    expect(markdown).toContain('## `` post-`1` ``')
+    expect(markdown).toContain('| `title` | `"Hello world"` | ```"Use ``code``"``` |')
+  })
+
+  it('formats the report as self-contained HTML', () => {
+    const html = formatDryRunReport(report, 'html', chalk)
+    expect(html).toMatch(/^<!DOCTYPE html>/)
+    expect(html).toContain('<style>')
+    expect(html).not.toContain('<b>Hello</b>')
+    expect(html).toContain('&lt;b&gt;')
+    expect(html).not.toMatch(/<(link|script)/)
+  })
+})
@@ -0,0 +1,131 @@
+import {type Diff, diffInput, type StringDiffSegment, wrap} from '@sanity/diff'
+import {type DryRunDocumentChange} from '@sanity/migrate'
+import {type Path} from '@sanity/types'
+import {toString as pathToString} from '@sanity/util/paths'
+
+/**
+ * Fields set by the Content Lake on every write, which would otherwise show up as changed on every document
+ */
+const IGNORED_FIELDS = ['_rev', '_updatedAt']
+
+export type DocumentAction = 'created' | 'updated' | 'deleted' | 'unchanged'
+
+export interface FieldChange {
+  path: string
+  action: 'added' | 'removed' | 'changed' | 'moved'
+  fromValue: unknown
+  toValue: unknown
+  /**
+   * Which portions of a changed string value were added and removed
+   */
+  segments?: StringDiffSegment<null>[]
+}
+
+export interface DocumentReport {
+  id: string
+  type: string
+  action: DocumentAction
+  fields: FieldChange[]
+}
+
+export type TypeSummary = {type: string} & Record<DocumentAction, number>
+
+export interface DryRunReport {
+  migrationId: string
+  title: string
+  projectId: string
+  dataset: string
+  /**
+   * Path of the dataset export the migration ran on, if any
+   */
+  exportPath?: string
+  documents: DocumentReport[]
+  summary: TypeSummary[]
+}
+
+export function createDocumentReport({id, before, after}: DryRunDocumentChange): DocumentReport {
+  const type = after?._type ?? before?._type ?? 'unknown'
+  const diff = diffInput(
+    wrap(withoutIgnoredFields(before ?? {}), null),
+    wrap(withoutIgnoredFields(after ?? {}), null),
+  )
+  const fields = collectFieldChanges(diff, [])
+
+  let action: DocumentAction = 'updated'
+  if (!before && after) action = 'created'
+  else if (before && !after) action = 'deleted'
+  else if (fields.length === 0) action = 'unchanged'
+
+  return {id, type, action, fields}
+}
+
+export function summarizeDocumentReports(documents: DocumentReport[]): TypeSummary[] {
+  const byType = new Map<string, TypeSummary>()
+  for (const document of documents) {
+    const summary = byType.get(document.type) ?? {
+      type: document.type,
+      created: 0,
+      updated: 0,
+      deleted: 0,
+      unchanged: 0,
+    }
+    summary[document.action]++
+    byType.set(document.type, summary)
+  }
+  return [...byType.values()].sort((a, b) => a.type.localeCompare(b.type))
+}
+
+function collectFieldChanges(diff: Diff<null>, path: Path): FieldChange[] {
+  if (!diff.isChanged) {
+    return []
+  }
+
+  // descend into objects and arrays that were changed in place, to report the individual fields that changed
+  if (diff.action === 'changed' && diff.type === 'object') {
+    return Object.entries(diff.fields).flatMap(([field, fieldDiff]) =>
+      collectFieldChanges(fieldDiff, [...path, field]),
+    )
+  }
+  if (diff.action === 'changed' && diff.type === 'array') {
+    return diff.items.flatMap((item) => {
+      const index = (item.toIndex ?? item.fromIndex) as number
+      const value = item.diff.toValue ?? item.diff.fromValue
+      const itemPath = [...path, hasKey(value) ? {_key: value._key} : index]
+      if (item.hasMoved && !item.diff.isChanged) {
+        return [
+          {
+            path: pathToString(itemPath),
+            action: 'moved' as const,
+            fromValue: item.fromIndex,
+            toValue: item.toIndex,
+          },
+        ]
+      }
+      return collectFieldChanges(item.diff, itemPath)
+    })
+  }
+
+  return [
+    {
+      path: pathToString(path),
+      action: diff.action,
+      fromValue: diff.fromValue,
+      toValue: diff.toValue,
+      segments: diff.type === 'string' && diff.action === 'changed' ? diff.segments : undefined,
+    },
+  ]
+}
+
+function withoutIgnoredFields(document: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(document).filter(([field]) => !IGNORED_FIELDS.includes(field)),
+  )
+}
+
+function hasKey(value: unknown): value is {_key: string} {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as {_key?: unknown})._key === 'string'
+  )
+}
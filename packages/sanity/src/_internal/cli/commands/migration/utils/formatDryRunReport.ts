@@ -0,0 +1,269 @@
+import {type Chalk} from 'chalk'
+
+import {
+  type DocumentAction,
+  type DocumentReport,
+  type DryRunReport,
+  type FieldChange,
+} from './dryRunReport'
+
+export type DryRunReportFormat = 'terminal' | 'markdown' | 'html'
+
+export const DRY_RUN_REPORT_FORMATS: DryRunReportFormat[] = ['terminal', 'markdown', 'html']
+
+const ACTIONS: DocumentAction[] = ['created', 'updated', 'deleted', 'unchanged']
+
+export function formatDryRunReport(
+  report: DryRunReport,
+  format: DryRunReportFormat,
+  chalk: Chalk,
+): string {
+  switch (format) {
+    case 'markdown':
+      return formatMarkdown(report)
+    case 'html':
+      return formatHtml(report)
+    default:
+      return formatTerminal(report, chalk)
+  }
+}
+
+function formatTerminal(report: DryRunReport, chalk: Chalk): string {
+  const actionColors: Record<DocumentAction, (str: string) => string> = {
+    created: chalk.green,
+    updated: chalk.yellow,
+    deleted: chalk.red,
+    unchanged: chalk.gray,
+  }
+
+  const documents = changedDocuments(report).map((document) =>
+    [
+      `${actionColors[document.action](chalk.bold(document.action))} ${chalk.underline(
+        document.id,
+      )} ${chalk.gray(`(${document.type})`)}`,
+      ...document.fields.map((field) => `  ${formatFieldForTerminal(field, chalk)}`),
+    ].join('\n'),
+  )
+
+  const summary = report.summary.map(
+    (row) =>
+      `  ${chalk.bold(row.type)}: ${ACTIONS.map((action) =>
+        actionColors[action](`${row[action]} ${action}`),
+      ).join(', ')}`,
+  )
+
+  return [
+    chalk.bold(`Dry run of migration "${report.migrationId}": ${report.title}`),
+    ...documents,
+    [chalk.bold('Summary'), ...(summary.length > 0 ? summary : ['  No documents changed'])].join(
+      '\n',
+    ),
+  ].join('\n\n')
+}
+
+function formatFieldForTerminal(field: FieldChange, chalk: Chalk): string {
+  const path = chalk.bold(field.path)
+  switch (field.action) {
+    case 'added':
+      return `${path} ${chalk.green(`+ ${formatValue(field.toValue)}`)}`
+    case 'removed':
+      return `${path} ${chalk.red(`- ${formatValue(field.fromValue)}`)}`
+    case 'moved':
+      return `${path} ${chalk.yellow(`moved from index ${field.fromValue} to ${field.toValue}`)}`
+    default:
+      // without colors, the added and removed portions of a string can't be told apart
+      if (field.segments && chalk.level > 0) {
+        return `${path} ${field.segments
+          .map((segment) => {
+            if (segment.action === 'added') return chalk.green.underline(segment.text)
+            if (segment.action === 'removed') return chalk.red.strikethrough(segment.text)
+            return segment.text
+          })
+          .join('')}`
+      }
+      return `${path} ${chalk.red(formatValue(field.fromValue))} → ${chalk.green(
+        formatValue(field.toValue),
+      )}`
+  }
+}
+
+function formatMarkdown(report: DryRunReport): string {
+  const lines = [
+    `# Dry run of migration ${markdownCode(report.migrationId)}`,
+    '',
+    report.title,
+    '',
+    `- Project ID: ${markdownCode(report.projectId)}`,
+    `- Dataset: ${markdownCode(report.dataset)}`,
+    ...(report.exportPath ? [`- Export: ${markdownCode(report.exportPath)}`] : []),
+    '',
+    '## Summary',
+    '',
+    `| Document type | ${ACTIONS.map(capitalize).join(' | ')} |`,
+    `| --- | ${ACTIONS.map(() => '---:').join(' | ')} |`,
+    ...report.summary.map(
+      (row) =>
+        `| ${markdownCell(row.type)} | ${ACTIONS.map((action) => row[action]).join(' | ')} |`,
+    ),
+  ]
+
+  for (const document of changedDocuments(report)) {
+    lines.push(
+      '',
+      `## ${markdownCode(document.id)}`,
+      '',
+      `${capitalize(document.action)} ${markdownCode(document.type)}`,
+      '',
+      '| Field | Before | After |',
+      '| --- | --- | --- |',
+      ...document.fields.map((field) => {
+        const [before, after] = describeField(field)
+        return `| ${markdownCell(field.path)} | ${markdownCell(before)} | ${markdownCell(after)} |`
+      }),
+    )
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+function markdownCell(value: string | undefined): string {
+  return value === undefined ? '' : markdownCode(value.replace(/\|/g, '\\|').replace(/\n/g, ' '))
+}
+
+// The code span is fenced with more backticks than the value has in a row, so backticks in the value show as is
+function markdownCode(value: string): string {
+  const fence = '`'.repeat(Math.max(0, ...(value.match(/`+/g) ?? []).map((run) => run.length)) + 1)
+  const padding = value.startsWith('`') || value.endsWith('`') ? ' ' : ''
+  return `${fence}${padding}${value}${padding}${fence}`
+}
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; margin: 2em; color: #1f2328; }
+  table { border-collapse: collapse; margin: 1em 0; }
+  th, td { border: 1px solid #d0d7de; padding: 0.4em 0.8em; text-align: left; vertical-align: top; }
+  td.count { text-align: right; }
+  code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em; }
+  pre { margin: 0; white-space: pre-wrap; word-break: break-word; }
+  ins { background: #dafbe1; text-decoration: none; }
+  del { background: #ffebe9; }
+  .created { color: #1a7f37; }
+  .updated { color: #9a6700; }
+  .deleted { color: #cf222e; }
+  .unchanged { color: #656d76; }
+`
+
+function formatHtml(report: DryRunReport): string {
+  const summaryRows = report.summary
+    .map(
+      (row) =>
+        `<tr><td><code>${escapeHtml(row.type)}</code></td>${ACTIONS.map(
+          (action) => `<td class="count">${row[action]}</td>`,
+        ).join('')}</tr>`,
+    )
+    .join('\n')
+
+  const documents = changedDocuments(report)
+    .map(
+      (document) => `<section>
+<h2><code>${escapeHtml(document.id)}</code></h2>
+<p><span class="${document.action}">${capitalize(document.action)}</span> <code>${escapeHtml(
+        document.type,
+      )}</code></p>
+<table>
+<thead><tr><th>Field</th><th>Before</th><th>After</th></tr></thead>
+<tbody>
+${document.fields.map(formatFieldForHtml).join('\n')}
+</tbody>
+</table>
+</section>`,
+    )
+    .join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Dry run of migration ${escapeHtml(report.migrationId)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>Dry run of migration <code>${escapeHtml(report.migrationId)}</code></h1>
+<p>${escapeHtml(report.title)}</p>
+<ul>
+<li>Project ID: <code>${escapeHtml(report.projectId)}</code></li>
+<li>Dataset: <code>${escapeHtml(report.dataset)}</code></li>
+${report.exportPath ? `<li>Export: <code>${escapeHtml(report.exportPath)}</code></li>\n` : ''}</ul>
+<h2>Summary</h2>
+<table>
+<thead><tr><th>Document type</th>${ACTIONS.map((action) => `<th>${capitalize(action)}</th>`).join(
+    '',
+  )}</tr></thead>
+<tbody>
+${summaryRows}
+</tbody>
+</table>
+${documents}
+</body>
+</html>
+`
+}
+
+function formatFieldForHtml(field: FieldChange): string {
+  const path = `<td><code>${escapeHtml(field.path)}</code></td>`
+  const segments = field.segments
+  if (segments) {
+    const side = (action: 'added' | 'removed') =>
+      segments
+        .filter((segment) => segment.action !== action)
+        .map((segment) => {
+          const text = escapeHtml(segment.text)
+          if (segment.action === 'removed') return `<del>${text}</del>`
+          if (segment.action === 'added') return `<ins>${text}</ins>`
+          return text
+        })
+        .join('')
+    return `<tr>${path}<td><pre>${side('added')}</pre></td><td><pre>${side('removed')}</pre></td></tr>`
+  }
+
+  const [before, after] = describeField(field)
+  return `<tr>${path}<td>${
+    before === undefined ? '' : `<pre><del>${escapeHtml(before)}</del></pre>`
+  }</td><td>${after === undefined ? '' : `<pre><ins>${escapeHtml(after)}</ins></pre>`}</td></tr>`
+}
+
+/**
+ * Describes a field change as its value before and after, where a value that doesn't exist is `undefined`
+ */
+function describeField(field: FieldChange): [string | undefined, string | undefined] {
+  switch (field.action) {
+    case 'added':
+      return [undefined, formatValue(field.toValue)]
+    case 'removed':
+      return [formatValue(field.fromValue), undefined]
+    case 'moved':
+      return [`index ${field.fromValue}`, `index ${field.toValue}`]
+    default:
+      return [formatValue(field.fromValue), formatValue(field.toValue)]
+  }
+}
+
+function changedDocuments(report: DryRunReport): DocumentReport[] {
+  return report.documents.filter((document) => document.action !== 'unchanged')
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value) ?? 'undefined'
+}
+
+function capitalize(str: string): string {
+  return `${str.charAt(0).toUpperCase()}${str.slice(1)}`
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
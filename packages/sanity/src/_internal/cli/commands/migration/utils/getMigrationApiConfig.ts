@@ -0,0 +1,48 @@
+import {type CliApiClient} from '@sanity/cli'
+import {type APIConfig} from '@sanity/migrate'
+
+import {DEFAULT_API_VERSION} from '../constants'
+import {ensureApiVersionFormat} from './ensureApiVersionFormat'
+
+interface MigrationApiFlags {
+  dataset?: string
+  project?: string
+  apiVersion?: string
+}
+
+/**
+ * Resolves the API configuration of the dataset to migrate, from the CLI flags or the project's CLI config.
+ * If either `--dataset` or `--project` is given, both must be.
+ *
+ * @param apiClient - The CLI's API client factory
+ * @param flags - The `--dataset`, `--project` and `--api-version` flags
+ * @returns The API configuration
+ * @internal
+ */
+export function getMigrationApiConfig(
+  apiClient: CliApiClient,
+  {dataset, project, apiVersion}: MigrationApiFlags,
+): APIConfig {
+  if ((dataset && !project) || (project && !dataset)) {
+    throw new Error('If either --dataset or --project is provided, both must be provided')
+  }
+
+  const projectConfig = apiClient({
+    requireUser: true,
+    requireProject: false,
+  }).config()
+
+  if (!project && !projectConfig.projectId) {
+    throw new Error(
+      'sanity.cli.js does not contain a project identifier ("api.projectId") and no --project option was provided.',
+    )
+  }
+
+  return {
+    dataset: dataset ?? projectConfig.dataset!,
+    projectId: project ?? projectConfig.projectId!,
+    apiHost: projectConfig.apiHost!,
+    token: projectConfig.token!,
+    apiVersion: ensureApiVersionFormat(apiVersion ?? DEFAULT_API_VERSION),
+  }
+}
@@ -0,0 +1,42 @@
+import {createHash} from 'node:crypto'
+import {readdir, readFile} from 'node:fs/promises'
+import path from 'node:path'
+
+import {MIGRATIONS_DIRECTORY} from '../constants'
+
+/**
+ * Computes a checksum of a migration's source, as recorded in the migration ledger.
+ * For a migration in its own directory (`<migrationsDir>/<migrationName>/index.<ext>`), every file in the
+ * directory is included, so changing a helper module changes the checksum too.
+ *
+ * @param workDir - Working directory of the studio
+ * @param scriptPath - Absolute path to the migration script
+ * @returns The SHA-256 checksum, hex encoded
+ * @internal
+ */
+export async function getMigrationChecksum(workDir: string, scriptPath: string): Promise<string> {
+  const scriptDir = path.dirname(scriptPath)
+  const isDirectoryMigration = scriptDir !== path.resolve(workDir, MIGRATIONS_DIRECTORY)
+  const files = isDirectoryMigration ? await listFiles(scriptDir) : [scriptPath]
+
+  const hash = createHash('sha256')
+  for (const file of files) {
+    // Include the path, so renaming or moving a file changes the checksum
+    hash.update(path.relative(scriptDir, file).split(path.sep).join('/'))
+    hash.update('\0')
+    hash.update(await readFile(file))
+    hash.update('\0')
+  }
+  return hash.digest('hex')
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, {withFileTypes: true})
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const entryPath = path.join(dir, entry.name)
+      return entry.isDirectory() ? listFiles(entryPath) : [entryPath]
+    }),
+  )
+  return files.flat().sort()
+}
@@ -285,6 +285,10 @@ export function prepareConfig(
 }
 
 function getAuthStore(source: SourceOptions): AuthStore {
+  if (source.unstable_backend) {
+    return source.unstable_backend.auth
+  }
+
   if (isAuthStore(source.auth)) {
     return source.auth
   }
@@ -324,7 +328,7 @@ function resolveSource({
   i18n,
 }: ResolveSourceOptions): Source {
   const {dataset, projectId} = config
-  const bifur = getBifurClient(client, auth)
+  const bifur = config.unstable_backend?.bifur ?? getBifurClient(client, auth)
   const errors: unknown[] = []
   const clients: Record<string, SanityClient> = {}
   const getClient = (options: SourceClientOptions): SanityClient => {
@@ -726,7 +730,10 @@ function resolveSource({
     },
     // eslint-disable-next-line camelcase
     __internal_serverDocumentActions: {
-      enabled: serverDocumentActionsReducer({config, initialValue: undefined}),
+      // Backends other than the Content Lake do not implement the Actions API
+      enabled: config.unstable_backend
+        ? false
+        : serverDocumentActionsReducer({config, initialValue: undefined}),
     },
 
     announcements: {
@@ -572,6 +572,33 @@ export interface SourceOptions extends PluginOptions {
    * @beta
    */
   unstable_clientFactory?: (options: SanityClientConfig) => SanityClient
+
+  /**
+   * A backend to run against instead of the Content Lake, such as one served in the browser.
+   * Takes precedence over `auth`, and disables server-side document actions.
+   *
+   * @hidden
+   * @beta
+   */
+  unstable_backend?: StudioBackend
+}
+
+/**
+ * A backend the studio runs against instead of the Content Lake.
+ *
+ * @hidden
+ * @beta
+ */
+export interface StudioBackend {
+  /**
+   * Signs in the user, and provides the client that serves every request of the studio.
+   */
+  auth: AuthStore
+
+  /**
+   * The realtime connection used for presence.
+   */
+  bifur: BifurClient
 }
 
 /**